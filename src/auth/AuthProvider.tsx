@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { resetJournal } from '@/lib/journalCrypto';
 
 interface AuthContextType {
   user: User | null;
@@ -27,6 +28,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        // The private journal key must not outlive the session
+        if (event === 'SIGNED_OUT') resetJournal();
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
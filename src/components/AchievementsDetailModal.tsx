@@ -1,8 +1,12 @@
 import React from 'react';
-import { X, Trophy, Target, Star, Lock } from 'lucide-react';
+import { X, Trophy, Target, Star, Lock, Flag } from 'lucide-react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
 import { Achievement } from '@/types/fortune';
+import { sortByUnlockDate } from '@/lib/achievements';
+import { challengeBadges } from '@/lib/challenges';
+import { useChallenges } from '@/hooks/useChallenges';
 
 interface AchievementsDetailModalProps {
   isOpen: boolean;
@@ -11,8 +15,10 @@ interface AchievementsDetailModalProps {
 }
 
 export const AchievementsDetailModal = ({ isOpen, onClose, achievements }: AchievementsDetailModalProps) => {
-  const earnedAchievements = achievements.filter(a => a.state === 'earned');
+  const earnedAchievements = sortByUnlockDate(achievements);
   const lockedAchievements = achievements.filter(a => a.state === 'locked');
+  const { challenges } = useChallenges();
+  const badges = challengeBadges(challenges);
   
   const getProgressPercentage = (achievement: Achievement) => {
     if (!achievement.progress) return 0;
@@ -81,7 +87,11 @@ export const AchievementsDetailModal = ({ isOpen, onClose, achievements }: Achie
                         </p>
                         <div className="flex items-center gap-2 text-xs text-emerald">
                           <Star className="h-3 w-3" />
-                          <span>Completed!</span>
+                          <span>
+                            {achievement.unlockedAt
+                              ? `Unlocked ${format(new Date(achievement.unlockedAt), 'MMM d, yyyy')}`
+                              : 'Completed!'}
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -92,6 +102,32 @@ export const AchievementsDetailModal = ({ isOpen, onClose, achievements }: Achie
             </div>
           )}
 
+          {/* Challenge Badges */}
+          {badges.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <Flag className="h-5 w-5 text-gold" />
+                Challenge Badges ({badges.length})
+              </h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {badges.map((challenge) => (
+                  <div
+                    key={challenge.id}
+                    className="p-4 rounded-xl bg-gradient-to-br from-gold/15 to-emerald/15 border border-gold/30 text-center"
+                  >
+                    <div className="text-3xl mb-2">{challenge.icon}</div>
+                    <h4 className="font-heading font-semibold text-sm text-gold">{challenge.title}</h4>
+                    {challenge.completedAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(challenge.completedAt), 'MMM yyyy')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Locked Achievements */}
           {lockedAchievements.length > 0 && (
             <div className="space-y-4">
@@ -123,7 +159,7 @@ export const AchievementsDetailModal = ({ isOpen, onClose, achievements }: Achie
                             <div className="space-y-2">
                               <div className="flex justify-between text-xs">
                                 <span className="text-muted-foreground">
-                                  Progress: {achievement.progress || 0}/{achievement.requiredCount}
+                                  Progress: {Math.floor(achievement.progress || 0)}/{achievement.requiredCount}
                                 </span>
                                 <span className="text-muted-foreground">
                                   {progressPercentage.toFixed(0)}%
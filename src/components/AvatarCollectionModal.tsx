@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Lock, Check } from '@phosphor-icons/react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAvatarCollection } from '@/hooks/useAvatarCollection';
+import { describeAvatarUnlock, selectAvatar, type CollectionAvatar } from '@/lib/avatars';
+
+interface AvatarCollectionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * All avatars, unlocked by level, achievements or plan. Any unlocked one can be shown on the profile.
+ */
+export const AvatarCollectionModal = ({ isOpen, onClose }: AvatarCollectionModalProps) => {
+  const { avatars } = useAvatarCollection();
+  const { toast } = useToast();
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const unlockedCount = avatars.filter((avatar) => avatar.unlocked).length;
+  const hasSelection = avatars.some((avatar) => avatar.selected);
+
+  const choose = async (avatar: CollectionAvatar | null) => {
+    setSavingId(avatar?.id ?? 'level');
+    try {
+      await selectAvatar(avatar?.id ?? null);
+      toast({ title: avatar ? `${avatar.title ?? 'Avatar'} selected` : 'Your avatar follows your level again' });
+    } catch (error) {
+      console.error('[AVATARS] Failed to select avatar:', error);
+      toast({ title: "Couldn't change your avatar", description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Avatar Collection</DialogTitle>
+          <DialogDescription>
+            {unlockedCount} of {avatars.length} unlocked. Pick one to show on your profile, to friends and in groups.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasSelection && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="self-start"
+            disabled={savingId !== null}
+            onClick={() => choose(null)}
+          >
+            Follow my level
+          </Button>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {avatars.map((avatar) => (
+            <button
+              key={avatar.id}
+              type="button"
+              disabled={!avatar.unlocked || avatar.displayed || savingId !== null}
+              onClick={() => choose(avatar)}
+              className={`relative rounded-xl overflow-hidden border text-left transition-all ${
+                avatar.displayed
+                  ? 'border-gold ring-2 ring-gold/50'
+                  : avatar.unlocked
+                    ? 'border-border/50 hover:border-gold/60 hover:scale-[1.02]'
+                    : 'border-border/30 cursor-not-allowed'
+              }`}
+            >
+              <img
+                src={avatar.url}
+                alt={avatar.title ?? 'Avatar'}
+                className={`w-full aspect-square object-cover ${avatar.unlocked ? '' : 'grayscale opacity-40'}`}
+              />
+              {!avatar.unlocked && (
+                <div className="absolute top-2 right-2 w-7 h-7 rounded-full bg-black/60 flex items-center justify-center">
+                  <Lock size={14} className="text-white" />
+                </div>
+              )}
+              {avatar.displayed && (
+                <div className="absolute top-2 right-2 w-7 h-7 rounded-full bg-gold flex items-center justify-center">
+                  <Check size={14} weight="bold" className="text-rich-black" />
+                </div>
+              )}
+              <div className="p-2">
+                <p className="text-sm font-medium truncate">{avatar.title ?? 'Avatar'}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {avatar.unlocked
+                    ? avatar.displayed ? 'Showing' : 'Unlocked'
+                    : describeAvatarUnlock(avatar)}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
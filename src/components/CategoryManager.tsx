@@ -1,66 +1,142 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Plus, X, Pencil, CurrencyDollar } from '@phosphor-icons/react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Plus, X, CurrencyDollar, ArrowElbowDownRight, Pencil, ArrowsMerge, Archive, ArrowCounterClockwise, Ruler } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/auth/AuthProvider';
-
-interface CustomCategory {
-  id: string;
-  name: string;
-  hasNumericValue: boolean;
-  color: string;
-  user_id: string;
-}
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { emitAppEvent } from '@/lib/appEvents';
+import {
+  DEFAULT_CATEGORY_NAMES,
+  buildCategoryTree,
+  getCategoryUsage,
+  listCustomCategories,
+  setCategoryArchived,
+  type CategoryTreeNode,
+  type CategoryUsage,
+  type CustomCategoryRow,
+} from '@/lib/categories';
+import { CategoryOperationDialog, type CategoryOperation } from '@/components/CategoryOperationDialog';
+import { CategoryUnitFields, type CategoryUnitFieldValues } from '@/components/CategoryUnitFields';
+import { VALUE_UNITS, parseValueRange, resolveValueType } from '@/lib/valueUnits';
 
 interface CategoryManagerProps {
   onCategoriesChange: (categories: string[]) => void;
 }
 
-const defaultCategories = ['Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other'];
+// Select value for "no parent"; Radix Select doesn't allow an empty string
+const TOP_LEVEL = '__top_level__';
+
+const DEFAULT_UNIT_FIELDS: CategoryUnitFieldValues = { unit: 'currency', min: '', max: '' };
 
 export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) => {
-  const [categories, setCategories] = useState<CustomCategory[]>([]);
+  const [categories, setCategories] = useState<CustomCategoryRow[]>([]);
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryParent, setNewCategoryParent] = useState(TOP_LEVEL);
   const [newCategoryHasValue, setNewCategoryHasValue] = useState(false);
+  const [newCategoryUnit, setNewCategoryUnit] = useState<CategoryUnitFieldValues>(DEFAULT_UNIT_FIELDS);
   const [newCategoryColor, setNewCategoryColor] = useState('#6B8F71');
-  const [editingId, setEditingId] = useState<string | null>(null);
+  const [usage, setUsage] = useState<Map<string, CategoryUsage>>(new Map());
+  const [operation, setOperation] = useState<CategoryOperation | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
+  // Callers pass inline callbacks; keeping it in a ref stops every render from refetching
+  const onCategoriesChangeRef = useRef(onCategoriesChange);
+  onCategoriesChangeRef.current = onCategoriesChange;
+
+  const tree = useMemo(() => buildCategoryTree(categories.filter(cat => !cat.archived_at)), [categories]);
+  const archived = useMemo(() => categories.filter(cat => cat.archived_at), [categories]);
+  // An orphaned subcategory is listed at the top level but still can't take children
+  const canHaveChildren = (node: CategoryTreeNode) => !node.row?.parent_name;
+
   const fetchCategories = useCallback(async () => {
     try {
       if (!user) return;
 
-      const { data } = await supabase
-        .from('custom_categories')
-        .select('*')
-        .eq('user_id', user.id);
-
-      if (data) {
-        const transformedCategories = data.map(cat => ({
-          ...cat,
-          hasNumericValue: cat.has_numeric_value
-        }));
-        setCategories(transformedCategories);
-        
-        const allCategories = [...defaultCategories, ...transformedCategories.map(cat => cat.name)];
-        onCategoriesChange(allCategories);
-      }
+      const [data, counts] = await Promise.all([
+        listCustomCategories(user.id),
+        // Only used for previews and to guard deletes; the list works without it
+        getCategoryUsage().catch((error) => {
+          console.warn('[CATEGORIES] Could not load usage counts:', error);
+          return new Map<string, CategoryUsage>();
+        }),
+      ]);
+      setCategories(data);
+      setUsage(counts);
+      onCategoriesChangeRef.current([...DEFAULT_CATEGORY_NAMES, ...data.map(cat => cat.name)]);
     } catch (error) {
       console.error('Error fetching categories:', error);
     }
-  }, [user, onCategoriesChange]);
+  }, [user]);
 
   useEffect(() => {
     fetchCategories();
   }, [fetchCategories]);
 
+  useAppEvent('categoriesChanged', fetchCategories);
+
+  const resetForm = () => {
+    setIsAddingNew(false);
+    setNewCategoryName('');
+    setNewCategoryParent(TOP_LEVEL);
+    setNewCategoryHasValue(false);
+    setNewCategoryUnit(DEFAULT_UNIT_FIELDS);
+    setNewCategoryColor('#6B8F71');
+  };
+
+  const startAdding = (parentName: string | null) => {
+    const parent = parentName ? tree.find(node => node.name === parentName) : undefined;
+    setNewCategoryParent(parentName ?? TOP_LEVEL);
+    // Subcategories of Wealth (or another numeric category) usually carry amounts too
+    setNewCategoryHasValue(parentName === 'Wealth' || !!parent?.row?.has_numeric_value);
+    // ...in the parent's unit
+    setNewCategoryUnit(
+      parent?.row?.has_numeric_value
+        ? {
+            unit: resolveValueType(parent.row.value_unit).unit,
+            min: parent.row.value_min?.toString() ?? '',
+            max: parent.row.value_max?.toString() ?? '',
+          }
+        : DEFAULT_UNIT_FIELDS
+    );
+    if (parent?.row) setNewCategoryColor(parent.row.color);
+    setIsAddingNew(true);
+  };
+
   const handleAddCategory = async () => {
-    if (!newCategoryName.trim()) return;
+    const name = newCategoryName.trim();
+    if (!name) return;
+
+    // Fortunes store the leaf name only, so names must be unique across the whole tree
+    const taken = [...DEFAULT_CATEGORY_NAMES, ...categories.map(cat => cat.name)]
+      .some(existing => existing.toLowerCase() === name.toLowerCase());
+    if (taken) {
+      toast({
+        title: "Category exists",
+        description: `"${name}" is already one of your categories`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let range: ReturnType<typeof parseValueRange> = { value_min: null, value_max: null };
+    if (newCategoryHasValue) {
+      try {
+        range = parseValueRange(newCategoryUnit.unit, newCategoryUnit.min, newCategoryUnit.max);
+      } catch (error) {
+        toast({
+          title: "Invalid range",
+          description: error instanceof Error ? error.message : "Check the minimum and maximum",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
 
     try {
       if (!user) return;
@@ -69,9 +145,12 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
         .from('custom_categories')
         .insert([
           {
-            name: newCategoryName.trim(),
+            name,
             has_numeric_value: newCategoryHasValue,
+            value_unit: newCategoryHasValue ? newCategoryUnit.unit : 'currency',
+            ...range,
             color: newCategoryColor,
+            parent_name: newCategoryParent === TOP_LEVEL ? null : newCategoryParent,
             user_id: user.id
           }
         ]);
@@ -80,14 +159,13 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
 
       toast({
         title: "Category Added",
-        description: `"${newCategoryName}" has been added to your categories`,
+        description: newCategoryParent === TOP_LEVEL
+          ? `"${name}" has been added to your categories`
+          : `"${name}" has been added under ${newCategoryParent}`,
       });
 
-      setNewCategoryName('');
-      setNewCategoryHasValue(false);
-      setNewCategoryColor('#6B8F71');
-      setIsAddingNew(false);
-      fetchCategories();
+      resetForm();
+      emitAppEvent('categoriesChanged');
     } catch (error) {
       console.error('Error adding category:', error);
       toast({
@@ -100,6 +178,17 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
 
   const handleDeleteCategory = async (id: string, name: string) => {
     try {
+      if (!user) return;
+
+      // Subcategories of a deleted category become top-level ones
+      const { error: detachError } = await supabase
+        .from('custom_categories')
+        .update({ parent_name: null })
+        .eq('user_id', user.id)
+        .eq('parent_name', name);
+
+      if (detachError) throw detachError;
+
       const { error } = await supabase
         .from('custom_categories')
         .delete()
@@ -112,7 +201,7 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
         description: `"${name}" has been removed`,
       });
 
-      fetchCategories();
+      emitAppEvent('categoriesChanged');
     } catch (error) {
       console.error('Error deleting category:', error);
       toast({
@@ -123,14 +212,82 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
     }
   };
 
+  const handleUnarchive = async (row: CustomCategoryRow) => {
+    try {
+      await setCategoryArchived(row.name, false);
+    } catch (error) {
+      console.error('[CATEGORIES] unarchive failed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore category",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const usageCount = (name: string) => {
+    const counts = usage.get(name);
+    return counts ? counts.fortunes + counts.trashed + counts.templates : 0;
+  };
+
+  const childrenOf = (name: string) => categories.filter(cat => cat.parent_name === name);
+
+  // A category with subcategories can only be merged into another top-level category
+  const mergeTargetsFor = (row: CustomCategoryRow) => {
+    const hasChildren = childrenOf(row.name).length > 0;
+    return tree.flatMap(node => [
+      node.name,
+      ...(hasChildren ? [] : node.children.map(child => child.name)),
+    ]).filter(name => name !== row.name && !childrenOf(row.name).some(child => child.name === name));
+  };
+
+  const renderActions = (row: CustomCategoryRow) => {
+    const used = usageCount(row.name);
+    return (
+      <>
+        <Button variant="ghost" size="sm" onClick={() => setOperation({ kind: 'rename', category: row })} aria-label={`Rename ${row.name}`}>
+          <Pencil size={16} />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setOperation({ kind: 'units', category: row })} aria-label={`Values of ${row.name}`}>
+          <Ruler size={16} />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setOperation({ kind: 'merge', category: row })} aria-label={`Merge ${row.name}`}>
+          <ArrowsMerge size={16} />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setOperation({ kind: 'archive', category: row })} aria-label={`Archive ${row.name}`}>
+          <Archive size={16} />
+        </Button>
+        {/* Deleting would strand the fortunes using it, so that's only possible once it's unused */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => handleDeleteCategory(row.id, row.name)}
+          disabled={used > 0}
+          title={used > 0 ? `Used by ${used} entries – merge or archive it instead` : undefined}
+          className="text-destructive hover:text-destructive"
+          aria-label={`Delete ${row.name}`}
+        >
+          <X size={16} />
+        </Button>
+      </>
+    );
+  };
+
+  const renderBadges = (row?: CustomCategoryRow) =>
+    row?.has_numeric_value && (
+      <span className="text-xs bg-gold/20 text-gold px-2 py-1 rounded">
+        {VALUE_UNITS[resolveValueType(row.value_unit).unit].label}
+      </span>
+    );
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h4 className="font-medium">Custom Categories</h4>
+        <h4 className="font-medium">Categories</h4>
         <Button
           variant="outline"
           size="sm"
-          onClick={() => setIsAddingNew(true)}
+          onClick={() => startAdding(null)}
           disabled={isAddingNew}
         >
           <Plus size={16} className="mr-1" />
@@ -138,69 +295,118 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
         </Button>
       </div>
 
-      {/* Default Categories */}
+      {/* Category tree: defaults and custom top-level categories with their subcategories */}
       <div className="space-y-2">
-        <h5 className="text-sm font-medium text-muted-foreground">Default Categories</h5>
-        <div className="flex flex-wrap gap-2">
-          {defaultCategories.map((category) => (
-            <div
-              key={category}
-              className="px-3 py-1 bg-muted/30 rounded-full text-sm flex items-center gap-2"
-            >
-              {category === 'Wealth' && <CurrencyDollar size={14} className="text-gold" />}
-              {category}
-            </div>
-          ))}
-        </div>
-      </div>
-
-      {/* Custom Categories */}
-      {categories.length > 0 && (
-        <div className="space-y-2">
-          <h5 className="text-sm font-medium text-muted-foreground">Your Custom Categories</h5>
-          <div className="space-y-2">
-            {categories.map((category) => (
-              <div
-                key={category.id}
-                className="flex items-center justify-between p-3 bg-muted/20 rounded-lg"
-              >
-                <div className="flex items-center gap-2">
+        {tree.map((node) => (
+          <div key={node.name} className="rounded-lg bg-muted/20">
+            <div className="flex items-center justify-between p-3">
+              <div className="flex items-center gap-2">
+                {node.row ? (
                   <div
                     className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: category.color }}
+                    style={{ backgroundColor: node.row.color }}
                   />
-                  <span className="font-medium">{category.name}</span>
-                  {category.hasNumericValue && (
-                    <span className="text-xs bg-gold/20 text-gold px-2 py-1 rounded">
-                      Numeric
-                    </span>
-                  )}
-                </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleDeleteCategory(category.id, category.name)}
-                  className="text-destructive hover:text-destructive"
-                >
-                  <X size={16} />
-                </Button>
+                ) : node.name === 'Wealth' ? (
+                  <CurrencyDollar size={14} className="text-gold" />
+                ) : null}
+                <span className="font-medium">{node.name}</span>
+                {!node.row && <span className="text-xs text-muted-foreground">Default</span>}
+                {renderBadges(node.row)}
+              </div>
+              <div className="flex items-center">
+                {canHaveChildren(node) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startAdding(node.name)}
+                    disabled={isAddingNew}
+                    aria-label={`Add subcategory to ${node.name}`}
+                  >
+                    <Plus size={16} />
+                  </Button>
+                )}
+                {node.row && renderActions(node.row)}
+              </div>
+            </div>
+
+            {node.children.length > 0 && (
+              <div className="pb-2 pl-6 pr-3 space-y-1">
+                {node.children.map((child) => (
+                  <div key={child.id} className="flex items-center justify-between py-1">
+                    <div className="flex items-center gap-2 text-sm">
+                      <ArrowElbowDownRight size={14} className="text-muted-foreground" />
+                      <div
+                        className="w-2.5 h-2.5 rounded-full"
+                        style={{ backgroundColor: child.color }}
+                      />
+                      <span>{child.name}</span>
+                      {renderBadges(child)}
+                    </div>
+                    <div className="flex items-center">
+                      {renderActions(child)}
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
+            )}
           </div>
+        ))}
+      </div>
+
+      {/* Archived categories: hidden from pickers, still shown on existing fortunes */}
+      {archived.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium text-muted-foreground">Archived</h5>
+          {archived.map((row) => (
+            <div key={row.id} className="flex items-center justify-between p-3 bg-muted/10 rounded-lg text-muted-foreground">
+              <div className="flex items-center gap-2 text-sm">
+                <div
+                  className="w-2.5 h-2.5 rounded-full opacity-60"
+                  style={{ backgroundColor: row.color }}
+                />
+                <span>{row.parent_name ? `${row.parent_name} › ${row.name}` : row.name}</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleUnarchive(row)} aria-label={`Restore ${row.name}`}>
+                <ArrowCounterClockwise size={16} />
+              </Button>
+            </div>
+          ))}
         </div>
       )}
 
+      <CategoryOperationDialog
+        operation={operation}
+        mergeTargets={operation ? mergeTargetsFor(operation.category) : []}
+        subcategories={operation ? childrenOf(operation.category.name) : []}
+        usage={usage}
+        onClose={() => setOperation(null)}
+      />
+
       {/* Add New Category Form */}
       {isAddingNew && (
         <div className="luxury-card p-4 space-y-4">
           <div>
             <Input
-              placeholder="Category name"
+              placeholder={newCategoryParent === TOP_LEVEL ? 'Category name' : `Subcategory of ${newCategoryParent}`}
               value={newCategoryName}
               onChange={(e) => setNewCategoryName(e.target.value)}
               className="focus:border-gold focus:ring-gold/20"
             />
           </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Parent Category</label>
+            <Select value={newCategoryParent} onValueChange={setNewCategoryParent}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                {tree.filter(canHaveChildren).map((node) => (
+                  <SelectItem key={node.name} value={node.name}>{node.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Switch
@@ -210,6 +416,9 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
               <span className="text-sm">Has numeric value</span>
             </div>
           </div>
+          {newCategoryHasValue && (
+            <CategoryUnitFields values={newCategoryUnit} onChange={setNewCategoryUnit} />
+          )}
           <div className="space-y-2">
             <label className="text-sm font-medium">Category Color</label>
             <div className="flex items-center gap-3">
@@ -232,12 +441,7 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
             </Button>
             <Button
               variant="outline"
-              onClick={() => {
-                setIsAddingNew(false);
-                setNewCategoryName('');
-                setNewCategoryHasValue(false);
-                setNewCategoryColor('#6B8F71');
-              }}
+              onClick={resetForm}
             >
               Cancel
             </Button>
@@ -246,4 +450,4 @@ export const CategoryManager = ({ onCategoriesChange }: CategoryManagerProps) =>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CategoryUnitFields, type CategoryUnitFieldValues } from '@/components/CategoryUnitFields';
+import {
+  mergeCategories,
+  renameCategory,
+  setCategoryArchived,
+  updateCategoryValueSettings,
+  type CategoryUsage,
+  type CustomCategoryRow,
+} from '@/lib/categories';
+import { VALUE_UNITS, parseValueRange, resolveValueType } from '@/lib/valueUnits';
+
+export type CategoryOperationKind = 'rename' | 'merge' | 'archive' | 'units';
+
+export interface CategoryOperation {
+  kind: CategoryOperationKind;
+  category: CustomCategoryRow;
+}
+
+interface CategoryOperationDialogProps {
+  operation: CategoryOperation | null;
+  // Names the category can be merged into (defaults and other active categories)
+  mergeTargets: string[];
+  // Subcategories of the category being changed; archiving takes them along
+  subcategories: CustomCategoryRow[];
+  usage: Map<string, CategoryUsage>;
+  onClose: () => void;
+}
+
+const TITLES: Record<CategoryOperationKind, string> = {
+  rename: 'Rename Category',
+  merge: 'Merge Category',
+  archive: 'Archive Category',
+  units: 'Category Values',
+};
+
+const describeUsage = (usage: CategoryUsage | undefined): string => {
+  const fortunes = usage?.fortunes ?? 0;
+  const parts = [`${fortunes} ${fortunes === 1 ? 'fortune' : 'fortunes'}`];
+  if (usage?.trashed) parts.push(`${usage.trashed} in the trash`);
+  if (usage?.templates) parts.push(`${usage.templates} ${usage.templates === 1 ? 'template' : 'templates'}`);
+  return parts.join(', ');
+};
+
+/**
+ * Confirms a category rename / merge / archive with a preview of the fortunes it touches.
+ * Rename and merge rewrite the user's whole history on the server; a unit change keeps stored values.
+ */
+export const CategoryOperationDialog = ({
+  operation,
+  mergeTargets,
+  subcategories,
+  usage,
+  onClose,
+}: CategoryOperationDialogProps) => {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [target, setTarget] = useState('');
+  const [hasValue, setHasValue] = useState(false);
+  const [unitValues, setUnitValues] = useState<CategoryUnitFieldValues>({ unit: 'currency', min: '', max: '' });
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setNewName(operation?.category.name ?? '');
+    setTarget('');
+    if (operation) {
+      const type = resolveValueType(operation.category.value_unit);
+      setHasValue(operation.category.has_numeric_value);
+      setUnitValues({
+        unit: type.unit,
+        min: operation.category.value_min?.toString() ?? '',
+        max: operation.category.value_max?.toString() ?? '',
+      });
+    }
+  }, [operation]);
+
+  if (!operation) return null;
+
+  const { kind, category } = operation;
+  const affected = describeUsage(usage.get(category.name));
+
+  const canSubmit =
+    kind === 'rename'
+      ? newName.trim().length > 0 && newName.trim() !== category.name
+      : kind === 'merge'
+        ? target !== ''
+        : true;
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    try {
+      if (kind === 'rename') {
+        const count = await renameCategory(category.name, newName.trim());
+        toast({ title: 'Category renamed', description: `${count} ${count === 1 ? 'fortune' : 'fortunes'} updated.` });
+      } else if (kind === 'merge') {
+        const count = await mergeCategories(category.name, target);
+        toast({ title: `Merged into ${target}`, description: `${count} ${count === 1 ? 'fortune' : 'fortunes'} moved.` });
+      } else if (kind === 'units') {
+        await updateCategoryValueSettings(category.id, {
+          has_numeric_value: hasValue,
+          value_unit: unitValues.unit,
+          ...parseValueRange(unitValues.unit, unitValues.min, unitValues.max),
+        });
+        toast({ title: 'Category updated', description: `"${category.name}" values are saved.` });
+      } else {
+        await setCategoryArchived(category.name, true);
+        toast({ title: 'Category archived', description: `"${category.name}" is hidden from the category picker.` });
+      }
+      onClose();
+    } catch (error) {
+      console.error(`[CATEGORIES] ${kind} failed:`, error);
+      toast({
+        title: `Couldn't ${kind} the category`,
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{TITLES[kind]}</DialogTitle>
+          <DialogDescription>
+            {kind === 'rename' && `${affected} will be renamed along with "${category.name}".`}
+            {kind === 'merge' && `${affected} will move from "${category.name}" to the category you pick, and "${category.name}" will be removed.`}
+            {kind === 'archive' && `"${category.name}" won't be offered for new fortunes. Its ${affected} keep the category.`}
+            {kind === 'units' && `Choose what the value of "${category.name}" fortunes measures.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {kind === 'rename' && (
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={50}
+            placeholder="New name"
+            autoFocus
+          />
+        )}
+
+        {kind === 'merge' && (
+          <div className="space-y-2">
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Merge into…" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeTargets.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {target && (
+              <p className="text-xs text-muted-foreground">
+                "{target}" currently has {describeUsage(usage.get(target))}.
+              </p>
+            )}
+          </div>
+        )}
+
+        {kind === 'archive' && subcategories.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Its subcategories are archived too: {subcategories.map((child) => child.name).join(', ')}.
+          </p>
+        )}
+
+        {kind === 'units' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch checked={hasValue} onCheckedChange={setHasValue} />
+              <span className="text-sm">Has numeric value</span>
+            </div>
+            {hasValue && <CategoryUnitFields values={unitValues} onChange={setUnitValues} />}
+            {hasValue && unitValues.unit !== resolveValueType(category.value_unit).unit && (
+              <p className="text-xs text-muted-foreground">
+                Values already saved on its {affected} are kept as numbers and shown
+                as {VALUE_UNITS[unitValues.unit].label.toLowerCase()} from now on.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={busy || !canSubmit}>
+            {busy ? 'Working…' : kind === 'units' ? 'Save' : TITLES[kind].split(' ')[0]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VALUE_UNITS, VALUE_UNIT_OPTIONS, type ValueUnit } from '@/lib/valueUnits';
+
+export interface CategoryUnitFieldValues {
+  unit: ValueUnit;
+  // Raw input; empty means the unit's own bound
+  min: string;
+  max: string;
+}
+
+interface CategoryUnitFieldsProps {
+  values: CategoryUnitFieldValues;
+  onChange: (values: CategoryUnitFieldValues) => void;
+}
+
+/**
+ * Unit picker with the optional allowed range, shared by the add form and the unit dialog
+ */
+export const CategoryUnitFields = ({ values, onChange }: CategoryUnitFieldsProps) => {
+  const spec = VALUE_UNITS[values.unit];
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Value Unit</label>
+      <Select
+        value={values.unit}
+        onValueChange={(unit) => onChange({ unit: unit as ValueUnit, min: '', max: '' })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {VALUE_UNIT_OPTIONS.map((unit) => (
+            <SelectItem key={unit} value={unit}>{VALUE_UNITS[unit].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {spec.fixedRange ? (
+        <p className="text-xs text-muted-foreground">
+          Values are whole numbers from {spec.min} to {spec.max}; statistics show the average.
+        </p>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            step={spec.step}
+            min={spec.min}
+            max={spec.max}
+            placeholder={`Min (${spec.min})`}
+            value={values.min}
+            onChange={(e) => onChange({ ...values, min: e.target.value })}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            inputMode="decimal"
+            step={spec.step}
+            min={spec.min}
+            max={spec.max}
+            placeholder={`Max (${spec.max})`}
+            value={values.max}
+            onChange={(e) => onChange({ ...values, max: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { format, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Challenge } from '@/types/fortune';
+
+interface ChallengeHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  challenges: Challenge[];
+}
+
+const formatPeriod = (challenge: Challenge) =>
+  `${format(parseISO(challenge.startsOn), 'MMM d')} – ${format(parseISO(challenge.endsOn), 'MMM d, yyyy')}`;
+
+export const ChallengeHistoryModal = ({ isOpen, onClose, challenges }: ChallengeHistoryModalProps) => {
+  // Challenges that have ended, plus early completions; newest first (the list arrives that way)
+  const past = challenges.filter((c) => c.status === 'missed' || c.status === 'completed');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Challenge History</DialogTitle>
+        </DialogHeader>
+
+        {past.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No finished challenges yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {past.map((challenge) => {
+              const completed = challenge.status === 'completed';
+              return (
+                <div
+                  key={challenge.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border ${
+                    completed ? 'border-gold/30 bg-gold/10' : 'border-border/50 bg-muted/20'
+                  }`}
+                >
+                  <span className={`text-2xl leading-none ${completed ? '' : 'grayscale opacity-50'}`}>
+                    {challenge.icon}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium">{challenge.title}</p>
+                    <p className="text-xs text-muted-foreground">{challenge.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{formatPeriod(challenge)}</p>
+                  </div>
+                  <div className="text-right text-xs shrink-0">
+                    {completed && challenge.completedAt ? (
+                      <span className="text-emerald">Won {format(new Date(challenge.completedAt), 'MMM d')}</span>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {Math.floor(challenge.progress)} / {challenge.requiredCount}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
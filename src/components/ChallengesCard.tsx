@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Flag, ClockCounterClockwise } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ChallengeHistoryModal } from '@/components/ChallengeHistoryModal';
+import { useChallenges } from '@/hooks/useChallenges';
+import { challengeDaysLeft, challengeProgressPercentage } from '@/lib/challenges';
+
+/**
+ * Running challenges with their progress, the next ones coming up, and a link to past challenges
+ */
+export const ChallengesCard = () => {
+  const { challenges, loading } = useChallenges();
+  const [showHistory, setShowHistory] = useState(false);
+
+  // A challenge completed early stays on the card until it ends
+  const current = useMemo(
+    () => challenges
+      .filter((c) => c.status === 'active' || (c.status === 'completed' && challengeDaysLeft(c) > 0))
+      .sort((a, b) => a.endsOn.localeCompare(b.endsOn)),
+    [challenges],
+  );
+  const upcoming = useMemo(
+    () => challenges.filter((c) => c.status === 'upcoming').sort((a, b) => a.startsOn.localeCompare(b.startsOn)),
+    [challenges],
+  );
+  const pastCount = challenges.filter((c) => c.status === 'missed' || c.status === 'completed').length;
+
+  if (loading || challenges.length === 0) return null;
+
+  return (
+    <>
+      <div className="luxury-card p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Flag size={20} className="text-gold" />
+            <div>
+              <h3 className="font-heading font-medium">Challenges</h3>
+              <p className="text-xs text-muted-foreground">Limited-time goals with a badge to win</p>
+            </div>
+          </div>
+          {pastCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setShowHistory(true)} className="gap-1">
+              <ClockCounterClockwise size={16} />
+              History
+            </Button>
+          )}
+        </div>
+
+        {current.length === 0 && (
+          <p className="text-sm text-muted-foreground">No challenge is running right now.</p>
+        )}
+
+        {current.map((challenge) => {
+          const daysLeft = challengeDaysLeft(challenge);
+          return (
+            <div key={challenge.id} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-2">
+              <div className="flex items-start gap-3">
+                <span className="text-2xl leading-none">{challenge.icon}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">{challenge.title}</p>
+                  <p className="text-xs text-muted-foreground">{challenge.description}</p>
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {challenge.status === 'completed'
+                    ? 'Completed!'
+                    : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+                </span>
+              </div>
+              <Progress value={challengeProgressPercentage(challenge)} className="h-2" />
+              <p className="text-xs text-muted-foreground text-right">
+                {Math.min(Math.floor(challenge.progress), challenge.requiredCount)} / {challenge.requiredCount}
+              </p>
+            </div>
+          );
+        })}
+
+        {upcoming.map((challenge) => (
+          <div key={challenge.id} className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="text-lg leading-none opacity-60">{challenge.icon}</span>
+            <span className="flex-1 truncate">{challenge.title}</span>
+            <span className="text-xs shrink-0">Starts {format(parseISO(challenge.startsOn), 'MMM d')}</span>
+          </div>
+        ))}
+      </div>
+
+      <ChallengeHistoryModal
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        challenges={challenges}
+      />
+    </>
+  );
+};
@@ -4,22 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, isSameMonth, isSameDay, addMonths, subMonths } from 'date-fns';
 
-interface Fortune {
-  id: string;
-  text: string;
-  category: string;
-  created_at: string;
-  fortune_level?: number;
-}
-
 interface CustomCalendarProps {
-  fortunes: Fortune[];
-  onDateClick: (date: Date, fortunes: Fortune[]) => void;
+  // Fortune count per day, keyed yyyy-MM-dd
+  dayCounts: Map<string, number>;
+  onDateClick: (date: Date, fortuneCount: number) => void;
   selectedDate?: Date | null;
   onDateSelect?: (date: Date) => void;
 }
 
-export const CustomCalendar = ({ fortunes, onDateClick, selectedDate, onDateSelect }: CustomCalendarProps) => {
+export const CustomCalendar = ({ dayCounts, onDateClick, selectedDate, onDateSelect }: CustomCalendarProps) => {
   const [currentDate, setCurrentDate] = useState(new Date());
 
   const monthStart = startOfMonth(currentDate);
@@ -32,11 +25,7 @@ export const CustomCalendar = ({ fortunes, onDateClick, selectedDate, onDateSele
   
   const dayNames = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
   
-  const getFortunesForDate = (date: Date) => {
-    return fortunes.filter(fortune => 
-      isSameDay(new Date(fortune.created_at), date)
-    );
-  };
+  const getFortuneCount = (date: Date) => dayCounts.get(format(date, 'yyyy-MM-dd')) ?? 0;
 
   const navigateMonth = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => 
@@ -45,7 +34,7 @@ export const CustomCalendar = ({ fortunes, onDateClick, selectedDate, onDateSele
   };
 
   const handleDateClick = (date: Date) => {
-    const dateFortunes = getFortunesForDate(date);
+    const fortuneCount = getFortuneCount(date);
     
     // If onDateSelect is provided, handle date selection
     if (onDateSelect) {
@@ -53,7 +42,7 @@ export const CustomCalendar = ({ fortunes, onDateClick, selectedDate, onDateSele
     }
     
     // Always trigger the detail modal
-    onDateClick(date, dateFortunes);
+    onDateClick(date, fortuneCount);
   };
 
   return (
@@ -102,8 +91,8 @@ export const CustomCalendar = ({ fortunes, onDateClick, selectedDate, onDateSele
 
         {/* Calendar Days */}
         {calendarDays.map((date) => {
-          const dateFortunes = getFortunesForDate(date);
-          const hasfortunes = dateFortunes.length > 0;
+          const fortuneCount = getFortuneCount(date);
+          const hasfortunes = fortuneCount > 0;
           const isToday = isSameDay(date, new Date());
           const isSelected = selectedDate && isSameDay(date, selectedDate);
           
@@ -138,9 +127,9 @@ export const CustomCalendar = ({ fortunes, onDateClick, selectedDate, onDateSele
               {hasfortunes && (
                 <div className="mt-1 px-1.5 py-0.5 bg-gold/20 border border-gold/40 rounded-full flex items-center gap-1">
                   <div className="w-1.5 h-1.5 bg-gold rounded-full animate-pulse" />
-                  {dateFortunes.length > 1 && (
+                  {fortuneCount > 1 && (
                     <span className="text-xs font-bold text-gold leading-none">
-                      {dateFortunes.length}
+                      {fortuneCount}
                     </span>
                   )}
                 </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { X, CurrencyDollar, Heart, HeartStraight, Sparkle, PencilSimple, Trash } from '@phosphor-icons/react';
 import { supabase } from '@/integrations/supabase/client';
 import { Fortune } from '@/types/fortune';
@@ -6,8 +6,15 @@ import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { FortuneModal } from '@/components/FortuneModal';
 import { FortunePhoto } from '@/components/FortunePhoto';
-import { deleteFortune } from "@/lib/fortunes";
+import { VirtualizedList } from '@/components/VirtualizedList';
+import { deleteFortune, restoreFortune } from "@/lib/fortunes";
+import { collectTags, filterFortunesByTags } from '@/lib/tags';
+import { TagFilter } from '@/components/TagFilter';
 import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/contexts/SettingsContext';
+import { buildValueTypeMap, formatUnitValue, getCategoryValueType, type CategoryValueType } from '@/lib/valueUnits';
+import { emitAppEvent } from '@/lib/appEvents';
+import { ToastAction } from '@/components/ui/toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 
 interface DateDetailsModalProps {
@@ -16,18 +23,48 @@ interface DateDetailsModalProps {
   date: Date | null;
   fortunes: Fortune[];
   onFortunesUpdated?: () => void;
+  // The day's first page is still loading
+  loading?: boolean;
+  // Infinite scroll: more pages exist past the last loaded fortune
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUpdated }: DateDetailsModalProps) => {
+export const DateDetailsModal = ({
+  isOpen,
+  onClose,
+  date,
+  fortunes,
+  onFortunesUpdated,
+  loading,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}: DateDetailsModalProps) => {
   const [editingFortune, setEditingFortune] = useState<Fortune | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [deletingFortunes, setDeletingFortunes] = useState<Set<string>>(new Set());
   const deleteTimeoutsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
   const fabClickTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const { toast } = useToast();
+  const { currency } = useSettings();
 
   // Categories that allow a numeric value (user custom + built-in defaults)
   const [valueCategories, setValueCategories] = useState<Set<string>>(new Set(['Wealth']));
+  const [valueTypes, setValueTypes] = useState<Map<string, CategoryValueType>>(() => new Map());
+
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const availableTags = useMemo(() => collectTags(fortunes), [fortunes]);
+  const visibleFortunes = useMemo(
+    () => filterFortunesByTags(fortunes, selectedTags),
+    [fortunes, selectedTags]
+  );
+
+  // Start each day unfiltered
+  useEffect(() => {
+    setSelectedTags([]);
+  }, [date]);
   
   useEffect(() => {
     if (!isOpen) return;
@@ -36,7 +73,7 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
         // Fetch user's custom categories that explicitly allow numeric values
         const { data, error } = await supabase
           .from('custom_categories')
-          .select('name, has_numeric_value')
+          .select('name, has_numeric_value, value_unit, value_min, value_max')
           .eq('has_numeric_value', true);
   
         if (!error && Array.isArray(data)) {
@@ -47,6 +84,7 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
   
           // Add built-in category that supports values
           setValueCategories(new Set(['Wealth', ...withValue]));
+          setValueTypes(buildValueTypeMap(data));
         }
       } catch {
         // ignore – if it fails, we only keep the default
@@ -76,6 +114,21 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
     setIsEditModalOpen(true);
   };
 
+  const handleUndoDelete = async (fortuneId: string) => {
+    try {
+      await restoreFortune(fortuneId);
+      onFortunesUpdated?.();
+      emitAppEvent('fortunesUpdated');
+    } catch (error) {
+      console.error('Error restoring fortune:', error);
+      toast({
+        title: "Error restoring fortune",
+        description: "You can still restore it from Trash in Settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteFortune = async (fortuneId: string) => {
     // Clear any existing timeout for this fortune
     const existingTimeout = deleteTimeoutsRef.current.get(fortuneId);
@@ -87,15 +140,23 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
       // Immediately start deleting animation
       setDeletingFortunes(prev => new Set(prev).add(fortuneId));
       
-      await deleteFortune(fortuneId);
+      const { queued } = await deleteFortune(fortuneId);
 
       toast({
         title: "Fortune deleted",
-        description: "Your fortune has been removed.",
+        description: queued
+          ? "You're offline. The deletion will sync when you reconnect."
+          : "Moved to Trash.",
+        // Queued deletes can't be undone until they reach the server
+        action: queued ? undefined : (
+          <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(fortuneId)}>
+            Undo
+          </ToastAction>
+        ),
       });
 
       onFortunesUpdated?.();
-      window.dispatchEvent(new Event("fortunesUpdated"));
+      emitAppEvent('fortunesUpdated');
       
       // Wait for animation to complete then cleanup
       const timeoutId = setTimeout(() => {
@@ -173,34 +234,48 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
           </button>
         </div>
 
-        <div className="space-y-4 max-h-96 overflow-y-auto">
-          {fortunes.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-muted-foreground mb-4">
-                No fortunes recorded for this day
-              </p>
-              <Button 
-                onClick={() => {
-                  onClose();
-                  // Trigger the floating action button click
-                  if (fabClickTimeoutRef.current) {
-                    clearTimeout(fabClickTimeoutRef.current);
-                  }
-                  fabClickTimeoutRef.current = setTimeout(() => {
-                    const fabButton = document.querySelector('[aria-label*="Add fortune"]') as HTMLButtonElement;
-                    if (fabButton) fabButton.click();
-                    fabClickTimeoutRef.current = null;
-                  }, 100);
-                }}
-                className="luxury-button"
-              >
-                Add Fortune
-              </Button>
-            </div>
-          ) : (
-            fortunes.filter(fortune => !deletingFortunes.has(fortune.id)).map((fortune) => (
+        <TagFilter tags={availableTags} selected={selectedTags} onChange={setSelectedTags} className="mb-4" />
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => (
+              <div key={i} className="h-20 bg-muted/20 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : fortunes.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground mb-4">
+              No fortunes recorded for this day
+            </p>
+            <Button 
+              onClick={() => {
+                onClose();
+                // Trigger the floating action button click
+                if (fabClickTimeoutRef.current) {
+                  clearTimeout(fabClickTimeoutRef.current);
+                }
+                fabClickTimeoutRef.current = setTimeout(() => {
+                  const fabButton = document.querySelector('[aria-label*="Add fortune"]') as HTMLButtonElement;
+                  if (fabButton) fabButton.click();
+                  fabClickTimeoutRef.current = null;
+                }, 100);
+              }}
+              className="luxury-button"
+            >
+              Add Fortune
+            </Button>
+          </div>
+        ) : (
+          <VirtualizedList
+            items={visibleFortunes.filter(fortune => !deletingFortunes.has(fortune.id))}
+            getKey={(fortune) => fortune.id}
+            gap={16}
+            className="max-h-96"
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            onLoadMore={onLoadMore}
+            renderItem={(fortune) => (
               <div 
-                key={fortune.id} 
                 className={`group luxury-card p-4 bg-muted/20 relative transition-all duration-300 transform ${
                   deletingFortunes.has(fortune.id) 
                     ? 'opacity-0 scale-95 translate-x-4' 
@@ -239,7 +314,7 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
                         <AlertDialogHeader>
                           <AlertDialogTitle>Delete Fortune</AlertDialogTitle>
                           <AlertDialogDescription>
-                            Are you sure you want to delete this fortune? This action cannot be undone.
+                            This fortune will be moved to the Trash. You can restore it from Settings within 30 days.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -260,14 +335,23 @@ export const DateDetailsModal = ({ isOpen, onClose, date, fortunes, onFortunesUp
                 <div className="flex items-center gap-2 mt-2">
                   {valueCategories.has(fortune.category) && Number(fortune.fortune_value) > 0 && (
                     <div className="text-xs text-gold font-medium">
-                      {Intl.NumberFormat(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 2 }).format(Number(fortune.fortune_value))}
+                      {formatUnitValue(
+                        Number(fortune.fortune_value),
+                        getCategoryValueType(fortune.category, valueTypes).unit,
+                        fortune.currency || currency
+                      )}
                     </div>
                   )}
+                  {fortune.tags?.map((tag) => (
+                    <span key={tag} className="text-xs text-muted-foreground">
+                      #{tag}
+                    </span>
+                  ))}
                 </div>
               </div>
-            ))
-          )}
-        </div>
+            )}
+          />
+        )}
       </div>
 
       <FortuneModal
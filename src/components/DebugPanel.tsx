@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { CaretDown, CaretUp, Bug, User, CreditCard, Calendar, Warning, MagnifyingGlass } from '@phosphor-icons/react';
+import { useState, useEffect } from 'react';
+import { CaretDown, CaretUp, Bug, User, CreditCard, Calendar, Warning, MagnifyingGlass, Broadcast } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,6 +8,7 @@ import { useAppState } from '@/contexts/AppStateContext';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { clearAppEventLog, getAppEventLog, subscribeAppEventLog } from '@/lib/appEvents';
 
 interface DebugPanelProps {
   user: SupabaseUser | null;
@@ -18,6 +19,9 @@ export const DebugPanel = ({ user }: DebugPanelProps) => {
   const [isSearching, setIsSearching] = useState(false);
   const { profile, fortunesCountToday, fortunesCountTotal, activeSubscription, loading, errors, clearErrors, refetch } = useAppState();
   const { toast } = useToast();
+  const [eventLog, setEventLog] = useState(getAppEventLog);
+
+  useEffect(() => subscribeAppEventLog(() => setEventLog(getAppEventLog())), []);
 
   const forceProfileSearch = async () => {
     if (!user?.id) {
@@ -270,6 +274,35 @@ export const DebugPanel = ({ user }: DebugPanelProps) => {
                 </div>
               </div>
 
+              {/* App Events Section */}
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Broadcast size={14} />
+                  <span className="font-medium">App Events</span>
+                  {eventLog.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={clearAppEventLog}
+                      className="h-5 px-2 text-xs"
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                <div className="ml-5 space-y-1 text-muted-foreground max-h-32 overflow-y-auto">
+                  {eventLog.length === 0 && <div>None yet</div>}
+                  {eventLog.slice(0, 10).map((entry) => (
+                    <div key={entry.id} title={entry.payload === undefined ? undefined : JSON.stringify(entry.payload)}>
+                      <span className="font-mono">{entry.name}</span>
+                      {entry.emits > 1 && <span> ×{entry.emits}</span>}
+                      <span> → {entry.listeners}</span>
+                      <span className="ml-1">{new Date(entry.at).toLocaleTimeString()}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* Errors Section */}
               {(errors?.length || 0) > 0 && (
                 <div>
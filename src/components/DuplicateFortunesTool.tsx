@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Copy, MagnifyingGlass } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { useJournal } from '@/hooks/useJournal';
+import { formatMoney } from '@/lib/currency';
+import { mergeDuplicates, scanDuplicateFortunes, type DuplicateCluster } from '@/lib/fortuneDuplicates';
+
+const IGNORED_STORAGE_KEY = 'duplicates.ignoredClusters';
+
+// A cluster the user marked as "not duplicates" stays hidden as long as it has the same members
+const clusterSignature = (cluster: DuplicateCluster) =>
+  cluster.fortunes.map((fortune) => fortune.id).sort().join(',');
+
+const readIgnored = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(IGNORED_STORAGE_KEY) ?? '[]') as string[];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Scans the fortune history for likely duplicates and lets the user resolve each cluster:
+ * keep one (the others are moved to the trash) or mark them as distinct.
+ */
+export const DuplicateFortunesTool = () => {
+  const { toast } = useToast();
+  const { status: journalStatus } = useJournal();
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [scanned, setScanned] = useState(0);
+  // cluster key -> id of the fortune to keep
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setScanning(true);
+    setScanned(0);
+    try {
+      const ignored = new Set(readIgnored());
+      const found = await scanDuplicateFortunes(setScanned);
+      setClusters(found.filter((cluster) => !ignored.has(clusterSignature(cluster))));
+      setKeepers({});
+    } catch (error) {
+      console.error('[DUPLICATES] Scan failed:', error);
+      toast({ title: "Couldn't scan your fortunes", description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const removeCluster = (cluster: DuplicateCluster) =>
+    setClusters((prev) => prev?.filter((item) => item.key !== cluster.key) ?? null);
+
+  const handleMerge = async (cluster: DuplicateCluster) => {
+    const keepId = keepers[cluster.key] ?? cluster.fortunes[0].id;
+    const keep = cluster.fortunes.find((fortune) => fortune.id === keepId) ?? cluster.fortunes[0];
+    const duplicates = cluster.fortunes.filter((fortune) => fortune.id !== keep.id);
+
+    setResolving(cluster.key);
+    try {
+      await mergeDuplicates(keep, duplicates);
+      removeCluster(cluster);
+      toast({
+        title: 'Duplicates merged',
+        description: `${duplicates.length} moved to the trash.`,
+      });
+    } catch (error) {
+      console.error('[DUPLICATES] Merge failed:', error);
+      toast({ title: "Couldn't merge these fortunes", description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleIgnore = (cluster: DuplicateCluster) => {
+    localStorage.setItem(IGNORED_STORAGE_KEY, JSON.stringify([...readIgnored(), clusterSignature(cluster)]));
+    removeCluster(cluster);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button variant="outline" onClick={handleScan} disabled={scanning || journalStatus === 'locked'} className="w-full justify-start">
+        <MagnifyingGlass size={18} className="mr-2" />
+        {scanning ? `Scanning… ${scanned} fortunes` : clusters ? 'Scan Again' : 'Find Duplicates'}
+      </Button>
+
+      {journalStatus === 'locked' && (
+        <p className="text-xs text-muted-foreground">
+          Unlock your private journal to look for duplicates; its entries can only be compared on this device.
+        </p>
+      )}
+      {journalStatus === 'unlocked' && (
+        <p className="text-xs text-muted-foreground">
+          Private journal entries are decrypted and compared on this device.
+        </p>
+      )}
+
+      {clusters && clusters.length === 0 && !scanning && (
+        <p className="text-sm text-muted-foreground">No duplicates found.</p>
+      )}
+
+      {clusters?.map((cluster) => (
+        <div key={cluster.key} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            <Copy size={16} className="text-gold" />
+            <span className="font-medium">{cluster.category}</span>
+            <span className="text-muted-foreground">· {format(parseISO(cluster.day), 'MMM d, yyyy')}</span>
+          </div>
+
+          <RadioGroup
+            value={keepers[cluster.key] ?? cluster.fortunes[0].id}
+            onValueChange={(id) => setKeepers((prev) => ({ ...prev, [cluster.key]: id }))}
+            className="gap-2"
+          >
+            {cluster.fortunes.map((fortune) => (
+              <label key={fortune.id} className="flex items-start gap-3 text-sm cursor-pointer">
+                <RadioGroupItem value={fortune.id} className="mt-0.5" />
+                <div className="min-w-0 flex-1">
+                  <p className="break-words">{fortune.text}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(fortune.created_at), 'p')}
+                    {fortune.fortune_value ? ` · ${formatMoney(fortune.fortune_value, fortune.currency ?? 'USD')}` : ''}
+                    {fortune.tags?.length ? ` · ${fortune.tags.map((tag) => `#${tag}`).join(' ')}` : ''}
+                  </p>
+                </div>
+              </label>
+            ))}
+          </RadioGroup>
+
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => handleIgnore(cluster)} disabled={resolving === cluster.key} className="flex-1">
+              Not Duplicates
+            </Button>
+            <Button size="sm" onClick={() => handleMerge(cluster)} disabled={resolving === cluster.key} className="flex-1">
+              {resolving === cluster.key ? 'Merging…' : 'Keep Selected'}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {clusters && clusters.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Tags of the merged fortunes are added to the one you keep. The others go to the trash, where you can restore them.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef } from 'react';
+import { UploadSimple, ArrowCounterClockwise, Plus } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/auth/AuthProvider';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import {
+  isCurrencyCode,
+  parseExchangeRatesFile,
+  resetExchangeRates,
+  saveExchangeRates,
+  type ExchangeRates,
+} from '@/lib/currency';
+
+/**
+ * Editable exchange-rate table (units per 1 USD), with CSV/JSON import
+ */
+export const ExchangeRatesEditor = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const rates = useExchangeRates();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Edited as strings so partially typed numbers survive re-renders
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [newCode, setNewCode] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(Object.fromEntries(Object.entries(rates).map(([code, rate]) => [code, String(rate)])));
+  }, [rates]);
+
+  const save = async (next: ExchangeRates) => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await saveExchangeRates(user.id, next);
+      toast({ title: 'Exchange rates saved' });
+    } catch (error) {
+      console.error('[RATES] save failed:', error);
+      toast({
+        title: "Couldn't save exchange rates",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const next: ExchangeRates = {};
+    for (const [code, raw] of Object.entries(draft)) {
+      const rate = Number(raw);
+      if (!Number.isFinite(rate) || rate <= 0) {
+        toast({
+          title: 'Invalid rate',
+          description: `${code} needs a rate greater than 0.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      next[code] = rate;
+    }
+    save(next);
+  };
+
+  const handleAddCurrency = () => {
+    const code = newCode.trim().toUpperCase();
+    if (!isCurrencyCode(code)) {
+      toast({
+        title: 'Invalid currency',
+        description: 'Use a 3-letter code like SEK or BRL.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setDraft(prev => ({ ...prev, [code]: prev[code] ?? '' }));
+    setNewCode('');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseExchangeRatesFile(await file.text());
+      await save(imported);
+    } catch (error) {
+      toast({
+        title: "Couldn't read file",
+        description: error instanceof Error ? error.message : 'Unsupported file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await resetExchangeRates(user.id);
+      toast({ title: 'Exchange rates reset to defaults' });
+    } catch (error) {
+      console.error('[RATES] reset failed:', error);
+      toast({
+        title: "Couldn't reset exchange rates",
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Values entered in other currencies are converted with these rates (units per 1 USD) in statistics,
+        achievements and reports. Import a CSV ("currency,rate") or JSON ({'{"EUR": 0.92}'}) file to update them in bulk.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {Object.keys(draft).sort().map((code) => (
+          <label key={code} className="flex items-center gap-2 text-sm">
+            <span className="w-10 font-medium">{code}</span>
+            <Input
+              type="number"
+              step="any"
+              min="0"
+              value={draft[code]}
+              disabled={code === 'USD' || saving}
+              onChange={(e) => setDraft(prev => ({ ...prev, [code]: e.target.value }))}
+              className="h-8 text-xs"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newCode}
+          onChange={(e) => setNewCode(e.target.value)}
+          placeholder="Add currency (e.g. SEK)"
+          maxLength={3}
+          className="h-9 text-xs"
+        />
+        <Button variant="outline" size="sm" onClick={handleAddCurrency} disabled={saving} className="h-9">
+          <Plus size={14} className="mr-1" />
+          Add
+        </Button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={saving} className="flex-1">
+          {saving ? 'Saving…' : 'Save Rates'}
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving} className="flex-1">
+          <UploadSimple size={16} className="mr-2" />
+          Import
+        </Button>
+      </div>
+      <Button variant="ghost" size="sm" onClick={handleReset} disabled={saving} className="w-full text-xs">
+        <ArrowCounterClockwise size={14} className="mr-1" />
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowClockwise, Trash, WarningCircle } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { useFortuneOutbox } from '@/hooks/useFortuneOutbox';
+import { discardOutboxOp, retryOutboxOp, type FailedOutboxOp } from '@/lib/fortunes';
+
+const opLabel = ({ op }: FailedOutboxOp) => {
+  if (op.kind === 'create') return 'New fortune';
+  if (op.kind === 'update') return 'Edit';
+  return 'Delete';
+};
+
+// Offline changes the server rejected on replay; they stay queued until retried or discarded
+export const FailedOutboxCard = () => {
+  const { failedOps } = useFortuneOutbox();
+  const [busySeq, setBusySeq] = useState<number | null>(null);
+
+  if (failedOps.length === 0) return null;
+
+  const handleRetry = async (failed: FailedOutboxOp) => {
+    setBusySeq(failed.op.seq ?? null);
+    try {
+      const { rejected } = await retryOutboxOp(failed.op);
+      if (rejected === 0) {
+        toast({ title: 'Offline change saved' });
+      }
+    } catch (error) {
+      console.error('[OUTBOX] retry failed:', error);
+      toast({ title: 'Could not retry the change', variant: 'destructive' });
+    } finally {
+      setBusySeq(null);
+    }
+  };
+
+  const handleDiscard = async (failed: FailedOutboxOp) => {
+    setBusySeq(failed.op.seq ?? null);
+    try {
+      await discardOutboxOp(failed.op);
+    } catch (error) {
+      console.error('[OUTBOX] discard failed:', error);
+      toast({ title: 'Could not discard the change', variant: 'destructive' });
+    } finally {
+      setBusySeq(null);
+    }
+  };
+
+  return (
+    <div className="luxury-card p-4">
+      <div className="flex items-center gap-2">
+        <WarningCircle size={20} className="text-destructive" />
+        <div className="flex-1">
+          <h3 className="font-heading font-medium">Offline changes not saved</h3>
+          <p className="text-xs text-muted-foreground">
+            The server rejected {failedOps.length === 1 ? 'this change' : `these ${failedOps.length} changes`} when
+            syncing. Later changes to the same fortune wait until you retry or discard.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {failedOps.map((failed) => (
+          <div key={failed.op.seq} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{opLabel(failed)}</span>
+              <span>·</span>
+              <span>{format(new Date(failed.op.queuedAt), 'MMM d, HH:mm')}</span>
+            </div>
+            {failed.text && <p className="text-sm leading-relaxed line-clamp-2">{failed.text}</p>}
+            {failed.op.failure && <p className="text-xs text-destructive">{failed.op.failure}</p>}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(failed)}
+                disabled={busySeq !== null}
+              >
+                <ArrowClockwise size={14} className="mr-1" />
+                Retry
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDiscard(failed)}
+                disabled={busySeq !== null}
+              >
+                <Trash size={14} className="mr-1" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,64 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { Plus } from '@phosphor-icons/react';
 import { isSameDay } from 'date-fns';
 import { useTutorial } from '@/contexts/TutorialContext';
+import { useFortuneTemplates } from '@/hooks/useFortuneTemplates';
+import { haptics } from '@/lib/haptics';
+import type { FortuneTemplate } from '@/lib/fortuneTemplates';
 import { NotificationDot } from './NotificationDot';
 
 interface FloatingActionButtonProps {
   onClick: () => void;
+  // Long-press opens a menu of templates; picking one opens the modal pre-filled
+  onTemplateSelect?: (template: FortuneTemplate) => void;
   selectedDate?: Date | null;
 }
 
-export const FloatingActionButton = ({ onClick, selectedDate }: FloatingActionButtonProps) => {
+const LONG_PRESS_MS = 500;
+
+export const FloatingActionButton = ({ onClick, onTemplateSelect, selectedDate }: FloatingActionButtonProps) => {
   const { isStepCompleted, showTutorial } = useTutorial();
+  const { templates } = useFortuneTemplates();
 
   const [mounted, setMounted] = useState(false);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const pressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set when a long-press fired, so the click that ends it doesn't also open the modal
+  const longPressedRef = useRef(false);
   useEffect(() => { setMounted(true); }, []);
 
+  const cancelPress = () => {
+    if (pressTimerRef.current) {
+      clearTimeout(pressTimerRef.current);
+      pressTimerRef.current = null;
+    }
+  };
+
+  useEffect(() => cancelPress, []);
+
+  const handlePressStart = () => {
+    longPressedRef.current = false;
+    if (!onTemplateSelect || templates.length === 0) return;
+    cancelPress();
+    pressTimerRef.current = setTimeout(() => {
+      longPressedRef.current = true;
+      haptics.light();
+      setMenuOpen(true);
+    }, LONG_PRESS_MS);
+  };
+
+  const handleTemplateSelect = (template: FortuneTemplate) => {
+    setMenuOpen(false);
+    onTemplateSelect?.(template);
+  };
+
   const handleClick = () => {
+    if (longPressedRef.current) {
+      longPressedRef.current = false;
+      return;
+    }
+    setMenuOpen(false);
     // Always open the modal - restrictions will be shown inside
     onClick();
     
@@ -32,6 +74,10 @@ export const FloatingActionButton = ({ onClick, selectedDate }: FloatingActionBu
   const button = (
     <button
       onClick={handleClick}
+      onPointerDown={handlePressStart}
+      onPointerUp={cancelPress}
+      onPointerLeave={cancelPress}
+      onContextMenu={(e) => e.preventDefault()}
       className="
         md:hidden
         w-14 h-14 rounded-full
@@ -66,5 +112,32 @@ export const FloatingActionButton = ({ onClick, selectedDate }: FloatingActionBu
     </button>
   );
 
-  return createPortal(button, document.body);
+  const menu = menuOpen && (
+    <>
+      <div className="md:hidden fixed inset-0 z-[59]" onClick={() => setMenuOpen(false)} />
+      <div
+        className="md:hidden fixed z-[61] luxury-card p-2 flex flex-col gap-1 max-h-72 overflow-y-auto min-w-44"
+        style={{
+          bottom: 'calc(env(safe-area-inset-bottom, 0px) + var(--bottom-nav-height, 56px) + 84px)',
+          right: 'calc(env(safe-area-inset-right, 0px) + 16px)',
+        }}
+        role="menu"
+        aria-label="Add from template"
+      >
+        {templates.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            role="menuitem"
+            onClick={() => handleTemplateSelect(template)}
+            className="text-left text-sm px-3 py-2 rounded-md hover:bg-muted/50 transition-colors"
+          >
+            {template.name}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+
+  return createPortal(<>{button}{menu}</>, document.body);
 };
\ No newline at end of file
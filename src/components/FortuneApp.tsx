@@ -20,9 +20,13 @@ import { useAppBootstrap } from '@/hooks/useAppBootstrap';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { SettingsProvider } from '@/contexts/SettingsContext';
 import { useGroupInviteHandler } from '@/hooks/useGroupInviteHandler';
+import { useOutboxReplay } from '@/hooks/useOutboxReplay';
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+import { useAchievementUnlockToasts } from '@/hooks/useAchievementUnlockToasts';
 import { TutorialProvider } from '@/contexts/TutorialContext';
 import { TutorialModal } from '@/components/TutorialModal';
 import { Button } from '@/components/ui/button';
+import type { FortuneTemplate } from '@/lib/fortuneTemplates';
 
 // Simple Error Boundary component
 class ErrorBoundary extends Component<{ children: ReactNode; fallback: ReactNode }> {
@@ -50,6 +54,7 @@ const FortuneApp = () => {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [showSettingsPage, setShowSettingsPage] = useState(false);
   const [addFortuneOpen, setAddFortuneOpen] = useState(false);
+  const [quickTemplate, setQuickTemplate] = useState<FortuneTemplate | null>(null);
   const [showPricingDialog, setShowPricingDialog] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [selectedFortuneDate, setSelectedFortuneDate] = useState<Date | null>(null);
@@ -59,6 +64,15 @@ const FortuneApp = () => {
   // Handle group invitations from URL parameters
   useGroupInviteHandler(user);
 
+  // Sync fortunes saved while offline
+  useOutboxReplay(user);
+
+  // Pick up changes made on the user's other devices (counts/level come from the bootstrap state)
+  useRealtimeSync(user, bootstrapState.refetch);
+
+  // Achievements are unlocked server-side; announce new ones
+  useAchievementUnlockToasts();
+
   // Handle bootstrap failure - sign out user
   useEffect(() => {
     if (bootstrapState?.bootstrapFailed || 
@@ -188,6 +202,10 @@ const FortuneApp = () => {
                       {activeTab !== 'friends' && (
                         <FloatingActionButton 
                           onClick={() => setAddFortuneOpen(true)} 
+                          onTemplateSelect={(template) => {
+                            setQuickTemplate(template);
+                            setAddFortuneOpen(true);
+                          }}
                           selectedDate={selectedFortuneDate}
                         />
                       )}
@@ -199,9 +217,13 @@ const FortuneApp = () => {
 
                       <FortuneModal
                         isOpen={addFortuneOpen}
-                        onClose={() => setAddFortuneOpen(false)}
+                        onClose={() => {
+                          setAddFortuneOpen(false);
+                          setQuickTemplate(null);
+                        }}
                         onFortuneAdded={handleFortuneAdded}
                         selectedDate={activeTab === 'home' ? null : selectedFortuneDate}
+                        template={quickTemplate}
                         mode="create"
                       />
 
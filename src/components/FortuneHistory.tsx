@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { ArrowCounterClockwise, ClockCounterClockwise } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Fortune } from '@/types/fortune';
+import { useToast } from '@/hooks/use-toast';
+import { getFortuneRevisions, revertFortune, type FortuneRevision } from '@/lib/fortunes';
+import { diffWords } from '@/lib/textDiff';
+import { normalizeTag } from '@/lib/tags';
+
+interface FortuneHistoryProps {
+  fortune: Fortune;
+  onReverted: (revision: FortuneRevision) => void;
+}
+
+// A version as shown in the panel: the current fortune or one of its revisions
+interface HistoryVersion {
+  revisionId: string | null;
+  text: string;
+  category: string;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: Fortune['impact_level'];
+  tags: string[];
+  // When this version was saved (became current)
+  savedAt: string;
+}
+
+const IMPACT_LABELS: Record<string, string> = {
+  small_step: 'Small Step',
+  milestone: 'Milestone',
+  big_win: 'Big Win',
+};
+
+const formatTimestamp = (iso: string) => format(new Date(iso), 'MMM d, yyyy · h:mm a');
+
+/**
+ * Field changes from `older` to `newer`, except the text (shown as a diff)
+ */
+function describeChanges(older: HistoryVersion, newer: HistoryVersion): string[] {
+  const changes: string[] = [];
+  if (older.category !== newer.category) {
+    changes.push(`Category: ${older.category} → ${newer.category}`);
+  }
+  if ((older.fortune_value ?? null) !== (newer.fortune_value ?? null) || (older.currency ?? null) !== (newer.currency ?? null)) {
+    const value = (version: HistoryVersion) =>
+      version.fortune_value !== null ? `${version.fortune_value}${version.currency ? ` ${version.currency}` : ''}` : '—';
+    changes.push(`Value: ${value(older)} → ${value(newer)}`);
+  }
+  if ((older.impact_level ?? null) !== (newer.impact_level ?? null)) {
+    const label = (level: Fortune['impact_level']) => (level ? IMPACT_LABELS[level] ?? level : '—');
+    changes.push(`Impact: ${label(older.impact_level)} → ${label(newer.impact_level)}`);
+  }
+  const olderTags = older.tags.map(normalizeTag).sort().join(', ');
+  const newerTags = newer.tags.map(normalizeTag).sort().join(', ');
+  if (olderTags !== newerTags) {
+    changes.push(`Tags: ${olderTags || '—'} → ${newerTags || '—'}`);
+  }
+  return changes;
+}
+
+export const FortuneHistory = ({ fortune, onReverted }: FortuneHistoryProps) => {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<FortuneRevision[]>([]);
+  const [current, setCurrent] = useState<Omit<HistoryVersion, 'savedAt' | 'revisionId'>>({
+    text: fortune.text,
+    category: fortune.category,
+    fortune_value: fortune.fortune_value ?? null,
+    currency: fortune.currency ?? null,
+    impact_level: fortune.impact_level,
+    tags: fortune.tags ?? [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setRevisions(await getFortuneRevisions(fortune.id));
+    } catch (error) {
+      console.error('[HISTORY] load failed:', error);
+      toast({
+        title: "Couldn't load history",
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [fortune.id, toast]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // Newest first; a revision was saved when the one before it was replaced
+  const versions = useMemo<HistoryVersion[]>(() => {
+    const savedAt = (index: number) => revisions[index]?.created_at ?? fortune.created_at;
+    return [
+      { revisionId: null, ...current, savedAt: savedAt(0) },
+      ...revisions.map((revision, index) => ({
+        revisionId: revision.id,
+        text: revision.text,
+        category: revision.category,
+        fortune_value: revision.fortune_value,
+        currency: revision.currency,
+        impact_level: revision.impact_level,
+        tags: revision.tags ?? [],
+        savedAt: savedAt(index + 1),
+      })),
+    ];
+  }, [current, revisions, fortune.created_at]);
+
+  const handleRevert = async (revision: FortuneRevision) => {
+    setRevertingId(revision.id);
+    try {
+      await revertFortune(fortune.id, revision.id);
+      setCurrent({
+        text: revision.text,
+        category: revision.category,
+        fortune_value: revision.fortune_value,
+        currency: revision.currency,
+        impact_level: revision.impact_level,
+        tags: revision.tags ?? [],
+      });
+      setExpandedId(null);
+      onReverted(revision);
+      toast({
+        title: 'Version restored',
+        description: `Reverted to the version saved ${formatTimestamp(versions.find(v => v.revisionId === revision.id)?.savedAt ?? revision.created_at)}.`,
+      });
+      await loadRevisions();
+    } catch (error) {
+      console.error('[HISTORY] revert failed:', error);
+      toast({
+        title: 'Error restoring version',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Loading history…</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground italic">No earlier versions yet. Edits you save will show up here.</p>;
+  }
+
+  return (
+    <div className="max-h-72 overflow-y-auto space-y-2">
+      {versions.map((version, index) => {
+        const older = versions[index + 1];
+        const key = version.revisionId ?? 'current';
+        const isExpanded = expandedId === key;
+        const revision = revisions.find(r => r.id === version.revisionId);
+        const changes = older ? describeChanges(older, version) : [];
+        const textChanged = !older || older.text !== version.text;
+
+        return (
+          <div key={key} className="p-2 rounded-lg border border-border/50 bg-muted/20 text-xs space-y-1">
+            <button
+              type="button"
+              onClick={() => setExpandedId(isExpanded ? null : key)}
+              className="w-full flex items-center justify-between gap-2 text-left"
+            >
+              <span className="font-medium">
+                {version.revisionId ? formatTimestamp(version.savedAt) : 'Current version'}
+              </span>
+              <span className="text-muted-foreground shrink-0">
+                {!older ? 'Original' : textChanged ? 'Text edited' : changes.length > 0 ? 'Details edited' : 'No changes'}
+              </span>
+            </button>
+
+            {isExpanded && (
+              <div className="space-y-2 pt-1">
+                <p className="whitespace-pre-wrap break-words leading-relaxed">
+                  {(older ? diffWords(older.text, version.text) : [{ type: 'same' as const, text: version.text }]).map((segment, i) => (
+                    <span
+                      key={i}
+                      className={
+                        segment.type === 'added'
+                          ? 'bg-emerald/20 text-emerald'
+                          : segment.type === 'removed'
+                            ? 'bg-destructive/15 text-destructive line-through'
+                            : undefined
+                      }
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+                {changes.map((change) => (
+                  <p key={change} className="text-muted-foreground">{change}</p>
+                ))}
+                {revision && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={revertingId !== null}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <ArrowCounterClockwise size={14} className="mr-1" />
+                        {revertingId === revision.id ? 'Restoring…' : 'Revert to this version'}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revert Fortune</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The fortune will go back to this version. The current version stays in the history, so you can switch back later.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRevert(revision)}>Revert</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <p className="flex items-center gap-1 text-[10px] text-muted-foreground pt-1">
+        <ClockCounterClockwise size={12} />
+        The last 50 versions are kept.
+      </p>
+    </div>
+  );
+};
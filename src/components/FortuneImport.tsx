@@ -0,0 +1,298 @@
+import { useState, useMemo, useRef } from 'react';
+import { UploadSimple, CheckCircle, WarningCircle, DownloadSimple } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useAppState } from '@/contexts/AppStateContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useFreePlanLimits } from '@/hooks/useFreePlanLimits';
+import { SUBSCRIPTION_LIMITS } from '@/config/limits';
+import { emitAppEvent } from '@/lib/appEvents';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessColumnMapping,
+  importFortunes,
+  parseImportFile,
+  validateImportRow,
+  type ImportColumnMapping,
+  type ImportField,
+  type ParsedImportFile,
+  type ValidatedImportRow,
+} from '@/lib/fortuneImport';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  text: 'Text',
+  category: 'Category',
+  created_at: 'Date',
+  fortune_value: 'Value',
+  currency: 'Currency',
+  impact_level: 'Impact',
+};
+
+const NOT_MAPPED = '__none__';
+const PREVIEW_ROWS = 5;
+
+interface ReportEntry {
+  rowNumber: number;
+  error: string;
+}
+
+export const FortuneImport = () => {
+  const { toast } = useToast();
+  const { isActive } = useSubscription();
+  const { refetch } = useAppState();
+  const { currency } = useSettings();
+  const freePlanStatus = useFreePlanLimits();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<{ inserted: number; errors: ReportEntry[] } | null>(null);
+
+  // Remaining fortunes the current plan allows (free trial is capped by total count).
+  // Only a preview: fortune_import enforces the limit on the server.
+  const capacity = isActive
+    ? MAX_IMPORT_ROWS
+    : freePlanStatus.hasFullAccess
+      ? Math.max(0, SUBSCRIPTION_LIMITS.FREE_TRIAL_FORTUNE_LIMIT - freePlanStatus.totalFortunes)
+      : 0;
+
+  const validated = useMemo<ValidatedImportRow[]>(() => {
+    if (!parsed || !mapping) return [];
+    return parsed.rows.map((row, index) => validateImportRow(row, mapping, index + 1));
+  }, [parsed, mapping]);
+
+  const validRows = validated.filter((r) => r.row);
+  const invalidRows = validated.filter((r) => r.error);
+  const importableCount = Math.min(validRows.length, capacity);
+
+  const reset = () => {
+    setFileName(null);
+    setParsed(null);
+    setMapping(null);
+    setProgress(0);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setReport(null);
+
+    try {
+      const content = await file.text();
+      const result = parseImportFile(content, file.name);
+      if (result.rows.length === 0) {
+        throw new Error('No rows found in file');
+      }
+      if (result.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`Files are limited to ${MAX_IMPORT_ROWS} rows`);
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(guessColumnMapping(result.columns));
+    } catch (error) {
+      reset();
+      toast({
+        title: "Couldn't read file",
+        description: error instanceof Error ? error.message : 'Unsupported file',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || !mapping) return;
+    setImporting(true);
+    setProgress(0);
+
+    try {
+      const toInsert = validRows.slice(0, capacity);
+      const overLimit = validRows.slice(capacity);
+
+      const results = await importFortunes(toInsert, (done, total) => {
+        setProgress(Math.round((done / total) * 100));
+      }, currency);
+
+      const errors: ReportEntry[] = [
+        ...invalidRows.map((r) => ({ rowNumber: r.rowNumber, error: r.error as string })),
+        ...overLimit.map((r) => ({ rowNumber: r.rowNumber, error: 'Plan limit reached' })),
+        ...results.filter((r) => !r.success).map((r) => ({ rowNumber: r.rowNumber, error: r.error ?? 'Insert failed' })),
+      ].sort((a, b) => a.rowNumber - b.rowNumber);
+      const inserted = results.filter((r) => r.success).length;
+
+      setReport({ inserted, errors });
+      reset();
+
+      if (inserted > 0) {
+        emitAppEvent('fortunesUpdated');
+        refetch();
+      }
+
+      toast({
+        title: inserted > 0 ? "Import complete ✨" : "Nothing imported",
+        description: `${inserted} fortune${inserted === 1 ? '' : 's'} imported${errors.length ? `, ${errors.length} skipped` : ''}.`,
+        variant: inserted > 0 ? undefined : "destructive",
+      });
+    } catch (error) {
+      console.error('[IMPORT] failed:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!report) return;
+    const lines = ['row,error', ...report.errors.map((e) => `${e.rowNumber},"${e.error.replace(/"/g, '""')}"`)];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'fortune-import-errors.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Bring in fortunes from a spreadsheet. Upload a CSV with a header row or a JSON array.
+      </p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full justify-start"
+        disabled={importing}
+      >
+        <UploadSimple size={18} className="mr-2" />
+        {fileName ?? 'Choose CSV or JSON file'}
+      </Button>
+
+      {parsed && mapping && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field}>
+                <label className="block text-xs font-medium mb-1">
+                  {FIELD_LABELS[field]}{field === 'text' && ' *'}
+                </label>
+                <Select
+                  value={mapping[field] ?? NOT_MAPPED}
+                  onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : value })}
+                >
+                  <SelectTrigger className="h-9 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                    {parsed.columns.map((column) => (
+                      <SelectItem key={column} value={column}>{column}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium">Preview</p>
+            {validated.slice(0, PREVIEW_ROWS).map((result) => (
+              <div
+                key={result.rowNumber}
+                className={`p-2 rounded border text-xs ${result.error ? 'border-destructive/50 bg-destructive/5' : 'border-border/50 bg-muted/20'}`}
+              >
+                {result.row ? (
+                  <div className="flex items-start gap-2">
+                    <CheckCircle size={14} className="text-emerald shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="truncate">{result.row.text}</p>
+                      <p className="text-muted-foreground">
+                        {result.row.category}
+                        {result.row.created_at && ` · ${new Date(result.row.created_at).toLocaleDateString()}`}
+                        {result.row.fortune_value !== null && ` · ${result.row.fortune_value} ${result.row.currency ?? currency}`}
+                        {result.row.impact_level && ` · ${result.row.impact_level.replace('_', ' ')}`}
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2 text-destructive">
+                    <WarningCircle size={14} className="shrink-0 mt-0.5" />
+                    <span>Row {result.rowNumber}: {result.error}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>{validRows.length} valid · {invalidRows.length} with errors</p>
+            {validRows.length > capacity && (
+              <p className="text-amber-400">
+                {capacity === 0
+                  ? 'Your current plan does not allow adding more fortunes. Upgrade to import.'
+                  : `Your plan allows ${capacity} more fortune${capacity === 1 ? '' : 's'}; the remaining rows will be skipped.`}
+              </p>
+            )}
+          </div>
+
+          {importing && <Progress value={progress} className="h-2" />}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={reset} disabled={importing} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={importing || importableCount === 0 || !mapping.text || freePlanStatus.loading}
+              className="flex-1"
+            >
+              {importing ? 'Importing...' : `Import ${importableCount}`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="p-3 rounded-lg border border-border bg-muted/30 space-y-2">
+          <p className="text-sm font-medium">
+            {report.inserted} imported{report.errors.length > 0 && `, ${report.errors.length} skipped`}
+          </p>
+          {report.errors.length > 0 && (
+            <>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {report.errors.map((entry) => (
+                  <p key={entry.rowNumber} className="text-xs text-destructive">
+                    Row {entry.rowNumber}: {entry.error}
+                  </p>
+                ))}
+              </div>
+              <Button variant="ghost" size="sm" onClick={downloadReport} className="h-7 px-2 text-xs">
+                <DownloadSimple size={14} className="mr-1" />
+                Download error report
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { format } from 'date-fns';
 import { Fortune } from '@/types/fortune';
 import { 
@@ -12,15 +12,27 @@ import {
   TrendUp,
   Star,
   Trophy,
-  CheckSquare
+  CheckSquare,
+  CloudSlash,
+  ShareNetwork
 } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
 import { FortuneModal } from '@/components/FortuneModal';
 import { FortunePhoto } from '@/components/FortunePhoto';
-import { deleteFortune } from '@/lib/fortunes';
+import { ShareFortuneDialog } from '@/components/ShareFortuneDialog';
+import { deleteFortune, restoreFortune } from '@/lib/fortunes';
+import { collectTags, filterFortunesByTags } from '@/lib/tags';
+import { TagFilter } from '@/components/TagFilter';
+import { useFortuneOutbox } from '@/hooks/useFortuneOutbox';
 import { useToast } from '@/hooks/use-toast';
+import { useSettings } from '@/contexts/SettingsContext';
+import { formatUnitValue, getCategoryValueType } from '@/lib/valueUnits';
+import { useCategoryValueTypes } from '@/hooks/useCategoryValueTypes';
+import { ToastAction } from '@/components/ui/toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { TransitionGroup, CSSTransition } from 'react-transition-group';
+import { VirtualizedList } from '@/components/VirtualizedList';
+import { emitAppEvent } from '@/lib/appEvents';
+import { useAppEvent } from '@/hooks/useAppEvent';
 
 const ConfirmDeleteDialog = ({
   onConfirm,
@@ -35,7 +47,7 @@ const ConfirmDeleteDialog = ({
       <AlertDialogHeader>
         <AlertDialogTitle>Delete Fortune</AlertDialogTitle>
         <AlertDialogDescription>
-          Are you sure you want to delete this fortune? This action cannot be undone.
+          This fortune will be moved to the Trash. You can restore it from Settings within 30 days.
         </AlertDialogDescription>
       </AlertDialogHeader>
       <AlertDialogFooter>
@@ -50,6 +62,10 @@ interface FortuneListProps {
   fortunes: Fortune[];
   title?: string;
   onFortunesUpdated?: () => void;
+  // Infinite scroll: more pages exist past the last loaded fortune
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 const getCategoryIcon = (category: string) => {
@@ -93,6 +109,8 @@ const getImpactStyle = (impactLevel?: string | null) => {
         borderColor: 'border-yellow-400/50',
         bgColor: '',
         iconColor: 'text-yellow-400',
+        // Hex of the icon color, for canvas-rendered share cards
+        hex: '#FACC15',
         icon: TrendUp,
         label: 'Small Step'
       };
@@ -101,6 +119,7 @@ const getImpactStyle = (impactLevel?: string | null) => {
         borderColor: 'border-amber-400/50',
         bgColor: '',
         iconColor: 'text-amber-400',
+        hex: '#FBBF24',
         icon: Star,
         label: 'Milestone'
       };
@@ -109,6 +128,7 @@ const getImpactStyle = (impactLevel?: string | null) => {
         borderColor: 'border-cyan-400/50',
         bgColor: '',
         iconColor: 'text-cyan-400',
+        hex: '#22D3EE',
         icon: Trophy,
         label: 'Big Win'
       };
@@ -117,56 +137,75 @@ const getImpactStyle = (impactLevel?: string | null) => {
         borderColor: 'border-muted/20',
         bgColor: '',
         iconColor: 'text-muted-foreground',
+        hex: null,
         icon: null,
         label: null
       };
   }
 };
 
-export const FortuneList = ({ fortunes, title = "Today's Fortunes", onFortunesUpdated }: FortuneListProps) => {
+export const FortuneList = ({ fortunes, title = "Today's Fortunes", onFortunesUpdated, hasMore, loadingMore, onLoadMore }: FortuneListProps) => {
   const [editingFortune, setEditingFortune] = useState<Fortune | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [sharing, setSharing] = useState<{ fortune: Fortune; impact: { label: string; hex: string } | null } | null>(null);
   const [deletingFortunes, setDeletingFortunes] = useState<Set<string>>(new Set());
   const deleteTimeoutsRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
   // Track photo updated_at timestamps by fortuneId to force FortunePhoto refresh
   const [photoUpdatedAts, setPhotoUpdatedAts] = useState<Map<string, string>>(new Map());
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const { toast } = useToast();
+  const { currency } = useSettings();
+  const valueTypes = useCategoryValueTypes();
+  const { pendingIds, pendingDeleteIds } = useFortuneOutbox();
 
-  // NOTE: We do NOT add a window listener for fortunesUpdated here
+  const availableTags = useMemo(() => collectTags(fortunes), [fortunes]);
+  const visibleFortunes = useMemo(
+    // Deletes queued offline are hidden right away; the server catches up on replay
+    () => filterFortunesByTags(fortunes, selectedTags).filter((f) => !pendingDeleteIds.has(f.id)),
+    [fortunes, selectedTags, pendingDeleteIds]
+  );
+
+  // NOTE: We do NOT subscribe to fortunesUpdated here
   // because HomeTab already listens for it and passes updated fortunes via props.
   // Adding another listener here would cause duplicate fetches.
 
   // Listen for photo updates so we can force FortunePhoto to refresh without refetching the whole list.
-  // Expected event: window.dispatchEvent(new CustomEvent('fortunePhotoUpdated', { detail: { fortuneId, updatedAt } }))
-  useEffect(() => {
-    const onPhotoUpdated = (e: Event) => {
-      const ce = e as CustomEvent<{ fortuneId?: string; updatedAt?: string }>;
-      const fortuneId = ce.detail?.fortuneId;
-      if (!fortuneId) return;
-
-      // Only update if updatedAt is provided; do not generate a fallback timestamp.
-      // Missing updatedAt means the photo wasn't actually updated, so we shouldn't trigger a refresh.
-      const updatedAt = ce.detail?.updatedAt;
-      if (!updatedAt) return;
-
-      setPhotoUpdatedAts(prev => {
-        const next = new Map(prev);
-        next.set(fortuneId, updatedAt);
-        return next;
-      });
-    };
+  useAppEvent('fortunePhotoUpdated', ({ fortuneId, updatedAt }) => {
+    // Missing updatedAt means the photo wasn't actually updated, so we shouldn't trigger a refresh.
+    if (!fortuneId || !updatedAt) return;
 
-    window.addEventListener('fortunePhotoUpdated', onPhotoUpdated);
-    return () => {
-      window.removeEventListener('fortunePhotoUpdated', onPhotoUpdated);
-    };
-  }, []);
+    setPhotoUpdatedAts(prev => {
+      const next = new Map(prev);
+      next.set(fortuneId, updatedAt);
+      return next;
+    });
+  });
 
   const handleEditFortune = (fortune: Fortune) => {
     setEditingFortune(fortune);
     setIsEditModalOpen(true);
   };
 
+  const handleShareFortune = (fortune: Fortune) => {
+    const { label, hex } = getImpactStyle(fortune.impact_level);
+    setSharing({ fortune, impact: label && hex ? { label, hex } : null });
+  };
+
+  const handleUndoDelete = async (fortuneId: string) => {
+    try {
+      await restoreFortune(fortuneId);
+      onFortunesUpdated?.();
+      emitAppEvent('fortunesUpdated');
+    } catch (error) {
+      console.error('Error restoring fortune:', error);
+      toast({
+        title: "Error restoring fortune",
+        description: "You can still restore it from Trash in Settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteFortune = async (fortuneId: string) => {
     // Clear any existing timeout for this fortune
     const existingTimeout = deleteTimeoutsRef.current.get(fortuneId);
@@ -181,15 +220,23 @@ export const FortuneList = ({ fortunes, title = "Today's Fortunes", onFortunesUp
     const timeoutId = setTimeout(async () => {
       deleteTimeoutsRef.current.delete(fortuneId);
       try {
-        await deleteFortune(fortuneId);
+        const { queued } = await deleteFortune(fortuneId);
 
         toast({
           title: "Fortune deleted",
-          description: "Your fortune has been removed.",
+          description: queued
+            ? "You're offline. The deletion will sync when you reconnect."
+            : "Moved to Trash.",
+          // Queued deletes can't be undone until they reach the server
+          action: queued ? undefined : (
+            <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(fortuneId)}>
+              Undo
+            </ToastAction>
+          ),
         });
 
         onFortunesUpdated?.();
-        window.dispatchEvent(new Event("fortunesUpdated"));
+        emitAppEvent('fortunesUpdated');
         
         // Remove from deleting set
         setDeletingFortunes(prev => {
@@ -246,86 +293,70 @@ export const FortuneList = ({ fortunes, title = "Today's Fortunes", onFortunesUp
   return (
     <div className="luxury-card p-6">
       <h3 className="text-lg font-heading font-medium mb-4">{title}</h3>
-      <TransitionGroup component="div" className="space-y-3">
-        {fortunes.filter(fortune => !deletingFortunes.has(fortune.id)).map((fortune) => {
+      <TagFilter tags={availableTags} selected={selectedTags} onChange={setSelectedTags} className="mb-4" />
+      {visibleFortunes.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">No fortunes with the selected tags</p>
+      )}
+      <VirtualizedList
+        items={visibleFortunes.filter(fortune => !deletingFortunes.has(fortune.id))}
+        getKey={(fortune) => fortune.id}
+        useWindowScroll
+        hasMore={hasMore}
+        loadingMore={loadingMore}
+        onLoadMore={onLoadMore}
+        renderItem={(fortune) => {
           const impactStyle = getImpactStyle(fortune.impact_level);
           const ImpactIcon = impactStyle.icon;
+          const isUnsynced = fortune.pending_sync || pendingIds.has(fortune.id);
           
           return (
-            <CSSTransition
-              key={fortune.id}
-              timeout={300}
-              classNames="fortune"
-            >
-              <div
-                className={`group p-4 rounded-lg border-2 hover:border-gold/50 transition-all duration-300 relative ${
-                  deletingFortunes.has(fortune.id) 
-                    ? 'opacity-0 scale-95 translate-x-4' 
-                    : 'opacity-100 scale-100 translate-x-0'
-                } ${impactStyle.borderColor} ${impactStyle.bgColor} 
-                text-white dark:text-white 
-                bg-fortune-item dark:bg-transparent`}
-                >
-                <div className="flex items-start justify-between gap-3 mb-2">
-                  <div className="flex-1">
-                    <p className="text-sm leading-relaxed mb-2 text-gray-800 dark:text-white">{fortune.text}</p>
+            <div
+              className={`group p-4 rounded-lg border-2 hover:border-gold/50 transition-all duration-300 relative ${
+                deletingFortunes.has(fortune.id) 
+                  ? 'opacity-0 scale-95 translate-x-4' 
+                  : 'opacity-100 scale-100 translate-x-0'
+              } ${impactStyle.borderColor} ${impactStyle.bgColor} 
+              text-white dark:text-white 
+              bg-fortune-item dark:bg-transparent`}
+              >
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <div className="flex-1">
+                  <p className="text-sm leading-relaxed mb-2 text-gray-800 dark:text-white">{fortune.text}</p>
+                  {!fortune.pending_sync && (
                     <FortunePhoto
                       fortuneId={fortune.id}
                       className="w-full max-w-xs"
                       version={photoUpdatedAts.get(fortune.id) ?? undefined}
                     />
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {/* Impact Level Indicator */}
-                    {ImpactIcon && (
-                      <div className="flex items-center gap-1">
-                        <ImpactIcon size={14} className={impactStyle.iconColor} />
-                      </div>
-                    )}
-                    <span className="text-xs text-muted-foreground whitespace-nowrap">
-                      {format(new Date(fortune.created_at), 'HH:mm')}
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {isUnsynced && (
+                    <span className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded-full border border-amber-400/50 text-amber-400 whitespace-nowrap">
+                      <CloudSlash size={10} />
+                      Not synced
                     </span>
-                    {/* Edit/Delete buttons - visible on hover on desktop */}
-                    <div className="hidden md:flex opacity-0 group-hover:opacity-100 transition-opacity gap-1">
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={() => handleEditFortune(fortune)}
-                        className="h-6 w-6 p-0 hover:bg-gold/20"
-                      >
-                        <PencilSimple size={12} className="text-gold" />
-                      </Button>
-                      <ConfirmDeleteDialog
-                        onConfirm={() => handleDeleteFortune(fortune.id)}
-                        trigger={
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="h-6 w-6 p-0 hover:bg-red-500/20"
-                          >
-                            <Trash size={12} className="text-red-400" />
-                          </Button>
-                        }
-                      />
+                  )}
+                  {/* Impact Level Indicator */}
+                  {ImpactIcon && (
+                    <div className="flex items-center gap-1">
+                      <ImpactIcon size={14} className={impactStyle.iconColor} />
                     </div>
-                  </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span
-                      className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full border ${getCategoryColor(fortune.category)}`}
+                  )}
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {format(new Date(fortune.created_at), 'HH:mm')}
+                  </span>
+                  {/* Share/Edit/Delete buttons - visible on hover on desktop */}
+                  <div className="hidden md:flex opacity-0 group-hover:opacity-100 transition-opacity gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleShareFortune(fortune)}
+                      className="h-6 w-6 p-0 hover:bg-gold/20"
+                      aria-label="Share fortune"
                     >
-                      {getCategoryIcon(fortune.category)}
-                      {fortune.category}
-                    </span>
-                    {fortune.category === 'Wealth' && fortune.fortune_value && fortune.fortune_value > 0 && (
-                      <span className="text-xs text-gold font-medium">
-                        ${fortune.fortune_value}
-                      </span>
-                    )}
-                  </div>
-                  {/* Mobile edit/delete buttons - always visible */}
-                  <div className="flex md:hidden gap-1">
+                      <ShareNetwork size={12} className="text-gold" />
+                    </Button>
                     <Button
                       size="sm"
                       variant="ghost"
@@ -349,10 +380,66 @@ export const FortuneList = ({ fortunes, title = "Today's Fortunes", onFortunesUp
                   </div>
                 </div>
               </div>
-            </CSSTransition>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full border ${getCategoryColor(fortune.category)}`}
+                  >
+                    {getCategoryIcon(fortune.category)}
+                    {fortune.category}
+                  </span>
+                  {fortune.fortune_value && fortune.fortune_value > 0 && (
+                    <span className="text-xs text-gold font-medium">
+                      {formatUnitValue(
+                        fortune.fortune_value,
+                        getCategoryValueType(fortune.category, valueTypes).unit,
+                        fortune.currency || currency
+                      )}
+                    </span>
+                  )}
+                  {fortune.tags?.map((tag) => (
+                    <span key={tag} className="text-xs text-muted-foreground">
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+                {/* Mobile share/edit/delete buttons - always visible */}
+                <div className="flex md:hidden gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleShareFortune(fortune)}
+                    className="h-6 w-6 p-0 hover:bg-gold/20"
+                    aria-label="Share fortune"
+                  >
+                    <ShareNetwork size={12} className="text-gold" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleEditFortune(fortune)}
+                    className="h-6 w-6 p-0 hover:bg-gold/20"
+                  >
+                    <PencilSimple size={12} className="text-gold" />
+                  </Button>
+                  <ConfirmDeleteDialog
+                    onConfirm={() => handleDeleteFortune(fortune.id)}
+                    trigger={
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 hover:bg-red-500/20"
+                      >
+                        <Trash size={12} className="text-red-400" />
+                      </Button>
+                    }
+                  />
+                </div>
+              </div>
+            </div>
           );
-        })}
-      </TransitionGroup>
+        }}
+      />
 
       <FortuneModal
         isOpen={isEditModalOpen}
@@ -361,6 +448,13 @@ export const FortuneList = ({ fortunes, title = "Today's Fortunes", onFortunesUp
         onFortuneUpdated={handleFortuneUpdated}
         mode="edit"
       />
+
+      <ShareFortuneDialog
+        fortune={sharing?.fortune ?? null}
+        impact={sharing?.impact ?? null}
+        isOpen={sharing !== null}
+        onClose={() => setSharing(null)}
+      />
     </div>
   );
 };
\ No newline at end of file
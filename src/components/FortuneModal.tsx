@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { X, Plus, Sparkle, CurrencyDollar, Crown, Lock, TrendUp, Trophy, Star, Camera, Image, DeviceMobile } from '@phosphor-icons/react';
+import { X, Plus, Sparkle, CurrencyDollar, Crown, Lock, TrendUp, Trophy, Star, Camera, Image, DeviceMobile, CaretLeft, CaretRight, ClockCounterClockwise } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
@@ -7,20 +7,33 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { FortuneCategory, CategoryData, Fortune } from '@/types/fortune';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { sanitizeText, validateNumericValue, validateCategory, formRateLimiter } from '@/lib/security';
+import { sanitizeText, validateCategory, validateTags, formRateLimiter } from '@/lib/security';
 import { useFreePlanLimits } from '@/hooks/useFreePlanLimits';
 import { useAppState } from '@/contexts/AppStateContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { SUBSCRIPTION_LIMITS } from '@/config/limits';
-import { addFortune, updateFortune } from '@/lib/fortunes';
+import { addFortune, updateFortune, type FortuneRevision } from '@/lib/fortunes';
+import { getUserTags } from '@/lib/tags';
+import { listFortunePhotos, deleteFortunePhoto, reorderFortunePhotos } from '@/lib/edge-functions';
+import { TagInput } from '@/components/TagInput';
+import { FortuneHistory } from '@/components/FortuneHistory';
 import confetti from 'canvas-confetti';
 import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { CURRENCY_VALUE_TYPE, VALUE_UNITS, formatUnitValue, resolveValueType, validateUnitValue } from '@/lib/valueUnits';
 import { useAuth } from '@/auth/AuthProvider';
-import { getFortuneMedia, type FortuneMedia } from '@/integrations/supabase/fortuneMedia';
+import { type FortuneMedia } from '@/integrations/supabase/fortuneMedia';
 import { useSignedUrl } from '@/hooks/useSignedUrl';
 import type { NativeUploaderOptions, NativeUploaderResult, NativePhotoPickerResult } from '@/types/native';
 import { useIsNativePlatform } from '@/hooks/useIsNativePlatform';
 import { processAndUpload } from '@/lib/nativeUploader';
+import { emitAppEvent } from '@/lib/appEvents';
+import { useFortuneTemplates } from '@/hooks/useFortuneTemplates';
+import type { FortuneTemplate } from '@/lib/fortuneTemplates';
+import { findSimilarFortunes } from '@/lib/fortuneDuplicates';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { format } from 'date-fns';
 
 interface FortuneModalProps {
   isOpen: boolean;
@@ -30,6 +43,7 @@ interface FortuneModalProps {
   selectedDate?: Date | null;
   fortune?: Fortune | null; // If provided, we're in edit mode
   mode?: 'create' | 'edit'; // Explicit mode specification
+  template?: FortuneTemplate | null; // Pre-fills the create form (FAB menu, recurring prompt)
 }
 
 const defaultCategories: CategoryData[] = [
@@ -94,6 +108,19 @@ const shootConfetti = () => {
   }
 };
 
+// Photo strip entry: either already stored (signed URL) or picked in this session (uploaded on Save)
+type ModalPhoto =
+  | { key: string; kind: 'saved'; id: string; url: string | null }
+  | { key: string; kind: 'new'; file: File; url: string };
+
+const revokePreviewUrls = (photos: ModalPhoto[]) => {
+  photos.forEach((photo) => {
+    if (photo.kind === 'new' && photo.url.startsWith('blob:')) {
+      URL.revokeObjectURL(photo.url);
+    }
+  });
+};
+
 async function convertWebpToJpegIfNeeded(file: File): Promise<File> {
   if (file.type !== 'image/webp') return file;
 
@@ -138,7 +165,8 @@ export const FortuneModal = ({
   onFortuneUpdated, 
   selectedDate, 
   fortune, 
-  mode 
+  mode,
+  template
 }: FortuneModalProps) => {
   // Determine if we're in edit mode
   const isEditMode = mode === 'edit' || !!fortune;
@@ -146,21 +174,33 @@ export const FortuneModal = ({
   const [text, setText] = useState('');
   const [category, setCategory] = useState<FortuneCategory>('Wealth');
   const [fortuneValue, setFortuneValue] = useState('');
+  const { currency: displayCurrency } = useSettings();
+  const { templates } = useFortuneTemplates();
+  const [valueCurrency, setValueCurrency] = useState(displayCurrency);
   const [impactLevel, setImpactLevel] = useState<string>('small_step');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<string[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Similar fortunes found on save; the user confirms before a likely duplicate is added
+  const [duplicateMatches, setDuplicateMatches] = useState<Fortune[] | null>(null);
+  const duplicateConfirmedRef = useRef(false);
+  const formRef = useRef<HTMLFormElement>(null);
   const [categories, setCategories] = useState<CategoryData[]>(defaultCategories);
   const [bigWinsCount, setBigWinsCount] = useState<number>(0);
   const [photoAttaching, setPhotoAttaching] = useState(false);
-  const [fortunePhoto, setFortunePhoto] = useState<string | null>(null);
-  const [pendingPhotoFile, setPendingPhotoFile] = useState<File | null>(null);
-  const [pendingPhotoPreviewUrl, setPendingPhotoPreviewUrl] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<ModalPhoto[]>([]);
+  // Server order of the stored photos when the modal loaded them; diffed against `photos` on Save
+  const [savedPhotoIds, setSavedPhotoIds] = useState<string[]>([]);
+  const [maxPhotos, setMaxPhotos] = useState(1);
+  const [photosSaving, setPhotosSaving] = useState(false);
   const [persistedFortuneId, setPersistedFortuneId] = useState<string | null>(null);
   const [pendingPhotoUpload, setPendingPhotoUpload] = useState<{
     fortuneId: string;
     path: string;
     bucket: string;
   } | null>(null);
-  const pollCleanupRef = useRef<(() => void) | null>(null);
+  const photosRef = useRef<ModalPhoto[]>([]);
   const ticketRequested = useRef(false);
   const userSelectedPhotoRef = useRef(false);
   const { toast } = useToast();
@@ -220,7 +260,10 @@ export const FortuneModal = ({
         const customCatsData = data.map(cat => ({
           name: cat.name,
           hasNumericValue: cat.has_numeric_value,
-          color: cat.color
+          color: cat.color,
+          parent: cat.parent_name,
+          archived: !!cat.archived_at,
+          valueType: resolveValueType(cat.value_unit, cat.value_min, cat.value_max)
         }));
         setCategories([...defaultCategories, ...customCatsData]);
       }
@@ -229,34 +272,30 @@ export const FortuneModal = ({
     }
   }, [user, defaultCategories]);
 
-  // Load custom categories and big wins count on mount
+  const loadTagSuggestions = useCallback(async () => {
+    if (!user) return;
+    setTagSuggestions(await getUserTags(user.id));
+  }, [user]);
+
+  // Load custom categories, tag suggestions and big wins count on mount
   useEffect(() => {
     if (isOpen) {
       loadCategories();
+      loadTagSuggestions();
       if (!isEditMode) {
         loadBigWinsCount();
       }
     }
-  }, [isOpen, isEditMode, loadCategories, loadBigWinsCount]);
+  }, [isOpen, isEditMode, loadCategories, loadTagSuggestions, loadBigWinsCount]);
 
-  // Cleanup polling when component unmounts or modal closes
+  // Cleanup local preview object URLs on unmount
   useEffect(() => {
-    return () => {
-      if (pollCleanupRef.current) {
-        pollCleanupRef.current();
-        pollCleanupRef.current = null;
-      }
-    };
-  }, []);
+    photosRef.current = photos;
+  }, [photos]);
 
-  // Cleanup local preview object URL
   useEffect(() => {
-    return () => {
-      if (pendingPhotoPreviewUrl && pendingPhotoPreviewUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(pendingPhotoPreviewUrl);
-      }
-    };
-  }, [pendingPhotoPreviewUrl]);
+    return () => revokePreviewUrls(photosRef.current);
+  }, []);
 
   // Populate form when editing - wait for categories to load
   useEffect(() => {
@@ -268,126 +307,145 @@ export const FortuneModal = ({
       setText(fortune.text || '');
       setCategory(fortune.category as FortuneCategory || '');
       setFortuneValue(fortune.fortune_value ? String(fortune.fortune_value) : '');
+      // Values saved before currencies were tracked are shown in the display currency
+      setValueCurrency(fortune.currency || displayCurrency);
       setImpactLevel(fortune.impact_level || 'small_step');
-      // Prevent async photo load from overwriting local preview
-      userSelectedPhotoRef.current = false;
-      // Load existing photo if available
-      loadFortunePhoto(fortune.id);
+      setTags(fortune.tags ?? []);
+      setShowHistory(false);
       // Clear any local (unsaved) photo selection when opening edit mode
-      setPendingPhotoFile(null);
-      setPendingPhotoPreviewUrl(null);
+      userSelectedPhotoRef.current = false;
+      revokePreviewUrls(photosRef.current);
+      setPhotos([]);
+      setSavedPhotoIds([]);
+      // Load existing photos if available
+      if (!fortune.pending_sync) {
+        loadFortunePhotos(fortune.id);
+      }
     } else if (!isEditMode && isOpen) {
       // Reset form for create mode
       setText('');
       setCategory('Wealth'); // Default to Wealth category
       setFortuneValue('');
+      setValueCurrency(displayCurrency);
       setImpactLevel('small_step');
+      setTags([]);
       setPersistedFortuneId(null);
-      setFortunePhoto(null);
-      setPendingPhotoFile(null);
-      setPendingPhotoPreviewUrl(null);
+      revokePreviewUrls(photosRef.current);
+      setPhotos([]);
+      setSavedPhotoIds([]);
+      if (template) applyTemplate(template);
     }
-  }, [isEditMode, fortune, isOpen, categories]);
+    // applyTemplate only calls state setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isEditMode, fortune, isOpen, categories, displayCurrency, template]);
+
+  const applyTemplate = (preset: FortuneTemplate) => {
+    setText(preset.text);
+    setCategory(preset.category as FortuneCategory);
+    setFortuneValue(preset.fortune_value ? String(preset.fortune_value) : '');
+    setValueCurrency(preset.currency || displayCurrency);
+    setImpactLevel(preset.impact_level);
+    setTags(preset.tags);
+  };
+
+  // A reverted version is already saved server-side; mirror it in the form
+  const handleRevisionReverted = (revision: FortuneRevision) => {
+    setText(revision.text);
+    setCategory(revision.category as FortuneCategory);
+    setFortuneValue(revision.fortune_value ? String(revision.fortune_value) : '');
+    setValueCurrency(revision.currency || displayCurrency);
+    setImpactLevel(revision.impact_level || 'small_step');
+    setTags(revision.tags ?? []);
+    emitAppEvent('fortunesUpdated');
+    onFortuneUpdated?.();
+  };
 
   const getCurrentCategory = () => {
     return categories.find(cat => cat.name === category) || defaultCategories[0];
   };
 
-  const loadFortunePhoto = async (fortuneId: string) => {
+  // Only money values carry a currency
+  const valueType = getCurrentCategory().valueType ?? CURRENCY_VALUE_TYPE;
+  const valueSpec = VALUE_UNITS[valueType.unit];
+  const isCurrencyValue = valueType.unit === 'currency';
+
+  // Two-level picker: subcategories whose parent no longer exists are offered at the top level
+  const isTopLevel = (cat: CategoryData) => !cat.parent || !categories.some(p => p.name === cat.parent && !p.parent);
+  // Archived categories stay selectable only for a fortune that already uses them
+  const isOffered = (cat: CategoryData) => !cat.archived || cat.name === category || cat.name === fortune?.category;
+  const currentCategoryData = categories.find(cat => cat.name === category);
+  const parentCategory = currentCategoryData && !isTopLevel(currentCategoryData) ? currentCategoryData.parent as string : category;
+  const topLevelCategories = categories.filter(cat => isTopLevel(cat) && (isOffered(cat) || cat.name === parentCategory));
+  const subcategories = categories.filter(cat => cat.parent === parentCategory && !isTopLevel(cat) && isOffered(cat));
+
+  const loadFortunePhotos = async (fortuneId: string) => {
     try {
-      // If the user has selected a new photo in this session, do NOT overwrite the preview
-      if (userSelectedPhotoRef.current || pendingPhotoPreviewUrl || pendingPhotoFile) {
+      // If the user has selected a new photo in this session, do NOT overwrite the previews
+      if (userSelectedPhotoRef.current) {
         return;
       }
 
       // IMPORTANT: Always sign via Edge (SIGN_ONLY) to avoid Storage 400/Object not found issues.
-      const { data, error } = await supabase.functions.invoke('finalize-fortune-photo', {
-        body: {
-          action: 'SIGN_ONLY',
-          fortune_id: fortuneId,
-          ttlSec: 300,
-        },
-      });
+      const { data, error } = await listFortunePhotos(fortuneId, 300);
 
-      if (error) {
-        console.error('[FORTUNE_MODAL] Error signing fortune photo via edge:', error);
-        setFortunePhoto(null);
+      if (error || !data) {
+        console.error('[FORTUNE_MODAL] Error signing fortune photos via edge:', error);
+        setPhotos([]);
+        setSavedPhotoIds([]);
         return;
       }
 
       // If a selection happened while we were awaiting, do not overwrite
-      if (userSelectedPhotoRef.current || pendingPhotoPreviewUrl || pendingPhotoFile) {
+      if (userSelectedPhotoRef.current) {
         return;
       }
 
-      const signedUrl = (data as { signedUrl?: string | null } | null)?.signedUrl ?? null;
-      setFortunePhoto(signedUrl);
+      setMaxPhotos(data.maxPhotos);
+      setSavedPhotoIds(data.photos.map((photo) => photo.id));
+      // Photos missing from storage keep a placeholder so they can still be removed
+      setPhotos(data.photos.map((photo) => ({ key: photo.id, kind: 'saved', id: photo.id, url: photo.signedUrl })));
     } catch (error) {
-      console.error('Error loading fortune photo:', error);
-      setFortunePhoto(null);
+      console.error('Error loading fortune photos:', error);
+      setPhotos([]);
+      setSavedPhotoIds([]);
     }
   };
 
-  // After a successful photo upload/finalize, trigger UI refresh everywhere the photo is rendered.
+  // After photos are uploaded, removed or reordered, trigger UI refresh everywhere they are rendered.
   // This is robust even when the native uploader doesn't return `media` metadata.
-  const dispatchPhotoRefreshEvents = useCallback(async (fortuneId: string, signedUrl?: string | null) => {
+  const dispatchPhotoRefreshEvents = useCallback(async (fortuneId: string) => {
     try {
-      // Fetch latest media to obtain updated_at (used as version for cache busting)
-      const mediaData = await getFortuneMedia(fortuneId);
-      const updatedAt = mediaData?.updatedAt;
-
-      // If we weren't given a signed URL, try to sign now (always via Edge)
-      let finalSignedUrl: string | null | undefined = signedUrl ?? undefined;
-      if (!finalSignedUrl && mediaData) {
-        const { data, error } = await supabase.functions.invoke('finalize-fortune-photo', {
-          body: {
-            action: 'SIGN_ONLY',
-            fortune_id: fortuneId,
-            ttlSec: 300,
-          },
-        });
+      // Latest updated_at across the fortune's photos is the cache-busting version.
+      // Removing the last photo leaves nothing to read it from, so fall back to the time of the change.
+      const { data } = await listFortunePhotos(fortuneId, 300);
+      const updatedAt = (data?.photos ?? [])
+        .map((photo) => photo.updated_at)
+        .sort()
+        .pop() ?? new Date().toISOString();
 
-        if (!error) {
-          finalSignedUrl = (data as { signedUrl?: string | null } | null)?.signedUrl ?? null;
-        }
-      }
-
-      if (updatedAt) {
-        window.dispatchEvent(new CustomEvent('fortunePhotoUpdated', {
-          detail: {
-            fortuneId,
-            updatedAt,
-            signedUrl: finalSignedUrl || undefined,
-          },
-        }));
-      }
+      emitAppEvent('fortunePhotoUpdated', { fortuneId, updatedAt });
 
       // Backward compatible refresh signal
-      window.dispatchEvent(new Event('fortunesUpdated'));
+      emitAppEvent('fortunesUpdated');
       onFortuneUpdated?.();
     } catch (err) {
       console.error('[FORTUNE_MODAL] dispatchPhotoRefreshEvents failed:', err);
-      window.dispatchEvent(new Event('fortunesUpdated'));
+      emitAppEvent('fortunesUpdated');
       onFortuneUpdated?.();
     }
   }, [onFortuneUpdated]);
 
   // Await a signed URL for a fortune photo via Edge (SIGN_ONLY). Used to block the Save flow
   // so the modal only closes once the upload is truly available.
-  const waitForSignedPhotoUrl = useCallback(async (fortuneId: string, maxAttempts: number = 6, delayMs: number = 750) => {
+  // Without a mediaId (older uploader builds) the first photo is checked.
+  const waitForSignedPhotoUrl = useCallback(async (fortuneId: string, mediaId?: string, maxAttempts: number = 6, delayMs: number = 750) => {
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      const { data, error } = await supabase.functions.invoke('finalize-fortune-photo', {
-        body: {
-          action: 'SIGN_ONLY',
-          fortune_id: fortuneId,
-          ttlSec: 300,
-        },
-      });
+      const { data, error } = await listFortunePhotos(fortuneId, 300);
 
-      if (!error) {
-        const signedUrl = (data as { signedUrl?: string | null } | null)?.signedUrl ?? null;
-        if (signedUrl) {
-          return signedUrl;
+      if (!error && data) {
+        const photo = mediaId ? data.photos.find((p) => p.id === mediaId) : data.photos[0];
+        if (photo?.signedUrl) {
+          return photo.signedUrl;
         }
       }
 
@@ -399,125 +457,100 @@ export const FortuneModal = ({
     return null;
   }, []);
 
-  const pollForPhotoCompletion = useCallback((path: string, bucket: string, maxAttempts: number = 3): (() => void) => {
-    const targetFortuneId = fortune?.id || '';
-    let attempts = 0;
-    let isCancelled = false;
-    const pollInterval = setInterval(async () => {
-      // Check if component unmounted or polling was cancelled
-      if (isCancelled) {
-        clearInterval(pollInterval);
-        return;
+  // Persist the photo strip: remove dropped photos, upload new picks (appended after the kept ones),
+  // then reorder so the stored order matches what the user arranged.
+  const savePhotoChanges = useCallback(async (fortuneId: string) => {
+    if (!accessToken || !user) {
+      throw new Error('Authentication required');
+    }
+
+    const keptIds = photos.flatMap((photo) => (photo.kind === 'saved' ? [photo.id] : []));
+    const removedIds = savedPhotoIds.filter((id) => !keptIds.includes(id));
+
+    for (const mediaId of removedIds) {
+      const { error } = await deleteFortunePhoto(fortuneId, mediaId);
+      if (error) {
+        throw new Error(`Failed to remove photo: ${error}`);
       }
+    }
 
-      attempts++;
-      console.log(`[PHOTO-POLL] Polling attempt ${attempts}/${maxAttempts} for path: ${path}`);
-      
-      try {
-        // IMPORTANT: Always sign via Edge (SIGN_ONLY). We do not sign directly via Storage from the browser.
-        const { data, error } = await supabase.functions.invoke('finalize-fortune-photo', {
-          body: {
-            action: 'SIGN_ONLY',
-            fortune_id: targetFortuneId,
-            ttlSec: 300,
-          },
-        });
+    const uploadedIds = new Map<string, string>();
+    let nextIndex = keptIds.length;
 
-        if (error) {
-          throw error;
-        }
+    for (const photo of photos) {
+      if (photo.kind !== 'new') continue;
 
-        const signedUrl = (data as { signedUrl?: string | null } | null)?.signedUrl ?? null;
+      const uploadOptions: NativeUploaderOptions = {
+        supabaseUrl: 'https://pegiensgnptpdnfopnoj.supabase.co',
+        accessToken,
+        userId: user.id,
+        fortuneId,
+        index: nextIndex,
+      };
 
-        if (signedUrl) {
-          console.log('[PHOTO-POLL] Signed URL available:', signedUrl);
-          if (!isCancelled) {
-            setFortunePhoto(signedUrl);
-          }
-          clearInterval(pollInterval);
-          
-          // After polling completes, fetch media record to confirm DB update and trigger refresh
-          if (targetFortuneId && !isCancelled) {
-            try {
-              const mediaData = await getFortuneMedia(targetFortuneId);
-              if (mediaData) {
-                console.log('[PHOTO-POLL] DB_UPDATE_CONFIRMED - Triggering refresh', {
-                  fortuneId: mediaData.fortuneId,
-                  bucket: mediaData.bucket,
-                  path: mediaData.path,
-                  updatedAt: mediaData.updatedAt
-                });
-                
-                // Get signed URL for immediate use (always via Edge)
-                const { data, error } = await supabase.functions.invoke('finalize-fortune-photo', {
-                  body: {
-                    action: 'SIGN_ONLY',
-                    fortune_id: mediaData.fortuneId,
-                    ttlSec: 300,
-                  },
-                });
-
-                const signedUrl = error
-                  ? null
-                  : (data as { signedUrl?: string | null } | null)?.signedUrl ?? null;
-                
-                // Dispatch specific photo update event with media info
-                const photoUpdateEvent = new CustomEvent("fortunePhotoUpdated", {
-                  detail: {
-                    fortuneId: mediaData.fortuneId,
-                    updatedAt: mediaData.updatedAt,
-                    signedUrl: signedUrl || undefined
-                  }
-                });
-                console.log('[PHOTO-POLL] Dispatching fortunePhotoUpdated event after polling', {
-                  fortuneId: mediaData.fortuneId,
-                  updatedAt: mediaData.updatedAt
-                });
-                window.dispatchEvent(photoUpdateEvent);
-                
-                // Also dispatch general event for backward compatibility
-                console.log('[PHOTO-POLL] Dispatching fortunesUpdated event after polling');
-                window.dispatchEvent(new Event("fortunesUpdated"));
-                onFortuneUpdated?.();
-              } else {
-                console.warn('[PHOTO-POLL] Media record not found after polling - refresh may not work correctly');
-              }
-            } catch (err) {
-              console.error('[PHOTO-POLL] Error fetching media after polling:', err);
-              // Still dispatch event even if fetch fails, to trigger refresh
-              if (!isCancelled) {
-                console.log('[PHOTO-POLL] Dispatching fortunesUpdated event (fallback)');
-                window.dispatchEvent(new Event("fortunesUpdated"));
-                onFortuneUpdated?.();
-              }
-            }
-          }
-          return;
-        }
-      } catch (error) {
-        console.error('[PHOTO-POLL] Error polling for photo:', error);
+      const uploadResult = await new Promise<NativeUploaderResult & { error?: boolean; reason?: string }>((resolve) => {
+        processAndUpload(uploadOptions, photo.file, resolve);
+      });
+
+      if (uploadResult.cancelled) {
+        throw new Error('Photo upload cancelled');
       }
-      
-      if (attempts >= maxAttempts) {
-        console.log('[PHOTO-POLL] Max polling attempts reached');
-        clearInterval(pollInterval);
-        if (!isCancelled) {
-          setFortunePhoto(null);
-          toast({
-            title: "Photo processing failed",
-            description: "The photo upload took too long to process. Please try again.",
-            variant: "destructive",
-          });
-        }
+
+      if (uploadResult.error) {
+        throw new Error(uploadResult.reason || 'Photo upload failed. Please try again.');
       }
-    }, 2000); // Poll every 2 seconds
 
-    // Return cleanup function synchronously
-    return () => {
-      isCancelled = true;
-      clearInterval(pollInterval);
-    };
-  }, [fortune?.id, onFortuneUpdated, onClose, toast]);
+      // If uploader couldn't return a signed URL immediately, wait until Edge can sign it.
+      const mediaId = uploadResult.media?.id;
+      const signedUrl = uploadResult.signedUrl && uploadResult.signedUrl !== 'pending'
+        ? uploadResult.signedUrl
+        : await waitForSignedPhotoUrl(fortuneId, mediaId, 8, 750);
+
+      if (!signedUrl) {
+        throw new Error('Photo upload failed to finalize. Please try again.');
+      }
+
+      if (mediaId) {
+        uploadedIds.set(photo.key, mediaId);
+      }
+      nextIndex++;
+    }
+
+    // Stored order after the steps above: kept photos, then uploads in the order they were added
+    const storedOrder = [
+      ...keptIds,
+      ...photos.flatMap((photo) => (photo.kind === 'new' && uploadedIds.has(photo.key) ? [uploadedIds.get(photo.key) as string] : [])),
+    ];
+    const desiredOrder = photos.map((photo) => (photo.kind === 'saved' ? photo.id : uploadedIds.get(photo.key)));
+
+    if (desiredOrder.every((id): id is string => !!id) && desiredOrder.join() !== storedOrder.join()) {
+      const { error } = await reorderFortunePhotos(fortuneId, desiredOrder);
+      if (error) {
+        throw new Error(`Failed to reorder photos: ${error}`);
+      }
+    }
+
+    await dispatchPhotoRefreshEvents(fortuneId);
+  }, [accessToken, user, photos, savedPhotoIds, waitForSignedPhotoUrl, dispatchPhotoRefreshEvents]);
+
+  const hasPhotoChanges = photos.some((photo) => photo.kind === 'new')
+    || photos.map((photo) => (photo.kind === 'saved' ? photo.id : photo.key)).join() !== savedPhotoIds.join();
+
+  const movePhoto = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= photos.length) return;
+    const next = [...photos];
+    [next[index], next[target]] = [next[target], next[index]];
+    setPhotos(next);
+  };
+
+  const removePhoto = (key: string) => {
+    const photo = photos.find((p) => p.key === key);
+    if (photo) {
+      revokePreviewUrls([photo]);
+    }
+    setPhotos(photos.filter((p) => p.key !== key));
+  };
 
   const handleAttachPhoto = async () => {
     // Prevent multiple simultaneous requests
@@ -564,6 +597,16 @@ export const FortuneModal = ({
       return;
     }
 
+    if (photos.length >= maxPhotos) {
+      toast({
+        title: "Photo limit reached",
+        description: `Your plan allows up to ${maxPhotos} photo${maxPhotos === 1 ? '' : 's'} per fortune.`,
+        variant: "destructive",
+      });
+      ticketRequested.current = false;
+      return;
+    }
+
     // Prefer the new picker (preview-only flow). Legacy uploader cannot defer upload.
     // NOTE: Do NOT rely only on the "Available" flags; some builds may not inject them.
     const hasNewPicker = typeof window.NativePhotoPicker?.pickPhoto === 'function';
@@ -834,20 +877,11 @@ export const FortuneModal = ({
         throw new Error('No image data returned from native picker');
       }
 
-      // Replace previous preview URL if any
-      if (pendingPhotoPreviewUrl && pendingPhotoPreviewUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(pendingPhotoPreviewUrl);
-      }
-
       const previewUrl = URL.createObjectURL(file);
       userSelectedPhotoRef.current = true;
 
-      // Store for upload on Save
-      setPendingPhotoFile(file);
-      setPendingPhotoPreviewUrl(previewUrl);
-
-      // Show preview immediately in the modal
-      setFortunePhoto(previewUrl);
+      // Append to the strip for upload on Save; the preview shows immediately in the modal
+      setPhotos((prev) => [...prev, { key: previewUrl, kind: 'new', file, url: previewUrl }]);
 
       toast({
         title: 'Photo selected',
@@ -877,10 +911,14 @@ export const FortuneModal = ({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Set when re-submitting from the duplicate warning; that attempt was already rate-limited
+    const duplicateConfirmed = duplicateConfirmedRef.current;
+    duplicateConfirmedRef.current = false;
     
     // Rate limiting check
     const rateLimitKey = isEditMode ? 'edit-fortune' : 'add-fortune';
-    if (!formRateLimiter.canProceed(rateLimitKey)) {
+    if (!duplicateConfirmed && !formRateLimiter.canProceed(rateLimitKey)) {
       toast({
         title: "Too many requests",
         description: "Please wait a moment before submitting again",
@@ -925,11 +963,16 @@ export const FortuneModal = ({
       // Sanitize and validate inputs
       let sanitizedText: string;
       let validatedCategory: string;
+      let validatedTags: string[];
       let validatedValue: number | null = null;
 
       try {
         sanitizedText = sanitizeText(text, 500);
         validatedCategory = validateCategory(category);
+        validatedTags = validateTags(tags);
+        if (getCurrentCategory().hasNumericValue && fortuneValue) {
+          validatedValue = validateUnitValue(fortuneValue, valueType);
+        }
       } catch (validationError) {
         const errorMessage = validationError instanceof Error ? validationError.message : 'Validation failed';
         toast({
@@ -940,10 +983,6 @@ export const FortuneModal = ({
         setIsLoading(false);
         return;
       }
-      
-      if (getCurrentCategory().hasNumericValue && fortuneValue) {
-        validatedValue = validateNumericValue(fortuneValue, 0, 1000000);
-      }
 
       setIsLoading(true);
       
@@ -957,64 +996,31 @@ export const FortuneModal = ({
       }
 
       if (isEditMode && fortune) {
-        // If the user selected a new photo in this edit session, upload it now (only on native)
-        // IMPORTANT: Do not close the modal until the uploaded file is actually available.
-        if (isNative && isHighTier && pendingPhotoFile) {
-          if (!accessToken || !user) {
-            throw new Error('Authentication required');
-          }
-
-          const uploadOptions: NativeUploaderOptions = {
-            supabaseUrl: 'https://pegiensgnptpdnfopnoj.supabase.co',
-            accessToken,
-            userId: user.id,
-            fortuneId: fortune.id,
-          };
-
-          setFortunePhoto('pending');
-
-          const uploadResult = await new Promise<NativeUploaderResult>((resolve) => {
-            processAndUpload(uploadOptions, pendingPhotoFile, resolve);
-          });
-
-          if (uploadResult.cancelled) {
-            throw new Error('Photo upload cancelled');
-          }
-
-          // If uploader couldn't return a signed URL immediately, wait until Edge can sign it.
-          let finalSignedUrl: string | null = null;
-
-          if (uploadResult.signedUrl && uploadResult.signedUrl !== 'pending') {
-            finalSignedUrl = uploadResult.signedUrl;
-          } else {
-            finalSignedUrl = await waitForSignedPhotoUrl(fortune.id, 8, 750);
-          }
-
-          if (!finalSignedUrl) {
-            throw new Error('Photo upload failed to finalize. Please try again.');
+        // If the user added, removed or reordered photos in this edit session, save them now (only on native)
+        // IMPORTANT: Do not close the modal until new uploads are actually available.
+        if (isNative && isHighTier && hasPhotoChanges) {
+          setPhotosSaving(true);
+          try {
+            await savePhotoChanges(fortune.id);
+          } finally {
+            setPhotosSaving(false);
           }
-
-          setFortunePhoto(finalSignedUrl);
           userSelectedPhotoRef.current = false;
-          await dispatchPhotoRefreshEvents(fortune.id, finalSignedUrl);
-
-          // Clear local pending selection after successful upload
-          if (pendingPhotoPreviewUrl && pendingPhotoPreviewUrl.startsWith('blob:')) {
-            URL.revokeObjectURL(pendingPhotoPreviewUrl);
-          }
-          setPendingPhotoFile(null);
-          setPendingPhotoPreviewUrl(null);
           setPendingPhotoUpload(null);
         }
         // Update existing fortune
-        const updateData: { text: string; category: string; fortune_value?: number | null; impact_level?: string } = {
+        const updateData: { text: string; category: string; fortune_value?: number | null; currency?: string; impact_level?: string; tags: string[] } = {
           text: sanitizedText,
           category: validatedCategory,
+          tags: validatedTags,
         };
 
         // Only include fortune_value if the category supports numeric values
         if (getCurrentCategory().hasNumericValue) {
           updateData.fortune_value = validatedValue;
+          if (validatedValue !== null && isCurrencyValue) {
+            updateData.currency = valueCurrency;
+          }
         } else {
           updateData.fortune_value = null;
         }
@@ -1024,22 +1030,55 @@ export const FortuneModal = ({
           updateData.impact_level = impactLevel;
         }
 
-        await updateFortune(fortune.id, updateData);
+        const { queued } = await updateFortune(fortune.id, updateData);
 
         toast({
           title: "Fortune Updated! ✨",
-          description: "Your fortune has been successfully updated",
+          description: queued
+            ? "You're offline. Your changes will sync when you reconnect."
+            : "Your fortune has been successfully updated",
         });
 
         // Dispatch event to trigger refresh of FortunePhoto components
-        window.dispatchEvent(new Event("fortunesUpdated"));
+        emitAppEvent('fortunesUpdated');
         onFortuneUpdated?.();
       } else {
+        if (!duplicateConfirmed) {
+          // A failed check must never block saving
+          const matches = await findSimilarFortunes(user.id, {
+            text: sanitizedText,
+            category: validatedCategory,
+            date: selectedDate ?? new Date(),
+          }).catch((error) => {
+            console.warn('[DUPLICATES] Similarity check failed:', error);
+            return [];
+          });
+          if (matches.length > 0) {
+            setDuplicateMatches(matches);
+            return;
+          }
+        }
+
         // Create new fortune 
-        const result = await addFortune(sanitizedText, validatedCategory, validatedValue || 0, selectedDate, impactLevel);
+        const result = await addFortune(
+          sanitizedText,
+          validatedCategory,
+          validatedValue || 0,
+          selectedDate,
+          impactLevel,
+          validatedTags,
+          validatedValue,
+          validatedValue !== null && isCurrencyValue ? valueCurrency : null
+        );
 
-        // Celebration for first action of day
-        if (result.streakInfo?.firstOfDay) {
+        if (result.queued) {
+          // Saved to the offline outbox; streak and celebrations resolve on replay
+          toast({
+            title: "Saved offline",
+            description: "Your fortune will sync when you're back online.",
+          });
+        } else if (result.streakInfo?.firstOfDay) {
+          // Celebration for first action of day
           // Emit analytics
           if (typeof window !== 'undefined' && window.gtag) {
             window.gtag('event', 'first_action_of_day', {
@@ -1089,7 +1128,7 @@ export const FortuneModal = ({
         }
 
         // Dispatch event to trigger refresh of FortunePhoto components
-        window.dispatchEvent(new Event("fortunesUpdated"));
+        emitAppEvent('fortunesUpdated');
         onFortuneAdded?.();
       }
 
@@ -1097,12 +1136,14 @@ export const FortuneModal = ({
       setText('');
       setCategory('');
       setFortuneValue('');
+      setValueCurrency(displayCurrency);
       setImpactLevel('small_step');
+      setTags([]);
       setPersistedFortuneId(null);
-      setFortunePhoto(null);
+      revokePreviewUrls(photos);
+      setPhotos([]);
+      setSavedPhotoIds([]);
       setPendingPhotoUpload(null);
-      setPendingPhotoFile(null);
-      setPendingPhotoPreviewUrl(null);
       onClose();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -1124,9 +1165,6 @@ export const FortuneModal = ({
 
   const restrictionMessage = freePlanStatus.restrictionMessage;
 
-  // Always show the local preview if present
-  const displayPhotoUrl = pendingPhotoPreviewUrl || (fortunePhoto && fortunePhoto !== 'pending' ? fortunePhoto : null);
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -1179,7 +1217,23 @@ export const FortuneModal = ({
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-6">
+        <form ref={formRef} onSubmit={handleSubmit} className="space-y-6">
+          {/* Quick-add: fill the form from a template */}
+          {!isEditMode && templates.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1">
+              {templates.map((preset) => (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => applyTemplate(preset)}
+                  className="shrink-0 rounded-full border border-border/50 px-3 py-1 text-xs hover:border-gold/50 hover:bg-muted/50 transition-colors"
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-2">
               What fortune came your way today?
@@ -1200,19 +1254,19 @@ export const FortuneModal = ({
             <label className="block text-sm font-medium mb-2">
               Category
             </label>
-            <Select value={category} onValueChange={(value) => setCategory(value as FortuneCategory)}>
+            <Select value={parentCategory} onValueChange={(value) => setCategory(value as FortuneCategory)}>
               <SelectTrigger className="focus:border-gold focus:ring-gold/20">
                 <SelectValue placeholder="Select a category" />
               </SelectTrigger>
               <SelectContent className="bg-card border-border shadow-lg z-[60]" sideOffset={4}>
-                {categories.map((cat) => (
+                {topLevelCategories.map((cat) => (
                   <SelectItem key={cat.name} value={cat.name} className="cursor-pointer">
                     <div className="flex items-center gap-2">
                       {cat.name === 'Wealth' && <CurrencyDollar size={14} className="text-gold" />}
                       <span>{cat.name}</span>
                       {cat.hasNumericValue && (
                         <span className="text-xs bg-gold/20 text-gold px-1.5 py-0.5 rounded">
-                          $
+                          {VALUE_UNITS[cat.valueType?.unit ?? 'currency'].symbol}
                         </span>
                       )}
                     </div>
@@ -1220,6 +1274,31 @@ export const FortuneModal = ({
                 ))}
               </SelectContent>
             </Select>
+            {subcategories.length > 0 && (
+              <Select value={category} onValueChange={(value) => setCategory(value as FortuneCategory)}>
+                <SelectTrigger className="mt-2 focus:border-gold focus:ring-gold/20" aria-label="Subcategory">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border shadow-lg z-[60]" sideOffset={4}>
+                  <SelectItem value={parentCategory} className="cursor-pointer">
+                    General {parentCategory}
+                  </SelectItem>
+                  {subcategories.map((cat) => (
+                    <SelectItem key={cat.name} value={cat.name} className="cursor-pointer">
+                      <div className="flex items-center gap-2">
+                        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: cat.color }} />
+                        <span>{cat.name}</span>
+                        {cat.hasNumericValue && (
+                          <span className="text-xs bg-gold/20 text-gold px-1.5 py-0.5 rounded">
+                            {VALUE_UNITS[cat.valueType?.unit ?? 'currency'].symbol}
+                          </span>
+                        )}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             {!category && (
               <p className="text-xs text-destructive mt-1">
                 Please select a category to continue
@@ -1227,83 +1306,136 @@ export const FortuneModal = ({
             )}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Tags (Optional)
+            </label>
+            <TagInput value={tags} onChange={setTags} suggestions={tagSuggestions} disabled={isLoading} />
+          </div>
+
+          {/* Version history - offline-created fortunes have none until they sync */}
+          {isEditMode && fortune && !fortune.pending_sync && (
+            <div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setShowHistory(prev => !prev)}
+                className="w-full justify-start"
+              >
+                <ClockCounterClockwise size={16} className="mr-2" />
+                {showHistory ? 'Hide History' : 'History'}
+              </Button>
+              {showHistory && (
+                <div className="mt-2">
+                  <FortuneHistory fortune={fortune} onReverted={handleRevisionReverted} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Photo Section - Different behavior for native vs web */}
-          {isEditMode && (
+          {/* Offline-created fortunes have no server id yet, so photos wait until they sync */}
+          {isEditMode && !fortune?.pending_sync && (
             <div>
               <label className="block text-sm font-medium mb-2 flex items-center gap-2">
                 <Camera size={16} className="text-primary" />
-                Photo
+                Photos
+                {isHighTier && (
+                  <span className="text-xs text-muted-foreground font-normal">
+                    {photos.length}/{maxPhotos}
+                  </span>
+                )}
               </label>
-              {/* Always show the local preview if present */}
-              {/*
-                displayPhotoUrl: pendingPhotoPreviewUrl || (fortunePhoto && fortunePhoto !== 'pending' ? fortunePhoto : null)
-              */}
-              {/* Display existing photo (both native and web) */}
-              {displayPhotoUrl && (
-                <div className="relative">
-                  <img 
-                    src={displayPhotoUrl} 
-                    alt="Fortune attachment" 
-                    className="w-full h-48 object-cover rounded border border-border/50"
-                  />
-                  {/* Only show delete/change buttons on native */}
-                  {isNative && isHighTier && (
-                    <div className="absolute top-2 right-2 flex gap-2">
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        className="bg-background/70 backdrop-blur"
-                        onClick={handleAttachPhoto}
-                        disabled={photoAttaching}
-                      >
-                        Change
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => {
-                          userSelectedPhotoRef.current = false;
-                          if (pendingPhotoPreviewUrl && pendingPhotoPreviewUrl.startsWith('blob:')) {
-                            URL.revokeObjectURL(pendingPhotoPreviewUrl);
-                          }
-                          setPendingPhotoFile(null);
-                          setPendingPhotoPreviewUrl(null);
-                          setFortunePhoto(null);
-                        }}
-                      >
-                        <X size={14} />
-                      </Button>
+              {/* Display photos in order (both native and web); the first one is the cover */}
+              {photos.length > 0 && (
+                <div className={`grid gap-2 mb-2 ${photos.length === 1 ? 'grid-cols-1' : 'grid-cols-3'}`}>
+                  {photos.map((photo, index) => (
+                    <div
+                      key={photo.key}
+                      className={`relative rounded border border-border/50 overflow-hidden ${photos.length === 1 ? 'h-48' : 'aspect-square'}`}
+                    >
+                      {photo.url ? (
+                        <img
+                          src={photo.url}
+                          alt={`Fortune attachment ${index + 1}`}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full bg-muted/50 flex items-center justify-center">
+                          <Image size={20} className="text-muted-foreground" />
+                        </div>
+                      )}
+                      {index === 0 && photos.length > 1 && (
+                        <span className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded-full bg-black/60 text-white">
+                          Cover
+                        </span>
+                      )}
+                      {/* Only show reorder/delete controls on native */}
+                      {isNative && isHighTier && (
+                        <div className="absolute bottom-1 inset-x-1 flex justify-between gap-1">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="h-6 w-6 bg-background/70 backdrop-blur"
+                            onClick={() => movePhoto(index, -1)}
+                            disabled={index === 0 || photosSaving}
+                            aria-label="Move photo earlier"
+                          >
+                            <CaretLeft size={12} />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => removePhoto(photo.key)}
+                            disabled={photosSaving}
+                            aria-label="Remove photo"
+                          >
+                            <X size={12} />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="h-6 w-6 bg-background/70 backdrop-blur"
+                            onClick={() => movePhoto(index, 1)}
+                            disabled={index === photos.length - 1 || photosSaving}
+                            aria-label="Move photo later"
+                          >
+                            <CaretRight size={12} />
+                          </Button>
+                        </div>
+                      )}
                     </div>
-                  )}
+                  ))}
                 </div>
               )}
-              {/* Show pending state while photo is processing */}
-              {fortunePhoto === 'pending' && (
-                <div className="relative w-full h-48 bg-muted/50 rounded border border-border/50 flex items-center justify-center">
-                  <div className="flex flex-col items-center gap-2 text-muted-foreground">
-                    <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full" />
-                    <span className="text-sm">Processing photo...</span>
-                  </div>
+              {/* Show pending state while photos are being saved */}
+              {photosSaving && (
+                <div className="w-full h-12 mb-2 bg-muted/50 rounded border border-border/50 flex items-center justify-center gap-2 text-muted-foreground">
+                  <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full" />
+                  <span className="text-sm">Processing photos...</span>
                 </div>
               )}
-              {/* Native: Show upload button if no photo (or pending) and user has access */}
-              {isNative && isHighTier && !displayPhotoUrl && !photoAttaching && (
+              {/* Native: Show add button while below the plan limit and user has access */}
+              {isNative && isHighTier && photos.length < maxPhotos && !photoAttaching && !photosSaving && (
                 <Button
                   type="button"
                   variant="outline"
-                  className="w-full h-32 border-dashed border-2 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-2"
+                  className={`w-full ${photos.length === 0 ? 'h-32' : 'h-12'} border-dashed border-2 hover:border-primary/50 transition-colors flex flex-col items-center justify-center gap-2`}
                   onClick={handleAttachPhoto}
                   disabled={photoAttaching}
                 >
                   <Camera size={24} className="text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">
-                    Attach Photo
+                    {photos.length === 0 ? 'Attach Photo' : 'Add Another Photo'}
                   </span>
                 </Button>
               )}
-              {/* Show uploading state */}
+              {/* Show picking state */}
               {isNative && isHighTier && photoAttaching && (
                 <div className="w-full h-32 border-dashed border-2 border-primary/50 rounded flex flex-col items-center justify-center gap-2 bg-muted/30">
                   <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full" />
@@ -1311,7 +1443,7 @@ export const FortuneModal = ({
                 </div>
               )}
               {/* Native: Show upgrade prompt for non-high tier users */}
-              {isNative && !isHighTier && !displayPhotoUrl && (
+              {isNative && !isHighTier && photos.length === 0 && (
                 <div className="bg-gradient-to-r from-primary/10 to-accent/10 border border-primary/20 rounded-lg p-3">
                   <div className="flex items-center gap-2">
                     <Camera size={16} className="text-warning" />
@@ -1322,7 +1454,7 @@ export const FortuneModal = ({
                 </div>
               )}
               {/* Web: Show informative callout when no photo exists */}
-              {!isNative && !displayPhotoUrl && (
+              {!isNative && photos.length === 0 && (
                 <div className="bg-muted/30 border border-muted/50 rounded-lg p-3">
                   <div className="flex items-start gap-2">
                     <DeviceMobile size={18} className="text-muted-foreground mt-0.5 flex-shrink-0" />
@@ -1453,22 +1585,51 @@ export const FortuneModal = ({
           {getCurrentCategory().hasNumericValue && (
             <div>
               <label className="block text-sm font-medium mb-2">
-                Value (Optional)
+                {isCurrencyValue ? 'Value' : valueSpec.label} (Optional)
               </label>
-              <div className="relative">
-                <CurrencyDollar size={18} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gold" />
-                <Input
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={fortuneValue}
-                  onChange={(e) => setFortuneValue(e.target.value)}
-                  placeholder="0.00"
-                  className="pl-10 focus:border-gold focus:ring-gold/20"
-                />
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  {isCurrencyValue ? (
+                    <CurrencyDollar size={18} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gold" />
+                  ) : (
+                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-sm text-gold">
+                      {valueSpec.symbol}
+                    </span>
+                  )}
+                  <Input
+                    type="number"
+                    step={valueSpec.step}
+                    min={valueType.min}
+                    max={valueType.max}
+                    value={fortuneValue}
+                    onChange={(e) => setFortuneValue(e.target.value)}
+                    placeholder={isCurrencyValue ? '0.00' : `${valueType.min}–${valueType.max}`}
+                    className="pl-10 focus:border-gold focus:ring-gold/20"
+                  />
+                </div>
+                {isCurrencyValue && (
+                  <Select value={valueCurrency} onValueChange={setValueCurrency}>
+                    <SelectTrigger className="w-28" aria-label="Currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUPPORTED_CURRENCIES.map((option) => (
+                        <SelectItem key={option.code} value={option.code}>
+                          {option.code} ({option.symbol})
+                        </SelectItem>
+                      ))}
+                      {/* Keep a currency that's no longer in the list selectable */}
+                      {!SUPPORTED_CURRENCIES.some((option) => option.code === valueCurrency) && (
+                        <SelectItem value={valueCurrency}>{valueCurrency}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Track the monetary value associated with this fortune
+                {isCurrencyValue
+                  ? 'Track the monetary value associated with this fortune'
+                  : `Between ${valueType.min} and ${valueType.max}`}
               </p>
             </div>
           )}
@@ -1497,6 +1658,59 @@ export const FortuneModal = ({
           </Button>
         </form>
       </div>
+
+      <AlertDialog open={duplicateMatches !== null} onOpenChange={(open) => !open && setDuplicateMatches(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Already tracked?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {duplicateMatches && duplicateMatches.length > 1
+                ? `${duplicateMatches.length} similar ${category} fortunes are already saved for this day.`
+                : `A similar ${category} fortune is already saved for this day.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {duplicateMatches?.[0] && (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {[
+                {
+                  label: duplicateMatches[0].pending_sync ? 'Saved (waiting to sync)' : 'Saved',
+                  text: duplicateMatches[0].text,
+                  value: duplicateMatches[0].fortune_value,
+                  currency: duplicateMatches[0].currency || displayCurrency,
+                  time: format(new Date(duplicateMatches[0].created_at), 'p'),
+                },
+                {
+                  label: 'New',
+                  text,
+                  value: fortuneValue ? Number(fortuneValue) : null,
+                  currency: valueCurrency,
+                  time: null,
+                },
+              ].map((side) => (
+                <div key={side.label} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-1 min-w-0">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{side.label}</p>
+                  <p className="break-words">{side.text}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[side.value ? formatUnitValue(side.value, valueType.unit, side.currency) : null, side.time].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                duplicateConfirmedRef.current = true;
+                setDuplicateMatches(null);
+                formRef.current?.requestSubmit();
+              }}
+            >
+              Save Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
@@ -1,21 +1,24 @@
 import { useEffect, useMemo, useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
+import { listFortunePhotos } from '@/lib/edge-functions';
+import { cn } from '@/lib/utils';
 
 export type FortunePhotoProps = {
   fortuneId: string;
   /**
    * Optional cache-busting version (usually fortune_media.updated_at)
-   * Changing this forces the hook to re-fetch a new signed URL.
+   * Changing this forces the hook to re-fetch new signed URLs.
    */
   version?: string;
   alt?: string;
   className?: string;
   ttlSec?: number;
+  /** Called with the first photo's URL (null when the fortune has no photos) */
   onSignedUrl?: (url: string | null) => void;
 };
 
-function useSignedUrlByFortuneId(fortuneId: string, version?: string, ttlSec: number = 300): string | null {
-  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+function useSignedUrlsByFortuneId(fortuneId: string, version?: string, ttlSec: number = 300): string[] {
+  const [signedUrls, setSignedUrls] = useState<string[]>([]);
 
   const key = useMemo(() => {
     if (!fortuneId) return null;
@@ -27,28 +30,25 @@ function useSignedUrlByFortuneId(fortuneId: string, version?: string, ttlSec: nu
 
     async function run() {
       if (!fortuneId || !key) {
-        setSignedUrl(null);
+        setSignedUrls([]);
         return;
       }
 
-      const { data, error } = await supabase.functions.invoke('finalize-fortune-photo', {
-        body: {
-          action: 'SIGN_ONLY',
-          fortune_id: fortuneId,
-          ttlSec,
-        },
-      });
+      const { data, error } = await listFortunePhotos(fortuneId, ttlSec);
 
       if (cancelled) return;
 
       if (error) {
         console.error('[FORTUNE_PHOTO] SIGN_ONLY error:', error);
-        setSignedUrl(null);
+        setSignedUrls([]);
         return;
       }
 
-      const url = (data as { signedUrl?: string | null } | null)?.signedUrl ?? null;
-      setSignedUrl(url);
+      // Photos missing from storage come back unsigned; skip them
+      const urls = (data?.photos ?? [])
+        .map((photo) => photo.signedUrl)
+        .filter((url): url is string => !!url);
+      setSignedUrls(urls);
     }
 
     run();
@@ -57,27 +57,82 @@ function useSignedUrlByFortuneId(fortuneId: string, version?: string, ttlSec: nu
     };
   }, [fortuneId, key, ttlSec]);
 
-  return signedUrl;
+  return signedUrls;
 }
 
 export function FortunePhoto(props: FortunePhotoProps) {
   const { fortuneId, version, alt = 'Fortune photo', className, ttlSec = 300, onSignedUrl } = props;
 
-  const signedUrl = useSignedUrlByFortuneId(fortuneId, version, ttlSec);
+  const signedUrls = useSignedUrlsByFortuneId(fortuneId, version, ttlSec);
+  const firstUrl = signedUrls[0] ?? null;
+
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
 
   useEffect(() => {
-    onSignedUrl?.(signedUrl);
-  }, [signedUrl, onSignedUrl]);
+    onSignedUrl?.(firstUrl);
+  }, [firstUrl, onSignedUrl]);
 
-  if (!signedUrl) return null;
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    api.on('reInit', onSelect);
+    return () => {
+      api.off('select', onSelect);
+      api.off('reInit', onSelect);
+    };
+  }, [api]);
+
+  if (!firstUrl) return null;
+
+  if (signedUrls.length === 1) {
+    return (
+      <img
+        src={firstUrl}
+        alt={alt}
+        className={className}
+        loading="lazy"
+        decoding="async"
+      />
+    );
+  }
 
   return (
-    <img
-      src={signedUrl}
-      alt={alt}
-      className={className}
-      loading="lazy"
-      decoding="async"
-    />
+    <div className={cn('relative', className)}>
+      <Carousel setApi={setApi} opts={{ loop: false }}>
+        <CarouselContent>
+          {signedUrls.map((url, index) => (
+            <CarouselItem key={url}>
+              <img
+                src={url}
+                alt={`${alt} ${index + 1} of ${signedUrls.length}`}
+                className="w-full"
+                loading="lazy"
+                decoding="async"
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+      </Carousel>
+      <span className="absolute top-2 right-2 text-[10px] px-1.5 py-0.5 rounded-full bg-black/60 text-white">
+        {current + 1}/{signedUrls.length}
+      </span>
+      <div className="flex justify-center gap-1 mt-2">
+        {signedUrls.map((url, index) => (
+          <button
+            key={url}
+            type="button"
+            aria-label={`Show photo ${index + 1}`}
+            onClick={() => api?.scrollTo(index)}
+            className={cn(
+              'h-1.5 rounded-full transition-all',
+              index === current ? 'w-4 bg-gold' : 'w-1.5 bg-muted-foreground/40'
+            )}
+          />
+        ))}
+      </div>
+    </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { format } from 'date-fns';
+import { MagnifyingGlass, X, CaretLeft, CaretRight, TrendUp, Star, Trophy } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/auth/AuthProvider';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useJournal } from '@/hooks/useJournal';
+import { formatMoney } from '@/lib/currency';
+import { searchFortunes, type FortuneSearchParams, type FortuneSearchResult } from '@/lib/edge-functions';
+
+interface FortuneSearchProps {
+  onResultSelect?: (result: FortuneSearchResult) => void;
+}
+
+const PAGE_SIZE = 10;
+const QUERY_DEBOUNCE_MS = 300;
+
+const defaultCategories = ['Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other'];
+
+const impactOptions = [
+  { value: 'small_step', label: 'Small Step', icon: TrendUp, iconColor: 'text-yellow-400' },
+  { value: 'milestone', label: 'Milestone', icon: Star, iconColor: 'text-amber-400' },
+  { value: 'big_win', label: 'Big Win', icon: Trophy, iconColor: 'text-cyan-400' },
+] as const;
+
+const renderHighlighted = (text: string, highlights: Array<[number, number]>) => {
+  if (highlights.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-gold/40 text-foreground rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+  return parts;
+};
+
+export const FortuneSearch = ({ onResultSelect }: FortuneSearchProps) => {
+  const { user } = useAuth();
+  const { currency: displayCurrency } = useSettings();
+  const { status: journalStatus } = useJournal();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [category, setCategory] = useState<string>('all');
+  const [impactLevel, setImpactLevel] = useState<string>('all');
+  const [minValue, setMinValue] = useState('');
+  const [maxValue, setMaxValue] = useState('');
+  const [page, setPage] = useState(1);
+  const [categories, setCategories] = useState<string[]>(defaultCategories);
+  const [results, setResults] = useState<FortuneSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore responses from superseded requests (typing fast / paging quickly)
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      const { data } = await supabase
+        .from('custom_categories')
+        .select('name')
+        .eq('user_id', user.id);
+
+      if (data) {
+        setCategories([...defaultCategories, ...data.map((c) => c.name)]);
+      }
+    })();
+  }, [user]);
+
+  // With the private journal on the server only holds sealed texts, so only the other filters apply
+  const textSearchOff = journalStatus !== 'off';
+  const searchText = textSearchOff ? '' : debouncedQuery;
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [searchText, category, impactLevel, minValue, maxValue]);
+
+  const hasFilters =
+    searchText.length > 0 || category !== 'all' || impactLevel !== 'all' || minValue !== '' || maxValue !== '';
+
+  const runSearch = useCallback(async () => {
+    if (!hasFilters) {
+      // Drop any search still in flight, so its response can't fill the cleared list
+      requestIdRef.current++;
+      setResults([]);
+      setTotal(0);
+      setHasMore(false);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    const params: FortuneSearchParams = {
+      query: searchText,
+      page,
+      page_size: PAGE_SIZE,
+    };
+    if (category !== 'all') params.categories = [category];
+    if (impactLevel !== 'all') params.impact_levels = [impactLevel as 'small_step' | 'milestone' | 'big_win'];
+    if (minValue !== '' && !isNaN(Number(minValue))) params.min_value = Number(minValue);
+    if (maxValue !== '' && !isNaN(Number(maxValue))) params.max_value = Number(maxValue);
+
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    const res = await searchFortunes(params);
+    if (requestId !== requestIdRef.current) return;
+
+    if (res.error || !res.data) {
+      setError(res.error ?? 'Search failed');
+      setResults([]);
+      setTotal(0);
+      setHasMore(false);
+    } else {
+      setResults(res.data.results);
+      setTotal(res.data.total);
+      setHasMore(res.data.has_more);
+      // The result set shrank under the current page (e.g. fortunes deleted meanwhile): go to its last page
+      const lastPage = Math.max(1, Math.ceil(res.data.total / PAGE_SIZE));
+      if (res.data.results.length === 0 && page > lastPage) {
+        setPage(lastPage);
+      }
+    }
+    setLoading(false);
+  }, [hasFilters, searchText, page, category, impactLevel, minValue, maxValue]);
+
+  useEffect(() => {
+    runSearch();
+  }, [runSearch]);
+
+  const clearFilters = () => {
+    setQuery('');
+    setDebouncedQuery('');
+    setCategory('all');
+    setImpactLevel('all');
+    setMinValue('');
+    setMaxValue('');
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <MagnifyingGlass size={18} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={textSearchOff ? '' : query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={textSearchOff ? 'Text search is off with the private journal' : 'Search your fortunes...'}
+          className="pl-10 pr-10 focus:border-gold focus:ring-gold/20"
+          maxLength={200}
+          disabled={textSearchOff}
+        />
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 rounded hover:bg-muted/50"
+            aria-label="Clear search"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+
+      {textSearchOff && (
+        <p className="text-xs text-muted-foreground">
+          Your private journal is on, so fortune texts are encrypted and can't be searched. Filter by category,
+          impact or value instead.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {categories.map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={impactLevel} onValueChange={setImpactLevel}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue placeholder="Impact" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any impact</SelectItem>
+            {impactOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          value={minValue}
+          onChange={(e) => setMinValue(e.target.value)}
+          placeholder="Min value"
+          className="h-9 text-xs"
+        />
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          value={maxValue}
+          onChange={(e) => setMaxValue(e.target.value)}
+          placeholder="Max value"
+          className="h-9 text-xs"
+        />
+      </div>
+
+      {hasFilters && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {loading ? 'Searching...' : `${total} result${total === 1 ? '' : 's'}`}
+            </span>
+            {total > PAGE_SIZE && (
+              <span>Page {page} of {totalPages}</span>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+
+          {!loading && !error && results.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No fortunes match your search</p>
+          )}
+
+          <div className="space-y-2">
+            {results.map((result) => {
+              const impact = impactOptions.find((option) => option.value === result.impact_level);
+              const ImpactIcon = impact?.icon;
+              return (
+                <button
+                  key={result.id}
+                  type="button"
+                  onClick={() => onResultSelect?.(result)}
+                  className="w-full text-left p-3 rounded-lg border border-border/50 bg-muted/20 hover:border-gold/50 transition-colors"
+                >
+                  <p className="text-sm leading-relaxed mb-2">
+                    {renderHighlighted(result.text ?? '', result.highlights)}
+                  </p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {ImpactIcon && <ImpactIcon size={12} className={impact.iconColor} />}
+                    <span className="text-gold">{result.category}</span>
+                    {Number(result.fortune_value) > 0 && (
+                      <span className="text-gold font-medium">{formatMoney(Number(result.fortune_value), result.currency || displayCurrency)}</span>
+                    )}
+                    <span className="ml-auto">{format(new Date(result.created_at), 'MMM d, yyyy')}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1 || loading}
+              >
+                <CaretLeft size={14} className="mr-1" />
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={!hasMore || loading}
+              >
+                Next
+                <CaretRight size={14} className="ml-1" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react';
+import { Pencil, Plus, Trash } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useFortuneTemplates } from '@/hooks/useFortuneTemplates';
+import { useSettings } from '@/contexts/SettingsContext';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { useCategoryValueTypes } from '@/hooks/useCategoryValueTypes';
+import { VALUE_UNITS, getCategoryValueType, validateUnitValue } from '@/lib/valueUnits';
+import {
+  WEEKDAY_NAMES,
+  deleteFortuneTemplate,
+  describeRecurrence,
+  saveFortuneTemplate,
+  type FortuneTemplate,
+  type FortuneTemplateInput,
+} from '@/lib/fortuneTemplates';
+
+const defaultCategories = ['Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other'];
+
+const IMPACT_LABELS: Record<FortuneTemplate['impact_level'], string> = {
+  small_step: 'Small Step',
+  milestone: 'Milestone',
+  big_win: 'Big Win',
+};
+
+const NO_RECURRENCE = 'none';
+
+interface TemplateForm {
+  name: string;
+  text: string;
+  category: string;
+  value: string;
+  currency: string;
+  impact_level: FortuneTemplate['impact_level'];
+  tags: string;
+  recurrence: string;
+  recurrence_day: string;
+}
+
+const emptyForm = (currency: string): TemplateForm => ({
+  name: '',
+  text: '',
+  category: 'Wealth',
+  value: '',
+  currency,
+  impact_level: 'small_step',
+  tags: '',
+  recurrence: NO_RECURRENCE,
+  recurrence_day: '1',
+});
+
+const toForm = (template: FortuneTemplate, currency: string): TemplateForm => ({
+  name: template.name,
+  text: template.text,
+  category: template.category,
+  value: template.fortune_value !== null ? String(template.fortune_value) : '',
+  currency: template.currency ?? currency,
+  impact_level: template.impact_level,
+  tags: template.tags.join(', '),
+  recurrence: template.recurrence ?? NO_RECURRENCE,
+  recurrence_day: String(template.recurrence_day ?? 1),
+});
+
+/**
+ * Create, edit and delete fortune templates (quick-add presets with optional weekly/monthly recurrence)
+ */
+export const FortuneTemplateManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { currency } = useSettings();
+  const { templates, loading } = useFortuneTemplates();
+
+  const [customCategories, setCustomCategories] = useState<string[]>([]);
+  // null: form closed, 'new': creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>(() => emptyForm(currency));
+  const [saving, setSaving] = useState(false);
+  const valueTypes = useCategoryValueTypes();
+  const valueType = getCategoryValueType(form.category, valueTypes);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('custom_categories')
+      .select('name')
+      .eq('user_id', user.id)
+      .is('archived_at', null)
+      .then(({ data }) => setCustomCategories((data ?? []).map((row) => row.name)));
+  }, [user]);
+
+  const update = (patch: Partial<TemplateForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const startNew = () => {
+    setForm(emptyForm(currency));
+    setEditing('new');
+  };
+
+  const startEdit = (template: FortuneTemplate) => {
+    setForm(toForm(template, currency));
+    setEditing(template.id);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!form.name.trim() || !form.text.trim()) {
+      toast({ title: 'Name and text are required', variant: 'destructive' });
+      return;
+    }
+    let value: number | null;
+    try {
+      value = validateUnitValue(form.value.trim(), valueType);
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : 'Invalid value', variant: 'destructive' });
+      return;
+    }
+
+    const recurrence = form.recurrence === NO_RECURRENCE ? null : (form.recurrence as FortuneTemplateInput['recurrence']);
+    const input: FortuneTemplateInput = {
+      name: form.name,
+      text: form.text,
+      category: form.category,
+      fortune_value: value,
+      currency: value !== null && valueType.unit === 'currency' ? form.currency : null,
+      impact_level: form.impact_level,
+      tags: form.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      recurrence,
+      recurrence_day: recurrence ? Number(form.recurrence_day) : null,
+    };
+
+    setSaving(true);
+    try {
+      await saveFortuneTemplate(user.id, input, editing && editing !== 'new' ? editing : undefined);
+      toast({ title: editing === 'new' ? 'Template added' : 'Template updated' });
+      setEditing(null);
+    } catch (error) {
+      console.error('[TEMPLATES] Failed to save template:', error);
+      toast({
+        title: "Couldn't save the template",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: FortuneTemplate) => {
+    if (!user) return;
+    try {
+      await deleteFortuneTemplate(user.id, template.id);
+      if (editing === template.id) setEditing(null);
+    } catch (error) {
+      console.error('[TEMPLATES] Failed to delete template:', error);
+      toast({ title: "Couldn't delete the template", variant: 'destructive' });
+    }
+  };
+
+  const dayOptions =
+    form.recurrence === 'weekly'
+      ? WEEKDAY_NAMES.map((name, index) => ({ value: String(index), label: name }))
+      : Array.from({ length: 31 }, (_, index) => ({ value: String(index + 1), label: String(index + 1) }));
+
+  return (
+    <div className="space-y-3">
+      {loading && templates.length === 0 && <p className="text-sm text-muted-foreground">Loading…</p>}
+
+      {templates.map((template) => (
+        <div key={template.id} className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border/50">
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{template.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {[template.category, describeRecurrence(template)].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => startEdit(template)} aria-label={`Edit ${template.name}`}>
+              <Pencil size={16} />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive" onClick={() => handleDelete(template)} aria-label={`Delete ${template.name}`}>
+              <Trash size={16} />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {editing === null ? (
+        <Button variant="outline" onClick={startNew} className="w-full justify-start">
+          <Plus size={18} className="mr-2" />
+          New Template
+        </Button>
+      ) : (
+        <div className="space-y-3 p-3 rounded-lg border border-border/50 bg-muted/20">
+          <Input placeholder="Template name (e.g. Salary)" value={form.name} maxLength={60} onChange={(e) => update({ name: e.target.value })} />
+          <Textarea placeholder="Fortune text" value={form.text} onChange={(e) => update({ text: e.target.value })} rows={2} />
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={form.category} onValueChange={(category) => update({ category })}>
+              <SelectTrigger><SelectValue placeholder="Category" /></SelectTrigger>
+              <SelectContent>
+                {[...defaultCategories, ...customCategories.filter((name) => !defaultCategories.includes(name))].map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={form.impact_level} onValueChange={(impact) => update({ impact_level: impact as TemplateForm['impact_level'] })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(IMPACT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              inputMode="decimal"
+              placeholder={valueType.unit === 'currency' ? 'Value (optional)' : `${VALUE_UNITS[valueType.unit].label} (optional)`}
+              value={form.value}
+              onChange={(e) => update({ value: e.target.value })}
+            />
+            {valueType.unit === 'currency' && (
+              <Select value={form.currency} onValueChange={(code) => update({ currency: code })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>{option.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <Input placeholder="Tags, comma separated" value={form.tags} onChange={(e) => update({ tags: e.target.value })} />
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={form.recurrence}
+              onValueChange={(recurrence) => update({ recurrence, recurrence_day: '1' })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_RECURRENCE}>No recurrence</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+            {form.recurrence !== NO_RECURRENCE && (
+              <Select value={form.recurrence_day} onValueChange={(day) => update({ recurrence_day: day })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {dayOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {form.recurrence === 'monthly' ? `Day ${option.label}` : option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {form.recurrence !== NO_RECURRENCE && (
+            <p className="text-xs text-muted-foreground">
+              You'll be asked to confirm each occurrence on the home screen – nothing is added automatically.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setEditing(null)} disabled={saving} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving} className="flex-1">
+              {saving ? 'Saving…' : 'Save Template'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
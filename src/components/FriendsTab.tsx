@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
+import { ProfileAvatar } from '@/components/ProfileAvatar';
 import { Users, UserPlus, Trophy, Search, Plus, Crown, Medal, Share2, Copy, LogOut, X } from 'lucide-react';
 
 interface Friend {
@@ -36,6 +37,7 @@ interface CompetitionGroup {
 interface UserStats {
   user_id: string;
   display_name: string;
+  avatar_url: string | null;
   total_fortunes: number;
   monthly_fortunes: number;
   weekly_fortunes: number;
@@ -529,7 +531,7 @@ const FriendsTab: React.FC = () => {
         // Get profile data
         const { data: profileData } = await supabase
           .from('profiles')
-          .select('display_name')
+          .select('display_name, avatar_url')
           .eq('user_id', member.user_id)
           .single();
 
@@ -547,6 +549,7 @@ const FriendsTab: React.FC = () => {
         return {
           user_id: member.user_id,
           display_name: profileData?.display_name || 'Unknown',
+          avatar_url: profileData?.avatar_url ?? null,
           total_fortunes: stats?.total_fortunes || 0,
           monthly_fortunes: stats?.monthly_fortunes || 0,
           weekly_fortunes: stats?.weekly_fortunes || 0
@@ -684,7 +687,10 @@ const FriendsTab: React.FC = () => {
                 <div className="space-y-2">
                   {searchResults.map((user) => (
                     <div key={user.user_id} className="flex items-center justify-between p-2 border rounded">
-                      <span className="font-medium">{user.display_name}</span>
+                      <div className="flex items-center gap-2">
+                        <ProfileAvatar url={user.avatar_url} name={user.display_name} />
+                        <span className="font-medium">{user.display_name}</span>
+                      </div>
                       <Button
                         size="sm"
                         onClick={() => sendFriendRequest(user.user_id)}
@@ -709,7 +715,10 @@ const FriendsTab: React.FC = () => {
                 <div className="space-y-2">
                   {pendingRequests.map((request) => (
                     <div key={request.id} className="flex items-center justify-between p-2 border rounded">
-                      <span className="font-medium">{request.friend_profile.display_name}</span>
+                      <div className="flex items-center gap-2">
+                        <ProfileAvatar url={request.friend_profile.avatar_url} name={request.friend_profile.display_name} />
+                        <span className="font-medium">{request.friend_profile.display_name}</span>
+                      </div>
                       <Button
                         size="sm"
                         onClick={() => acceptFriendRequest(request.id)}
@@ -774,7 +783,10 @@ const FriendsTab: React.FC = () => {
                 <div className="space-y-2">
                   {friends.map((friend) => (
                     <div key={friend.id} className="flex items-center justify-between p-2 border rounded">
-                      <span className="font-medium">{friend.friend_profile.display_name}</span>
+                      <div className="flex items-center gap-2">
+                        <ProfileAvatar url={friend.friend_profile.avatar_url} name={friend.friend_profile.display_name} />
+                        <span className="font-medium">{friend.friend_profile.display_name}</span>
+                      </div>
                       <span className="text-sm text-muted-foreground">
                         Friends since {new Date(friend.created_at).toLocaleDateString()}
                       </span>
@@ -887,7 +899,10 @@ const FriendsTab: React.FC = () => {
                               <div className="space-y-2">
                                 {friends.map((friend) => (
                                   <div key={friend.id} className="flex items-center justify-between p-2 border rounded">
-                                    <span className="font-medium">{friend.friend_profile.display_name}</span>
+                                    <div className="flex items-center gap-2">
+                                      <ProfileAvatar url={friend.friend_profile.avatar_url} name={friend.friend_profile.display_name} />
+                                      <span className="font-medium">{friend.friend_profile.display_name}</span>
+                                    </div>
                                     <Button
                                       size="sm"
                                        onClick={async () => {
@@ -950,6 +965,7 @@ const FriendsTab: React.FC = () => {
                       {index === 2 && <Medal className="h-4 w-4 text-amber-600" />}
                       {index > 2 && <span className="text-sm font-medium">{index + 1}</span>}
                     </div>
+                    <ProfileAvatar url={user.avatar_url} name={user.display_name} />
                     <span className="font-medium">{user.display_name}</span>
                   </div>
                   <div className="flex items-center gap-3">
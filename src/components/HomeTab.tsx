@@ -1,14 +1,21 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { LuxuryAvatarSection } from './LuxuryAvatarSection';
 import { FortuneList } from './FortuneList';
 import { DailyQuote } from './DailyQuote';
 import { QuickMoodTracker } from './QuickMoodTracker';
+import { OnThisDayCard } from './OnThisDayCard';
+import { FailedOutboxCard } from './FailedOutboxCard';
+import { RecurringTemplatesCard } from './RecurringTemplatesCard';
+import { ChallengesCard } from './ChallengesCard';
 import { TaskBoard } from './kanban/TaskBoard';
 import { Fortune } from '@/types/fortune';
-import { getTodayFortunes, FortuneRecord } from '@/lib/fortunes';
+import { getTodayFortunesPage, FortuneRecord, type FortuneCursor } from '@/lib/fortunes';
 import { useAppState } from '@/contexts/AppStateContext';
 import { useTutorial } from '@/contexts/TutorialContext';
 import { supabase } from '@/integrations/supabase/client';
+import { useFortuneOutbox } from '@/hooks/useFortuneOutbox';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { isSameDay } from 'date-fns';
 
 interface HomeTabProps {
   refreshTrigger: number;
@@ -16,10 +23,20 @@ interface HomeTabProps {
 }
 
 export const HomeTab = ({ refreshTrigger, onOpenPricing }: HomeTabProps) => {
-  const { profile, fortunesCountTotal, loading: appLoading } = useAppState();
+  const { profile, loading: appLoading } = useAppState();
   const { isStepCompleted, showTutorial, isLoading: tutorialLoading } = useTutorial();
   const [recentFortunes, setRecentFortunes] = useState<FortuneRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<FortuneCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const { pendingFortunes } = useFortuneOutbox();
+
+  // Fortunes saved offline today show up alongside the synced ones until replayed
+  const todaysFortunes = useMemo(() => {
+    const now = new Date();
+    const pendingToday = pendingFortunes.filter((f) => isSameDay(new Date(f.created_at), now));
+    return [...pendingToday.reverse(), ...recentFortunes];
+  }, [pendingFortunes, recentFortunes]);
   
   // Track if initial fetch has been done to prevent re-fetching on every render
   const initialFetchDoneRef = useRef(false);
@@ -30,17 +47,38 @@ export const HomeTab = ({ refreshTrigger, onOpenPricing }: HomeTabProps) => {
     try {
       setLoading(true);
       console.log("[QUERY:fortunes] Fetching today's fortunes", { force });
-      const fortunes = await getTodayFortunes(force);
+      const { fortunes, nextCursor } = await getTodayFortunesPage();
       setRecentFortunes(fortunes);
+      setNextCursor(nextCursor);
       console.log(`[QUERY:fortunes] Fetched ${fortunes?.length ?? 0} recent fortunes`);
     } catch (error) {
       console.error('[QUERY:fortunes] Error in fetchRecentFortunes:', error);
-      setRecentFortunes([]);
+      // Keep showing the last known list while offline
+      if (navigator.onLine) {
+        setRecentFortunes([]);
+      }
     } finally {
       setLoading(false);
     }
   }, []);
 
+  const loadMoreFortunes = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await getTodayFortunesPage(nextCursor);
+      setRecentFortunes((prev) => {
+        const known = new Set(prev.map((f) => f.id));
+        return [...prev, ...page.fortunes.filter((f) => !known.has(f.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('[QUERY:fortunes] Error loading more fortunes:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore]);
+
   // Stable ref for fetchRecentFortunes
   const fetchRef = useRef(fetchRecentFortunes);
   fetchRef.current = fetchRecentFortunes;
@@ -71,35 +109,11 @@ export const HomeTab = ({ refreshTrigger, onOpenPricing }: HomeTabProps) => {
     }
   }, [refreshTrigger]);
 
-  // Listen for fortune updates to refresh Today's Fortunes list
-  // Use debounce to prevent rapid-fire updates
-  const eventDebounceRef = useRef<NodeJS.Timeout | null>(null);
-  
-  useEffect(() => {
-    const handleFortuneUpdate = () => {
-      // Debounce: ignore if we just handled an event in the last 2 seconds
-      if (eventDebounceRef.current) {
-        console.log('[HOME-TAB] fortunesUpdated event debounced (ignored)');
-        return;
-      }
-      
-      console.log('[HOME-TAB] fortunesUpdated event received - refreshing Today\'s Fortunes list');
-      fetchRef.current(true);
-      
-      // Set debounce flag for 2 seconds
-      eventDebounceRef.current = setTimeout(() => {
-        eventDebounceRef.current = null;
-      }, 2000);
-    };
-
-    window.addEventListener("fortunesUpdated", handleFortuneUpdate);
-    return () => {
-      window.removeEventListener("fortunesUpdated", handleFortuneUpdate);
-      if (eventDebounceRef.current) {
-        clearTimeout(eventDebounceRef.current);
-      }
-    };
-  }, []);
+  // Refresh Today's Fortunes when fortunes change elsewhere (bursts arrive coalesced)
+  useAppEvent('fortunesUpdated', () => {
+    console.log('[HOME-TAB] fortunesUpdated event received - refreshing Today\'s Fortunes list');
+    fetchRef.current(true);
+  });
 
   // Show home tutorial on first visit
   useEffect(() => {
@@ -157,17 +171,23 @@ export const HomeTab = ({ refreshTrigger, onOpenPricing }: HomeTabProps) => {
         <div className="flex-1">
           <LuxuryAvatarSection 
             profile={profile} 
-            fortuneCount={fortunesCountTotal}
             onLevelUp={handleLevelUp}
             onOpenPricing={onOpenPricing}
           />
         </div>
         <QuickMoodTracker className="flex-shrink-0" />
       </div>
+      <ChallengesCard />
+      <RecurringTemplatesCard />
+      <OnThisDayCard />
+      <FailedOutboxCard />
       <FortuneList 
-        fortunes={recentFortunes} 
+        fortunes={todaysFortunes} 
         title="Today's Fortunes"
         onFortunesUpdated={handleFortunesUpdated}
+        hasMore={nextCursor !== null}
+        loadingMore={loadingMore}
+        onLoadMore={loadMoreFortunes}
       />
       <TaskBoard />
     </div>
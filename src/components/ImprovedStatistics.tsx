@@ -1,5 +1,5 @@
 import { useState, useMemo, useEffect } from 'react';
-import { Fortune, Achievement } from '@/types/fortune';
+import { Achievement } from '@/types/fortune';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { AchievementsDetailModal } from '@/components/AchievementsDetailModal';
@@ -29,9 +29,18 @@ import {
 } from 'lucide-react';
 import { format, subDays, startOfDay, isAfter, isSameDay, startOfMonth, isSameMonth } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import { filterFortunesByTags } from '@/lib/tags';
+import { collectStatTags, countFortunes, statDate, statValues, type FortuneDayStat } from '@/lib/fortuneStats';
+import { TagFilter } from '@/components/TagFilter';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { formatMoney, sumInCurrency } from '@/lib/currency';
+import { getParentMap, rollUpCategory, type CustomCategoryRow } from '@/lib/categories';
+import { sortByUnlockDate } from '@/lib/achievements';
+import { VALUE_UNITS, aggregateUnitValues, buildValueTypeMap, formatUnitValue, getCategoryValueType } from '@/lib/valueUnits';
 
 interface ImprovedStatisticsProps {
-  fortunes: Fortune[];
+  stats: FortuneDayStat[];
   achievements: Achievement[];
 }
 
@@ -43,13 +52,59 @@ const DEFAULT_CATEGORY_COLORS = {
   'Other': '#6B7280'
 };
 
-export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatisticsProps) => {
+export const ImprovedStatistics = ({ stats: allStats, achievements }: ImprovedStatisticsProps) => {
   const [timeFilter, setTimeFilter] = useState<'7d' | '14d' | '30d' | '6m' | '1y'>('14d');
   const [showAchievementsModal, setShowAchievementsModal] = useState(false);
   const [chartView, setChartView] = useState<'daily' | 'category' | 'progress'>('daily');
   const [compareEnabled, setCompareEnabled] = useState(false);
   const [customCategories, setCustomCategories] = useState<Record<string, string>>({});
+  const [categoryRows, setCategoryRows] = useState<CustomCategoryRow[]>([]);
+  // 'parent' rolls subcategories up into their parent; drillParent narrows everything to one parent's subcategories
+  const [categoryLevel, setCategoryLevel] = useState<'parent' | 'sub'>('parent');
+  const [drillParent, setDrillParent] = useState<string | null>(null);
   const [selectedYears, setSelectedYears] = useState<[number, number]>([2023, 2024]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { currency } = useSettings();
+  const exchangeRates = useExchangeRates();
+
+  // Every stat below is computed over the tag-filtered set
+  const availableTags = useMemo(() => collectStatTags(allStats), [allStats]);
+  const tagFiltered = useMemo(
+    () => filterFortunesByTags(allStats, selectedTags),
+    [allStats, selectedTags]
+  );
+
+  const parentMap = useMemo(() => getParentMap(categoryRows), [categoryRows]);
+  const parentsWithChildren = useMemo(() => new Set(parentMap.values()), [parentMap]);
+  const valueTypes = useMemo(() => buildValueTypeMap(categoryRows), [categoryRows]);
+
+  // Units are looked up by the stored (leaf) category, before any relabelling
+  const leafFortunes = useMemo(
+    () => drillParent
+      ? tagFiltered.filter(f => rollUpCategory(f.category ?? '', parentMap) === drillParent)
+      : tagFiltered,
+    [tagFiltered, parentMap, drillParent]
+  );
+  const unitTotals = useMemo(
+    () => aggregateUnitValues(statValues(leafFortunes), valueTypes, currency, exchangeRates),
+    [leafFortunes, valueTypes, currency, exchangeRates]
+  );
+
+  // Fortunes store the leaf category; relabel them for the selected level before any stat is computed.
+  // Whether a value is money is decided by the leaf category, so it's noted first.
+  const fortunes = useMemo(() => {
+    const withUnit = tagFiltered.map(f => ({
+      ...f,
+      isMoney: getCategoryValueType(f.category, valueTypes).unit === 'currency',
+    }));
+    if (drillParent) {
+      return withUnit.filter(f => rollUpCategory(f.category ?? '', parentMap) === drillParent);
+    }
+    if (categoryLevel === 'parent' && parentMap.size > 0) {
+      return withUnit.map(f => ({ ...f, category: rollUpCategory(f.category ?? '', parentMap) }));
+    }
+    return withUnit;
+  }, [tagFiltered, parentMap, categoryLevel, drillParent, valueTypes]);
 
   // Fetch category colors from database
   useEffect(() => {
@@ -60,10 +115,11 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
 
         const { data } = await supabase
           .from('custom_categories')
-          .select('name, color')
+          .select('id, name, color, has_numeric_value, parent_name, archived_at, value_unit, value_min, value_max')
           .eq('user_id', user.id);
 
         if (data) {
+          setCategoryRows(data);
           const colorMap = data.reduce((acc, cat) => {
             acc[cat.name] = cat.color;
             return acc;
@@ -102,26 +158,31 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
                       timeFilter === '6m' ? 180 :
                       365;
 
+    // Only money values are charted; they're converted to the display currency before summing
+    const sumMoney = (list: typeof fortunes) =>
+      sumInCurrency(statValues(list.filter(f => f.isMoney)), currency, exchangeRates);
+    const sumValues = (list: typeof fortunes) => sumMoney(list).total;
+
     // Year comparison data
     const yearComparisonData = selectedYears.map(year => {
-      const yearFortunes = fortunes.filter(f => new Date(f.created_at).getFullYear() === year);
+      const yearFortunes = fortunes.filter(f => statDate(f).getFullYear() === year);
       return {
         year: year.toString(),
-        count: yearFortunes.length,
-        value: yearFortunes.reduce((sum, f) => sum + (Number(f.fortune_value) || 0), 0)
+        count: countFortunes(yearFortunes),
+        value: sumValues(yearFortunes)
       };
     });
     
     // Weekly counts (last 7 days including today)
-    const weeklyCount = fortunes.filter(fortune => {
-      const fortuneDate = new Date(fortune.created_at);
+    const weeklyCount = countFortunes(fortunes.filter(fortune => {
+      const fortuneDate = statDate(fortune);
       const sevenDaysAgo = subDays(startOfDay(now), 6); // 6 days ago + today = 7 days
-      return isAfter(fortuneDate, sevenDaysAgo) || isSameDay(fortuneDate, now);
-    }).length;
+      return isAfter(fortuneDate, sevenDaysAgo) || isSameDay(fortuneDate, sevenDaysAgo) || isSameDay(fortuneDate, now);
+    }));
 
     // Get unique categories from filtered fortunes
     const filteredFortunes = fortunes.filter(fortune => {
-      const fortuneDate = new Date(fortune.created_at);
+      const fortuneDate = statDate(fortune);
       const cutoffDate = subDays(startOfDay(now), daysToShow - 1);
       return isAfter(fortuneDate, cutoffDate) || isSameDay(fortuneDate, cutoffDate) || isSameDay(fortuneDate, now);
     });
@@ -140,19 +201,19 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
       for (let i = monthsToShow - 1; i >= 0; i--) {
         const monthStart = startOfMonth(subDays(now, i * 30));
         const monthFortunes = fortunes.filter(fortune => 
-          isSameMonth(new Date(fortune.created_at), monthStart)
+          isSameMonth(statDate(fortune), monthStart)
         );
         
         const categoryBreakdown = uniqueCategories.reduce((acc, category) => {
-          acc[category] = monthFortunes.filter(f => f.category === category).length;
+          acc[category] = countFortunes(monthFortunes.filter(f => f.category === category));
           return acc;
         }, {} as Record<string, number>);
 
         chartData.push({
           date: format(monthStart, 'MMM'),
           fullDate: format(monthStart, 'MMM yyyy'),
-          count: monthFortunes.length,
-          value: monthFortunes.reduce((sum, f) => sum + (Number(f.fortune_value) || 0), 0),
+          count: countFortunes(monthFortunes),
+          value: sumValues(monthFortunes),
           ...categoryBreakdown
         });
       }
@@ -163,19 +224,19 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
         // Only include dates that are today or in the past
         if (date <= now) {
           const dayFortunes = fortunes.filter(fortune => 
-            isSameDay(new Date(fortune.created_at), date)
+            isSameDay(statDate(fortune), date)
           );
         
         const categoryBreakdown = uniqueCategories.reduce((acc, category) => {
-          acc[category] = dayFortunes.filter(f => f.category === category).length;
+          acc[category] = countFortunes(dayFortunes.filter(f => f.category === category));
           return acc;
         }, {} as Record<string, number>);
 
           chartData.push({
             date: format(date, 'MMM dd'),
             fullDate: format(date, 'MMM dd, yyyy'),
-            count: dayFortunes.length,
-            value: dayFortunes.reduce((sum, f) => sum + (Number(f.fortune_value) || 0), 0),
+            count: countFortunes(dayFortunes),
+            value: sumValues(dayFortunes),
             ...categoryBreakdown
           });
         }
@@ -200,7 +261,7 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
 
     // Category breakdown
     const categoryData = fortunes.reduce((acc, fortune) => {
-      acc[fortune.category] = (acc[fortune.category] || 0) + 1;
+      acc[fortune.category] = (acc[fortune.category] || 0) + fortune.fortune_count;
       return acc;
     }, {} as Record<string, number>);
 
@@ -210,16 +271,10 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
     }));
 
     // Total monetary value
-    const totalValue = fortunes.reduce((sum, fortune) => 
-      sum + (Number(fortune.fortune_value) || 0), 0
-    );
+    const { total: totalValue, unconverted: unconvertedValues } = sumMoney(fortunes);
 
     // Active days calculation
-    const uniqueDates = new Set(
-      fortunes.map(fortune => 
-        format(new Date(fortune.created_at), 'yyyy-MM-dd')
-      )
-    );
+    const uniqueDates = new Set(fortunes.map(fortune => fortune.day));
 
     return {
       weeklyCount,
@@ -227,19 +282,23 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
       progressData,
       categoryChartData,
       totalValue,
+      unconvertedValues,
       activeDays: uniqueDates.size,
-      totalFortunes: fortunes.length,
+      totalFortunes: countFortunes(fortunes),
       uniqueCategories,
       yearComparisonData
     };
-  }, [fortunes, timeFilter, selectedYears]);
+  }, [fortunes, timeFilter, selectedYears, currency, exchangeRates]);
 
-  const earnedAchievements = achievements.filter(a => a.state === 'earned');
-  const recentAchievements = earnedAchievements.slice(-4); // Last 4 earned
-  const progressPercentage = (earnedAchievements.length / achievements.length) * 100;
+  const earnedAchievements = sortByUnlockDate(achievements);
+  const recentAchievements = earnedAchievements.slice(0, 4);
+  const progressPercentage = achievements.length ? (earnedAchievements.length / achievements.length) * 100 : 0;
 
   return (
     <div className="space-y-6">
+      {/* Tag Filter */}
+      <TagFilter tags={availableTags} selected={selectedTags} onChange={setSelectedTags} />
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="p-3 sm:p-4 bg-background/50 backdrop-blur-sm">
@@ -278,11 +337,37 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
             <span className="text-xs sm:text-sm font-medium">Total Value</span>
           </div>
           <div className="text-xl sm:text-2xl font-bold text-gold">
-            ${statisticsData.totalValue.toFixed(2)}
+            {formatMoney(statisticsData.totalValue, currency)}
           </div>
+          {statisticsData.unconvertedValues > 0 && (
+            <p className="text-[10px] text-muted-foreground mt-1">
+              {statisticsData.unconvertedValues} value{statisticsData.unconvertedValues === 1 ? '' : 's'} skipped (no exchange rate)
+            </p>
+          )}
         </Card>
       </div>
 
+      {/* Values of categories measured in other units: summed, or averaged for ratings */}
+      {unitTotals.some(total => total.unit !== 'currency') && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {unitTotals.filter(total => total.unit !== 'currency').map((total) => (
+            <Card key={total.unit} className="p-3 sm:p-4 bg-background/50 backdrop-blur-sm">
+              <div className="text-xs sm:text-sm font-medium mb-2">
+                {VALUE_UNITS[total.unit].aggregate === 'average'
+                  ? `Average ${VALUE_UNITS[total.unit].label}`
+                  : `Total ${VALUE_UNITS[total.unit].label}`}
+              </div>
+              <div className="text-xl sm:text-2xl font-bold text-gold">
+                {formatUnitValue(total.value, total.unit, currency)}
+              </div>
+              <p className="text-[10px] text-muted-foreground mt-1">
+                {total.entries} {total.entries === 1 ? 'entry' : 'entries'}
+              </p>
+            </Card>
+          ))}
+        </div>
+      )}
+
       {/* Time Filter */}
       <div className="flex flex-wrap gap-2">
         {(['7d', '14d', '30d', '6m', '1y'] as const).map((period) => (
@@ -302,6 +387,45 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
         ))}
       </div>
 
+      {/* Category level: roll subcategories up into their parents, list them separately, or drill into one parent */}
+      {parentMap.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {drillParent ? (
+            <>
+              <span className="text-xs text-muted-foreground">Showing {drillParent} by subcategory</span>
+              <Button variant="outline" size="sm" onClick={() => setDrillParent(null)} className="h-8 text-xs">
+                Back to All Categories
+              </Button>
+            </>
+          ) : (
+            <>
+              {(['parent', 'sub'] as const).map((level) => (
+                <Button
+                  key={level}
+                  variant={categoryLevel === level ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setCategoryLevel(level)}
+                  className="h-8 text-xs"
+                >
+                  {level === 'parent' ? 'Roll Up Subcategories' : 'Show Subcategories'}
+                </Button>
+              ))}
+              {Array.from(parentsWithChildren).map((parent) => (
+                <Button
+                  key={parent}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDrillParent(parent)}
+                  className="h-8 text-xs"
+                >
+                  {parent} ›
+                </Button>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Chart View Toggle */}
       <div className="flex flex-wrap gap-2">
         {(['daily', 'category', 'progress'] as const).map((view) => (
@@ -537,6 +661,9 @@ export const ImprovedStatistics = ({ fortunes, achievements }: ImprovedStatistic
                     outerRadius={window.innerWidth > 640 ? 80 : 60}
                     fill="#8884d8"
                     dataKey="value"
+                    onClick={(entry: { name: string }) => {
+                      if (!drillParent && parentsWithChildren.has(entry.name)) setDrillParent(entry.name);
+                    }}
                   >
                     {statisticsData.categoryChartData.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={getCategoryColor(entry.name)} />
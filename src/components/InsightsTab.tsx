@@ -1,16 +1,20 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { CustomCalendar } from '@/components/CustomCalendar';
 import { StatisticsDetailModal } from '@/components/StatisticsDetailModal';
 import { AchievementsDetailModal } from '@/components/AchievementsDetailModal';
 import { DateDetailsModal } from '@/components/DateDetailsModal';
 import { ImprovedStatistics } from '@/components/ImprovedStatistics';
 import { LifestyleTrackerTab } from '@/components/LifestyleTrackerTab';
-import { Fortune, Achievement } from '@/types/fortune';
+import { FortuneSearch } from '@/components/FortuneSearch';
+import { Fortune } from '@/types/fortune';
 import { AchievementCard } from '@/components/AchievementCard';
-import { getFortunesListPaginated } from '@/lib/fortunes';
+import { getFortunesPage, type FortuneCursor } from '@/lib/fortunes';
+import { countByDay, getFortuneDayStats, type FortuneDayStat } from '@/lib/fortuneStats';
 import { useAppState } from '@/contexts/AppStateContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useAchievements } from '@/hooks/useAchievements';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import type { FortuneSearchResult } from '@/lib/edge-functions';
 import { 
   CalendarDots, 
   ChartBar, 
@@ -23,7 +27,7 @@ import {
 } from '@phosphor-icons/react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { format, isSameDay } from 'date-fns';
+import { endOfDay, startOfDay } from 'date-fns';
 
 interface InsightsTabProps {
   refreshTrigger: number;
@@ -32,375 +36,119 @@ interface InsightsTabProps {
   onDateSelect?: (date: Date) => void;
 }
 
-const mockAchievements: Achievement[] = [
-  {
-    id: '1',
-    title: 'First Fortune',
-    description: 'Track your first fortune',
-    icon: '🎯',
-    state: 'earned',
-    requiredCount: 1
-  },
-  {
-    id: '2',
-    title: 'Fortune Seeker',
-    description: 'Track 10 fortunes',
-    icon: '🔍',
-    state: 'locked',
-    requiredCount: 10
-  },
-  {
-    id: '3',
-    title: 'Fortune Hunter',
-    description: 'Track 25 fortunes',
-    icon: '🏹',
-    state: 'locked',
-    requiredCount: 25
-  },
-  {
-    id: '4',
-    title: 'Fortune Master',
-    description: 'Track 50 fortunes',
-    icon: '🏆',
-    state: 'locked',
-    requiredCount: 50
-  },
-  {
-    id: '5',
-    title: 'Fortune Legend',
-    description: 'Track 100 fortunes',
-    icon: '👑',
-    state: 'locked',
-    requiredCount: 100
-  },
-  {
-    id: '6',
-    title: 'Wealth Magnet',
-    description: 'Track 5 wealth fortunes',
-    icon: '💰',
-    state: 'locked',
-    requiredCount: 5,
-    category: 'Wealth'
-  },
-  {
-    id: '7',
-    title: 'Gold Rush',
-    description: 'Track 15 wealth fortunes',
-    icon: '🏗️',
-    state: 'locked',
-    requiredCount: 15,
-    category: 'Wealth'
-  },
-  {
-    id: '8',
-    title: 'Love Attractor',
-    description: 'Track 3 love fortunes',
-    icon: '💖',
-    state: 'locked',
-    requiredCount: 3,
-    category: 'Love'
-  },
-  {
-    id: '9',
-    title: 'Cupid\'s Favorite',
-    description: 'Track 10 love fortunes',
-    icon: '💘',
-    state: 'locked',
-    requiredCount: 10,
-    category: 'Love'
-  },
-  {
-    id: '10',
-    title: 'Health Guardian',
-    description: 'Track 5 health fortunes',
-    icon: '🌿',
-    state: 'locked',
-    requiredCount: 5,
-    category: 'Health'
-  },
-  {
-    id: 'beta-tester',
-    title: 'Beta Pioneer',
-    description: 'Joined during the beta phase before 2026',
-    icon: '🚀',
-    state: 'locked',
-    requiredCount: 1
-  },
-  {
-    id: '11',
-    title: 'Opportunity Finder',
-    description: 'Track 7 opportunity fortunes',
-    icon: '🚪',
-    state: 'locked',
-    requiredCount: 7,
-    category: 'Opportunity'
-  },
-  {
-    id: '12',
-    title: 'Daily Tracker',
-    description: 'Track fortunes for 7 consecutive days',
-    icon: '📅',
-    state: 'locked',
-    requiredCount: 7
-  },
-  {
-    id: '13',
-    title: 'Consistency King',
-    description: 'Track fortunes for 30 consecutive days',
-    icon: '⚡',
-    state: 'locked',
-    requiredCount: 30
-  },
-  {
-    id: '14',
-    title: 'Value Creator',
-    description: 'Track fortunes worth $1000 total',
-    icon: '💎',
-    state: 'locked',
-    requiredCount: 1000
-  },
-  {
-    id: '15',
-    title: 'Fortune Millionaire',
-    description: 'Track fortunes worth $10,000 total',
-    icon: '🏛️',
-    state: 'locked',
-    requiredCount: 10000
-  },
-  {
-    id: '16',
-    title: 'Category Explorer',
-    description: 'Track fortunes in 3 different categories',
-    icon: '🗺️',
-    state: 'locked',
-    requiredCount: 3
-  },
-  {
-    id: '17',
-    title: 'Well-Rounded',
-    description: 'Track fortunes in 5 different categories',
-    icon: '🎭',
-    state: 'locked',
-    requiredCount: 5
-  },
-  {
-    id: '18',
-    title: 'Early Bird',
-    description: 'Track a fortune before 8 AM',
-    icon: '🌅',
-    state: 'locked',
-    requiredCount: 1
-  },
-  {
-    id: '19',
-    title: 'Night Owl',
-    description: 'Track a fortune after 10 PM',
-    icon: '🦉',
-    state: 'locked',
-    requiredCount: 1
-  },
-  {
-    id: '20',
-    title: 'Weekend Warrior',
-    description: 'Track fortunes on 5 weekends',
-    icon: '🎪',
-    state: 'locked',
-    requiredCount: 5
-  },
-];
-
 export const InsightsTab = ({ refreshTrigger, onGlobalRefresh, selectedFortuneDate, onDateSelect }: InsightsTabProps) => {
   const { addError } = useAppState();
   const { hasActiveSub } = useSubscription();
-  const [fortunes, setFortunes] = useState<Fortune[]>([]);
+  const { achievements } = useAchievements();
+  // Per-day totals for the statistics and the calendar; a day's fortunes are loaded when it's opened
+  const [stats, setStats] = useState<FortuneDayStat[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [selectedDateFortunes, setSelectedDateFortunes] = useState<Fortune[]>([]);
+  const [dayCursor, setDayCursor] = useState<FortuneCursor | null>(null);
+  const [dayLoading, setDayLoading] = useState(false);
+  const [dayLoadingMore, setDayLoadingMore] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showStatisticsModal, setShowStatisticsModal] = useState(false);
   const [showAchievementsModal, setShowAchievementsModal] = useState(false);
   const [showDateModal, setShowDateModal] = useState(false);
   const [activeTab, setActiveTab] = useState('fortunes');
-  const [isBetaTester, setIsBetaTester] = useState(false);
+  // Ignore day pages from a day the user has since left
+  const dayRequestRef = useRef(0);
 
-  const fetchFortunes = useCallback(async (force = false) => {
+  const fetchStats = useCallback(async () => {
     try {
       setLoading(true);
-      console.log('[QUERY:fortunes] Fetching all fortunes for insights', { force });
+      console.log('[QUERY:fortunes] Fetching day stats for insights');
 
-      const fortunesData = await getFortunesListPaginated(undefined, undefined, force);
-      setFortunes(fortunesData);
+      setStats(await getFortuneDayStats());
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error('[QUERY:fortunes] Error in fetchFortunes:', error);
+      console.error('[QUERY:fortunes] Error in fetchStats:', error);
       addError('insights-fortunes', message);
     } finally {
       setLoading(false);
     }
   }, [addError]);
 
-  // Check if user is a beta tester (registered before 2026)
-  const checkBetaTesterStatus = useCallback(async () => {
+  const loadDay = useCallback(async (date: Date) => {
+    const requestId = ++dayRequestRef.current;
+    setDayLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('created_at')
-        .eq('user_id', user.id)
-        .single();
-
-      if (profile) {
-        const registrationDate = new Date(profile.created_at);
-        const cutoffDate = new Date('2026-01-01T00:00:00.000Z');
-        setIsBetaTester(registrationDate < cutoffDate);
-      }
+      const page = await getFortunesPage(startOfDay(date).toISOString(), endOfDay(date).toISOString());
+      if (requestId !== dayRequestRef.current) return;
+      setSelectedDateFortunes(page.fortunes);
+      setDayCursor(page.nextCursor);
     } catch (error) {
-      console.error('Error checking beta tester status:', error);
+      console.error('[QUERY:fortunes] Error loading the day:', error);
+      if (requestId !== dayRequestRef.current) return;
+      setSelectedDateFortunes([]);
+      setDayCursor(null);
+    } finally {
+      if (requestId === dayRequestRef.current) setDayLoading(false);
     }
   }, []);
 
+  const loadMoreDay = useCallback(async () => {
+    if (!selectedDate || !dayCursor || dayLoadingMore) return;
+    const requestId = dayRequestRef.current;
+    setDayLoadingMore(true);
+    try {
+      const page = await getFortunesPage(
+        startOfDay(selectedDate).toISOString(),
+        endOfDay(selectedDate).toISOString(),
+        dayCursor
+      );
+      if (requestId !== dayRequestRef.current) return;
+      setSelectedDateFortunes((prev) => {
+        const known = new Set(prev.map((f) => f.id));
+        return [...prev, ...page.fortunes.filter((f) => !known.has(f.id))];
+      });
+      setDayCursor(page.nextCursor);
+    } catch (error) {
+      console.error('[QUERY:fortunes] Error loading more of the day:', error);
+    } finally {
+      setDayLoadingMore(false);
+    }
+  }, [selectedDate, dayCursor, dayLoadingMore]);
+
   // Only fetch on initial mount or explicit refresh trigger (user action)
   useEffect(() => {
-    const force = refreshTrigger > 0;
-    fetchFortunes(force);
-    checkBetaTesterStatus();
-  }, [refreshTrigger, fetchFortunes, checkBetaTesterStatus]);
-  
-  // Filter existing fortunes when selectedDate changes (no new fetch needed)
-  // Use stable date string to avoid re-filtering when Date object reference changes
-  const selectedDateKey = selectedDate?.toDateString() ?? null;
-  // Create stable string representation of fortunes for dependency tracking
-  // We track fortune IDs to detect actual changes
-  const fortunesKey = useMemo(() => {
-    return fortunes.map(f => f.id).join(',');
-  }, [fortunes]);
+    fetchStats();
+  }, [refreshTrigger, fetchStats]);
   
-  useEffect(() => {
-    if (selectedDate && fortunes.length > 0) {
-      const dateFortunes = fortunes.filter(fortune =>
-        isSameDay(new Date(fortune.created_at), selectedDate)
-      );
-      setSelectedDateFortunes(dateFortunes);
-    } else {
-      setSelectedDateFortunes([]);
-    }
-  }, [selectedDateKey, fortunesKey, selectedDate, fortunes]);
+  // Fortunes changed outside this tab, e.g. on another device (see useRealtimeSync)
+  useAppEvent('fortunesUpdated', () => {
+    fetchStats();
+    if (showDateModal && selectedDate) loadDay(selectedDate);
+  });
 
-  const getFortunesByCategory = () => {
-    const categories = ['Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other'];
-    return categories.map(category => ({
-      category,
-      count: fortunes.filter(f => f.category === category).length
-    }));
-  };
+  const dayCounts = useMemo(() => countByDay(stats), [stats]);
 
-  const getDaysWithFortunes = () => {
-    return fortunes.map(fortune => new Date(fortune.created_at));
-  };
+  const openDay = useCallback((date: Date) => {
+    setSelectedDate(date);
+    setSelectedDateFortunes([]);
+    setDayCursor(null);
+    loadDay(date);
+    setShowDateModal(true);
+  }, [loadDay]);
 
-  const handleDateClick = (date: Date, dateFortunes: Fortune[]) => {
+  const handleDateClick = (date: Date, fortuneCount: number) => {
     setSelectedDate(date);
-    setSelectedDateFortunes(dateFortunes);
-    if (dateFortunes.length > 0) {
-      setShowDateModal(true);
+    if (fortuneCount > 0) {
+      openDay(date);
     }
   };
 
+  // Jump from a search hit to that day's details
+  const handleSearchResultSelect = useCallback((result: FortuneSearchResult) => {
+    openDay(new Date(result.created_at));
+  }, [openDay]);
+
   const handleDateDetailsFortunesUpdated = useCallback(() => {
-    fetchFortunes(true);
+    fetchStats();
+    if (selectedDate) loadDay(selectedDate);
     onGlobalRefresh?.();
-  }, [fetchFortunes, onGlobalRefresh]);
-
-  const calculateAchievements = () => {
-    return mockAchievements.map(achievement => {
-      const totalFortunes = fortunes.length;
-      const categoryFortunes = achievement.category 
-        ? fortunes.filter(f => f.category === achievement.category).length 
-        : 0;
-      
-      const totalValue = fortunes.reduce((sum, f) => sum + (Number(f.fortune_value) || 0), 0);
-      const uniqueCategories = new Set(fortunes.map(f => f.category)).size;
-      
-      // Get unique dates for streak calculation
-      const fortuneDates = fortunes.map(f => new Date(f.created_at).toDateString());
-      const uniqueDates = [...new Set(fortuneDates)].sort();
-      
-      let progress = 0;
-      let isEarned = false;
-      
-      switch (achievement.id) {
-        case '1': // First Fortune
-          progress = totalFortunes;
-          isEarned = totalFortunes >= 1;
-          break;
-        case '2': // Fortune Seeker (10)
-        case '3': // Fortune Hunter (25)
-        case '4': // Fortune Master (50)
-        case '5': // Fortune Legend (100)
-          progress = totalFortunes;
-          isEarned = totalFortunes >= achievement.requiredCount;
-          break;
-        case '6': // Wealth Magnet
-        case '7': // Gold Rush
-        case '8': // Love Attractor
-        case '9': // Cupid's Favorite
-        case '10': // Health Guardian
-        case '11': // Opportunity Finder
-          progress = categoryFortunes;
-          isEarned = categoryFortunes >= achievement.requiredCount;
-          break;
-        case '12': // Daily Tracker (7 days)
-        case '13': // Consistency King (30 days)
-          progress = uniqueDates.length;
-          isEarned = uniqueDates.length >= achievement.requiredCount;
-          break;
-        case '14': // Value Creator ($1000)
-        case '15': // Fortune Millionaire ($10,000)
-          progress = totalValue;
-          isEarned = totalValue >= achievement.requiredCount;
-          break;
-        case '16': // Category Explorer (3 categories)
-        case '17': // Well-Rounded (5 categories)
-          progress = uniqueCategories;
-          isEarned = uniqueCategories >= achievement.requiredCount;
-          break;
-        case '18': // Early Bird
-          progress = fortunes.filter(f => {
-            const hour = new Date(f.created_at).getHours();
-            return hour < 8;
-          }).length;
-          isEarned = progress >= 1;
-          break;
-        case '19': // Night Owl
-          progress = fortunes.filter(f => {
-            const hour = new Date(f.created_at).getHours();
-            return hour >= 22;
-          }).length;
-          isEarned = progress >= 1;
-          break;
-        case '20': // Weekend Warrior
-          progress = fortunes.filter(f => {
-            const day = new Date(f.created_at).getDay();
-            return day === 0 || day === 6; // Sunday or Saturday
-          }).length;
-          isEarned = progress >= achievement.requiredCount;
-          break;
-        case 'beta-tester': // Beta Pioneer
-          progress = isBetaTester ? 1 : 0;
-          isEarned = isBetaTester;
-          break;
-        default:
-          break;
-      }
-      
-      return {
-        ...achievement,
-        state: isEarned ? 'earned' as const : 'locked' as const,
-        progress
-      };
-    });
-  };
+  }, [fetchStats, loadDay, selectedDate, onGlobalRefresh]);
 
   if (loading) {
     return (
@@ -434,10 +182,15 @@ export const InsightsTab = ({ refreshTrigger, onGlobalRefresh, selectedFortuneDa
           </div>
 
           <TabsContent value="fortunes" className="mt-0">
+            {/* Server-side search */}
+            <div className="w-full mb-6">
+              <FortuneSearch onResultSelect={handleSearchResultSelect} />
+            </div>
+
             {/* Fortune Calendar */}
             <div className="w-full mb-6">
               <CustomCalendar
-                fortunes={fortunes}
+                dayCounts={dayCounts}
                 onDateClick={handleDateClick}
                 selectedDate={selectedFortuneDate}
                 onDateSelect={onDateSelect}
@@ -478,7 +231,7 @@ export const InsightsTab = ({ refreshTrigger, onGlobalRefresh, selectedFortuneDa
               <ChartBar size={16} />
             </Button>
           </div>
-          <ImprovedStatistics fortunes={fortunes} achievements={calculateAchievements()} />
+          <ImprovedStatistics stats={stats} achievements={achievements} />
         </div>
       )}
 
@@ -487,13 +240,13 @@ export const InsightsTab = ({ refreshTrigger, onGlobalRefresh, selectedFortuneDa
       <StatisticsDetailModal
         isOpen={showStatisticsModal}
         onClose={() => setShowStatisticsModal(false)}
-        fortunes={fortunes}
+        stats={stats}
       />
       
       <AchievementsDetailModal
         isOpen={showAchievementsModal}
         onClose={() => setShowAchievementsModal(false)}
-        achievements={calculateAchievements()}
+        achievements={achievements}
       />
 
       <DateDetailsModal
@@ -502,6 +255,10 @@ export const InsightsTab = ({ refreshTrigger, onGlobalRefresh, selectedFortuneDa
         date={selectedDate}
         fortunes={selectedDateFortunes}
         onFortunesUpdated={handleDateDetailsFortunesUpdated}
+        loading={dayLoading}
+        hasMore={dayCursor !== null}
+        loadingMore={dayLoadingMore}
+        onLoadMore={loadMoreDay}
       />
     </div>
   );
@@ -6,6 +6,7 @@ import { listLifestyleEntries } from '@/lib/edge-functions';
 import { LifestyleCalendar } from './LifestyleCalendar';
 import { KnowMyselfModal } from './modals/KnowMyselfModal';
 import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
 
 interface LifestyleEntry {
   id: string;
@@ -76,14 +77,7 @@ export const LifestyleTrackerTab = () => {
   }, [user, loadEntries]);
 
   // Listen for lifestyle data updates from other components
-  useEffect(() => {
-    const handleLifestyleUpdate = () => {
-      loadEntries();
-    };
-
-    window.addEventListener('lifestyleDataUpdated', handleLifestyleUpdate);
-    return () => window.removeEventListener('lifestyleDataUpdated', handleLifestyleUpdate);
-  }, [loadEntries]);
+  useAppEvent('lifestyleDataUpdated', loadEntries);
 
   useEffect(() => {
     // Check if today has an entry
@@ -1,105 +1,60 @@
 import { useState, useEffect, useRef } from 'react';
 import { Trophy, Crown } from '@phosphor-icons/react';
 import { Profile } from '@/types/fortune';
-import { supabase } from '@/integrations/supabase/client';
-import { Progress } from '@/components/ui/progress';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { KnowMyselfModal } from './modals/KnowMyselfModal';
-import { useAvatar } from '@/hooks/useAvatar';
+import { useAvatarCollection } from '@/hooks/useAvatarCollection';
+import { useXpStatus } from '@/hooks/useXpStatus';
+import { levelProgress } from '@/lib/xp';
+import { useChallenges } from '@/hooks/useChallenges';
+import { challengeBadges } from '@/lib/challenges';
 import { toast } from 'sonner';
 import betaTesterBadge from '@/assets/beta-tester-badge.webp';
 
 interface LuxuryAvatarSectionProps {
   profile: Profile;
-  fortuneCount: number;
   onLevelUp?: () => void;
   onOpenPricing?: () => void;
 }
 
-// Module-level guard to prevent level update loops across component remounts
-const levelUpdateState = {
-  inProgress: false,
-  lastUpdatedLevel: 0,
-  lastUpdatedUserId: null as string | null,
-};
-
-export const LuxuryAvatarSection = ({ profile, fortuneCount, onLevelUp, onOpenPricing }: LuxuryAvatarSectionProps) => {
+export const LuxuryAvatarSection = ({ profile, onLevelUp, onOpenPricing }: LuxuryAvatarSectionProps) => {
   const [isLevelingUp, setIsLevelingUp] = useState(false);
   const [isBetaTester, setIsBetaTester] = useState(false);
   const [showKnowMyselfModal, setShowKnowMyselfModal] = useState(false);
   const { animationsEnabled } = useSettings();
   const { hasActiveSub } = useSubscription();
+  const { challenges } = useChallenges();
+  const badges = challengeBadges(challenges);
 
-  const fortunesPerLevel = 5;
-  const currentLevel = Math.floor(fortuneCount / fortunesPerLevel) + 1;
-  const progressInCurrentLevel = fortuneCount % fortunesPerLevel;
-  const progressPercentage = (progressInCurrentLevel / fortunesPerLevel) * 100;
+  // XP and level are computed by the server; the profile's level covers the first render
+  const { status: xpStatus } = useXpStatus();
+  const currentLevel = xpStatus?.level ?? profile.level ?? 1;
+  const { earned: xpInCurrentLevel, needed: xpForNextLevel, percentage: progressPercentage } = xpStatus
+    ? levelProgress(xpStatus)
+    : { earned: 0, needed: 0, percentage: 0 };
 
-  // Use shared avatar hook with cache
-  const { avatar, loading } = useAvatar(currentLevel);
+  // The avatar the user picked, or the one for the highest level reached
+  const { displayed: avatar, loading } = useAvatarCollection();
 
-  // Check if user leveled up and update profile
-  // Stable ref for onLevelUp callback to prevent dependency loop
+  // Stable ref for onLevelUp callback
   const onLevelUpRef = useRef(onLevelUp);
   onLevelUpRef.current = onLevelUp;
-  
+
+  // Celebrate level-ups the server records while the app is open; the first load only sets the baseline
+  const knownLevelRef = useRef<number | null>(null);
   useEffect(() => {
-    if (!avatar || !profile?.user_id) return;
-    
-    const currentProfileLevel = profile.level || 1;
-    
-    // Module-level guard to prevent loops across remounts
-    // Skip if already processing, or if we've already updated to this level for this user
-    const alreadyUpdatedThisLevel = 
-      levelUpdateState.lastUpdatedUserId === profile.user_id && 
-      levelUpdateState.lastUpdatedLevel >= currentLevel;
-    
-    if (currentProfileLevel < currentLevel && !levelUpdateState.inProgress && !alreadyUpdatedThisLevel) {
-      levelUpdateState.inProgress = true;
-      levelUpdateState.lastUpdatedUserId = profile.user_id;
-      levelUpdateState.lastUpdatedLevel = currentLevel;
-      
-      if (animationsEnabled) {
-        setIsLevelingUp(true);
-      }
-      
-      // Update user's level and avatar_url in profile
-      const updateProfile = async () => {
-        try {
-          const result = await supabase
-            .from('profiles')
-            .update({ 
-              level: currentLevel, 
-              avatar_url: avatar.url || null 
-            })
-            .eq('user_id', profile.user_id);
-          
-          if (result.error) {
-            console.error('Error updating profile level:', result.error);
-            levelUpdateState.inProgress = false;
-          } else {
-            // Profile update successful - call stable ref
-            onLevelUpRef.current?.();
-            // Reset inProgress flag after a delay to allow state to settle
-            setTimeout(() => {
-              levelUpdateState.inProgress = false;
-            }, 2000); // Increased to 2 seconds
-          }
-        } catch (error) {
-          console.error('Error updating profile level:', error);
-          levelUpdateState.inProgress = false;
-        }
-      };
-      updateProfile();
-      
-      // Reset level up animation after 3 seconds (only if animations are enabled)
-      if (animationsEnabled) {
-        const timeoutId = setTimeout(() => setIsLevelingUp(false), 3000);
-        return () => clearTimeout(timeoutId);
-      }
-    }
-  }, [avatar, currentLevel, profile?.level, profile?.user_id, animationsEnabled]);
+    if (!xpStatus) return;
+    const known = knownLevelRef.current;
+    knownLevelRef.current = xpStatus.level;
+    if (known === null || xpStatus.level <= known) return;
+
+    onLevelUpRef.current?.();
+    if (!animationsEnabled) return;
+    setIsLevelingUp(true);
+    const timeoutId = setTimeout(() => setIsLevelingUp(false), 3000);
+    return () => clearTimeout(timeoutId);
+  }, [xpStatus, animationsEnabled]);
 
   // Check if user is a beta tester (registered before 2026)
   useEffect(() => {
@@ -213,8 +168,12 @@ export const LuxuryAvatarSection = ({ profile, fortuneCount, onLevelUp, onOpenPr
         {/* Progress Bar */}
         <div className="space-y-2">
           <div className="flex justify-between text-xs text-white/80">
-            <span>{progressInCurrentLevel} / {fortunesPerLevel}</span>
-            <span>Next Level</span>
+            {xpStatus?.nextLevelXp === null ? (
+              <span>{xpStatus.xp} XP</span>
+            ) : (
+              <span>{xpInCurrentLevel} / {xpForNextLevel} XP</span>
+            )}
+            <span>{xpStatus?.nextLevelXp === null ? 'Max Level' : 'Next Level'}</span>
           </div>
           <div className="relative">
             <div className="w-full h-1 bg-white/20 rounded-full overflow-hidden">
@@ -247,6 +206,26 @@ export const LuxuryAvatarSection = ({ profile, fortuneCount, onLevelUp, onOpenPr
           />
         </div>
         )}
+
+      {/* Challenge Badges (most recent) */}
+      {badges.length > 0 && (
+        <div className="absolute top-3 left-3 flex gap-1 pointer-events-none">
+          {badges.slice(0, 3).map((challenge) => (
+            <span
+              key={challenge.id}
+              title={challenge.title}
+              className="w-9 h-9 rounded-full bg-black/40 border border-gold/50 flex items-center justify-center text-lg drop-shadow-lg"
+            >
+              {challenge.icon}
+            </span>
+          ))}
+          {badges.length > 3 && (
+            <span className="h-9 px-2 rounded-full bg-black/40 border border-gold/50 flex items-center text-xs text-gold font-semibold">
+              +{badges.length - 3}
+            </span>
+          )}
+        </div>
+      )}
       </div>
 
       <KnowMyselfModal 
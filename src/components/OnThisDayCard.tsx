@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarHeart, CaretDown, CaretUp, X } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { FortunePhoto } from '@/components/FortunePhoto';
+import { useFortuneMemories } from '@/hooks/useFortuneMemories';
+import { useSettings } from '@/contexts/SettingsContext';
+import { formatMoney } from '@/lib/currency';
+import type { FortuneMemory } from '@/lib/fortunes';
+
+const memoryGroupLabel = (memory: FortuneMemory) => {
+  if (memory.memory_kind === 'week') return 'One week ago';
+  if (memory.memory_kind === 'month') return 'One month ago';
+  return memory.years_ago === 1 ? 'One year ago' : `${memory.years_ago} years ago`;
+};
+
+export const OnThisDayCard = () => {
+  const { memories, loading, seen, dismissed, markSeen, dismiss } = useFortuneMemories();
+  const { currency } = useSettings();
+  // Expanded on the first showing of the day, collapsed on later visits
+  const [expanded, setExpanded] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (loading || dismissed || memories.length === 0 || expanded !== null) return;
+    setExpanded(!seen);
+    if (!seen) markSeen();
+  }, [loading, dismissed, memories.length, seen, expanded, markSeen]);
+
+  const groups = useMemo(() => {
+    const byLabel = new Map<string, FortuneMemory[]>();
+    for (const memory of memories) {
+      const label = memoryGroupLabel(memory);
+      byLabel.set(label, [...(byLabel.get(label) ?? []), memory]);
+    }
+    return Array.from(byLabel.entries());
+  }, [memories]);
+
+  if (loading || dismissed || memories.length === 0) return null;
+
+  return (
+    <div className="luxury-card p-4">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => setExpanded(prev => !prev)}
+          className="flex flex-1 items-center gap-2 text-left"
+        >
+          <CalendarHeart size={20} className="text-gold" />
+          <div className="flex-1">
+            <h3 className="font-heading font-medium">On This Day</h3>
+            <p className="text-xs text-muted-foreground">
+              {memories.length} {memories.length === 1 ? 'memory' : 'memories'} from past fortunes
+            </p>
+          </div>
+          {expanded ? <CaretUp size={16} /> : <CaretDown size={16} />}
+        </button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={dismiss}
+          className="h-8 w-8 p-0"
+          aria-label="Dismiss memories for today"
+        >
+          <X size={16} />
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          {groups.map(([label, items]) => (
+            <div key={label} className="space-y-2">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+              {items.map((memory) => (
+                <div key={memory.id} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-2">
+                  <p className="text-sm leading-relaxed">{memory.text}</p>
+                  {memory.photo_count > 0 && (
+                    <FortunePhoto fortuneId={memory.id} className="w-full max-w-xs rounded-md" />
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>{format(new Date(memory.created_at), 'MMM d, yyyy')}</span>
+                    <span>·</span>
+                    <span>{memory.category}</span>
+                    {memory.fortune_value ? (
+                      <>
+                        <span>·</span>
+                        <span className="text-gold">{formatMoney(memory.fortune_value, memory.currency || currency)}</span>
+                      </>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
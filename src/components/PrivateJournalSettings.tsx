@@ -0,0 +1,309 @@
+import { useState } from 'react';
+import { LockSimple, LockSimpleOpen, Warning } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/auth/AuthProvider';
+import { useJournal } from '@/hooks/useJournal';
+import {
+  JOURNAL_MIN_PASSPHRASE_LENGTH,
+  changeJournalPassphrase,
+  disableJournal,
+  enableJournal,
+  lockJournal,
+  unlockJournal,
+} from '@/lib/journalCrypto';
+import { reencryptJournalEntries, type ReencryptMode, type ReencryptProgress } from '@/lib/journalReencrypt';
+
+const RecoveryWarning = () => (
+  <div className="flex gap-2 rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm">
+    <Warning size={18} className="text-destructive shrink-0 mt-0.5" />
+    <div className="space-y-1">
+      <p className="font-medium text-destructive">There is no way to recover your passphrase.</p>
+      <p className="text-muted-foreground">
+        Your fortune texts and lifestyle notes are encrypted on this device before they are saved. We never see the
+        passphrase, so if you forget it, your private entries are lost for good – support can't help.
+      </p>
+      <p className="text-muted-foreground">
+        Search, reports and AI insights can't read private entries, and version history of existing entries is cleared.
+      </p>
+    </div>
+  </div>
+);
+
+/**
+ * Settings for the end-to-end encrypted private journal: set up, unlock/lock, passphrase change and turning it off
+ */
+export const PrivateJournalSettings = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { status, loading } = useJournal();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [showSetup, setShowSetup] = useState(false);
+  const [showChange, setShowChange] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<ReencryptProgress | null>(null);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setNewPassphrase('');
+    setAcknowledged(false);
+  };
+
+  const fail = (title: string, error: unknown) => {
+    console.error(`[JOURNAL] ${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: 'destructive',
+    });
+  };
+
+  const validateNew = (value: string): boolean => {
+    if (value.length < JOURNAL_MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: 'Passphrase too short',
+        description: `Use at least ${JOURNAL_MIN_PASSPHRASE_LENGTH} characters.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+    if (value !== confirmPassphrase) {
+      toast({ title: "Passphrases don't match", variant: 'destructive' });
+      return false;
+    }
+    return true;
+  };
+
+  const reencrypt = async (mode: ReencryptMode) => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      return await reencryptJournalEntries(mode, setProgress);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleEnable = async () => {
+    if (!user || !validateNew(passphrase)) return;
+    setBusy(true);
+    try {
+      await enableJournal(user.id, passphrase);
+      resetForm();
+      setShowSetup(false);
+      const { total } = await reencrypt('seal');
+      toast({ title: 'Private journal on', description: `${total} existing entries encrypted.` });
+    } catch (error) {
+      fail("Couldn't finish setting up the private journal", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!user) return;
+    setBusy(true);
+    try {
+      await unlockJournal(user.id, passphrase);
+      resetForm();
+    } catch (error) {
+      fail("Couldn't unlock", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChangePassphrase = async () => {
+    if (!user || !validateNew(newPassphrase)) return;
+    setBusy(true);
+    try {
+      await changeJournalPassphrase(user.id, passphrase, newPassphrase);
+      resetForm();
+      setShowChange(false);
+      toast({ title: 'Passphrase changed' });
+    } catch (error) {
+      fail("Couldn't change the passphrase", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEncryptRemaining = async () => {
+    setBusy(true);
+    try {
+      const { total } = await reencrypt('seal');
+      toast({ title: total > 0 ? `${total} entries encrypted` : 'All entries are already encrypted' });
+    } catch (error) {
+      fail("Couldn't encrypt entries", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!user) return;
+    setBusy(true);
+    try {
+      await reencrypt('open');
+      await disableJournal(user.id);
+      toast({ title: 'Private journal off', description: 'Your entries are stored with standard encryption again.' });
+    } catch (error) {
+      fail("Couldn't turn off the private journal", error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading && status === 'off') {
+    return <p className="text-sm text-muted-foreground">Loading…</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {progress && (
+        <p className="text-sm text-muted-foreground">
+          Re-encrypting entries… {progress.done}/{progress.total}
+        </p>
+      )}
+
+      {status === 'off' && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Encrypt fortune texts and lifestyle notes with a passphrase only you know.
+          </p>
+          {!showSetup ? (
+            <Button variant="outline" onClick={() => setShowSetup(true)} className="w-full justify-start">
+              <LockSimple size={18} className="mr-2" />
+              Set Up Private Journal
+            </Button>
+          ) : (
+            <div className="space-y-3">
+              <RecoveryWarning />
+              <Input
+                type="password"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Input
+                type="password"
+                placeholder="Repeat passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <label className="flex items-center justify-between gap-3 text-sm">
+                <span>I understand my private entries can't be recovered without this passphrase</span>
+                <Switch checked={acknowledged} onCheckedChange={setAcknowledged} />
+              </label>
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={() => { resetForm(); setShowSetup(false); }} disabled={busy} className="flex-1">
+                  Cancel
+                </Button>
+                <Button onClick={handleEnable} disabled={busy || !acknowledged || !passphrase} className="flex-1">
+                  {busy ? 'Encrypting…' : 'Turn On'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {status === 'locked' && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">Your private journal is locked. Unlock it to read and add entries.</p>
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+            autoComplete="current-password"
+          />
+          <Button onClick={handleUnlock} disabled={busy || !passphrase} className="w-full">
+            <LockSimpleOpen size={18} className="mr-2" />
+            {busy ? 'Unlocking…' : 'Unlock'}
+          </Button>
+        </div>
+      )}
+
+      {status === 'unlocked' && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Private journal is on and unlocked on this device.</p>
+          <Button variant="outline" onClick={lockJournal} disabled={busy} className="w-full justify-start">
+            <LockSimple size={18} className="mr-2" />
+            Lock Now
+          </Button>
+
+          <Button variant="outline" onClick={() => setShowChange((prev) => !prev)} disabled={busy} className="w-full justify-start">
+            {showChange ? 'Cancel Passphrase Change' : 'Change Passphrase'}
+          </Button>
+          {showChange && (
+            <div className="space-y-2">
+              <Input
+                type="password"
+                placeholder="Current passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+              <Input
+                type="password"
+                placeholder="New passphrase"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Input
+                type="password"
+                placeholder="Repeat new passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-muted-foreground">
+                The old passphrase stops working everywhere. There is still no way to recover the new one.
+              </p>
+              <Button onClick={handleChangePassphrase} disabled={busy || !passphrase || !newPassphrase} className="w-full">
+                {busy ? 'Saving…' : 'Save New Passphrase'}
+              </Button>
+            </div>
+          )}
+
+          <Button variant="outline" onClick={handleEncryptRemaining} disabled={busy} className="w-full justify-start">
+            Encrypt Remaining Entries
+          </Button>
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={busy} className="w-full justify-start text-destructive hover:text-destructive">
+                Turn Off Private Journal
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Turn off private journal?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your entries are decrypted on this device and saved with standard server-side encryption again.
+                  Entries that can't be decrypted with your key stay unreadable.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDisable}>Turn Off</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+
+interface ProfileAvatarProps {
+  url: string | null | undefined;
+  name: string | null | undefined;
+  className?: string;
+}
+
+/**
+ * A user's displayed avatar (profiles.avatar_url) as a small round image, with their initial as fallback
+ */
+export const ProfileAvatar = ({ url, name, className }: ProfileAvatarProps) => (
+  <Avatar className={cn('h-8 w-8 border border-gold/40', className)}>
+    {url && <AvatarImage src={url} alt={name ?? 'Avatar'} className="object-cover" />}
+    <AvatarFallback className="bg-gradient-to-br from-emerald to-gold text-ivory text-xs font-semibold">
+      {(name?.trim()[0] ?? '?').toUpperCase()}
+    </AvatarFallback>
+  </Avatar>
+);
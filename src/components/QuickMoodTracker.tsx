@@ -7,6 +7,8 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/auth/AuthProvider';
 import confetti from 'canvas-confetti';
 import { format } from 'date-fns';
+import { emitAppEvent } from '@/lib/appEvents';
+import { useAppEvent } from '@/hooks/useAppEvent';
 import '@/types/gtag.d';
 
 interface QuickMoodTrackerProps {
@@ -68,14 +70,7 @@ export const QuickMoodTracker = ({ className = '' }: QuickMoodTrackerProps) => {
   }, [user, loadTodayMood]);
 
   // Listen for lifestyle data updates from other components
-  useEffect(() => {
-    const handleLifestyleUpdate = () => {
-      loadTodayMood();
-    };
-
-    window.addEventListener('lifestyleDataUpdated', handleLifestyleUpdate);
-    return () => window.removeEventListener('lifestyleDataUpdated', handleLifestyleUpdate);
-  }, [user, loadTodayMood]);
+  useAppEvent('lifestyleDataUpdated', loadTodayMood);
 
   const handleMoodSelect = async (mood: 'good' | 'bad') => {
     if (loading || mood === selectedMood) return;
@@ -114,7 +109,7 @@ export const QuickMoodTracker = ({ className = '' }: QuickMoodTrackerProps) => {
       }
 
       // Emit event to sync with other components
-      window.dispatchEvent(new CustomEvent('lifestyleDataUpdated'));
+      emitAppEvent('lifestyleDataUpdated');
 
       // Analytics
       if (typeof window !== 'undefined' && window.gtag) {
@@ -212,7 +207,7 @@ export const QuickMoodTracker = ({ className = '' }: QuickMoodTrackerProps) => {
       if (upsertError) throw upsertError;
 
       // Emit event to sync with other components
-      window.dispatchEvent(new CustomEvent('lifestyleDataUpdated'));
+      emitAppEvent('lifestyleDataUpdated');
 
       toast({
         title: 'Mood undone',
@@ -0,0 +1,89 @@
+import { useMemo, useState } from 'react';
+import { format, isToday, parseISO } from 'date-fns';
+import { Repeat } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { FortuneModal } from '@/components/FortuneModal';
+import { useAuth } from '@/auth/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { useFortuneTemplates } from '@/hooks/useFortuneTemplates';
+import { describeRecurrence, getDueTemplates, markTemplateHandled, type DueTemplate } from '@/lib/fortuneTemplates';
+
+/**
+ * Asks the user to confirm fortunes from recurring templates. Nothing is added automatically:
+ * "Add" opens the pre-filled modal for the occurrence date, "Skip" dismisses that occurrence.
+ */
+export const RecurringTemplatesCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { templates, loading } = useFortuneTemplates();
+  const [confirming, setConfirming] = useState<DueTemplate | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const due = useMemo(() => getDueTemplates(templates), [templates]);
+
+  const markHandled = async ({ template, occurrence }: DueTemplate) => {
+    if (!user) return;
+    setBusyId(template.id);
+    try {
+      await markTemplateHandled(user.id, template.id, occurrence);
+    } catch (error) {
+      console.error('[TEMPLATES] Failed to mark occurrence handled:', error);
+      toast({ title: "Couldn't update the template", description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading || (due.length === 0 && !confirming)) return null;
+
+  return (
+    <>
+      {due.length > 0 && (
+        <div className="luxury-card p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Repeat size={20} className="text-gold" />
+            <div>
+              <h3 className="font-heading font-medium">Recurring Fortunes</h3>
+              <p className="text-xs text-muted-foreground">Confirm to add them to your journal</p>
+            </div>
+          </div>
+          {due.map((item) => {
+            const date = parseISO(item.occurrence);
+            return (
+              <div
+                key={item.template.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border/50 bg-muted/20"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{item.template.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeRecurrence(item.template)} · {isToday(date) ? 'Today' : format(date, 'MMM d')}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="ghost" size="sm" disabled={busyId === item.template.id} onClick={() => markHandled(item)}>
+                    Skip
+                  </Button>
+                  <Button size="sm" disabled={busyId === item.template.id} onClick={() => setConfirming(item)}>
+                    Add
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <FortuneModal
+        isOpen={confirming !== null}
+        onClose={() => setConfirming(null)}
+        onFortuneAdded={() => {
+          if (confirming) markHandled(confirming);
+        }}
+        selectedDate={confirming ? parseISO(confirming.occurrence) : null}
+        template={confirming?.template ?? null}
+        mode="create"
+      />
+    </>
+  );
+};
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { ShareNetwork } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Fortune } from '@/types/fortune';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppState } from '@/contexts/AppStateContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { supabase } from '@/integrations/supabase/client';
+import { listFortunePhotos } from '@/lib/edge-functions';
+import {
+  SHARE_CARD_TEMPLATES,
+  getShareCategoryColor,
+  renderShareCard,
+  shareImage,
+  type ShareCardTemplateId,
+} from '@/lib/shareCard';
+import { cn } from '@/lib/utils';
+
+interface ShareFortuneDialogProps {
+  fortune: Fortune | null;
+  // Impact badge as shown in the list (label and color), null for fortunes without one
+  impact: { label: string; hex: string } | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const ShareFortuneDialog = ({ fortune, impact, isOpen, onClose }: ShareFortuneDialogProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { profile } = useAppState();
+  const { currency } = useSettings();
+
+  const [template, setTemplate] = useState<ShareCardTemplateId>('midnight');
+  const [redactValue, setRedactValue] = useState(false);
+  const [includePhoto, setIncludePhoto] = useState(true);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [categoryColors, setCategoryColors] = useState<Record<string, string>>({});
+  const [image, setImage] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  // First photo and the user's category colors, once per opened fortune
+  useEffect(() => {
+    if (!isOpen || !fortune) return;
+    let cancelled = false;
+    setPhotoUrl(null);
+
+    (async () => {
+      const [photos, categories] = await Promise.all([
+        fortune.pending_sync ? Promise.resolve(null) : listFortunePhotos(fortune.id),
+        user
+          ? supabase.from('custom_categories').select('name, color').eq('user_id', user.id)
+          : Promise.resolve(null),
+      ]);
+      if (cancelled) return;
+      setPhotoUrl(photos?.data?.photos.find((photo) => photo.signedUrl)?.signedUrl ?? null);
+      setCategoryColors(
+        Object.fromEntries((categories?.data ?? []).map((category) => [category.name, category.color]))
+      );
+    })().catch((error) => console.error('[SHARE] Error loading card assets:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, fortune, user]);
+
+  useEffect(() => {
+    if (!isOpen || !fortune) return;
+    let cancelled = false;
+    setRendering(true);
+
+    renderShareCard(
+      {
+        text: fortune.text,
+        category: fortune.category,
+        categoryColor: getShareCategoryColor(fortune.category, categoryColors),
+        impactLabel: impact?.label ?? null,
+        impactColor: impact?.hex ?? null,
+        fortuneValue: fortune.fortune_value ?? null,
+        currency: fortune.currency || currency,
+        createdAt: fortune.created_at,
+        photoUrl: includePhoto ? photoUrl : null,
+        avatarUrl: profile?.avatar_url ?? null,
+        level: profile?.level ?? null,
+      },
+      { template, redactValue }
+    )
+      .then((blob) => {
+        if (cancelled) return;
+        setImage(blob);
+        setPreviewUrl(URL.createObjectURL(blob));
+      })
+      .catch((error) => {
+        console.error('[SHARE] Error rendering card:', error);
+        if (!cancelled) setImage(null);
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, fortune, impact, template, redactValue, includePhoto, photoUrl, categoryColors, currency, profile?.avatar_url, profile?.level]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleShare = async () => {
+    if (!image || !fortune) return;
+    setSharing(true);
+    try {
+      const result = await shareImage(image, `fortune-${fortune.id.slice(0, 8)}.png`, 'My fortune');
+      if (result === 'downloaded') {
+        toast({ title: 'Image saved', description: 'Your fortune card was downloaded.' });
+      }
+      if (result !== 'cancelled') onClose();
+    } catch (error) {
+      console.error('[SHARE] Error sharing card:', error);
+      toast({
+        title: "Couldn't share",
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const hasValue = !!fortune?.fortune_value && fortune.fortune_value > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share Fortune</DialogTitle>
+          <DialogDescription>Celebrate this win with a card you can post anywhere.</DialogDescription>
+        </DialogHeader>
+
+        <div className="aspect-[4/5] w-full rounded-lg overflow-hidden bg-muted/30 flex items-center justify-center">
+          {previewUrl ? (
+            <img
+              src={previewUrl}
+              alt="Fortune card preview"
+              className={cn('w-full h-full object-contain transition-opacity', rendering && 'opacity-50')}
+            />
+          ) : (
+            <span className="text-xs text-muted-foreground">Rendering…</span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {SHARE_CARD_TEMPLATES.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setTemplate(option.id)}
+              className={cn(
+                'rounded-md border-2 p-2 text-xs font-medium',
+                template === option.id ? 'border-gold' : 'border-border/50'
+              )}
+              style={{ background: `linear-gradient(135deg, ${option.background[0]}, ${option.background[1]})`, color: option.text }}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {hasValue && (
+            <label className="flex items-center justify-between text-sm">
+              <span>Hide amount</span>
+              <Switch checked={redactValue} onCheckedChange={setRedactValue} />
+            </label>
+          )}
+          {photoUrl && (
+            <label className="flex items-center justify-between text-sm">
+              <span>Include photo</span>
+              <Switch checked={includePhoto} onCheckedChange={setIncludePhoto} />
+            </label>
+          )}
+        </div>
+
+        <Button onClick={handleShare} disabled={!image || rendering || sharing} className="w-full">
+          <ShareNetwork size={16} className="mr-2" />
+          {sharing ? 'Sharing…' : 'Share'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
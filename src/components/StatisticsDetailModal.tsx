@@ -2,16 +2,16 @@ import React, { useState } from 'react';
 import { X, TrendingUp, Calendar, Target, BarChart3, Filter } from 'lucide-react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Fortune } from '@/types/fortune';
+import { countFortunes, statDate, type FortuneDayStat } from '@/lib/fortuneStats';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay } from 'date-fns';
 
 interface StatisticsDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
-  fortunes: Fortune[];
+  stats: FortuneDayStat[];
 }
 
-export const StatisticsDetailModal = ({ isOpen, onClose, fortunes }: StatisticsDetailModalProps) => {
+export const StatisticsDetailModal = ({ isOpen, onClose, stats: fortunes }: StatisticsDetailModalProps) => {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [timeFilter, setTimeFilter] = useState<'week' | 'month' | 'all'>('month');
 
@@ -26,26 +26,27 @@ export const StatisticsDetailModal = ({ isOpen, onClose, fortunes }: StatisticsD
     
     return daysInterval.map(day => ({
       date: format(day, 'MMM d'),
-      count: fortunes.filter(fortune => 
-        isSameDay(new Date(fortune.created_at), day)
-      ).length
+      count: countFortunes(fortunes.filter(fortune => 
+        isSameDay(statDate(fortune), day)
+      ))
     }));
   };
 
   const getCategoryBreakdown = () => {
     const categories = ['Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other'];
     return categories.map(category => {
-      const categoryFortunes = fortunes.filter(f => f.category === category);
+      const count = countFortunes(fortunes.filter(f => f.category === category));
+      const total = countFortunes(fortunes);
       return {
         category,
-        count: categoryFortunes.length,
-        percentage: fortunes.length > 0 ? ((categoryFortunes.length / fortunes.length) * 100).toFixed(1) : '0'
+        count,
+        percentage: total > 0 ? ((count / total) * 100).toFixed(1) : '0'
       };
     }).filter(item => item.count > 0);
   };
 
   const getStreakData = () => {
-    const dates = fortunes.map(f => new Date(f.created_at).toDateString());
+    const dates = fortunes.map(f => statDate(f).toDateString());
     const uniqueDates = [...new Set(dates)].sort();
     
     let currentStreak = 0;
@@ -139,12 +140,12 @@ export const StatisticsDetailModal = ({ isOpen, onClose, fortunes }: StatisticsD
           {/* Overview Cards */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="text-center p-6 bg-gradient-to-br from-gold/10 via-gold/5 to-emerald/10 rounded-xl border border-gold/30 shadow-lg">
-              <div className="text-3xl font-bold text-gold mb-1">{filteredFortunes.length}</div>
+              <div className="text-3xl font-bold text-gold mb-1">{countFortunes(filteredFortunes)}</div>
               <div className="text-sm text-muted-foreground">Total Fortunes</div>
             </div>
             <div className="text-center p-6 bg-gradient-to-br from-emerald/10 via-emerald/5 to-gold/10 rounded-xl border border-emerald/30 shadow-lg">
               <div className="text-3xl font-bold text-emerald mb-1">
-                {new Set(filteredFortunes.map(f => new Date(f.created_at).toDateString())).size}
+                {new Set(filteredFortunes.map(f => f.day)).size}
               </div>
               <div className="text-sm text-muted-foreground">Active Days</div>
             </div>
@@ -247,7 +248,7 @@ export const StatisticsDetailModal = ({ isOpen, onClose, fortunes }: StatisticsD
           <div className="text-center py-6">
             <div className="inline-block p-6 bg-gradient-to-r from-gold/10 via-emerald/10 to-gold/10 rounded-xl border border-gold/30 shadow-lg">
               <p className="text-lg font-heading font-semibold text-foreground mb-2">
-                {filteredFortunes.length > 0 
+                {countFortunes(filteredFortunes) > 0 
                   ? "You're growing. Keep it up." 
                   : "Your journey begins with a single step."
                 }
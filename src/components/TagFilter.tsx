@@ -0,0 +1,58 @@
+import { X } from '@phosphor-icons/react';
+import { normalizeTag } from '@/lib/tags';
+
+interface TagFilterProps {
+  tags: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  className?: string;
+}
+
+// Toggleable tag chips; a fortune matches when it carries any selected tag
+export const TagFilter = ({ tags, selected, onChange, className = '' }: TagFilterProps) => {
+  if (tags.length === 0) return null;
+
+  const selectedKeys = new Set(selected.map(normalizeTag));
+
+  const toggle = (tag: string) => {
+    const key = normalizeTag(tag);
+    if (selectedKeys.has(key)) {
+      onChange(selected.filter((t) => normalizeTag(t) !== key));
+    } else {
+      onChange([...selected, tag]);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+      {tags.map((tag) => {
+        const isActive = selectedKeys.has(normalizeTag(tag));
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => toggle(tag)}
+            aria-pressed={isActive}
+            className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+              isActive
+                ? 'bg-gold/20 text-gold border-gold/50'
+                : 'border-border/60 text-muted-foreground hover:border-gold/40'
+            }`}
+          >
+            #{tag}
+          </button>
+        );
+      })}
+      {selected.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="inline-flex items-center gap-0.5 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <X size={10} />
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
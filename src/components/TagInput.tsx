@@ -0,0 +1,109 @@
+import { useState, useMemo, KeyboardEvent } from 'react';
+import { X, Hash } from '@phosphor-icons/react';
+import { Input } from '@/components/ui/input';
+import { MAX_TAGS_PER_FORTUNE, MAX_TAG_LENGTH } from '@/lib/security';
+import { normalizeTag } from '@/lib/tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const TagInput = ({ value, onChange, suggestions = [], disabled = false }: TagInputProps) => {
+  const [draft, setDraft] = useState('');
+
+  const selected = useMemo(() => new Set(value.map(normalizeTag)), [value]);
+  const isFull = value.length >= MAX_TAGS_PER_FORTUNE;
+
+  // Autocomplete from previously used tags that aren't already on this fortune
+  const matches = useMemo(() => {
+    const needle = normalizeTag(draft);
+    return suggestions
+      .filter((tag) => !selected.has(normalizeTag(tag)))
+      .filter((tag) => needle.length === 0 || normalizeTag(tag).includes(needle))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [draft, suggestions, selected]);
+
+  const addTag = (raw: string) => {
+    const tag = raw.trim().slice(0, MAX_TAG_LENGTH);
+    setDraft('');
+    if (!tag || isFull || selected.has(normalizeTag(tag))) return;
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Enter must not submit the surrounding fortune form
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 text-xs bg-gold/15 text-gold border border-gold/30 px-2 py-0.5 rounded-full"
+            >
+              #{tag}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="hover:text-foreground"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Hash size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value.replace(',', ''))}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft.trim() && addTag(draft)}
+          placeholder={isFull ? `Up to ${MAX_TAGS_PER_FORTUNE} tags` : 'Add a tag and press Enter'}
+          className="pl-9 focus:border-gold focus:ring-gold/20"
+          maxLength={MAX_TAG_LENGTH}
+          disabled={disabled || isFull}
+        />
+      </div>
+
+      {!disabled && !isFull && matches.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              // Keep focus in the input so onBlur doesn't commit the partial draft first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="text-xs px-2 py-0.5 rounded-full border border-border/60 text-muted-foreground hover:border-gold/50 hover:text-gold transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
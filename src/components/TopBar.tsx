@@ -2,6 +2,9 @@ import { Gear } from '@phosphor-icons/react';
 import { FortuneIcon } from './FortuneIcon';
 import { useTutorial } from '@/contexts/TutorialContext';
 import { NotificationDot } from './NotificationDot';
+import { ProfileAvatar } from './ProfileAvatar';
+import { useAppState } from '@/contexts/AppStateContext';
+import { useAvatarCollection } from '@/hooks/useAvatarCollection';
 
 interface TopBarProps {
   onSettingsClick: () => void;
@@ -9,6 +12,8 @@ interface TopBarProps {
 
 export const TopBar = ({ onSettingsClick }: TopBarProps) => {
   const { isStepCompleted } = useTutorial();
+  const { profile } = useAppState();
+  const { displayed: avatar } = useAvatarCollection();
 
   const handleSettingsClick = () => {
     onSettingsClick();
@@ -33,11 +38,12 @@ export const TopBar = ({ onSettingsClick }: TopBarProps) => {
           console.log('Settings button clicked');
           handleSettingsClick();
         }}
-        className="relative p-3 rounded-lg hover:bg-muted/50 transition-colors border border-transparent hover:border-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50"
+        className="relative flex items-center gap-2 p-2 rounded-lg hover:bg-muted/50 transition-colors border border-transparent hover:border-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50"
         aria-label="Settings"
         type="button"
       >
-        <div className="relative">
+        {avatar && <ProfileAvatar url={avatar.url} name={profile?.display_name} />}
+        <div className="relative p-1">
           <Gear size={24} className="text-foreground hover:text-gold transition-colors" />
           <NotificationDot 
             show={!isStepCompleted('settings')} 
@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { ArrowCounterClockwise, Trash } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAppState } from '@/contexts/AppStateContext';
+import { TRASH_RETENTION_DAYS, getTrashedFortunes, restoreFortune, type TrashedFortune } from '@/lib/fortunes';
+import { emptyTrash, purgeTrashedFortunes, sweepExpiredTrash } from '@/lib/edge-functions';
+import { emitAppEvent } from '@/lib/appEvents';
+
+const daysLeft = (deletedAt: string) =>
+  Math.max(0, TRASH_RETENTION_DAYS - differenceInCalendarDays(new Date(), new Date(deletedAt)));
+
+export const TrashBin = () => {
+  const { toast } = useToast();
+  const { refetch } = useAppState();
+  const [items, setItems] = useState<TrashedFortune[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [emptying, setEmptying] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setItems(await getTrashedFortunes());
+    } catch (error) {
+      console.error('[TRASH] load failed:', error);
+      toast({
+        title: "Couldn't load Trash",
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadTrash();
+    // Expired items are already hidden; this removes them (and their photos) for good
+    sweepExpiredTrash().then(({ error }) => {
+      if (error) console.warn('[TRASH] sweep failed:', error);
+    });
+  }, [loadTrash]);
+
+  const handleRestore = async (id: string) => {
+    setBusyId(id);
+    try {
+      await restoreFortune(id);
+      setItems(prev => prev.filter(item => item.id !== id));
+      emitAppEvent('fortunesUpdated');
+      refetch();
+      toast({ title: 'Fortune restored' });
+    } catch (error) {
+      console.error('[TRASH] restore failed:', error);
+      toast({
+        title: 'Error restoring fortune',
+        description: 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    setBusyId(id);
+    const { error } = await purgeTrashedFortunes([id]);
+    setBusyId(null);
+
+    if (error) {
+      toast({
+        title: 'Error deleting fortune',
+        description: error,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleEmpty = async () => {
+    setEmptying(true);
+    const { data, error } = await emptyTrash();
+    setEmptying(false);
+
+    if (error) {
+      toast({
+        title: "Couldn't empty Trash",
+        description: error,
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({
+      title: 'Trash emptied',
+      description: `${data?.purged ?? 0} fortune${data?.purged === 1 ? '' : 's'} permanently deleted.`,
+    });
+    loadTrash();
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading…</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Deleted fortunes stay here for {TRASH_RETENTION_DAYS} days before they and their photos are removed permanently.
+      </p>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">Trash is empty.</p>
+      ) : (
+        <>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {items.map((item) => {
+              const remaining = daysLeft(item.deleted_at);
+              return (
+                <div key={item.id} className="p-3 rounded-lg border border-border/50 bg-muted/20 space-y-2">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{item.text}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.category} · {format(new Date(item.created_at), 'MMM d, yyyy')} ·{' '}
+                      {remaining === 0 ? 'Expires today' : `${remaining} day${remaining === 1 ? '' : 's'} left`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(item.id)}
+                      disabled={busyId === item.id || emptying}
+                      className="flex-1 h-8 text-xs"
+                    >
+                      <ArrowCounterClockwise size={14} className="mr-1" />
+                      Restore
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busyId === item.id || emptying}
+                          className="flex-1 h-8 text-xs text-destructive hover:text-destructive"
+                        >
+                          <Trash size={14} className="mr-1" />
+                          Delete Forever
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Forever</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This fortune and its photos will be permanently deleted. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handlePurge(item.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={emptying || busyId !== null} className="w-full justify-start text-destructive hover:text-destructive">
+                <Trash size={18} className="mr-2" />
+                {emptying ? 'Emptying…' : `Empty Trash (${items.length})`}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All {items.length} fortune{items.length === 1 ? '' : 's'} in the Trash and their photos will be permanently deleted. This action cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleEmpty}>Empty Trash</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface VirtualizedListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  // Height guess for rows not measured yet; rows are measured once rendered
+  estimateSize?: number;
+  // Vertical space between rows in px
+  gap?: number;
+  // Extra px rendered above and below the viewport
+  overscan?: number;
+  // Scroll with the page instead of an own scroll container (give the container a max height via className otherwise)
+  useWindowScroll?: boolean;
+  className?: string;
+  // Infinite scroll: called when the last rows come into view while hasMore is set
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  footer?: ReactNode;
+}
+
+// Rows from the end at which the next page is requested
+const LOAD_MORE_THRESHOLD = 5;
+
+// Index of the first row whose bottom edge is below `y`
+function findFirstVisible(offsets: number[], sizes: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] + sizes[mid] <= y) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Absolutely positioned row, observed for size while mounted
+function MeasuredRow({
+  rowKey,
+  offset,
+  getObserver,
+  children,
+}: {
+  rowKey: string;
+  offset: number;
+  getObserver: () => ResizeObserver;
+  children: ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = getObserver();
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [getObserver]);
+
+  return (
+    <div
+      ref={ref}
+      data-virtual-key={rowKey}
+      className="absolute left-0 right-0 top-0"
+      style={{ transform: `translateY(${offset}px)` }}
+    >
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Windowed list for long fortune histories: only rows near the viewport are mounted.
+ * Rows can have any height (photos, tags); each is measured after it renders.
+ */
+export function VirtualizedList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateSize = 120,
+  gap = 12,
+  overscan = 600,
+  useWindowScroll = false,
+  className,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  footer,
+}: VirtualizedListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const measuredRef = useRef<Map<string, number>>(new Map());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+
+  const { offsets, sizes, totalHeight } = useMemo(() => {
+    const sizes = items.map((item) => measuredRef.current.get(getKey(item)) ?? estimateSize);
+    const offsets: number[] = [];
+    let y = 0;
+    for (const size of sizes) {
+      offsets.push(y);
+      y += size + gap;
+    }
+    return { offsets, sizes, totalHeight: Math.max(0, y - gap) };
+    // measureVersion bumps whenever a row's measured height changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items, getKey, estimateSize, gap, measureVersion]);
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const next = useWindowScroll
+      ? { top: -container.getBoundingClientRect().top, height: window.innerHeight }
+      : { top: container.scrollTop, height: container.clientHeight || window.innerHeight };
+    setViewport((prev) => (prev.top === next.top && prev.height === next.height ? prev : next));
+  }, [useWindowScroll]);
+
+  useLayoutEffect(() => {
+    updateViewport();
+  }, [updateViewport, totalHeight]);
+
+  useEffect(() => {
+    const target: HTMLElement | Window | null = useWindowScroll ? window : containerRef.current;
+    if (!target) return;
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateViewport);
+    };
+    target.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      target.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+    };
+  }, [useWindowScroll, updateViewport]);
+
+  // One observer for all mounted rows; heights feed back into the offsets.
+  // Created lazily because rows subscribe in their layout effects, before this component's effects run.
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const getObserver = useCallback(() => {
+    if (observerRef.current) return observerRef.current;
+    observerRef.current = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        if (!key) continue;
+        const height = Math.ceil(entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight);
+        if (height > 0 && measuredRef.current.get(key) !== height) {
+          measuredRef.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureVersion((v) => v + 1);
+    });
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  const start = items.length > 0 ? findFirstVisible(offsets, sizes, viewport.top - overscan) : 0;
+  let end = start;
+  while (end < items.length && offsets[end] < viewport.top + viewport.height + overscan) {
+    end++;
+  }
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && onLoadMore && end >= items.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    }
+  }, [end, items.length, hasMore, loadingMore, onLoadMore]);
+
+  return (
+    <div ref={containerRef} className={cn(!useWindowScroll && 'overflow-y-auto', className)}>
+      <div className="relative" style={{ height: totalHeight }}>
+        {items.slice(start, end).map((item, i) => {
+          const index = start + i;
+          const key = getKey(item);
+          return (
+            <MeasuredRow key={key} rowKey={key} offset={offsets[index]} getObserver={getObserver}>
+              {renderItem(item, index)}
+            </MeasuredRow>
+          );
+        })}
+      </div>
+      {footer}
+      {loadingMore && (
+        <p className="text-xs text-muted-foreground text-center py-3">Loading more…</p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Task, TaskStatus } from '@/types/task';
 import { TaskItem } from './TaskItem';
 import { Plus, ListChecks, Loader2 } from 'lucide-react';
@@ -7,6 +7,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/auth/AuthProvider';
 import { toast } from 'sonner';
 import { haptics } from '@/lib/haptics';
+import { emitAppEvent } from '@/lib/appEvents';
+import { sealJournalText } from '@/lib/journalCrypto';
+import { useAppEvent } from '@/hooks/useAppEvent';
 
 export function TaskBoard() {
   const { user } = useAuth();
@@ -14,28 +17,48 @@ export function TaskBoard() {
   const [loading, setLoading] = useState(true);
 
   // Load tasks from Supabase
-  useEffect(() => {
+  const fetchTasks = useCallback(async () => {
     if (!user) return;
 
-    const fetchTasks = async () => {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .neq('status', 'done')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching tasks:', error);
-        toast.error('Failed to load tasks');
-      } else {
-        setTasks((data || []).map(t => ({ ...t, status: t.status as TaskStatus })));
-      }
-      setLoading(false);
-    };
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .neq('status', 'done')
+      .order('created_at', { ascending: false });
 
-    fetchTasks();
+    if (error) {
+      console.error('Error fetching tasks:', error);
+      toast.error('Failed to load tasks');
+    } else {
+      setTasks((data || []).map(t => ({ ...t, status: t.status as TaskStatus })));
+    }
+    setLoading(false);
   }, [user]);
 
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  // Merge task changes made on other devices (see useRealtimeSync)
+  useAppEvent('tasksChanged', (detail) => {
+    if (!detail) {
+      fetchTasks();
+      return;
+    }
+
+    const { eventType, task } = detail;
+    setTasks((prev) => {
+      const rest = prev.filter((t) => t.id !== task.id);
+      // The board only shows open tasks
+      if (eventType === 'DELETE' || task.status === 'done') return rest;
+      const existing = prev.find((t) => t.id === task.id);
+      if (existing) {
+        return prev.map((t) => (t.id === task.id ? { ...existing, ...task } : t));
+      }
+      return [task, ...rest];
+    });
+  });
+
   const handleAddTask = async () => {
     if (!user) return;
 
@@ -96,7 +119,7 @@ export function TaskBoard() {
       try {
         // Create fortune with "Tasks" category
         const { error: fortuneError } = await supabase.rpc('fortune_add', {
-          p_text: task.title,
+          p_text: await sealJournalText(task.title),
           p_category: 'Tasks',
           p_level: 1,
           p_impact_level: 'small_step',
@@ -124,7 +147,7 @@ export function TaskBoard() {
         toast.success('Task completed and added to Fortunes!');
         
         // Trigger fortune list refresh
-        window.dispatchEvent(new Event("fortunesUpdated"));
+        emitAppEvent('fortunesUpdated');
         return;
       } catch (err) {
         console.error('Error completing task:', err);
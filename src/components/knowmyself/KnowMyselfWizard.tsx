@@ -3,6 +3,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { listLifestyleEntries, upsertLifestyleEntry } from '@/lib/edge-functions';
+import { emitAppEvent } from '@/lib/appEvents';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/auth/AuthProvider';
 import { Card } from '@/components/ui/card';
@@ -323,7 +324,7 @@ export const KnowMyselfWizard = ({ selectedDate, onClose }: KnowMyselfWizardProp
       void upsertData;
 
       // Emit event to sync with other components
-      window.dispatchEvent(new CustomEvent('lifestyleDataUpdated'));
+      emitAppEvent('lifestyleDataUpdated');
 
       // Track daily action for streak
       try {
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { evaluateAchievements } from '@/lib/achievements';
+import { getDisplayCurrency, storeDisplayCurrency } from '@/lib/currency';
 
 interface SettingsContextType {
   soundEnabled: boolean;
@@ -33,10 +35,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     return saved ? JSON.parse(saved) : true;
   });
 
-  const [currency, setCurrencyState] = useState(() => {
-    const saved = localStorage.getItem('settings.currency');
-    return saved || 'USD';
-  });
+  const [currency, setCurrencyState] = useState(getDisplayCurrency);
 
   const setSoundEnabled = (enabled: boolean) => {
     setSoundEnabledState(enabled);
@@ -55,7 +54,9 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
 
   const setCurrency = (currency: string) => {
     setCurrencyState(currency);
-    localStorage.setItem('settings.currency', currency);
+    storeDisplayCurrency(currency);
+    // Value achievements read fortunes saved without a currency in the display currency
+    evaluateAchievements().catch((error) => console.warn('[SETTINGS] Achievement evaluation failed:', error));
   };
 
   return (
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, ReactNode, useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { evaluateAchievements } from '@/lib/achievements';
 
 export type TutorialStep = 
   | 'home' 
@@ -107,6 +108,8 @@ export const TutorialProvider: React.FC<TutorialProviderProps> = ({ children })
             await supabase.auth.updateUser({
               data: { tutorials_seen: { ...current, [step]: true } },
             });
+            // Tutorial Master is evaluated from this metadata
+            await evaluateAchievements();
           }
         } catch (e) {
           console.warn('Tutorial progress remote sync failed:', e);
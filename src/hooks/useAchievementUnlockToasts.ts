@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useAchievements } from '@/hooks/useAchievements';
+import { haptics } from '@/lib/haptics';
+
+/**
+ * Announces achievements the server unlocks while the app is open (on this or another device).
+ * Unlocks already recorded when the app starts are not announced again.
+ */
+export const useAchievementUnlockToasts = () => {
+  const { achievements, loading } = useAchievements();
+  const { toast } = useToast();
+  // null until the first load, so the initial state isn't treated as new unlocks
+  const knownUnlocksRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (loading) return;
+    const unlocked = achievements.filter((achievement) => achievement.unlockedAt);
+    const known = knownUnlocksRef.current;
+    knownUnlocksRef.current = new Set(unlocked.map((achievement) => achievement.id));
+    if (!known) return;
+
+    const fresh = unlocked.filter((achievement) => !known.has(achievement.id));
+    if (fresh.length === 0) return;
+
+    haptics.success();
+    for (const achievement of fresh) {
+      toast({
+        title: `${achievement.icon} Achievement unlocked!`,
+        description: `${achievement.title} – ${achievement.description}`,
+      });
+    }
+  }, [achievements, loading, toast]);
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { ensureAchievementsEvaluated, listAchievements } from '@/lib/achievements';
+import type { Achievement } from '@/types/fortune';
+
+/**
+ * Persisted achievements, refetched when the server may have recorded new progress
+ */
+export const useAchievements = () => {
+  const { user } = useAuth();
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setAchievements(await listAchievements());
+    } catch (error) {
+      console.error('[ACHIEVEMENTS] Error loading achievements:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    ensureAchievementsEvaluated().then(refresh);
+  }, [user, refresh]);
+
+  // Evaluation runs in the same transaction as the change, so a refetch sees it
+  useAppEvent('fortunesUpdated', refresh);
+  useAppEvent('lifestyleDataUpdated', refresh);
+  useAppEvent('achievementsChanged', refresh);
+
+  return { achievements, loading, refresh };
+};
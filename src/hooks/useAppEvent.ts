@@ -0,0 +1,16 @@
+import { useEffect, useRef } from 'react';
+import { onAppEvent, type AppEventHandler, type AppEventName } from '@/lib/appEvents';
+
+/**
+ * Subscribes to an app event for the component's lifetime.
+ * The latest handler is always called, so it doesn't need to be memoized.
+ */
+export const useAppEvent = <K extends AppEventName>(name: K, handler: AppEventHandler<K>, enabled = true) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return onAppEvent(name, (payload) => handlerRef.current(payload));
+  }, [name, enabled]);
+};
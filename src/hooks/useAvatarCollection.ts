@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { ensureAchievementsEvaluated } from '@/lib/achievements';
+import { listAvatarCollection, type CollectionAvatar } from '@/lib/avatars';
+
+// Shared by every mounted hook (top bar, settings, avatar section, collection modal), so a change
+// costs one avatars_collection request and all of them show its result
+let cachedUserId: string | null = null;
+let cachedAvatars: CollectionAvatar[] | null = null;
+let pendingFetch: Promise<CollectionAvatar[]> | null = null;
+const listeners = new Set<(avatars: CollectionAvatar[]) => void>();
+
+function fetchCollection(userId: string): Promise<CollectionAvatar[]> {
+  // Hooks refreshing for the same event join the request already on its way
+  if (pendingFetch && cachedUserId === userId) return pendingFetch;
+
+  if (cachedUserId !== userId) {
+    cachedUserId = userId;
+    cachedAvatars = null;
+  }
+
+  const request = listAvatarCollection()
+    .then((avatars) => {
+      if (cachedUserId === userId) {
+        cachedAvatars = avatars;
+        listeners.forEach((listener) => listener(avatars));
+      }
+      return avatars;
+    })
+    .finally(() => {
+      if (pendingFetch === request) pendingFetch = null;
+    });
+
+  pendingFetch = request;
+  return request;
+}
+
+const cachedFor = (userId: string | undefined) =>
+  userId && cachedUserId === userId ? cachedAvatars : null;
+
+/**
+ * The avatar collection and the avatar the user currently shows, refetched when unlocks or the pick change
+ */
+export const useAvatarCollection = () => {
+  const { user } = useAuth();
+  const [avatars, setAvatars] = useState<CollectionAvatar[]>(() => cachedFor(user?.id) ?? []);
+  const [loading, setLoading] = useState(() => cachedFor(user?.id) === null);
+
+  useEffect(() => {
+    listeners.add(setAvatars);
+    return () => {
+      listeners.delete(setAvatars);
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      await fetchCollection(user.id);
+    } catch (error) {
+      console.error('[AVATARS] Error loading avatar collection:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    const cached = cachedFor(user.id);
+    if (cached) {
+      setAvatars(cached);
+      setLoading(false);
+      return;
+    }
+    // The session's evaluation also brings the displayed avatar up to date
+    ensureAchievementsEvaluated().then(refresh);
+  }, [user, refresh]);
+
+  useAppEvent('levelChanged', refresh);
+  useAppEvent('achievementsChanged', refresh);
+  useAppEvent('avatarChanged', refresh);
+
+  const displayed = useMemo(() => avatars.find((avatar) => avatar.displayed) ?? null, [avatars]);
+
+  return { avatars, displayed, loading, refresh };
+};
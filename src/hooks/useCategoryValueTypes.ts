@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { listCustomCategories } from '@/lib/categories';
+import { buildValueTypeMap, type CategoryValueType } from '@/lib/valueUnits';
+
+/**
+ * Value unit and range of each custom category by lowercased name (see getCategoryValueType)
+ */
+export const useCategoryValueTypes = () => {
+  const { user } = useAuth();
+  const [types, setTypes] = useState<Map<string, CategoryValueType>>(() => new Map());
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setTypes(buildValueTypeMap(await listCustomCategories(user.id)));
+    } catch (error) {
+      console.error('[CATEGORIES] Error loading category units:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useAppEvent('categoriesChanged', refresh);
+
+  return types;
+};
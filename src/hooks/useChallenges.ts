@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { ensureAchievementsEvaluated } from '@/lib/achievements';
+import { listChallenges } from '@/lib/challenges';
+import type { Challenge } from '@/types/fortune';
+
+/**
+ * Challenges with the user's progress, refetched when the server may have recorded new progress
+ */
+export const useChallenges = () => {
+  const { user } = useAuth();
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setChallenges(await listChallenges());
+    } catch (error) {
+      console.error('[CHALLENGES] Error loading challenges:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    // The session's achievement evaluation also brings running challenges up to date
+    ensureAchievementsEvaluated().then(refresh);
+  }, [user, refresh]);
+
+  useAppEvent('fortunesUpdated', refresh);
+  useAppEvent('lifestyleDataUpdated', refresh);
+  useAppEvent('achievementsChanged', refresh);
+  useAppEvent('challengesChanged', refresh);
+
+  return { challenges, loading, refresh };
+};
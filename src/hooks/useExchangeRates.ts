@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { getExchangeRates, type ExchangeRates } from '@/lib/currency';
+import { useAppEvent } from '@/hooks/useAppEvent';
+
+/**
+ * The user's exchange-rate table (only the USD base until it loads)
+ */
+export const useExchangeRates = () => {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<ExchangeRates>({ USD: 1 });
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setRates(await getExchangeRates(user.id));
+    } catch (error) {
+      console.error('[RATES] Error loading exchange rates:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useAppEvent('exchangeRatesChanged', refresh);
+
+  return rates;
+};
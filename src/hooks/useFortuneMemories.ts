@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { getFortuneMemories, type FortuneMemory } from '@/lib/fortunes';
+
+const MEMORIES_STORAGE_KEY = 'memories.state';
+
+// Per-day card state: `seen` collapses the card after its first showing, `dismissed` hides it until tomorrow
+interface MemoriesDayState {
+  userId: string;
+  date: string;
+  seen: boolean;
+  dismissed: boolean;
+}
+
+const todayKey = () => format(new Date(), 'yyyy-MM-dd');
+
+function readDayState(userId: string): MemoriesDayState {
+  const fresh = { userId, date: todayKey(), seen: false, dismissed: false };
+  try {
+    const saved = localStorage.getItem(MEMORIES_STORAGE_KEY);
+    if (!saved) return fresh;
+    const parsed = JSON.parse(saved) as MemoriesDayState;
+    return parsed.userId === userId && parsed.date === fresh.date ? { ...fresh, ...parsed } : fresh;
+  } catch {
+    return fresh;
+  }
+}
+
+function writeDayState(state: MemoriesDayState) {
+  try {
+    localStorage.setItem(MEMORIES_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('[MEMORIES] Error saving card state:', error);
+  }
+}
+
+/**
+ * "On this day" memories for the home tab, with the per-day seen/dismissed state
+ */
+export const useFortuneMemories = () => {
+  const { user } = useAuth();
+  const [memories, setMemories] = useState<FortuneMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dayState, setDayState] = useState<MemoriesDayState | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setDayState(readDayState(user.id));
+    try {
+      setMemories(await getFortuneMemories());
+    } catch (error) {
+      console.error('[MEMORIES] Error loading memories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useAppEvent('fortunesUpdated', refresh);
+
+  const updateDayState = useCallback((changes: Partial<Pick<MemoriesDayState, 'seen' | 'dismissed'>>) => {
+    if (!user) return;
+    // Re-read so a card left open past midnight doesn't carry yesterday's state over
+    const next = { ...readDayState(user.id), ...changes };
+    writeDayState(next);
+    setDayState(next);
+  }, [user]);
+
+  const markSeen = useCallback(() => updateDayState({ seen: true }), [updateDayState]);
+  const dismiss = useCallback(() => updateDayState({ dismissed: true }), [updateDayState]);
+
+  return {
+    memories,
+    loading,
+    seen: dayState?.seen ?? false,
+    dismissed: dayState?.dismissed ?? false,
+    markSeen,
+    dismiss,
+  };
+};
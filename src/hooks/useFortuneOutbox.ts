@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { Fortune } from '@/types/fortune';
+import { getFailedOutboxOps, getPendingFortunes, type FailedOutboxOp } from '@/lib/fortunes';
+import { getOutboxOps } from '@/lib/offlineOutbox';
+import { useAppEvent } from '@/hooks/useAppEvent';
+
+/**
+ * Live view of the offline outbox: fortunes created offline (not yet on the server)
+ * ids of existing fortunes with queued edits/deletes, and the ops the server rejected on replay.
+ */
+export const useFortuneOutbox = () => {
+  const { user } = useAuth();
+  const [pendingFortunes, setPendingFortunes] = useState<Fortune[]>([]);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<Set<string>>(new Set());
+  const [failedOps, setFailedOps] = useState<FailedOutboxOp[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [ops, created, failed] = await Promise.all([
+        getOutboxOps(user.id),
+        getPendingFortunes(user.id),
+        getFailedOutboxOps(user.id),
+      ]);
+      setPendingFortunes(created);
+      setFailedOps(failed);
+      setPendingIds(new Set(ops.map((op) => op.fortuneId)));
+      setPendingDeleteIds(new Set(ops.filter((op) => op.kind === 'delete').map((op) => op.fortuneId)));
+    } catch (error) {
+      console.error('[OUTBOX] Error reading outbox:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useAppEvent('outboxChanged', refresh);
+
+  return { pendingFortunes, pendingIds, pendingDeleteIds, failedOps };
+};
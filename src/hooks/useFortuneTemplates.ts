@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { listFortuneTemplates, type FortuneTemplate } from '@/lib/fortuneTemplates';
+
+/**
+ * The user's fortune templates, kept current across the quick-add strip, FAB menu and Settings
+ */
+export const useFortuneTemplates = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<FortuneTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setTemplates(await listFortuneTemplates(user.id));
+    } catch (error) {
+      console.error('[TEMPLATES] Error loading templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useAppEvent('templatesChanged', refresh);
+  // Template texts follow the private journal's lock state
+  useAppEvent('journalStatusChanged', refresh);
+
+  return { templates, loading, refresh };
+};
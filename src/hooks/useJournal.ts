@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { getJournalStatus, loadJournal, type JournalStatus } from '@/lib/journalCrypto';
+
+/**
+ * Private journal status for the signed-in user ('off' until the key record has loaded)
+ */
+export const useJournal = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<JournalStatus>(getJournalStatus);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+    setLoading(true);
+    loadJournal(user.id)
+      .then(setStatus)
+      .catch((error) => console.error('[JOURNAL] Error loading journal:', error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  useAppEvent('journalStatusChanged', setStatus);
+
+  return { status, loading };
+};
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { User } from '@supabase/supabase-js';
+import { toast } from '@/hooks/use-toast';
+import { replayOutbox } from '@/lib/fortunes';
+
+// Replays fortunes queued offline on sign-in and whenever connectivity returns
+export const useOutboxReplay = (user: User | null) => {
+  useEffect(() => {
+    if (!user) return;
+
+    const flush = async () => {
+      try {
+        const { synced, rejected } = await replayOutbox();
+        if (synced > 0) {
+          toast({
+            title: "Back online",
+            description: `${synced} offline change${synced === 1 ? '' : 's'} synced.`,
+          });
+        }
+        if (rejected > 0) {
+          toast({
+            title: "Some offline changes weren't saved",
+            description: `${rejected} change${rejected === 1 ? ' was' : 's were'} rejected. Retry or discard ${rejected === 1 ? 'it' : 'them'} on the Home tab.`,
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error('[OUTBOX] replay failed:', error);
+      }
+    };
+
+    flush();
+    window.addEventListener('online', flush);
+    return () => {
+      window.removeEventListener('online', flush);
+    };
+  }, [user]);
+};
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { User, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Task } from '@/types/task';
+import { emitAppEvent } from '@/lib/appEvents';
+
+// Bursts (imports, bulk edits on another device) collapse into one refresh
+const FORTUNE_REFRESH_DEBOUNCE_MS = 1000;
+
+/**
+ * Subscribes to Supabase Realtime for the user's fortunes, photos, tasks, lifestyle entries and achievements
+ * and turns remote changes into the same app events local edits use, so every open
+ * session picks up changes made on another device.
+ *
+ * Fortune and lifestyle rows are encrypted, so those events trigger a refetch; task rows are
+ * plain and are merged directly.
+ */
+export const useRealtimeSync = (user: User | null, onFortunesChanged?: () => void) => {
+  const onFortunesChangedRef = useRef(onFortunesChanged);
+  onFortunesChangedRef.current = onFortunesChanged;
+
+  useEffect(() => {
+    if (!user) return;
+
+    let fortuneTimer: ReturnType<typeof setTimeout> | null = null;
+    let hasSubscribed = false;
+
+    const refreshFortunes = () => {
+      if (fortuneTimer) clearTimeout(fortuneTimer);
+      fortuneTimer = setTimeout(() => {
+        fortuneTimer = null;
+        console.log('[REALTIME] fortunes changed remotely - refreshing');
+        emitAppEvent('fortunesUpdated');
+        onFortunesChangedRef.current?.();
+      }, FORTUNE_REFRESH_DEBOUNCE_MS);
+    };
+
+    const filter = `user_id=eq.${user.id}`;
+    const channel = supabase
+      .channel(`sync:${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'fortunes', filter }, refreshFortunes)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'fortune_media', filter },
+        (payload: RealtimePostgresChangesPayload<{ fortune_id: string; updated_at: string }>) => {
+          const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+          if (!row?.fortune_id) return;
+          emitAppEvent('fortunePhotoUpdated', {
+            fortuneId: row.fortune_id,
+            // Deletes carry no new updated_at; the commit time still forces a re-sign
+            updatedAt: row.updated_at ?? payload.commit_timestamp,
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter },
+        (payload: RealtimePostgresChangesPayload<Task>) => {
+          const task = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Task;
+          if (!task?.id) return;
+          emitAppEvent('tasksChanged', { eventType: payload.eventType, task });
+        }
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lifestyle_entries', filter }, () => {
+        emitAppEvent('lifestyleDataUpdated');
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_achievements', filter }, () => {
+        emitAppEvent('achievementsChanged');
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'user_challenges', filter }, () => {
+        emitAppEvent('challengesChanged');
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'level_history', filter }, () => {
+        emitAppEvent('levelChanged');
+      })
+      .subscribe((status) => {
+        console.log('[REALTIME] sync channel status:', status);
+        if (status !== 'SUBSCRIBED') return;
+        // Changes made while the socket was down were missed; catch up once reconnected
+        if (hasSubscribed) {
+          refreshFortunes();
+          emitAppEvent('tasksChanged', null);
+          emitAppEvent('lifestyleDataUpdated');
+          emitAppEvent('achievementsChanged');
+          emitAppEvent('challengesChanged');
+          emitAppEvent('levelChanged');
+        }
+        hasSubscribed = true;
+      });
+
+    return () => {
+      if (fortuneTimer) clearTimeout(fortuneTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+};
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/auth/AuthProvider';
+import { useAppEvent } from '@/hooks/useAppEvent';
+import { ensureAchievementsEvaluated } from '@/lib/achievements';
+import { getXpStatus, type XpStatus } from '@/lib/xp';
+
+/**
+ * XP and level, refetched when the server may have recomputed them
+ */
+export const useXpStatus = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<XpStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      setStatus(await getXpStatus());
+    } catch (error) {
+      console.error('[XP] Error loading XP status:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    // XP is recomputed by the same evaluation as achievements
+    ensureAchievementsEvaluated().then(refresh);
+  }, [user, refresh]);
+
+  useAppEvent('fortunesUpdated', refresh);
+  useAppEvent('lifestyleDataUpdated', refresh);
+  useAppEvent('achievementsChanged', refresh);
+  useAppEvent('levelChanged', refresh);
+
+  return { status, loading, refresh };
+};
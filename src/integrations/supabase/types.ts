@@ -14,6 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      achievements: {
+        Row: {
+          category: string | null
+          description: string
+          icon: string
+          id: string
+          required_count: number
+          rule: Json | null
+          sort_order: number
+          state: string
+          title: string
+        }
+        Insert: {
+          category?: string | null
+          description: string
+          icon: string
+          id: string
+          required_count?: number
+          rule?: Json | null
+          sort_order?: number
+          state?: string
+          title: string
+        }
+        Update: {
+          category?: string | null
+          description?: string
+          icon?: string
+          id?: string
+          required_count?: number
+          rule?: Json | null
+          sort_order?: number
+          state?: string
+          title?: string
+        }
+        Relationships: []
+      }
       app_secrets: {
         Row: {
           created_at: string | null
@@ -34,26 +70,79 @@ export type Database = {
       }
       avatars: {
         Row: {
+          achievement_id: string | null
           created_at: string
           id: string
-          level: number
+          level: number | null
+          required_tier: string | null
           title: string | null
+          unlock_kind: string
           url: string
         }
         Insert: {
+          achievement_id?: string | null
           created_at?: string
           id?: string
-          level: number
+          level?: number | null
+          required_tier?: string | null
           title?: string | null
+          unlock_kind?: string
           url: string
         }
         Update: {
+          achievement_id?: string | null
           created_at?: string
           id?: string
-          level?: number
+          level?: number | null
+          required_tier?: string | null
           title?: string | null
+          unlock_kind?: string
           url?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "avatars_achievement_id_fkey"
+            columns: ["achievement_id"]
+            isOneToOne: false
+            referencedRelation: "achievements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      challenges: {
+        Row: {
+          created_at: string
+          description: string
+          ends_on: string
+          icon: string
+          id: string
+          required_count: number
+          rule: Json
+          starts_on: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          ends_on: string
+          icon: string
+          id: string
+          required_count: number
+          rule: Json
+          starts_on: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          ends_on?: string
+          icon?: string
+          id?: string
+          required_count?: number
+          rule?: Json
+          starts_on?: string
+          title?: string
+        }
         Relationships: []
       }
       competition_groups: {
@@ -85,25 +174,40 @@ export type Database = {
       }
       custom_categories: {
         Row: {
+          archived_at: string | null
           color: string
           has_numeric_value: boolean
           id: string
           name: string
+          parent_name: string | null
           user_id: string
+          value_max: number | null
+          value_min: number | null
+          value_unit: string
         }
         Insert: {
+          archived_at?: string | null
           color: string
           has_numeric_value?: boolean
           id?: string
           name: string
+          parent_name?: string | null
           user_id: string
+          value_max?: number | null
+          value_min?: number | null
+          value_unit?: string
         }
         Update: {
+          archived_at?: string | null
           color?: string
           has_numeric_value?: boolean
           id?: string
           name?: string
+          parent_name?: string | null
           user_id?: string
+          value_max?: number | null
+          value_min?: number | null
+          value_unit?: string
         }
         Relationships: []
       }
@@ -134,6 +238,42 @@ export type Database = {
         }
         Relationships: []
       }
+      default_exchange_rates: {
+        Row: {
+          currency: string
+          rate_per_usd: number
+        }
+        Insert: {
+          currency: string
+          rate_per_usd: number
+        }
+        Update: {
+          currency?: string
+          rate_per_usd?: number
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          currency: string
+          rate_per_usd: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          currency: string
+          rate_per_usd: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          currency?: string
+          rate_per_usd?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       fortune_media: {
         Row: {
           bucket: string
@@ -143,6 +283,7 @@ export type Database = {
           id: string
           mime_type: string
           path: string
+          position: number
           size_bytes: number | null
           updated_at: string
           user_id: string
@@ -156,6 +297,7 @@ export type Database = {
           id?: string
           mime_type: string
           path: string
+          position?: number
           size_bytes?: number | null
           updated_at?: string
           user_id: string
@@ -169,6 +311,7 @@ export type Database = {
           id?: string
           mime_type?: string
           path?: string
+          position?: number
           size_bytes?: number | null
           updated_at?: string
           user_id?: string
@@ -178,16 +321,151 @@ export type Database = {
           {
             foreignKeyName: "fortune_media_fortune_id_fkey"
             columns: ["fortune_id"]
-            isOneToOne: true
+            isOneToOne: false
+            referencedRelation: "fortunes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fortune_revisions: {
+        Row: {
+          category: string
+          created_at: string
+          currency: string | null
+          fortune_id: string
+          fortune_value: number | null
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"] | null
+          tags: string[]
+          text: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          currency?: string | null
+          fortune_id: string
+          fortune_value?: number | null
+          id?: string
+          impact_level?: Database["public"]["Enums"]["fortune_impact_level"] | null
+          tags?: string[]
+          text: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          currency?: string | null
+          fortune_id?: string
+          fortune_value?: number | null
+          id?: string
+          impact_level?: Database["public"]["Enums"]["fortune_impact_level"] | null
+          tags?: string[]
+          text?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fortune_revisions_fortune_id_fkey"
+            columns: ["fortune_id"]
+            isOneToOne: false
             referencedRelation: "fortunes"
             referencedColumns: ["id"]
           },
         ]
       }
+      fortune_tags: {
+        Row: {
+          created_at: string
+          fortune_id: string
+          id: string
+          tag: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          fortune_id: string
+          id?: string
+          tag: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          fortune_id?: string
+          id?: string
+          tag?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fortune_tags_fortune_id_fkey"
+            columns: ["fortune_id"]
+            isOneToOne: false
+            referencedRelation: "fortunes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fortune_templates: {
+        Row: {
+          category: string
+          created_at: string
+          currency: string | null
+          fortune_value: number | null
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"]
+          last_handled_on: string | null
+          name: string
+          position: number
+          recurrence: string | null
+          recurrence_day: number | null
+          tags: string[]
+          text: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          currency?: string | null
+          fortune_value?: number | null
+          id?: string
+          impact_level?: Database["public"]["Enums"]["fortune_impact_level"]
+          last_handled_on?: string | null
+          name: string
+          position?: number
+          recurrence?: string | null
+          recurrence_day?: number | null
+          tags?: string[]
+          text?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          currency?: string | null
+          fortune_value?: number | null
+          id?: string
+          impact_level?: Database["public"]["Enums"]["fortune_impact_level"]
+          last_handled_on?: string | null
+          name?: string
+          position?: number
+          recurrence?: string | null
+          recurrence_day?: number | null
+          tags?: string[]
+          text?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       fortunes: {
         Row: {
           category: string
           created_at: string
+          currency: string | null
+          deleted_at: string | null
           enc_ver: number | null
           fortune_level: number | null
           fortune_value: number | null
@@ -200,6 +478,8 @@ export type Database = {
         Insert: {
           category: string
           created_at?: string
+          currency?: string | null
+          deleted_at?: string | null
           enc_ver?: number | null
           fortune_level?: number | null
           fortune_value?: number | null
@@ -212,6 +492,8 @@ export type Database = {
         Update: {
           category?: string
           created_at?: string
+          currency?: string | null
+          deleted_at?: string | null
           enc_ver?: number | null
           fortune_level?: number | null
           fortune_value?: number | null
@@ -353,6 +635,75 @@ export type Database = {
           },
         ]
       }
+      journal_keys: {
+        Row: {
+          created_at: string
+          iterations: number
+          key_check: string
+          salt: string
+          updated_at: string
+          user_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          iterations: number
+          key_check: string
+          salt: string
+          updated_at?: string
+          user_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          iterations?: number
+          key_check?: string
+          salt?: string
+          updated_at?: string
+          user_id?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
+      level_history: {
+        Row: {
+          id: string
+          level: number
+          reached_at: string
+          user_id: string
+          xp: number
+        }
+        Insert: {
+          id?: string
+          level: number
+          reached_at?: string
+          user_id: string
+          xp: number
+        }
+        Update: {
+          id?: string
+          level?: number
+          reached_at?: string
+          user_id?: string
+          xp?: number
+        }
+        Relationships: []
+      }
+      level_thresholds: {
+        Row: {
+          level: number
+          xp_required: number
+        }
+        Insert: {
+          level: number
+          xp_required: number
+        }
+        Update: {
+          level?: number
+          xp_required?: number
+        }
+        Relationships: []
+      }
       lifestyle_entries: {
         Row: {
           alcohol_consumption: number | null
@@ -456,40 +807,60 @@ export type Database = {
         Row: {
           avatar_url: string | null
           created_at: string | null
+          display_currency: string | null
           display_name: string | null
           early_bird_redeemed: boolean | null
           early_bird_seen: boolean | null
           level: number | null
+          selected_avatar_id: string | null
           stripe_customer_id: string | null
+          timezone: string
           total_fortunes: number | null
           trial_ends_at: string | null
           user_id: string
+          xp: number
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string | null
+          display_currency?: string | null
           display_name?: string | null
           early_bird_redeemed?: boolean | null
           early_bird_seen?: boolean | null
           level?: number | null
+          selected_avatar_id?: string | null
           stripe_customer_id?: string | null
+          timezone?: string
           total_fortunes?: number | null
           trial_ends_at?: string | null
           user_id: string
+          xp?: number
         }
         Update: {
           avatar_url?: string | null
           created_at?: string | null
+          display_currency?: string | null
           display_name?: string | null
           early_bird_redeemed?: boolean | null
           early_bird_seen?: boolean | null
           level?: number | null
+          selected_avatar_id?: string | null
           stripe_customer_id?: string | null
+          timezone?: string
           total_fortunes?: number | null
           trial_ends_at?: string | null
           user_id?: string
+          xp?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_selected_avatar_id_fkey"
+            columns: ["selected_avatar_id"]
+            isOneToOne: false
+            referencedRelation: "avatars"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       quotes_master: {
         Row: {
@@ -626,6 +997,88 @@ export type Database = {
         }
         Relationships: []
       }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          progress: number
+          unlocked_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          progress?: number
+          unlocked_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          progress?: number
+          unlocked_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_achievements_achievement_id_fkey"
+            columns: ["achievement_id"]
+            isOneToOne: false
+            referencedRelation: "achievements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_challenges: {
+        Row: {
+          challenge_id: string
+          completed_at: string | null
+          progress: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          challenge_id: string
+          completed_at?: string | null
+          progress?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          challenge_id?: string
+          completed_at?: string | null
+          progress?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_challenges_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "challenges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      xp_rules: {
+        Row: {
+          description: string | null
+          source: string
+          xp: number
+        }
+        Insert: {
+          description?: string | null
+          source: string
+          xp: number
+        }
+        Update: {
+          description?: string | null
+          source?: string
+          xp?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       available_plans_v: {
@@ -705,8 +1158,131 @@ export type Database = {
         Args: { batch_size?: number }
         Returns: number
       }
+      achievement_lifestyle_matches: {
+        Args: {
+          p_conditions: Json
+          p_entry: Database["public"]["Tables"]["lifestyle_entries"]["Row"]
+        }
+        Returns: boolean
+      }
+      achievement_longest_streak: { Args: { p_days: string[] }; Returns: number }
+      achievement_rule_errors: { Args: { p_rule: Json }; Returns: string[] }
+      achievement_rule_fortunes: {
+        Args: {
+          p_from?: string
+          p_rule: Json
+          p_to?: string
+          p_tz: string
+          p_user_id: string
+        }
+        Returns: {
+          category: string
+          currency: string
+          fortune_value: number
+          local_ts: string
+        }[]
+      }
+      achievement_rule_progress: {
+        Args: {
+          p_from?: string
+          p_rule: Json
+          p_to?: string
+          p_tz: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      achievements_evaluate: {
+        Args: { p_currency?: string; p_timezone?: string }
+        Returns: undefined
+      }
+      achievements_evaluate_user: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      achievements_list: {
+        Args: never
+        Returns: {
+          category: string
+          description: string
+          icon: string
+          id: string
+          progress: number
+          required_count: number
+          title: string
+          unlocked_at: string
+        }[]
+      }
+      active_subscriptions: {
+        Args: { p_user_id: string }
+        Returns: {
+          created_at: string
+          current_period_end: string
+          current_period_start: string
+          id: string
+          is_lifetime: boolean | null
+          plan_id: string
+          status: string
+          stripe_customer_id: string | null
+          stripe_price_id: string | null
+          stripe_subscription_id: string | null
+          tier: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      avatar_displayed_id: { Args: { p_user_id: string }; Returns: string }
+      avatar_is_unlocked: {
+        Args: { p_avatar_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      avatar_select: { Args: { p_avatar_id?: string }; Returns: undefined }
+      avatar_sync_user: { Args: { p_user_id: string }; Returns: undefined }
+      avatar_tier_rank: { Args: { p_user_id: string }; Returns: number }
+      avatars_collection: {
+        Args: never
+        Returns: {
+          achievement_id: string
+          achievement_title: string
+          displayed: boolean
+          id: string
+          level: number
+          required_tier: string
+          selected: boolean
+          title: string
+          unlock_kind: string
+          unlocked: boolean
+          url: string
+        }[]
+      }
+      category_merge: {
+        Args: { p_source: string; p_target: string }
+        Returns: number
+      }
+      category_rename: {
+        Args: { p_name: string; p_new_name: string }
+        Returns: number
+      }
+      category_rewrite_history: {
+        Args: { p_from: string; p_to: string; p_user_id: string }
+        Returns: number
+      }
+      category_set_archived: {
+        Args: { p_archived: boolean; p_name: string }
+        Returns: number
+      }
+      category_usage: {
+        Args: never
+        Returns: {
+          category: string
+          fortune_count: number
+          template_count: number
+          trashed_count: number
+        }[]
+      }
       derive_passphrase: { Args: never; Returns: string }
       derive_passphrase_for: { Args: { _uid: string }; Returns: string }
+      encrypt_fortune_text: { Args: { p_text: string }; Returns: string }
       encrypt_with_app_key: { Args: { plain: string }; Returns: string }
       fortune_add:
         | {
@@ -717,8 +1293,11 @@ export type Database = {
             Args: {
               p_category?: string
               p_created_at?: string
+              p_currency?: string
+              p_fortune_value?: number
               p_impact_level?: Database["public"]["Enums"]["fortune_impact_level"]
               p_level?: number
+              p_tags?: string[]
               p_text: string
             }
             Returns: string
@@ -733,6 +1312,36 @@ export type Database = {
             Returns: string
           }
       fortune_counts: { Args: never; Returns: Json }
+      challenges_evaluate_user: {
+        Args: { p_tz: string; p_user_id: string }
+        Returns: undefined
+      }
+      challenges_list: {
+        Args: never
+        Returns: {
+          completed_at: string
+          description: string
+          ends_on: string
+          icon: string
+          id: string
+          progress: number
+          required_count: number
+          starts_on: string
+          title: string
+        }[]
+      }
+      fortune_day_stats: {
+        Args: { p_timezone?: string }
+        Returns: {
+          category: string
+          currency: string | null
+          day: string
+          fortune_count: number
+          tags: string[]
+          value_count: number
+          value_total: number
+        }[]
+      }
       fortune_decrypt: {
         Args: { _id: string }
         Returns: {
@@ -754,31 +1363,49 @@ export type Database = {
           text: string
         }[]
       }
-      fortune_list:
-        | {
-            Args: never
-            Returns: {
-              category: string
-              created_at: string
-              fortune_level: number
-              id: string
-              impact_level: Database["public"]["Enums"]["fortune_impact_level"]
-              text: string
-              user_id: string
-            }[]
-          }
-        | {
-            Args: { p_from: string; p_to: string }
-            Returns: {
-              category: string
-              created_at: string
-              fortune_level: number
-              id: string
-              impact_level: Database["public"]["Enums"]["fortune_impact_level"]
-              text: string
-              user_id: string
-            }[]
-          }
+      fortune_import: { Args: { p_rows: Json }; Returns: number }
+      fortune_list: {
+        Args: {
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+          p_from?: string
+          p_limit?: number
+          p_to?: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          currency: string | null
+          fortune_level: number
+          fortune_value: number
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"]
+          tags: string[]
+          text: string
+          user_id: string
+        }[]
+      }
+      fortune_media_reorder: {
+        Args: { p_fortune_id: string; p_media_ids: string[] }
+        Returns: undefined
+      }
+      fortune_memories: {
+        Args: { p_timezone?: string }
+        Returns: {
+          category: string
+          created_at: string
+          currency: string | null
+          fortune_value: number
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"]
+          memory_kind: string
+          photo_count: number
+          tags: string[]
+          text: string
+          years_ago: number
+        }[]
+      }
+      fortune_plan_capacity: { Args: { p_user_id: string }; Returns: number }
       fortune_put: {
         Args: {
           p_category: string
@@ -788,12 +1415,76 @@ export type Database = {
         }
         Returns: Json
       }
+      fortune_revert: {
+        Args: { p_fortune_id: string; p_revision_id: string }
+        Returns: undefined
+      }
+      fortune_revisions_list: {
+        Args: { p_fortune_id: string }
+        Returns: {
+          category: string
+          created_at: string
+          currency: string | null
+          fortune_value: number
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"]
+          tags: string[]
+          text: string
+        }[]
+      }
+      fortune_restore: { Args: { p_id: string }; Returns: undefined }
+      fortune_search: {
+        Args: {
+          p_categories?: string[]
+          p_from?: string
+          p_impact_levels?: Database["public"]["Enums"]["fortune_impact_level"][]
+          p_limit?: number
+          p_max_value?: number
+          p_min_value?: number
+          p_offset?: number
+          p_query?: string
+          p_tags?: string[]
+          p_to?: string
+        }
+        Returns: {
+          category: string
+          created_at: string
+          currency: string | null
+          fortune_level: number
+          fortune_value: number
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"]
+          tags: string[]
+          text: string
+          total_count: number
+          user_id: string
+        }[]
+      }
+      fortune_trash: { Args: { p_id: string }; Returns: undefined }
+      fortune_trash_list: {
+        Args: {
+          p_cursor_deleted_at?: string
+          p_cursor_id?: string
+          p_limit?: number
+        }
+        Returns: {
+          category: string
+          created_at: string
+          deleted_at: string
+          fortune_value: number
+          id: string
+          impact_level: Database["public"]["Enums"]["fortune_impact_level"]
+          text: string
+        }[]
+      }
       fortune_update: {
         Args: {
           p_category?: string
+          p_currency?: string
           p_fortune_value?: number
           p_id: string
           p_impact_level?: string
+          p_tags?: string[]
           p_text?: string
         }
         Returns: undefined
@@ -801,6 +1492,7 @@ export type Database = {
       get_app_enc_key: { Args: never; Returns: string }
       get_private_enc_salt: { Args: never; Returns: string }
       get_user_competition_stats: { Args: { p_user_id: string }; Returns: Json }
+      has_active_plan: { Args: { p_user_id: string }; Returns: boolean }
       is_member_of_group: { Args: { gid: string }; Returns: boolean }
       is_trial_active: { Args: { p_user_id: string }; Returns: boolean }
       is_user_group_member: {
@@ -808,6 +1500,7 @@ export type Database = {
         Returns: boolean
       }
       is_username_available: { Args: { username: string }; Returns: boolean }
+      journal_reencrypt_fortunes: { Args: { p_items: Json }; Returns: number }
       set_daily_mood: {
         Args: { event_ts?: string; mood_value: string; timezone_arg?: string }
         Returns: Json
@@ -838,6 +1531,19 @@ export type Database = {
         Args: { armor: string; k_inner: string; k_outer: string }
         Returns: string
       }
+      xp_evaluate_user: {
+        Args: { p_tz: string; p_user_id: string }
+        Returns: undefined
+      }
+      xp_status: {
+        Args: never
+        Returns: {
+          level: number
+          level_xp: number
+          next_level_xp: number
+          xp: number
+        }[]
+      }
     }
     Enums: {
       fortune_impact_level: "small_step" | "milestone" | "big_win"
@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Achievement } from '@/types/fortune';
+import { emitAppEvent } from './appEvents';
+import { getDisplayCurrency } from './currency';
+
+/**
+ * The achievement catalog with the user's persisted progress and unlock dates.
+ * Progress is computed by the server whenever fortunes or lifestyle entries change.
+ */
+export async function listAchievements(): Promise<Achievement[]> {
+  const { data, error } = await supabase.rpc('achievements_list');
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    icon: row.icon,
+    state: row.unlocked_at ? 'earned' : 'locked',
+    requiredCount: row.required_count,
+    category: row.category ?? undefined,
+    progress: Number(row.progress) || 0,
+    unlockedAt: row.unlocked_at,
+  }));
+}
+
+/**
+ * Re-runs the server evaluation for the current user and reports the device timezone,
+ * which day-based achievements (streaks, early bird, weekends) are counted in, and the
+ * display currency, which values saved without a currency are in.
+ */
+export async function evaluateAchievements(): Promise<void> {
+  const { error } = await supabase.rpc('achievements_evaluate', {
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    p_currency: getDisplayCurrency(),
+  });
+
+  if (error) throw error;
+  emitAppEvent('achievementsChanged');
+}
+
+let sessionEvaluation: Promise<void> | null = null;
+
+// Once per app session: backfills progress for fortunes logged before the server tracked it
+export function ensureAchievementsEvaluated(): Promise<void> {
+  if (!sessionEvaluation) {
+    sessionEvaluation = evaluateAchievements().catch((error) => {
+      sessionEvaluation = null;
+      console.warn('[ACHIEVEMENTS] Evaluation failed:', error);
+    });
+  }
+  return sessionEvaluation;
+}
+
+// Most recently unlocked first
+export const sortByUnlockDate = (achievements: Achievement[]): Achievement[] =>
+  achievements
+    .filter((achievement) => achievement.unlockedAt)
+    .sort((a, b) => (b.unlockedAt ?? '').localeCompare(a.unlockedAt ?? ''));
@@ -0,0 +1,141 @@
+// In-app event bus. Components that don't share state (tabs, modals, background sync)
+// tell each other that data changed through these events; every event has a declared payload.
+
+import type { Task } from '@/types/task';
+import type { JournalStatus } from './journalCrypto';
+
+// The changed row (the old row for deletes)
+export interface TaskChangeDetail {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  task: Task;
+}
+
+export interface AppEventMap {
+  // Fortunes were created, edited, deleted or restored; listeners refetch
+  fortunesUpdated: void;
+  // A fortune's photos changed; updatedAt busts cached signed URLs
+  fortunePhotoUpdated: { fortuneId: string; updatedAt: string };
+  // Mood / lifestyle entries changed
+  lifestyleDataUpdated: void;
+  // A task changed on another device; null means reload everything
+  tasksChanged: TaskChangeDetail | null;
+  // The offline outbox was enqueued, amended or replayed
+  outboxChanged: void;
+  // The user's exchange-rate table was saved or reset
+  exchangeRatesChanged: void;
+  // The private journal was turned on/off, unlocked or locked
+  journalStatusChanged: JournalStatus;
+  // Fortune templates were added, edited, removed or an occurrence was handled
+  templatesChanged: void;
+  // Custom categories were added, removed, renamed, merged or (un)archived
+  categoriesChanged: void;
+  // The server recorded achievement progress or an unlock (see useRealtimeSync)
+  achievementsChanged: void;
+  // The server recorded challenge progress or a completion
+  challengesChanged: void;
+  // The server recorded a level-up (level_history)
+  levelChanged: void;
+  // The user picked a different avatar to show
+  avatarChanged: void;
+}
+
+export type AppEventName = keyof AppEventMap;
+
+type AppEventArgs<K extends AppEventName> = AppEventMap[K] extends void ? [] : [payload: AppEventMap[K]];
+
+export type AppEventHandler<K extends AppEventName> = (payload: AppEventMap[K]) => void;
+
+// Refetch-style events are coalesced: emits within this window are delivered once, at its end.
+// A single save fires fortunesUpdated from several places (modal, outbox replay, realtime echo).
+const COALESCE_MS: Partial<Record<AppEventName, number>> = {
+  fortunesUpdated: 300,
+  lifestyleDataUpdated: 300,
+  // One evaluation rewrites many user_achievements rows
+  achievementsChanged: 300,
+  challengesChanged: 300,
+};
+
+export interface AppEventLogEntry {
+  id: number;
+  name: AppEventName;
+  payload: unknown;
+  at: number;
+  listeners: number;
+  // Emits merged into this delivery (1 = not coalesced)
+  emits: number;
+}
+
+const LOG_LIMIT = 50;
+
+const listeners = new Map<AppEventName, Set<AppEventHandler<AppEventName>>>();
+// Coalesced events waiting for their window to close, with the number of emits so far
+const pending = new Map<AppEventName, { emits: number }>();
+let log: AppEventLogEntry[] = [];
+const logSubscribers = new Set<() => void>();
+let nextLogId = 1;
+
+const deliver = <K extends AppEventName>(name: K, payload: AppEventMap[K], emits: number) => {
+  const handlers = [...(listeners.get(name) ?? [])];
+
+  log = [{ id: nextLogId++, name, payload, at: Date.now(), listeners: handlers.length, emits }, ...log].slice(0, LOG_LIMIT);
+  logSubscribers.forEach((notify) => notify());
+
+  for (const handler of handlers) {
+    try {
+      (handler as AppEventHandler<K>)(payload);
+    } catch (error) {
+      console.error(`[EVENTS] ${name} handler failed:`, error);
+    }
+  }
+};
+
+export function emitAppEvent<K extends AppEventName>(name: K, ...args: AppEventArgs<K>): void {
+  const payload = args[0] as AppEventMap[K];
+  const windowMs = COALESCE_MS[name];
+  if (!windowMs) {
+    deliver(name, payload, 1);
+    return;
+  }
+
+  const queued = pending.get(name);
+  if (queued) {
+    queued.emits++;
+    return;
+  }
+  const entry = { emits: 1 };
+  pending.set(name, entry);
+  setTimeout(() => {
+    pending.delete(name);
+    deliver(name, payload, entry.emits);
+  }, windowMs);
+}
+
+// Returns the unsubscribe function
+export function onAppEvent<K extends AppEventName>(name: K, handler: AppEventHandler<K>): () => void {
+  let handlers = listeners.get(name);
+  if (!handlers) {
+    handlers = new Set();
+    listeners.set(name, handlers);
+  }
+  handlers.add(handler as AppEventHandler<AppEventName>);
+  return () => {
+    handlers.delete(handler as AppEventHandler<AppEventName>);
+  };
+}
+
+// Most recent deliveries first, for the debug panel
+export function getAppEventLog(): AppEventLogEntry[] {
+  return log;
+}
+
+export function subscribeAppEventLog(notify: () => void): () => void {
+  logSubscribers.add(notify);
+  return () => {
+    logSubscribers.delete(notify);
+  };
+}
+
+export function clearAppEventLog(): void {
+  log = [];
+  logSubscribers.forEach((notify) => notify());
+}
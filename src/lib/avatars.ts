@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { emitAppEvent } from './appEvents';
+
+export type AvatarUnlockKind = 'level' | 'achievement' | 'tier';
+
+export interface CollectionAvatar {
+  id: string;
+  title: string | null;
+  url: string;
+  unlockKind: AvatarUnlockKind;
+  level: number | null;              // Level that unlocks a level avatar
+  achievementTitle: string | null;   // Achievement that unlocks an achievement avatar
+  requiredTier: string | null;       // Lowest plan that unlocks a tier avatar
+  unlocked: boolean;
+  selected: boolean;                 // Picked by the user
+  displayed: boolean;                // Shown on the profile: the pick, or the highest level avatar reached
+}
+
+const TIER_LABELS: Record<string, string> = {
+  essential: 'Essential',
+  growth: 'Growth',
+  pro: 'Pro',
+  lifetime: 'Lifetime',
+};
+
+/**
+ * Every avatar with its unlock condition and the user's state; levels first, then achievement and plan avatars
+ */
+export async function listAvatarCollection(): Promise<CollectionAvatar[]> {
+  const { data, error } = await supabase.rpc('avatars_collection');
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    unlockKind: row.unlock_kind as AvatarUnlockKind,
+    level: row.level,
+    achievementTitle: row.achievement_title,
+    requiredTier: row.required_tier,
+    unlocked: row.unlocked,
+    selected: row.selected,
+    displayed: row.displayed,
+  }));
+}
+
+/**
+ * Shows an unlocked avatar on the profile; null goes back to the avatar of the current level.
+ * The server refuses locked avatars.
+ */
+export async function selectAvatar(avatarId: string | null): Promise<void> {
+  const { error } = await supabase.rpc('avatar_select', { p_avatar_id: avatarId ?? undefined });
+
+  if (error) throw error;
+  emitAppEvent('avatarChanged');
+}
+
+export function describeAvatarUnlock(avatar: CollectionAvatar): string {
+  switch (avatar.unlockKind) {
+    case 'level':
+      return `Reach level ${avatar.level}`;
+    case 'achievement':
+      return `Unlock “${avatar.achievementTitle ?? 'an achievement'}”`;
+    case 'tier':
+      return `${TIER_LABELS[avatar.requiredTier ?? ''] ?? 'Paid'} plan`;
+  }
+}
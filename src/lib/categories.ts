@@ -0,0 +1,144 @@
+import { supabase } from '@/integrations/supabase/client';
+import { emitAppEvent } from './appEvents';
+
+// Built-in top-level categories; they have no custom_categories row but can have subcategories
+export const DEFAULT_CATEGORY_NAMES = ['Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other'];
+
+export interface CustomCategoryRow {
+  id: string;
+  name: string;
+  color: string;
+  has_numeric_value: boolean;
+  // Name of the parent (default or top-level custom) category; null for top-level categories
+  parent_name: string | null;
+  // Archived categories are hidden from pickers but kept for existing fortunes
+  archived_at: string | null;
+  // What the numeric value measures, and optional bounds within the unit's own (see valueUnits.ts)
+  value_unit: string;
+  value_min: number | null;
+  value_max: number | null;
+}
+
+export interface CategoryUsage {
+  fortunes: number;
+  trashed: number;
+  templates: number;
+}
+
+export interface CategoryTreeNode {
+  name: string;
+  // Set for custom top-level categories, undefined for the defaults
+  row?: CustomCategoryRow;
+  children: CustomCategoryRow[];
+}
+
+const key = (name: string) => name.trim().toLowerCase();
+
+export async function listCustomCategories(userId: string): Promise<CustomCategoryRow[]> {
+  const { data, error } = await supabase
+    .from('custom_categories')
+    .select('id, name, color, has_numeric_value, parent_name, archived_at, value_unit, value_min, value_max')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Top-level categories (defaults first, then custom ones by name) with their subcategories.
+ * A subcategory whose parent no longer exists is shown as top-level.
+ */
+export function buildCategoryTree(custom: CustomCategoryRow[]): CategoryTreeNode[] {
+  const nodes = new Map<string, CategoryTreeNode>();
+  for (const name of DEFAULT_CATEGORY_NAMES) {
+    nodes.set(key(name), { name, children: [] });
+  }
+  for (const row of custom) {
+    if (!row.parent_name && !nodes.has(key(row.name))) {
+      nodes.set(key(row.name), { name: row.name, row, children: [] });
+    }
+  }
+  for (const row of custom) {
+    if (!row.parent_name) continue;
+    const parent = nodes.get(key(row.parent_name));
+    if (parent && !parent.row?.parent_name) {
+      parent.children.push(row);
+    } else if (!nodes.has(key(row.name))) {
+      nodes.set(key(row.name), { name: row.name, row, children: [] });
+    }
+  }
+  return Array.from(nodes.values());
+}
+
+// Maps each subcategory (lowercased) to its parent's name, for rolling statistics up
+export function getParentMap(custom: CustomCategoryRow[]): Map<string, string> {
+  const tree = buildCategoryTree(custom);
+  const parents = new Map<string, string>();
+  for (const node of tree) {
+    for (const child of node.children) {
+      parents.set(key(child.name), node.name);
+    }
+  }
+  return parents;
+}
+
+export const rollUpCategory = (name: string, parents: Map<string, string>): string =>
+  parents.get(key(name)) ?? name;
+
+// Fortune, trash and template counts per stored category string
+export async function getCategoryUsage(): Promise<Map<string, CategoryUsage>> {
+  const { data, error } = await supabase.rpc('category_usage');
+
+  if (error) throw error;
+  return new Map(
+    (data ?? []).map((row) => [
+      row.category,
+      { fortunes: row.fortune_count, trashed: row.trashed_count, templates: row.template_count },
+    ])
+  );
+}
+
+/**
+ * Renames a custom category; the server rewrites every fortune, revision and template using it.
+ * Returns the number of fortunes rewritten.
+ */
+export async function renameCategory(name: string, newName: string): Promise<number> {
+  const { data, error } = await supabase.rpc('category_rename', { p_name: name, p_new_name: newName });
+
+  if (error) throw error;
+  emitAppEvent('categoriesChanged');
+  emitAppEvent('fortunesUpdated');
+  return data ?? 0;
+}
+
+// Moves everything from `source` into `target` and deletes `source`; returns the fortunes rewritten
+export async function mergeCategories(source: string, target: string): Promise<number> {
+  const { data, error } = await supabase.rpc('category_merge', { p_source: source, p_target: target });
+
+  if (error) throw error;
+  emitAppEvent('categoriesChanged');
+  emitAppEvent('fortunesUpdated');
+  return data ?? 0;
+}
+
+export type CategoryValueSettings = Pick<CustomCategoryRow, 'has_numeric_value' | 'value_unit' | 'value_min' | 'value_max'>;
+
+// Stored values are kept as they are; they're read in the new unit from now on
+export async function updateCategoryValueSettings(id: string, settings: CategoryValueSettings): Promise<void> {
+  const { error } = await supabase
+    .from('custom_categories')
+    .update(settings)
+    .eq('id', id);
+
+  if (error) throw error;
+  emitAppEvent('categoriesChanged');
+}
+
+// Archiving a parent also archives its subcategories
+export async function setCategoryArchived(name: string, archived: boolean): Promise<void> {
+  const { error } = await supabase.rpc('category_set_archived', { p_name: name, p_archived: archived });
+
+  if (error) throw error;
+  emitAppEvent('categoriesChanged');
+}
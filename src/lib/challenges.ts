@@ -0,0 +1,54 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Challenge, ChallengeStatus } from '@/types/fortune';
+
+// Challenge dates are calendar days in the user's timezone, like the server's evaluation
+const localToday = () => format(new Date(), 'yyyy-MM-dd');
+
+export function getChallengeStatus(
+  startsOn: string,
+  endsOn: string,
+  completedAt: string | null,
+  today = localToday(),
+): ChallengeStatus {
+  if (completedAt) return 'completed';
+  if (today < startsOn) return 'upcoming';
+  if (today <= endsOn) return 'active';
+  return 'missed';
+}
+
+/**
+ * Running and upcoming challenges plus past ones the user took part in, newest first.
+ * Progress is recorded by the server together with achievements.
+ */
+export async function listChallenges(): Promise<Challenge[]> {
+  const { data, error } = await supabase.rpc('challenges_list');
+
+  if (error) throw error;
+  const today = localToday();
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    icon: row.icon,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    requiredCount: row.required_count,
+    progress: Number(row.progress) || 0,
+    completedAt: row.completed_at,
+    status: getChallengeStatus(row.starts_on, row.ends_on, row.completed_at, today),
+  }));
+}
+
+// Days left including today; 0 once the challenge has ended
+export const challengeDaysLeft = (challenge: Challenge): number =>
+  Math.max(differenceInCalendarDays(parseISO(challenge.endsOn), new Date()) + 1, 0);
+
+export const challengeProgressPercentage = (challenge: Challenge): number =>
+  Math.min((challenge.progress / challenge.requiredCount) * 100, 100);
+
+// Completed challenges, most recent first
+export const challengeBadges = (challenges: Challenge[]): Challenge[] =>
+  challenges
+    .filter((challenge) => challenge.completedAt)
+    .sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? ''));
@@ -0,0 +1,179 @@
+import { supabase } from '@/integrations/supabase/client';
+import { emitAppEvent } from './appEvents';
+
+export interface CurrencyOption {
+  code: string;
+  symbol: string;
+}
+
+export const SUPPORTED_CURRENCIES: CurrencyOption[] = [
+  { code: 'USD', symbol: '$' },
+  { code: 'EUR', symbol: '€' },
+  { code: 'GBP', symbol: '£' },
+  { code: 'JPY', symbol: '¥' },
+  { code: 'CAD', symbol: 'C$' },
+  { code: 'AUD', symbol: 'A$' },
+  { code: 'CHF', symbol: 'CHF' },
+  { code: 'MXN', symbol: 'MX$' },
+];
+
+// Units of each currency per 1 USD
+export type ExchangeRates = Record<string, number>;
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+const DISPLAY_CURRENCY_KEY = 'settings.currency';
+
+// The display currency chosen in Settings, for code outside React (SettingsContext owns it)
+export const getDisplayCurrency = (): string => localStorage.getItem(DISPLAY_CURRENCY_KEY) || 'USD';
+
+export const storeDisplayCurrency = (currency: string): void => localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+
+export const isCurrencyCode = (value: string): boolean => CURRENCY_CODE.test(value);
+
+/**
+ * Converts between two currencies through USD. Returns null when either rate is unknown.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Sums fortune values in the display currency.
+ * Values without a currency (entered before currencies were tracked) count as the display currency;
+ * values whose currency has no rate are left out and counted in `unconverted`.
+ * An item can stand for several values already summed (`entries`, 1 when absent).
+ */
+export function sumInCurrency(
+  items: Array<{ fortune_value?: number | null; currency?: string | null; entries?: number }>,
+  displayCurrency: string,
+  rates: ExchangeRates
+): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+  for (const item of items) {
+    const value = Number(item.fortune_value) || 0;
+    if (!value) continue;
+    const converted = convertAmount(value, item.currency || displayCurrency, displayCurrency, rates);
+    if (converted === null) {
+      unconverted += item.entries ?? 1;
+    } else {
+      total += converted;
+    }
+  }
+  return { total, unconverted };
+}
+
+export function formatMoney(amount: number, currency: string, maximumFractionDigits = 2): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits }).format(amount);
+  } catch {
+    // Unknown code for this runtime's Intl data
+    return `${amount.toFixed(maximumFractionDigits)} ${currency}`;
+  }
+}
+
+export const getCurrencySymbol = (code: string): string =>
+  SUPPORTED_CURRENCIES.find((option) => option.code === code)?.symbol ?? code;
+
+/**
+ * The user's rate table: their saved rates on top of the approximate starting rates
+ * (default_exchange_rates; users keep their own table up to date in Settings, there's no live rate service)
+ */
+export async function getExchangeRates(userId: string): Promise<ExchangeRates> {
+  const [{ data: defaults, error: defaultsError }, { data, error }] = await Promise.all([
+    supabase.from('default_exchange_rates').select('currency, rate_per_usd'),
+    supabase.from('exchange_rates').select('currency, rate_per_usd').eq('user_id', userId),
+  ]);
+
+  if (defaultsError) throw defaultsError;
+  if (error) throw error;
+
+  const rates: ExchangeRates = {};
+  for (const row of [...(defaults ?? []), ...(data ?? [])]) {
+    rates[row.currency] = Number(row.rate_per_usd);
+  }
+  // USD is the base of the table
+  rates.USD = 1;
+  return rates;
+}
+
+export async function saveExchangeRates(userId: string, rates: ExchangeRates): Promise<void> {
+  const rows = Object.entries(rates)
+    .filter(([code, rate]) => code !== 'USD' && isCurrencyCode(code) && Number.isFinite(rate) && rate > 0)
+    .map(([currency, rate]) => ({
+      user_id: userId,
+      currency,
+      rate_per_usd: rate,
+      updated_at: new Date().toISOString(),
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('exchange_rates')
+    .upsert(rows, { onConflict: 'user_id,currency' });
+
+  if (error) throw error;
+  emitAppEvent('exchangeRatesChanged');
+}
+
+// Drops the user's saved rates so the defaults apply again
+export async function resetExchangeRates(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('exchange_rates')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  emitAppEvent('exchangeRatesChanged');
+}
+
+/**
+ * Parses an exchange-rate file: a JSON object ({"EUR": 0.92}), a JSON array of
+ * {currency, rate} objects, or CSV lines of "currency,rate" (header optional).
+ * Rates are units per 1 USD.
+ */
+export function parseExchangeRatesFile(content: string): ExchangeRates {
+  const rates: ExchangeRates = {};
+  const add = (code: unknown, rate: unknown) => {
+    const normalized = String(code ?? '').trim().toUpperCase();
+    const value = typeof rate === 'number' ? rate : Number(String(rate ?? '').trim());
+    if (!isCurrencyCode(normalized) || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid rate for "${String(code)}"`);
+    }
+    rates[normalized] = value;
+  };
+
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      for (const item of parsed) {
+        const row = item as { currency?: unknown; rate?: unknown; rate_per_usd?: unknown };
+        add(row.currency, row.rate ?? row.rate_per_usd);
+      }
+    } else if (parsed && typeof parsed === 'object') {
+      for (const [code, rate] of Object.entries(parsed as Record<string, unknown>)) {
+        add(code, rate);
+      }
+    }
+  } else {
+    const lines = trimmed.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    lines.forEach((line, index) => {
+      const [code, rate] = line.split(/[,;\t]/);
+      // Skip a header row
+      if (index === 0 && !isCurrencyCode(code.trim().toUpperCase())) return;
+      add(code, rate);
+    });
+  }
+
+  if (Object.keys(rates).length === 0) {
+    throw new Error('No exchange rates found');
+  }
+  return rates;
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { openJournalRows, openJournalText, sealJournalText, isJournalCiphertext } from './journalCrypto';
 
 export interface EdgeFunctionResponse<T = unknown> {
   data?: T;
@@ -113,6 +114,11 @@ export interface LifestyleEntryListParams {
   limit?: number;
 }
 
+// Free-text fields that are end-to-end encrypted when the private journal is on
+export const LIFESTYLE_JOURNAL_FIELDS = ['notes', 'dream_description', 'meals'] as const;
+
+const openLifestyleEntries = (entries: LifestyleEntryRow[]) => openJournalRows(entries, [...LIFESTYLE_JOURNAL_FIELDS]);
+
 export const listLifestyleEntries = async (
   params: LifestyleEntryListParams = {}
 ): Promise<EdgeFunctionResponse<LifestyleEntryListResponse>> => {
@@ -126,12 +132,12 @@ export const listLifestyleEntries = async (
 
   // Preferred shape: { entries: LifestyleEntryRow[] }
   if (data && typeof data === 'object' && 'entries' in data) {
-    return { data: data as LifestyleEntryListResponse };
+    return { data: { entries: await openLifestyleEntries((data as LifestyleEntryListResponse).entries) } };
   }
 
   // Backward/alternative shape: LifestyleEntryRow[]
   if (Array.isArray(data)) {
-    return { data: { entries: data as LifestyleEntryRow[] } };
+    return { data: { entries: await openLifestyleEntries(data as LifestyleEntryRow[]) } };
   }
 
   return { error: 'Invalid response from lifestyle-entry-list' };
@@ -162,7 +168,13 @@ export interface LifestyleEntryUpsertResponse {
 export const upsertLifestyleEntry = async (
   input: LifestyleEntryUpsertInput
 ): Promise<EdgeFunctionResponse<LifestyleEntryUpsertResponse>> => {
-  const res = await callEdge<any>('lifestyle-entry-upsert', input, true);
+  const sealed: LifestyleEntryUpsertInput = { ...input };
+  for (const field of LIFESTYLE_JOURNAL_FIELDS) {
+    const value = sealed[field];
+    if (value) sealed[field] = await sealJournalText(value);
+  }
+
+  const res = await callEdge<any>('lifestyle-entry-upsert', { ...sealed }, true);
 
   if (res.error) {
     return { error: res.error };
@@ -171,12 +183,14 @@ export const upsertLifestyleEntry = async (
   const data = res.data;
 
   // Preferred shape: { entry: LifestyleEntryRow }
-  if (data && typeof data === 'object' && 'entry' in data) {
-    return { data: data as LifestyleEntryUpsertResponse };
-  }
-
-  // Backward/alternative shape: LifestyleEntryRow
-  return { data: { entry: data as LifestyleEntryRow } };
+  const entry = (data && typeof data === 'object' && 'entry' in data)
+    ? (data as LifestyleEntryUpsertResponse).entry
+    // Backward/alternative shape: LifestyleEntryRow
+    : (data as LifestyleEntryRow);
+
+  if (!entry) return { data: { entry } };
+  const [opened] = await openLifestyleEntries([entry]);
+  return { data: { entry: opened } };
 };
 
 // -------------------------
@@ -224,6 +238,7 @@ export interface ReportGenerateInput {
   weekStart?: string;
   quarter?: 1 | 2 | 3 | 4;
   force?: boolean;
+  currency?: string;
 }
 
 export const listReports = async (
@@ -283,3 +298,189 @@ export const generateReport = async (
 
   return { data: { report: data as ReportRow } };
 };
+
+// -------------------------
+// Fortune search helpers
+// -------------------------
+
+export interface FortuneSearchParams {
+  query?: string;
+  categories?: string[];
+  tags?: string[];
+  impact_levels?: Array<'small_step' | 'milestone' | 'big_win'>;
+  min_value?: number | null;
+  max_value?: number | null;
+  from?: string | null; // ISO
+  to?: string | null; // ISO
+  page?: number;
+  page_size?: number;
+}
+
+export interface FortuneSearchResult {
+  id: string;
+  user_id: string;
+  text: string | null;
+  category: string | null;
+  created_at: string;
+  fortune_level: number | null;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: string | null;
+  tags: string[];
+  highlights: Array<[number, number]>; // [start, end) offsets into `text`
+}
+
+export interface FortuneSearchResponse {
+  results: FortuneSearchResult[];
+  total: number;
+  page: number;
+  page_size: number;
+  has_more: boolean;
+}
+
+export const searchFortunes = async (
+  params: FortuneSearchParams
+): Promise<EdgeFunctionResponse<FortuneSearchResponse>> => {
+  const res = await callEdge<FortuneSearchResponse>('fortune-search', { ...params }, true);
+
+  if (res.error) {
+    return { error: res.error };
+  }
+
+  const data = res.data;
+
+  if (data && typeof data === 'object' && Array.isArray(data.results)) {
+    // Private journal entries are matched by category/tags only; the server can't see their text
+    const results = await Promise.all(
+      data.results.map(async (result) =>
+        isJournalCiphertext(result.text)
+          ? { ...result, text: await openJournalText(result.text), highlights: [] }
+          : result
+      )
+    );
+    return { data: { ...data, results } };
+  }
+
+  return { error: 'Invalid response from fortune-search' };
+};
+
+// -------------------------
+// Data export helpers
+// -------------------------
+
+/**
+ * Builds the personal data archive (ZIP) server-side.
+ * The function responds with application/octet-stream, which `functions.invoke` returns as a Blob.
+ */
+export const exportUserData = async (): Promise<EdgeFunctionResponse<Blob>> => {
+  const res = await callEdge<Blob>('data-export', {}, true);
+
+  if (res.error) {
+    return { error: res.error };
+  }
+
+  if (res.data instanceof Blob && res.data.size > 0) {
+    return { data: res.data };
+  }
+
+  return { error: 'Invalid response from data-export' };
+};
+
+// -------------------------
+// Fortune photo helpers
+// -------------------------
+
+export interface FortunePhotoItem {
+  id: string;
+  index: number; // 0-based display position
+  bucket: string;
+  path: string;
+  updated_at: string;
+  signedUrl: string | null;
+  fileNotFound?: boolean;
+}
+
+export interface FortunePhotoListResponse {
+  photos: FortunePhotoItem[];
+  maxPhotos: number; // photos allowed per fortune on the caller's plan
+}
+
+/**
+ * Signs every photo of a fortune, in display order (finalize-fortune-photo SIGN_ONLY).
+ */
+export const listFortunePhotos = async (
+  fortuneId: string,
+  ttlSec: number = 300
+): Promise<EdgeFunctionResponse<FortunePhotoListResponse>> => {
+  const res = await callEdge<Partial<FortunePhotoListResponse>>('finalize-fortune-photo', {
+    action: 'SIGN_ONLY',
+    fortune_id: fortuneId,
+    ttlSec,
+  }, true);
+
+  if (res.error) {
+    return { error: res.error };
+  }
+
+  const data = res.data;
+
+  if (data && typeof data === 'object' && Array.isArray(data.photos)) {
+    return { data: { photos: data.photos, maxPhotos: data.maxPhotos ?? data.photos.length } };
+  }
+
+  return { error: 'Invalid response from finalize-fortune-photo' };
+};
+
+export const deleteFortunePhoto = async (
+  fortuneId: string,
+  mediaId: string
+): Promise<EdgeFunctionResponse<{ deleted: boolean; remaining: number }>> => {
+  return callEdge<{ deleted: boolean; remaining: number }>('finalize-fortune-photo', {
+    action: 'DELETE',
+    fortune_id: fortuneId,
+    media_id: mediaId,
+  }, true);
+};
+
+/**
+ * `mediaIds` must list every photo of the fortune, in the new order.
+ */
+export const reorderFortunePhotos = async (
+  fortuneId: string,
+  mediaIds: string[]
+): Promise<EdgeFunctionResponse<{ reordered: boolean }>> => {
+  return callEdge<{ reordered: boolean }>('finalize-fortune-photo', {
+    action: 'REORDER',
+    fortune_id: fortuneId,
+    media_ids: mediaIds,
+  }, true);
+};
+
+// -------------------------
+// Fortune trash helpers
+// -------------------------
+
+export interface FortuneTrashPurgeResponse {
+  purged: number;
+}
+
+/**
+ * Permanently deletes trashed fortunes (photos included). Moving to and restoring from
+ * the trash are plain RPCs, see `deleteFortune` / `restoreFortune`.
+ */
+export const purgeTrashedFortunes = async (
+  ids: string[]
+): Promise<EdgeFunctionResponse<FortuneTrashPurgeResponse>> => {
+  return callEdge<FortuneTrashPurgeResponse>('fortune-trash', { action: 'purge', ids }, true);
+};
+
+export const emptyTrash = async (): Promise<EdgeFunctionResponse<FortuneTrashPurgeResponse>> => {
+  return callEdge<FortuneTrashPurgeResponse>('fortune-trash', { action: 'empty' }, true);
+};
+
+/**
+ * Purges the caller's fortunes that have been in the trash longer than the retention window.
+ */
+export const sweepExpiredTrash = async (): Promise<EdgeFunctionResponse<FortuneTrashPurgeResponse>> => {
+  return callEdge<FortuneTrashPurgeResponse>('fortune-trash', { action: 'sweep' }, true);
+};
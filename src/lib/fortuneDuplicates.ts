@@ -0,0 +1,167 @@
+import { endOfDay, format, startOfDay } from 'date-fns';
+import type { Fortune } from '@/types/fortune';
+import { deleteFortune, getFortunesPage, getPendingFortunes, updateFortune } from './fortunes';
+import { emitAppEvent } from './appEvents';
+import { isJournalPlaceholder } from './journalCrypto';
+
+// Dice coefficient of the normalized texts at or above which two fortunes count as duplicates
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.85;
+
+const SCAN_PAGE_SIZE = 500;
+
+export interface DuplicateCandidate {
+  text: string;
+  category: string;
+  date: Date;
+}
+
+export interface DuplicateCluster {
+  // "<yyyy-MM-dd>|<category>|<first fortune id>"
+  key: string;
+  day: string;
+  category: string;
+  // Oldest first; the first one is the suggested keeper
+  fortunes: Fortune[];
+}
+
+/**
+ * Lowercases, strips accents, punctuation and emoji, and collapses whitespace,
+ * so "Got paid!! 💸" and "got paid" compare equal.
+ */
+export const normalizeFortuneText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const pair = value.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Dice coefficient over character bigrams of the normalized texts (1 = identical)
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeFortuneText(a);
+  const right = normalizeFortuneText(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let overlap = 0;
+  leftPairs.forEach((count, pair) => {
+    overlap += Math.min(count, rightPairs.get(pair) ?? 0);
+  });
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+const dayKey = (value: Date | string) => format(typeof value === 'string' ? new Date(value) : value, 'yyyy-MM-dd');
+
+const sameCategory = (a: string | null | undefined, b: string | null | undefined) =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+// Locked private-journal entries all share the same placeholder text and must not match each other
+const comparable = (fortune: Fortune): fortune is Fortune & { text: string } =>
+  !!fortune.text && !isJournalPlaceholder(fortune.text);
+
+/**
+ * Fortunes already saved on the candidate's (local) day, including ones still waiting in the
+ * offline outbox, that look like the same entry. Most similar first.
+ */
+export async function findSimilarFortunes(userId: string, candidate: DuplicateCandidate): Promise<Fortune[]> {
+  const [page, pending] = await Promise.all([
+    getFortunesPage(startOfDay(candidate.date).toISOString(), endOfDay(candidate.date).toISOString(), null, SCAN_PAGE_SIZE),
+    getPendingFortunes(userId),
+  ]);
+  const day = dayKey(candidate.date);
+
+  return [...pending, ...page.fortunes]
+    .filter((fortune) => comparable(fortune) && dayKey(fortune.created_at) === day && sameCategory(fortune.category, candidate.category))
+    .map((fortune) => ({ fortune, score: textSimilarity(fortune.text as string, candidate.text) }))
+    .filter(({ score }) => score >= DUPLICATE_SIMILARITY_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .map(({ fortune }) => fortune);
+}
+
+/**
+ * Groups fortunes into clusters of likely duplicates (same day, same category, similar text).
+ * Similarity is transitive within a cluster: A~B and B~C puts all three together.
+ */
+export function findDuplicateClusters(fortunes: Fortune[]): DuplicateCluster[] {
+  const groups = new Map<string, Fortune[]>();
+  for (const fortune of fortunes) {
+    if (!comparable(fortune)) continue;
+    const key = `${dayKey(fortune.created_at)}|${(fortune.category ?? '').trim().toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), fortune]);
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  groups.forEach((group, key) => {
+    if (group.length < 2) return;
+    const sorted = [...group].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    // Union-find over the group's indices
+    const parent = sorted.map((_, index) => index);
+    const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        if (textSimilarity(sorted[i].text as string, sorted[j].text as string) >= DUPLICATE_SIMILARITY_THRESHOLD) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+
+    const byRoot = new Map<number, Fortune[]>();
+    sorted.forEach((fortune, index) => {
+      const root = find(index);
+      byRoot.set(root, [...(byRoot.get(root) ?? []), fortune]);
+    });
+    byRoot.forEach((members, root) => {
+      if (members.length < 2) return;
+      clusters.push({
+        key: `${key}|${sorted[root].id}`,
+        day: dayKey(members[0].created_at),
+        category: members[0].category ?? '',
+        fortunes: members,
+      });
+    });
+  });
+
+  return clusters.sort((a, b) => b.day.localeCompare(a.day));
+}
+
+// Reads the whole history page by page and returns its duplicate clusters
+export async function scanDuplicateFortunes(onProgress?: (scanned: number) => void): Promise<DuplicateCluster[]> {
+  const all: Fortune[] = [];
+  let page = await getFortunesPage(null, null, null, SCAN_PAGE_SIZE);
+  all.push(...page.fortunes);
+  onProgress?.(all.length);
+  while (page.nextCursor) {
+    page = await getFortunesPage(null, null, page.nextCursor, SCAN_PAGE_SIZE);
+    all.push(...page.fortunes);
+    onProgress?.(all.length);
+  }
+  return findDuplicateClusters(all);
+}
+
+/**
+ * Resolves a cluster: the kept fortune gains the tags of the others, which are moved to the trash
+ * (restorable from Settings → Trash until it's emptied).
+ */
+export async function mergeDuplicates(keep: Fortune, duplicates: Fortune[]): Promise<void> {
+  const tags = Array.from(new Set([...(keep.tags ?? []), ...duplicates.flatMap((fortune) => fortune.tags ?? [])]));
+  if (tags.length > (keep.tags ?? []).length) {
+    await updateFortune(keep.id, { tags });
+  }
+  for (const duplicate of duplicates) {
+    await deleteFortune(duplicate.id);
+  }
+  emitAppEvent('fortunesUpdated');
+}
@@ -0,0 +1,309 @@
+import { supabase } from '@/integrations/supabase/client';
+import { evaluateAchievements } from './achievements';
+import { isCurrencyCode } from './currency';
+import { sealJournalText } from './journalCrypto';
+
+// Validation limits mirror supabase/functions/validate-and-insert-fortune
+const MAX_TEXT_LENGTH = 10000;
+const MAX_CATEGORY_LENGTH = 100;
+const MIN_FORTUNE_VALUE = 0;
+const MAX_FORTUNE_VALUE = 1000000;
+
+export const MAX_IMPORT_ROWS = 5000;
+const IMPORT_BATCH_SIZE = 100;
+
+const IMPACT_LEVELS = ['small_step', 'milestone', 'big_win'] as const;
+type ImpactLevel = typeof IMPACT_LEVELS[number];
+
+export const IMPORT_FIELDS = ['text', 'category', 'created_at', 'fortune_value', 'currency', 'impact_level'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Source column for each target field (null = not imported)
+export type ImportColumnMapping = Record<ImportField, string | null>;
+
+export interface ParsedImportFile {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportRow {
+  text: string;
+  category: string;
+  created_at: string | null;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: ImpactLevel | null;
+}
+
+export interface ValidatedImportRow {
+  rowNumber: number; // 1-based, as shown in a spreadsheet (excluding the header)
+  row?: ImportRow;
+  error?: string;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  success: boolean;
+  error?: string;
+}
+
+// Header names we recognise for each field when guessing the mapping
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  text: ['text', 'fortune', 'description', 'note', 'entry', 'gratitude'],
+  category: ['category', 'type', 'kind'],
+  created_at: ['created_at', 'date', 'created', 'timestamp', 'day'],
+  fortune_value: ['fortune_value', 'value', 'amount', 'money'],
+  currency: ['currency', 'currency_code', 'ccy'],
+  impact_level: ['impact_level', 'impact', 'level', 'size'],
+};
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+export function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip UTF-8 BOM left by spreadsheet exports
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Parses a CSV (header row required) or JSON (array of objects) export into string cells
+ */
+export function parseImportFile(content: string, fileName: string): ParsedImportFile {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    // Accept either a bare array or an { fortunes: [...] } wrapper
+    const list = Array.isArray(data) ? data : (data as { fortunes?: unknown })?.fortunes;
+    if (!Array.isArray(list)) {
+      throw new Error('JSON must be an array of fortune objects');
+    }
+
+    const columns = new Set<string>();
+    const rows = list.map((item) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        return {};
+      }
+      const row: Record<string, string> = {};
+      for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+        columns.add(key);
+        row[key] = value === null || value === undefined ? '' : String(value);
+      }
+      return row;
+    });
+    return { columns: Array.from(columns), rows };
+  }
+
+  const [header, ...body] = parseCsv(content);
+  if (!header) {
+    throw new Error('File is empty');
+  }
+  const columns = header.map((h) => h.trim());
+  const rows = body.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+  );
+  return { columns, rows };
+}
+
+export function guessColumnMapping(columns: string[]): ImportColumnMapping {
+  const normalized = columns.map((c) => c.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const mapping = {} as ImportColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex((c) => COLUMN_ALIASES[field].includes(c));
+    mapping[field] = index >= 0 ? columns[index] : null;
+  }
+  return mapping;
+}
+
+const normalizeImpactLevel = (raw: string): ImpactLevel | null | 'invalid' => {
+  const value = raw.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (!value) return null;
+  if ((IMPACT_LEVELS as readonly string[]).includes(value)) return value as ImpactLevel;
+  // Friendly spellings from spreadsheets
+  if (value === 'small' || value === 'step') return 'small_step';
+  if (value === 'big' || value === 'win') return 'big_win';
+  return 'invalid';
+};
+
+export function validateImportRow(raw: Record<string, string>, mapping: ImportColumnMapping, rowNumber: number): ValidatedImportRow {
+  const get = (field: ImportField) => (mapping[field] ? (raw[mapping[field] as string] ?? '') : '');
+
+  const text = get('text').trim();
+  if (!text) {
+    return { rowNumber, error: 'Text cannot be empty' };
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    return { rowNumber, error: `Text must be ${MAX_TEXT_LENGTH} characters or less` };
+  }
+
+  // Rows without a category fall back to the same default as fortune_add
+  const category = get('category').trim() || 'General';
+  if (category.length > MAX_CATEGORY_LENGTH) {
+    return { rowNumber, error: `Category must be ${MAX_CATEGORY_LENGTH} characters or less` };
+  }
+  if (/<script|<\/script|javascript:/i.test(category)) {
+    return { rowNumber, error: 'Invalid category format' };
+  }
+
+  let fortuneValue: number | null = null;
+  const rawValue = get('fortune_value').trim().replace(/[$€£¥,\s]/g, '');
+  if (rawValue) {
+    fortuneValue = Number(rawValue);
+    if (isNaN(fortuneValue)) {
+      return { rowNumber, error: 'Fortune value must be a number' };
+    }
+    if (fortuneValue < MIN_FORTUNE_VALUE || fortuneValue > MAX_FORTUNE_VALUE) {
+      return { rowNumber, error: `Fortune value must be between ${MIN_FORTUNE_VALUE} and ${MAX_FORTUNE_VALUE}` };
+    }
+    fortuneValue = Math.round(fortuneValue * 100) / 100;
+  }
+
+  const currency = get('currency').trim().toUpperCase() || null;
+  if (currency && !isCurrencyCode(currency)) {
+    return { rowNumber, error: 'Currency must be a 3-letter code like USD or EUR' };
+  }
+
+  let createdAt: string | null = null;
+  const rawDate = get('created_at').trim();
+  if (rawDate) {
+    const date = new Date(rawDate);
+    if (isNaN(date.getTime())) {
+      return { rowNumber, error: 'Created at must be a valid ISO 8601 date' };
+    }
+    // Prevent future dates more than 1 day ahead
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    if (date > tomorrow) {
+      return { rowNumber, error: 'Created at cannot be in the future' };
+    }
+    createdAt = date.toISOString();
+  }
+
+  const impactLevel = normalizeImpactLevel(get('impact_level'));
+  if (impactLevel === 'invalid') {
+    return { rowNumber, error: `Impact level must be one of ${IMPACT_LEVELS.join(', ')}` };
+  }
+
+  return {
+    rowNumber,
+    row: {
+      text,
+      category,
+      created_at: createdAt,
+      fortune_value: fortuneValue,
+      currency,
+      impact_level: impactLevel,
+    },
+  };
+}
+
+/**
+ * Inserts validated rows through the encrypted fortune_import RPC, a batch per call.
+ * The server checks the plan's remaining capacity; rows past it come back as 'Plan limit reached'.
+ * Achievements are evaluated once at the end rather than per batch.
+ * Historical imports intentionally skip track_daily_action so they don't rewrite streaks.
+ */
+export async function importFortunes(
+  rows: ValidatedImportRow[],
+  onProgress?: (done: number, total: number) => void,
+  defaultCurrency?: string
+): Promise<ImportRowResult[]> {
+  const results: ImportRowResult[] = [];
+  const valid = rows.filter((r): r is ValidatedImportRow & { row: ImportRow } => !!r.row);
+  let limitReached = false;
+
+  for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+    const batch = valid.slice(i, i + IMPORT_BATCH_SIZE);
+
+    if (limitReached) {
+      batch.forEach(({ rowNumber }) => results.push({ rowNumber, success: false, error: 'Plan limit reached' }));
+    } else {
+      const payload = await Promise.all(
+        batch.map(async ({ row }) => ({
+          text: await sealJournalText(row.text),
+          category: row.category,
+          created_at: row.created_at,
+          impact_level: row.impact_level,
+          fortune_value: row.fortune_value,
+          // Values without a currency column are taken to be in the display currency
+          currency: row.fortune_value !== null ? row.currency ?? defaultCurrency ?? null : null,
+        }))
+      );
+      const { data: inserted, error } = await supabase.rpc('fortune_import', { p_rows: payload });
+
+      batch.forEach(({ rowNumber }, index) => {
+        if (error) {
+          results.push({ rowNumber, success: false, error: error.message || 'Insert failed' });
+        } else if (index < (inserted ?? 0)) {
+          results.push({ rowNumber, success: true });
+        } else {
+          results.push({ rowNumber, success: false, error: 'Plan limit reached' });
+        }
+      });
+      limitReached = !error && (inserted ?? 0) < batch.length;
+    }
+
+    onProgress?.(Math.min(i + IMPORT_BATCH_SIZE, valid.length), valid.length);
+  }
+
+  // fortune_import defers achievements, challenges, XP and avatars to this single evaluation;
+  // should it fail, the next app start evaluates anyway
+  if (results.some((r) => r.success)) {
+    await evaluateAchievements().catch((error) => console.warn('[IMPORT] Achievement evaluation failed:', error));
+  }
+
+  console.log('[IMPORT] done', {
+    inserted: results.filter((r) => r.success).length,
+    failed: results.filter((r) => !r.success).length,
+  });
+  return results;
+}
@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { Fortune } from '@/types/fortune';
+import { openJournalRows } from './journalCrypto';
 
 // Centralized fortune_list fetcher with guards to prevent infinite loops
 // This ensures fortune_list is only called:
@@ -31,6 +32,87 @@ const fetchState = {
   DEBOUNCE_MS: 5000, // 5 seconds - reduced from 30s to allow faster tab switches
 };
 
+// Full-history fetches walk the keyset in chunks so no single response holds every fortune
+const FULL_LIST_CHUNK_SIZE = 1000;
+
+// Keyset cursor: the last fortune of the previous page (list order is created_at desc, id desc)
+export interface FortuneCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface FortunePageOptions {
+  p_from?: string | null;
+  p_to?: string | null;
+  cursor?: FortuneCursor | null;
+  limit: number;
+}
+
+export interface FortunePage {
+  fortunes: Fortune[];
+  // null once the last page has been read
+  nextCursor: FortuneCursor | null;
+}
+
+// Identical page requests in flight share one RPC call (e.g. a scroll handler firing twice)
+const pagesInFlight = new Map<string, Promise<FortunePage>>();
+
+/**
+ * Fetches one page of fortune_list. Pages are explicit requests (first load or scrolling),
+ * so only concurrent duplicates are guarded, not repeats.
+ */
+export async function fetchFortunePage(options: FortunePageOptions): Promise<FortunePage> {
+  const { p_from = null, p_to = null, cursor = null, limit } = options;
+  const key = JSON.stringify([p_from, p_to, cursor?.created_at ?? null, cursor?.id ?? null, limit]);
+
+  const existing = pagesInFlight.get(key);
+  if (existing) {
+    console.log('[FORTUNE_LIST] join: inflight page');
+    return existing;
+  }
+
+  const p = (async (): Promise<FortunePage> => {
+    try {
+      const { data, error } = await supabase.rpc('fortune_list', {
+        // Omitted arguments default to NULL (unbounded / first page)
+        p_from: p_from ?? undefined,
+        p_to: p_to ?? undefined,
+        p_cursor_created_at: cursor?.created_at,
+        p_cursor_id: cursor?.id,
+        p_limit: limit,
+      });
+
+      if (error) {
+        console.error('[FORTUNE_LIST] page error:', error);
+        throw error;
+      }
+
+      const fortunes = await openJournalRows((data || []) as Fortune[], ['text']);
+      const last = fortunes[fortunes.length - 1];
+      return {
+        fortunes,
+        nextCursor: fortunes.length === limit && last ? { created_at: last.created_at, id: last.id } : null,
+      };
+    } finally {
+      pagesInFlight.delete(key);
+    }
+  })();
+
+  pagesInFlight.set(key, p);
+  return p;
+}
+
+async function fetchAllFortunesInChunks(): Promise<Fortune[]> {
+  const all: Fortune[] = [];
+  let cursor: FortuneCursor | null = null;
+  do {
+    const page = await fetchFortunePage({ cursor, limit: FULL_LIST_CHUNK_SIZE });
+    all.push(...page.fortunes);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return all;
+}
+
 /**
  * Centralized function to fetch fortune_list with guards
  * @param options - Fetch options including date range and force flag
@@ -86,21 +168,23 @@ export async function fetchFortuneList(options: FetchOptions = {}): Promise<Fort
 
   const p = (async (): Promise<Fortune[]> => {
     try {
-      const params: any = {};
-      if (p_from !== undefined) params.p_from = p_from;
-      if (p_to !== undefined) params.p_to = p_to;
+      let result: Fortune[];
+      if (isFullFetch) {
+        result = await fetchAllFortunesInChunks();
+      } else {
+        const params: any = {};
+        if (p_from !== undefined) params.p_from = p_from;
+        if (p_to !== undefined) params.p_to = p_to;
 
-      const { data, error } = await (supabase.rpc as any)(
-        'fortune_list',
-        Object.keys(params).length > 0 ? params : undefined
-      );
+        const { data, error } = await (supabase.rpc as any)('fortune_list', params);
 
-      if (error) {
-        console.error('[FORTUNE_LIST] error:', error);
-        throw error;
-      }
+        if (error) {
+          console.error('[FORTUNE_LIST] error:', error);
+          throw error;
+        }
 
-      const result = (data || []) as Fortune[];
+        result = await openJournalRows((data || []) as Fortune[], ['text']);
+      }
       if (isFullFetch) {
         fetchState.fullLastResult = result;
       } else {
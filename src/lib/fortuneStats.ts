@@ -0,0 +1,77 @@
+import { parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getLocalTimezone } from './fortunes';
+import { rankTags } from './tags';
+
+// fortune_day_stats is read in ranges; PostgREST caps a single response at 1000 rows
+const STATS_PAGE_SIZE = 500;
+
+/**
+ * Fortunes of one local day with the same category, currency and tags, counted on the server
+ */
+export interface FortuneDayStat {
+  day: string; // yyyy-MM-dd in the user's timezone
+  category: string;
+  currency: string | null;
+  tags: string[];
+  fortune_count: number;
+  // Fortunes with a non-zero value, and the sum of those values
+  value_count: number;
+  value_total: number;
+}
+
+/**
+ * Per-day fortune totals for the whole history (trash excluded), oldest day first
+ */
+export async function getFortuneDayStats(timezone: string = getLocalTimezone()): Promise<FortuneDayStat[]> {
+  const stats: FortuneDayStat[] = [];
+  for (let from = 0; ; from += STATS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('fortune_day_stats', { p_timezone: timezone })
+      .range(from, from + STATS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    const page = (data ?? []).map((row) => ({
+      ...row,
+      value_total: Number(row.value_total) || 0,
+    }));
+    stats.push(...page);
+    if (page.length < STATS_PAGE_SIZE) return stats;
+  }
+}
+
+// Local midnight of the stat's day
+export const statDate = (stat: Pick<FortuneDayStat, 'day'>): Date => parseISO(stat.day);
+
+export const countFortunes = (stats: Pick<FortuneDayStat, 'fortune_count'>[]): number =>
+  stats.reduce((total, stat) => total + stat.fortune_count, 0);
+
+/**
+ * Values in the shape sumInCurrency / aggregateUnitValues take, one item per stat row
+ */
+export const statValues = (stats: FortuneDayStat[]) =>
+  stats
+    .filter((stat) => stat.value_count > 0)
+    .map((stat) => ({
+      category: stat.category,
+      fortune_value: stat.value_total,
+      currency: stat.currency,
+      entries: stat.value_count,
+    }));
+
+/**
+ * Distinct tags across the stats, most used first
+ */
+export const collectStatTags = (stats: FortuneDayStat[]): string[] =>
+  rankTags(stats.flatMap((stat) => Array.from({ length: stat.fortune_count }, () => stat.tags).flat()));
+
+/**
+ * Fortune count per day (yyyy-MM-dd), for the calendar
+ */
+export function countByDay(stats: FortuneDayStat[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const stat of stats) {
+    counts.set(stat.day, (counts.get(stat.day) ?? 0) + stat.fortune_count);
+  }
+  return counts;
+}
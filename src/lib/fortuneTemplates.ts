@@ -0,0 +1,146 @@
+import { format, getDaysInMonth, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { emitAppEvent } from './appEvents';
+import { openJournalRows, sealJournalText } from './journalCrypto';
+
+export type TemplateRecurrence = 'weekly' | 'monthly';
+
+export interface FortuneTemplate {
+  id: string;
+  name: string;
+  text: string;
+  category: string;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: 'small_step' | 'milestone' | 'big_win';
+  tags: string[];
+  recurrence: TemplateRecurrence | null;
+  // 0-6 (Sunday first) for weekly, 1-31 for monthly
+  recurrence_day: number | null;
+  // Last occurrence (YYYY-MM-DD) the user confirmed or skipped
+  last_handled_on: string | null;
+  position: number;
+  created_at: string;
+}
+
+export type FortuneTemplateInput = Pick<
+  FortuneTemplate,
+  'name' | 'text' | 'category' | 'fortune_value' | 'currency' | 'impact_level' | 'tags' | 'recurrence' | 'recurrence_day'
+>;
+
+// A recurring template whose latest occurrence hasn't been confirmed or skipped yet
+export interface DueTemplate {
+  template: FortuneTemplate;
+  occurrence: string; // YYYY-MM-DD
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TEMPLATE_COLUMNS =
+  'id, name, text, category, fortune_value, currency, impact_level, tags, recurrence, recurrence_day, last_handled_on, position, created_at';
+
+const ordinal = (day: number): string => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+};
+
+export const describeRecurrence = (template: Pick<FortuneTemplate, 'recurrence' | 'recurrence_day'>): string | null => {
+  if (template.recurrence === 'weekly' && template.recurrence_day !== null) {
+    return `Every ${WEEKDAY_NAMES[template.recurrence_day]}`;
+  }
+  if (template.recurrence === 'monthly' && template.recurrence_day !== null) {
+    return `Monthly on the ${ordinal(template.recurrence_day)}`;
+  }
+  return null;
+};
+
+/**
+ * Most recent occurrence on or before `today`. Monthly days past the month's end fall on its last day
+ * (the 31st is the 30th in April).
+ */
+export function getLatestOccurrence(template: FortuneTemplate, today: Date = new Date()): Date | null {
+  if (template.recurrence_day === null) return null;
+
+  if (template.recurrence === 'weekly') {
+    const back = (today.getDay() - template.recurrence_day + 7) % 7;
+    return subDays(today, back);
+  }
+
+  if (template.recurrence === 'monthly') {
+    const inMonth = (year: number, month: number) =>
+      new Date(year, month, Math.min(template.recurrence_day as number, getDaysInMonth(new Date(year, month, 1))));
+    const thisMonth = inMonth(today.getFullYear(), today.getMonth());
+    return thisMonth.getDate() <= today.getDate() ? thisMonth : inMonth(today.getFullYear(), today.getMonth() - 1);
+  }
+
+  return null;
+}
+
+/**
+ * Recurring templates with an occurrence waiting for confirmation. Only the latest occurrence counts
+ * (missed ones aren't piled up), and occurrences before the template existed are ignored.
+ */
+export function getDueTemplates(templates: FortuneTemplate[], today: Date = new Date()): DueTemplate[] {
+  return templates.flatMap((template) => {
+    const latest = getLatestOccurrence(template, today);
+    if (!latest) return [];
+    const occurrence = format(latest, 'yyyy-MM-dd');
+    const createdOn = format(new Date(template.created_at), 'yyyy-MM-dd');
+    if (occurrence < createdOn) return [];
+    if (template.last_handled_on && template.last_handled_on >= occurrence) return [];
+    return [{ template, occurrence }];
+  });
+}
+
+export async function listFortuneTemplates(userId: string): Promise<FortuneTemplate[]> {
+  const { data, error } = await supabase
+    .from('fortune_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return openJournalRows((data ?? []) as FortuneTemplate[], ['text']);
+}
+
+// Creates a template, or updates it when an id is given
+export async function saveFortuneTemplate(userId: string, input: FortuneTemplateInput, id?: string): Promise<void> {
+  const row = {
+    ...input,
+    name: input.name.trim(),
+    text: await sealJournalText(input.text.trim()),
+    recurrence_day: input.recurrence ? input.recurrence_day : null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = id
+    ? await supabase.from('fortune_templates').update(row).eq('id', id).eq('user_id', userId)
+    : await supabase.from('fortune_templates').insert({ ...row, user_id: userId });
+
+  if (error) throw error;
+  emitAppEvent('templatesChanged');
+}
+
+export async function deleteFortuneTemplate(userId: string, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('fortune_templates')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  emitAppEvent('templatesChanged');
+}
+
+// Records that an occurrence was confirmed (fortune added) or skipped, so it isn't suggested again
+export async function markTemplateHandled(userId: string, id: string, occurrence: string): Promise<void> {
+  const { error } = await supabase
+    .from('fortune_templates')
+    .update({ last_handled_on: occurrence })
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  emitAppEvent('templatesChanged');
+}
@@ -1,27 +1,86 @@
 import { supabase } from '@/integrations/supabase/client';
 import { Fortune, Achievement } from '@/types/fortune';
-import { fetchFortuneList } from './fortuneListFetcher';
+import { fetchFortuneList, fetchFortunePage, type FortuneCursor, type FortunePage } from './fortuneListFetcher';
+import {
+  amendQueuedCreate,
+  clearOutboxOpFailure,
+  createTempFortuneId,
+  discardQueuedCreate,
+  enqueueOutboxOp,
+  getOutboxOps,
+  isNetworkError,
+  isOffline,
+  isTempFortuneId,
+  markOutboxOpFailed,
+  remapOutboxFortuneId,
+  removeOutboxOp,
+  type OutboxCreatePayload,
+  type OutboxOp,
+} from './offlineOutbox';
+import { emitAppEvent } from './appEvents';
+import { openJournalRows, sealJournalText } from './journalCrypto';
 
 // Helper to detect legacy-looking data (optional UI badge)
 export const looksLegacy = (text?: string | null): boolean => 
   !!text && text.length > 60 && /^[A-Za-z0-9+/=\n\r]+$/.test(text);
 
+type StreakInfo = { firstOfDay: boolean; currentStreak: number; longestStreak: number };
+
 // Add a new fortune using RPC
+// While offline the fortune is queued in the outbox and a temporary id is returned (queued: true)
 export async function addFortune(
   text: string,
   category?: string | null,
   level?: number | null,
   selectedDate?: Date | null,
-  impactLevel?: string | null
-): Promise<{ fortuneId: string; streakInfo?: { firstOfDay: boolean; currentStreak: number; longestStreak: number } }> {
+  impactLevel?: string | null,
+  tags?: string[] | null,
+  fortuneValue?: number | null,
+  currency?: string | null
+): Promise<{ fortuneId: string; streakInfo?: StreakInfo; queued?: boolean }> {
   console.log('[FORTUNES:addFortune] Adding fortune with RPC', { selectedDate });
-  
+
+  // Capture the creation time now so a later replay lands on the same day and streak
+  const createdAt = selectedDate ?? new Date();
+  const payload: OutboxCreatePayload = {
+    // Private journal texts are encrypted before they reach the outbox or the server
+    text: await sealJournalText(text),
+    category: category ?? null,
+    level: level ?? null,
+    createdAt: createdAt.toISOString(),
+    impactLevel: impactLevel ?? null,
+    tags: tags ?? null,
+    fortuneValue: fortuneValue ?? null,
+    currency: currency ?? null,
+  };
+
+  if (isOffline()) {
+    return queueFortuneCreate(payload);
+  }
+
+  try {
+    return await addFortuneRemote(payload, selectedDate?.toISOString() ?? null);
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return queueFortuneCreate(payload);
+    }
+    throw error;
+  }
+}
+
+async function addFortuneRemote(
+  payload: OutboxCreatePayload,
+  createdAtOverride: string | null
+): Promise<{ fortuneId: string; streakInfo?: StreakInfo }> {
   const { data, error } = await supabase.rpc('fortune_add', {
-    p_text: text,
-    p_category: category ?? null,
-    p_level: level ?? null,
-    p_created_at: selectedDate?.toISOString() ?? null,
-    p_impact_level: (impactLevel as 'big_win' | 'milestone' | 'small_step' | null) ?? null,
+    p_text: payload.text,
+    p_category: payload.category,
+    p_level: payload.level,
+    p_created_at: createdAtOverride,
+    p_impact_level: (payload.impactLevel as 'big_win' | 'milestone' | 'small_step' | null) ?? null,
+    p_tags: payload.tags,
+    p_fortune_value: payload.fortuneValue ?? null,
+    p_currency: payload.currency ?? null,
   });
 
   if (error) {
@@ -35,7 +94,7 @@ export async function addFortune(
   try {
     const { data: streakData, error: streakError } = await supabase.rpc('track_daily_action', {
       source_type: 'fortune',
-      event_ts: selectedDate?.toISOString() ?? new Date().toISOString(),
+      event_ts: createdAtOverride ?? new Date().toISOString(),
     });
 
     if (streakError) {
@@ -44,7 +103,7 @@ export async function addFortune(
 
     return { 
       fortuneId, 
-      streakInfo: streakData as { firstOfDay: boolean; currentStreak: number; longestStreak: number } 
+      streakInfo: streakData as StreakInfo 
     };
   } catch (streakError) {
     console.error('Error tracking daily action:', streakError);
@@ -52,6 +111,22 @@ export async function addFortune(
   }
 }
 
+async function getSessionUserId(): Promise<string> {
+  // getSession reads the persisted session, so it also works without network
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    throw new Error('You must be logged in to track fortunes');
+  }
+  return session.user.id;
+}
+
+async function queueFortuneCreate(payload: OutboxCreatePayload): Promise<{ fortuneId: string; queued: true }> {
+  const userId = await getSessionUserId();
+  const fortuneId = createTempFortuneId();
+  await enqueueOutboxOp({ kind: 'create', userId, fortuneId, payload });
+  return { fortuneId, queued: true };
+}
+
 // Get initial list of fortunes
 // Uses centralized fetcher with guards to prevent infinite loops
 export async function getFortunesList(force = false): Promise<Fortune[]> {
@@ -82,8 +157,7 @@ export async function getFortunesListPaginated(
   return result;
 }
 
-// Get fortunes for today (utility function)
-export async function getTodayFortunes(force = false): Promise<Fortune[]> {
+function getUtcTodayRange(): { from: string; to: string } {
   const now = new Date();
   const startOfDay = new Date(Date.UTC(
     now.getUTCFullYear(),
@@ -91,12 +165,32 @@ export async function getTodayFortunes(force = false): Promise<Fortune[]> {
     now.getUTCDate()
   ));
   const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+  return { from: startOfDay.toISOString(), to: endOfDay.toISOString() };
+}
 
-  return getFortunesListPaginated(
-    startOfDay.toISOString(),
-    endOfDay.toISOString(),
-    force
-  );
+// Get fortunes for today (utility function)
+export async function getTodayFortunes(force = false): Promise<Fortune[]> {
+  const { from, to } = getUtcTodayRange();
+  return getFortunesListPaginated(from, to, force);
+}
+
+export type { FortuneCursor, FortunePage };
+
+export const FORTUNE_PAGE_SIZE = 50;
+
+// One keyset page of fortunes, newest first; pass the previous page's nextCursor for the next one
+export async function getFortunesPage(
+  pFrom: string | null,
+  pTo: string | null,
+  cursor: FortuneCursor | null = null,
+  limit = FORTUNE_PAGE_SIZE
+): Promise<FortunePage> {
+  return fetchFortunePage({ p_from: pFrom, p_to: pTo, cursor, limit });
+}
+
+export async function getTodayFortunesPage(cursor: FortuneCursor | null = null): Promise<FortunePage> {
+  const { from, to } = getUtcTodayRange();
+  return getFortunesPage(from, to, cursor);
 }
 
 // Get fortune counts using existing RPC
@@ -138,35 +232,340 @@ export async function getFortunesByUser(userId: string, force = false): Promise<
   return getFortunesList(force);
 }
 
+type FortuneUpdates = { text?: string; category?: string; fortune_value?: number; currency?: string; impact_level?: string; tags?: string[] };
+
 // Update fortune using RPC to handle encryption properly
-export async function updateFortune(id: string, updates: { text?: string; category?: string; fortune_value?: number; impact_level?: string }) {
+// Returns { queued: true } when the edit was stored in the outbox instead
+export async function updateFortune(id: string, updates: FortuneUpdates): Promise<{ queued?: boolean }> {
   console.log('[FORTUNES:updateFortune] Updating fortune with RPC', { id, updates });
-  
-  const { data, error } = await supabase.rpc('fortune_update', {
+
+  if (updates.text) {
+    updates = { ...updates, text: await sealJournalText(updates.text) };
+  }
+
+  // Fortune hasn't reached the server yet - edit the queued create in place
+  if (isTempFortuneId(id)) {
+    const userId = await getSessionUserId();
+    if (await amendQueuedCreate(userId, id, updates)) {
+      return { queued: true };
+    }
+    throw new Error('Fortune is still syncing. Please try again in a moment.');
+  }
+
+  if (isOffline()) {
+    return queueFortuneOp('update', id, updates);
+  }
+
+  try {
+    await updateFortuneRemote(id, updates);
+    return {};
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return queueFortuneOp('update', id, updates);
+    }
+    throw error;
+  }
+}
+
+async function updateFortuneRemote(id: string, updates: FortuneUpdates) {
+  const { error } = await supabase.rpc('fortune_update', {
     p_id: id,
     p_text: updates.text || null,
     p_category: updates.category || null,
     p_fortune_value: updates.fortune_value || null,
-    p_impact_level: updates.impact_level || null
+    p_currency: updates.currency || null,
+    p_impact_level: updates.impact_level || null,
+    // undefined leaves tags untouched; [] clears them
+    p_tags: updates.tags ?? null
   });
 
   if (error) {
     console.error('[RPC] fortune_update error:', error);
     throw error;
   }
+}
+
+export async function deleteFortune(id: string): Promise<{ queued?: boolean }> {
+  if (isTempFortuneId(id)) {
+    await discardQueuedCreate(await getSessionUserId(), id);
+    return {};
+  }
 
-  return data;
+  if (isOffline()) {
+    return queueFortuneOp('delete', id);
+  }
+
+  try {
+    await deleteFortuneRemote(id);
+    return {};
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return queueFortuneOp('delete', id);
+    }
+    throw error;
+  }
 }
 
-export async function deleteFortune(id: string) {
-  const { error } = await supabase
-    .from('fortunes')
-    .delete()
-    .eq('id', id);
+// Trashed fortunes are purged for good after this many days (see the fortune-trash edge function)
+export const TRASH_RETENTION_DAYS = 30;
+
+// Deleting moves the fortune to the trash; it can be restored until it's purged
+async function deleteFortuneRemote(id: string) {
+  const { error } = await supabase.rpc('fortune_trash', { p_id: id });
 
   if (error) throw error;
 }
 
+export async function restoreFortune(id: string): Promise<void> {
+  const { error } = await supabase.rpc('fortune_restore', { p_id: id });
+
+  if (error) {
+    console.error('[RPC] fortune_restore error:', error);
+    throw error;
+  }
+}
+
+export interface TrashedFortune {
+  id: string;
+  text: string;
+  category: string;
+  created_at: string;
+  deleted_at: string;
+  fortune_value: number | null;
+  impact_level: Fortune['impact_level'];
+}
+
+// Trashed fortunes, most recently deleted first
+export async function getTrashedFortunes(): Promise<TrashedFortune[]> {
+  const { data, error } = await supabase.rpc('fortune_trash_list');
+
+  if (error) throw error;
+  return openJournalRows((data ?? []) as TrashedFortune[], ['text']);
+}
+
+export interface FortuneRevision {
+  id: string;
+  text: string;
+  category: string;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: Fortune['impact_level'];
+  tags: string[];
+  // When this version was replaced by a newer one
+  created_at: string;
+}
+
+// Previous versions of a fortune, newest first
+export async function getFortuneRevisions(fortuneId: string): Promise<FortuneRevision[]> {
+  const { data, error } = await supabase.rpc('fortune_revisions_list', { p_fortune_id: fortuneId });
+
+  if (error) throw error;
+  return openJournalRows((data ?? []) as FortuneRevision[], ['text']);
+}
+
+// Restores a previous version; the version being replaced is kept in the history too
+export async function revertFortune(fortuneId: string, revisionId: string): Promise<void> {
+  const { error } = await supabase.rpc('fortune_revert', {
+    p_fortune_id: fortuneId,
+    p_revision_id: revisionId,
+  });
+
+  if (error) {
+    console.error('[RPC] fortune_revert error:', error);
+    throw error;
+  }
+}
+
+export type MemoryKind = 'year' | 'month' | 'week';
+
+export interface FortuneMemory {
+  id: string;
+  text: string;
+  category: string;
+  created_at: string;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: Fortune['impact_level'];
+  tags: string[];
+  memory_kind: MemoryKind;
+  years_ago: number;
+  photo_count: number;
+}
+
+export const getLocalTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Fortunes from this date in earlier years, a month ago and a week ago (dates in the user's timezone)
+export async function getFortuneMemories(timezone: string = getLocalTimezone()): Promise<FortuneMemory[]> {
+  const { data, error } = await supabase.rpc('fortune_memories', { p_timezone: timezone });
+
+  if (error) throw error;
+  return openJournalRows((data ?? []) as FortuneMemory[], ['text']);
+}
+
+async function queueFortuneOp(kind: 'update' | 'delete', fortuneId: string, updates?: FortuneUpdates): Promise<{ queued: true }> {
+  const userId = await getSessionUserId();
+  if (kind === 'update') {
+    await enqueueOutboxOp({ kind, userId, fortuneId, payload: updates ?? {} });
+  } else {
+    await enqueueOutboxOp({ kind, userId, fortuneId });
+  }
+  return { queued: true };
+}
+
+type ReplayResult = { synced: number; remaining: number; rejected: number };
+
+let replayPromise: Promise<ReplayResult> | null = null;
+
+/**
+ * Replays queued offline writes in the order they were made.
+ * Stops at the first network failure (the rest stays queued). Ops the server rejects
+ * outright are kept as failed for the user to retry or discard; later ops on the same
+ * fortune wait behind them, the rest of the queue carries on.
+ */
+export function replayOutbox(): Promise<ReplayResult> {
+  if (!replayPromise) {
+    replayPromise = runOutboxReplay().finally(() => {
+      replayPromise = null;
+    });
+  }
+  return replayPromise;
+}
+
+async function runOutboxReplay(): Promise<ReplayResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user || isOffline()) {
+    return { synced: 0, remaining: 0, rejected: 0 };
+  }
+  const userId = session.user.id;
+
+  const ops = await getOutboxOps(userId);
+  if (ops.length === 0) {
+    return { synced: 0, remaining: 0, rejected: 0 };
+  }
+
+  console.log('[OUTBOX] replay start', { count: ops.length });
+  let synced = 0;
+  let rejected = 0;
+  let remaining = 0;
+  // Temp ids resolved during this run (ops loaded up-front still carry the temp id)
+  const resolvedIds = new Map<string, string>();
+  // Fortunes with a failed op: their later ops would apply out of order
+  const blockedIds = new Set(ops.filter((op) => op.failedAt).map((op) => op.fortuneId));
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    if (op.failedAt) continue;
+    if (blockedIds.has(op.fortuneId)) {
+      remaining++;
+      continue;
+    }
+    const fortuneId = resolvedIds.get(op.fortuneId) ?? op.fortuneId;
+    try {
+      if (op.kind === 'create') {
+        // Pass the original timestamp so both the row and the streak count for the day it was written
+        const result = await addFortuneRemote(op.payload, op.payload.createdAt);
+        resolvedIds.set(op.fortuneId, result.fortuneId);
+        await remapOutboxFortuneId(userId, op.fortuneId, result.fortuneId);
+      } else if (op.kind === 'update') {
+        await updateFortuneRemote(fortuneId, op.payload);
+      } else {
+        await deleteFortuneRemote(fortuneId);
+      }
+      synced++;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        console.warn('[OUTBOX] replay paused: network unavailable');
+        if (synced > 0) emitAppEvent('fortunesUpdated');
+        return { synced, remaining: remaining + ops.length - i, rejected };
+      }
+      console.error('[OUTBOX] op rejected by server, kept as failed:', { kind: op.kind, fortuneId }, error);
+      await markOutboxOpFailed({ ...op, fortuneId }, errorMessage(error));
+      blockedIds.add(op.fortuneId);
+      rejected++;
+      continue;
+    }
+    if (op.seq !== undefined) {
+      await removeOutboxOp(op.seq);
+    }
+  }
+
+  console.log('[OUTBOX] replay done', { synced, rejected });
+  if (synced > 0) {
+    emitAppEvent('fortunesUpdated');
+  }
+  return { synced, remaining, rejected };
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error
+    ? error.message
+    : typeof (error as { message?: unknown })?.message === 'string'
+      ? (error as { message: string }).message
+      : 'Rejected by the server';
+
+export type FailedOutboxOp = { op: OutboxOp; text: string | null };
+
+/**
+ * Ops the server rejected on replay, oldest first, with the fortune text they carry (opened for display)
+ */
+export async function getFailedOutboxOps(userId: string): Promise<FailedOutboxOp[]> {
+  const failed = (await getOutboxOps(userId))
+    .filter((op) => op.failedAt)
+    .map((op) => ({ op, text: op.kind === 'delete' ? null : op.payload.text ?? null }));
+  return openJournalRows(failed, ['text']);
+}
+
+/**
+ * Sends a rejected op again, together with the ops that were waiting behind it
+ */
+export async function retryOutboxOp(op: OutboxOp): Promise<ReplayResult> {
+  await clearOutboxOpFailure(op);
+  return replayOutbox();
+}
+
+/**
+ * Gives up on a rejected op. A fortune that was never created goes with every op queued against it.
+ */
+export async function discardOutboxOp(op: OutboxOp): Promise<void> {
+  if (op.kind === 'create') {
+    await discardQueuedCreate(op.userId, op.fortuneId);
+  } else if (op.seq !== undefined) {
+    await removeOutboxOp(op.seq);
+  }
+  if (!isOffline()) await replayOutbox();
+}
+
+/**
+ * Fortunes created offline that haven't been replayed yet (rejected ones aside), shaped like fortune_list rows
+ */
+export async function getPendingFortunes(userId: string): Promise<Fortune[]> {
+  const ops = await getOutboxOps(userId);
+  const pending: Fortune[] = ops.flatMap((op) =>
+    op.kind === 'create' && !op.failedAt
+      ? [{
+          id: op.fortuneId,
+          user_id: userId,
+          text: op.payload.text,
+          category: op.payload.category ?? 'General',
+          fortune_level: op.payload.level ?? 0,
+          fortune_value: op.payload.fortuneValue ?? null,
+          currency: op.payload.currency ?? null,
+          created_at: op.payload.createdAt,
+          impact_level: op.payload.impactLevel,
+          tags: op.payload.tags,
+          pending_sync: true,
+        }]
+      : []
+  );
+  return openJournalRows(pending, ['text']);
+}
+
 // Tutorial completion achievement
 export function createTutorialMasterAchievement(): Achievement {
   return {
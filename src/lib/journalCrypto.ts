@@ -0,0 +1,307 @@
+// Private journal: opt-in end-to-end encryption of fortune text and lifestyle notes.
+//
+// A random AES-GCM data key encrypts the texts in the browser. The data key is stored in
+// journal_keys wrapped by a key derived from the user's passphrase (PBKDF2-SHA-256), together
+// with a key check. Changing the passphrase only re-wraps the data key; turning the journal on
+// or off re-encrypts the entries (see ./journalReencrypt).
+//
+// The unwrapped key lives in memory only, so the journal is locked again after a reload.
+// There is no recovery: without the passphrase, encrypted entries cannot be read by anyone.
+
+import { supabase } from '@/integrations/supabase/client';
+import { emitAppEvent } from './appEvents';
+
+export const JOURNAL_PREFIX = 'e2e:v1:';
+
+// Shown in place of encrypted text while the journal is locked / when it can't be decrypted
+export const JOURNAL_LOCKED_TEXT = '🔒 Private entry – unlock your journal to read it';
+export const JOURNAL_UNREADABLE_TEXT = '🔒 Private entry – encrypted with a different key';
+
+export const JOURNAL_MIN_PASSPHRASE_LENGTH = 10;
+
+const PBKDF2_ITERATIONS = 310000;
+const KEY_CHECK_TEXT = 'fortune-magnet:journal-key-check';
+const CACHE_KEY_PREFIX = 'journal.keyRecord.';
+
+export type JournalStatus = 'off' | 'locked' | 'unlocked';
+
+export interface JournalKeyRecord {
+  salt: string;
+  iterations: number;
+  wrapped_key: string;
+  key_check: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// userId the state below belongs to; undefined until loaded
+let loadedUserId: string | undefined;
+let keyRecord: JournalKeyRecord | null = null;
+let dataKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+// "<iv>.<ciphertext>", both base64
+const packCipher = (iv: Uint8Array, cipher: ArrayBuffer): string => `${toBase64(iv)}.${toBase64(new Uint8Array(cipher))}`;
+
+const unpackCipher = (packed: string): { iv: Uint8Array; cipher: Uint8Array } => {
+  const [iv, cipher] = packed.split('.');
+  if (!iv || !cipher) throw new Error('Malformed journal ciphertext');
+  return { iv: fromBase64(iv), cipher: fromBase64(cipher) };
+};
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function encryptWithKey(key: CryptoKey, plain: string): Promise<string> {
+  const iv = randomBytes(12);
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plain));
+  return packCipher(iv, cipher);
+}
+
+async function decryptWithKey(key: CryptoKey, packed: string): Promise<string> {
+  const { iv, cipher } = unpackCipher(packed);
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, cipher);
+  return decoder.decode(plain);
+}
+
+async function wrapDataKey(key: CryptoKey, passphrase: string): Promise<JournalKeyRecord> {
+  const salt = randomBytes(16);
+  const wrappingKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const iv = randomBytes(12);
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    wrapped_key: packCipher(iv, wrapped),
+    key_check: await encryptWithKey(key, KEY_CHECK_TEXT),
+  };
+}
+
+// Wrong passphrases fail the AES-GCM tag check while unwrapping; the key check guards against a damaged record
+async function unwrapDataKey(record: JournalKeyRecord, passphrase: string, extractable = false): Promise<CryptoKey> {
+  const wrappingKey = await derivePassphraseKey(passphrase, fromBase64(record.salt), record.iterations);
+  const { iv, cipher } = unpackCipher(record.wrapped_key);
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.unwrapKey(
+      'raw',
+      cipher,
+      wrappingKey,
+      { name: 'AES-GCM', iv },
+      { name: 'AES-GCM' },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+
+  const check = await decryptWithKey(key, record.key_check).catch(() => null);
+  if (check !== KEY_CHECK_TEXT) {
+    throw new Error('Journal key check failed');
+  }
+  return key;
+}
+
+const readCachedRecord = (userId: string): JournalKeyRecord | null => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as JournalKeyRecord) : null;
+  } catch {
+    return null;
+  }
+};
+
+// The record holds no secret (salt, wrapped key); caching it lets the journal be unlocked offline
+const writeCachedRecord = (userId: string, record: JournalKeyRecord | null) => {
+  if (record) {
+    localStorage.setItem(CACHE_KEY_PREFIX + userId, JSON.stringify(record));
+  } else {
+    localStorage.removeItem(CACHE_KEY_PREFIX + userId);
+  }
+};
+
+export const getJournalStatus = (): JournalStatus => {
+  if (!keyRecord) return 'off';
+  return dataKey ? 'unlocked' : 'locked';
+};
+
+const setState = (userId: string | undefined, record: JournalKeyRecord | null, key: CryptoKey | null) => {
+  const before = getJournalStatus();
+  loadedUserId = userId;
+  keyRecord = record;
+  dataKey = key;
+  const after = getJournalStatus();
+  if (before !== after) {
+    emitAppEvent('journalStatusChanged', after);
+    // Lists refetch so entries show decrypted (or locked) right away
+    emitAppEvent('fortunesUpdated');
+    emitAppEvent('lifestyleDataUpdated');
+  }
+};
+
+/**
+ * Loads the user's journal key record (falls back to the cached copy when offline).
+ * Switching users locks the journal.
+ */
+export async function loadJournal(userId: string): Promise<JournalStatus> {
+  const key = loadedUserId === userId ? dataKey : null;
+  const { data, error } = await supabase
+    .from('journal_keys')
+    .select('salt, iterations, wrapped_key, key_check')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[JOURNAL] Could not load key record, using cached copy:', error.message);
+    setState(userId, readCachedRecord(userId), key);
+  } else {
+    writeCachedRecord(userId, data);
+    // Passphrase changed on another device: the in-memory key is still the same data key
+    setState(userId, data, data ? key : null);
+  }
+  return getJournalStatus();
+}
+
+async function ensureLoaded(): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user?.id;
+  if (!userId) return;
+  if (loadedUserId !== userId) {
+    await loadJournal(userId);
+  }
+}
+
+export async function unlockJournal(userId: string, passphrase: string): Promise<void> {
+  const record = loadedUserId === userId && keyRecord ? keyRecord : readCachedRecord(userId);
+  if (!record) throw new Error('Private journal is not set up');
+  const key = await unwrapDataKey(record, passphrase);
+  setState(userId, record, key);
+}
+
+export function lockJournal(): void {
+  setState(loadedUserId, keyRecord, null);
+}
+
+// Forgets the key and record entirely (sign-out)
+export function resetJournal(): void {
+  setState(undefined, null, null);
+}
+
+// Creates the data key and unlocks; existing entries are encrypted separately (reencryptJournalEntries)
+export async function enableJournal(userId: string, passphrase: string): Promise<void> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const record = await wrapDataKey(key, passphrase);
+
+  const { error } = await supabase
+    .from('journal_keys')
+    .insert({ user_id: userId, ...record });
+  if (error) throw error;
+
+  writeCachedRecord(userId, record);
+  // Keep a non-extractable copy in memory
+  setState(userId, record, await unwrapDataKey(record, passphrase));
+}
+
+export async function changeJournalPassphrase(userId: string, currentPassphrase: string, newPassphrase: string): Promise<void> {
+  if (!keyRecord) throw new Error('Private journal is not set up');
+  const key = await unwrapDataKey(keyRecord, currentPassphrase, true);
+  const record = await wrapDataKey(key, newPassphrase);
+
+  const { error } = await supabase
+    .from('journal_keys')
+    .update({ ...record, updated_at: new Date().toISOString() })
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  writeCachedRecord(userId, record);
+  setState(userId, record, await unwrapDataKey(record, newPassphrase));
+}
+
+// Call after the entries were decrypted back (reencryptJournalEntries 'open'); the key is gone for good
+export async function disableJournal(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('journal_keys')
+    .delete()
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  writeCachedRecord(userId, null);
+  setState(userId, null, null);
+}
+
+export const isJournalCiphertext = (value: string | null | undefined): value is string =>
+  typeof value === 'string' && value.startsWith(JOURNAL_PREFIX);
+
+/**
+ * Encrypts a text for storage when the private journal is on.
+ * Throws while the journal is locked, so nothing is saved in the clear by accident.
+ */
+export async function sealJournalText(text: string): Promise<string> {
+  await ensureLoaded();
+  const status = getJournalStatus();
+  if (status === 'off' || !text || isJournalCiphertext(text)) return text;
+  if (isJournalPlaceholder(text)) {
+    throw new Error("This private entry can't be decrypted, so it can't be edited.");
+  }
+  if (!dataKey) {
+    throw new Error('Your private journal is locked. Unlock it in Settings to save entries.');
+  }
+  return JOURNAL_PREFIX + (await encryptWithKey(dataKey, text));
+}
+
+export async function openJournalText(value: string): Promise<string> {
+  if (!isJournalCiphertext(value)) return value;
+  if (!dataKey) return JOURNAL_LOCKED_TEXT;
+  try {
+    return await decryptWithKey(dataKey, value.slice(JOURNAL_PREFIX.length));
+  } catch {
+    return JOURNAL_UNREADABLE_TEXT;
+  }
+}
+
+/**
+ * Decrypts the given text fields of each row; rows without journal ciphertext are returned as-is.
+ */
+export async function openJournalRows<T>(rows: T[], fields: (keyof T)[]): Promise<T[]> {
+  if (!rows.some((row) => fields.some((field) => isJournalCiphertext(row[field] as string | null)))) {
+    return rows;
+  }
+  return Promise.all(
+    rows.map(async (row) => {
+      const opened = { ...row };
+      for (const field of fields) {
+        const value = row[field];
+        if (isJournalCiphertext(value as string | null)) {
+          opened[field] = (await openJournalText(value as string)) as T[keyof T];
+        }
+      }
+      return opened;
+    })
+  );
+}
+
+// True for placeholder texts, which must never be saved back over the ciphertext
+export const isJournalPlaceholder = (text: string | null | undefined): boolean =>
+  text === JOURNAL_LOCKED_TEXT || text === JOURNAL_UNREADABLE_TEXT;
@@ -0,0 +1,164 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { callEdge, LIFESTYLE_JOURNAL_FIELDS, type LifestyleEntryRow } from './edge-functions';
+import { isJournalCiphertext, isJournalPlaceholder, openJournalText, sealJournalText } from './journalCrypto';
+
+const FORTUNE_BATCH_SIZE = 100;
+// Below the API's max_rows (supabase/config.toml), so a full page always means there may be more
+const READ_PAGE_SIZE = 500;
+
+export type ReencryptMode = 'seal' | 'open';
+
+export interface ReencryptProgress {
+  done: number;
+  total: number;
+}
+
+const transform = async (mode: ReencryptMode, value: string | null | undefined): Promise<string | null> => {
+  if (!value) return null;
+  if (mode === 'seal') {
+    return isJournalCiphertext(value) ? null : sealJournalText(value);
+  }
+  if (!isJournalCiphertext(value)) return null;
+  const opened = await openJournalText(value);
+  // Entries that can't be decrypted are left alone rather than replaced by the placeholder
+  return isJournalPlaceholder(opened) ? null : opened;
+};
+
+interface RawTextRow {
+  id: string;
+  text: string;
+}
+
+// Every active fortune, walking fortune_list's keyset so no response hits the row cap
+async function listRawFortunes(): Promise<RawTextRow[]> {
+  const rows: RawTextRow[] = [];
+  let cursor: { created_at: string; id: string } | null = null;
+  for (;;) {
+    const { data, error } = await supabase.rpc('fortune_list', {
+      p_cursor_created_at: cursor?.created_at,
+      p_cursor_id: cursor?.id,
+      p_limit: READ_PAGE_SIZE,
+    });
+    if (error) throw error;
+    const page = data ?? [];
+    rows.push(...page);
+    const last = page[page.length - 1];
+    if (page.length < READ_PAGE_SIZE || !last) return rows;
+    cursor = { created_at: last.created_at, id: last.id };
+  }
+}
+
+// Every fortune in the trash, page by page like listRawFortunes
+async function listRawTrashedFortunes(): Promise<RawTextRow[]> {
+  const rows: RawTextRow[] = [];
+  let cursor: { deleted_at: string; id: string } | null = null;
+  for (;;) {
+    const { data, error } = await supabase.rpc('fortune_trash_list', {
+      p_cursor_deleted_at: cursor?.deleted_at,
+      p_cursor_id: cursor?.id,
+      p_limit: READ_PAGE_SIZE,
+    });
+    if (error) throw error;
+    const page = data ?? [];
+    rows.push(...page);
+    const last = page[page.length - 1];
+    if (page.length < READ_PAGE_SIZE || !last) return rows;
+    cursor = { deleted_at: last.deleted_at, id: last.id };
+  }
+}
+
+// Every lifestyle entry, newest first; there is one entry per date, so each page ends the day before the last one
+async function listRawLifestyleEntries(): Promise<LifestyleEntryRow[]> {
+  const entries: LifestyleEntryRow[] = [];
+  let to: string | undefined;
+  for (;;) {
+    const { data, error } = await callEdge<{ entries: LifestyleEntryRow[] }>(
+      'lifestyle-entry-list',
+      { to, limit: READ_PAGE_SIZE },
+      true
+    );
+    if (error) throw new Error(error);
+    const page = data?.entries ?? [];
+    entries.push(...page);
+    const last = page[page.length - 1];
+    if (page.length < READ_PAGE_SIZE || !last) return entries;
+    to = format(subDays(parseISO(last.date), 1), 'yyyy-MM-dd');
+  }
+}
+
+/**
+ * Rewrites existing fortunes (including trashed ones), fortune templates and lifestyle entries when the private journal
+ * is turned on ('seal': encrypt plain texts) or off ('open': decrypt back). The journal must be unlocked.
+ * Entries already in the target form are skipped, so an interrupted run can simply be repeated.
+ * Throws when fewer entries were rewritten than found, so a partial run is never reported as done.
+ */
+export async function reencryptJournalEntries(
+  mode: ReencryptMode,
+  onProgress?: (progress: ReencryptProgress) => void
+): Promise<ReencryptProgress> {
+  // Raw rows: the list helpers used by the UI would already have decrypted them
+  const [fortunes, trashed, templates, lifestyle] = await Promise.all([
+    listRawFortunes(),
+    listRawTrashedFortunes(),
+    supabase.from('fortune_templates').select('id, text'),
+    listRawLifestyleEntries(),
+  ]);
+  if (templates.error) throw templates.error;
+
+  const fortuneItems: { id: string; text: string }[] = [];
+  for (const row of [...fortunes, ...trashed]) {
+    const text = await transform(mode, row.text);
+    if (text !== null) fortuneItems.push({ id: row.id, text });
+  }
+
+  const templateItems: { id: string; text: string }[] = [];
+  for (const row of templates.data ?? []) {
+    const text = await transform(mode, row.text);
+    if (text !== null) templateItems.push({ id: row.id, text });
+  }
+
+  const lifestyleUpdates: Record<string, unknown>[] = [];
+  for (const entry of lifestyle) {
+    const update: Record<string, unknown> = {};
+    for (const field of LIFESTYLE_JOURNAL_FIELDS) {
+      const value = await transform(mode, entry[field]);
+      if (value !== null) update[field] = value;
+    }
+    if (Object.keys(update).length > 0) lifestyleUpdates.push({ date: entry.date, ...update });
+  }
+
+  const progress = { done: 0, total: fortuneItems.length + templateItems.length + lifestyleUpdates.length };
+  onProgress?.(progress);
+
+  for (let i = 0; i < fortuneItems.length; i += FORTUNE_BATCH_SIZE) {
+    const batch = fortuneItems.slice(i, i + FORTUNE_BATCH_SIZE);
+    const { data, error } = await supabase.rpc('journal_reencrypt_fortunes', { p_items: batch });
+    if (error) throw error;
+    // Only rows the server actually rewrote count
+    progress.done += data ?? 0;
+    onProgress?.({ ...progress });
+  }
+
+  for (const item of templateItems) {
+    const { error } = await supabase.from('fortune_templates').update({ text: item.text }).eq('id', item.id);
+    if (error) throw error;
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  // The upsert only touches the fields sent, so scores and moods stay as they are
+  for (const update of lifestyleUpdates) {
+    const { error } = await callEdge('lifestyle-entry-upsert', update, true);
+    if (error) throw new Error(error);
+    progress.done++;
+    onProgress?.({ ...progress });
+  }
+
+  if (progress.done !== progress.total) {
+    throw new Error(`Only ${progress.done} of ${progress.total} entries were re-encrypted. Please run it again.`);
+  }
+
+  console.log('[JOURNAL] re-encryption done', { mode, ...progress });
+  return progress;
+}
@@ -228,7 +228,8 @@ async function processAndUpload(
     // Call edge function and capture response
     const ticketResponse = await callEdge('issue-fortune-upload-ticket', {
       fortune_id: fortuneId,
-      mime: file.type || 'image/jpeg'
+      mime: file.type || 'image/jpeg',
+      index: options.index ?? 0
     });
 
     if (ticketResponse.error) {
@@ -424,13 +425,16 @@ async function processAndUpload(
       signedUrl: string;
       replaced: boolean;
       media?: {
+        id?: string;
         fortune_id: string;
+        index?: number;
         bucket: string;
         path: string;
         updated_at: string;
       } | null;
     }>('finalize-fortune-photo', {
       fortune_id: fortuneId,
+      index: options.index ?? 0,
       bucket: normalized.bucket, // Always include bucket
       path: normalized.bucketRelativePath,
       width: img.width,
@@ -0,0 +1,194 @@
+// IndexedDB-backed outbox for fortune writes made while offline.
+// Ops are stored in insertion order (auto-increment `seq`) and replayed in that
+// order by replayOutbox() in ./fortunes once connectivity returns.
+
+import { emitAppEvent } from './appEvents';
+
+const DB_NAME = 'fortune-outbox';
+const DB_VERSION = 1;
+const STORE = 'ops';
+
+// Fortunes created offline get a local id until the server assigns a real one
+const TEMP_ID_PREFIX = 'offline-';
+
+export interface OutboxCreatePayload {
+  text: string;
+  category: string | null;
+  level: number | null;
+  createdAt: string; // ISO - original creation time, also used as the streak event_ts
+  impactLevel: string | null;
+  tags: string[] | null;
+  fortuneValue?: number | null;
+  currency?: string | null;
+}
+
+export interface OutboxUpdatePayload {
+  text?: string;
+  category?: string;
+  fortune_value?: number;
+  currency?: string;
+  impact_level?: string;
+  tags?: string[];
+}
+
+export type OutboxOpInput =
+  | { kind: 'create'; userId: string; fortuneId: string; payload: OutboxCreatePayload }
+  | { kind: 'update'; userId: string; fortuneId: string; payload: OutboxUpdatePayload }
+  | { kind: 'delete'; userId: string; fortuneId: string };
+
+// failedAt/failure are set when the server rejected the op on replay; it stays queued until
+// the user retries or discards it
+export type OutboxOp = OutboxOpInput & { seq?: number; queuedAt: string; failedAt?: string; failure?: string };
+
+export const createTempFortuneId = (): string => `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+
+export const isTempFortuneId = (id?: string | null): boolean => !!id && id.startsWith(TEMP_ID_PREFIX);
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * True when a failed request never reached the server (as opposed to the server rejecting it)
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (isOffline()) return true;
+  const message = error instanceof Error
+    ? error.message
+    : typeof (error as { message?: unknown })?.message === 'string'
+      ? (error as { message: string }).message
+      : '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Emitted whenever the queue changes (enqueue, amend, replay)
+const notifyChanged = () => {
+  emitAppEvent('outboxChanged');
+};
+
+export async function enqueueOutboxOp(op: OutboxOpInput): Promise<void> {
+  const record: OutboxOp = { ...op, queuedAt: new Date().toISOString() };
+  await withStore('readwrite', (store) => store.add(record));
+  console.log('[OUTBOX] queued', { kind: op.kind, fortuneId: op.fortuneId });
+  notifyChanged();
+}
+
+/**
+ * Pending ops for a user, oldest first
+ */
+export async function getOutboxOps(userId: string): Promise<OutboxOp[]> {
+  const all = (await withStore<OutboxOp[]>('readonly', (store) => store.getAll())) ?? [];
+  return all
+    .filter((op) => op.userId === userId)
+    .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+export async function removeOutboxOp(seq: number): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(seq));
+  notifyChanged();
+}
+
+async function putOutboxOp(op: OutboxOp): Promise<void> {
+  await withStore('readwrite', (store) => store.put(op));
+}
+
+/**
+ * Keeps an op the server rejected on replay, with the reason, instead of dropping it
+ */
+export async function markOutboxOpFailed(op: OutboxOp, failure: string): Promise<void> {
+  await putOutboxOp({ ...op, failedAt: new Date().toISOString(), failure });
+  notifyChanged();
+}
+
+/**
+ * Puts a rejected op back in line for the next replay
+ */
+export async function clearOutboxOpFailure(op: OutboxOp): Promise<void> {
+  const { failedAt: _failedAt, failure: _failure, ...queued } = op;
+  await putOutboxOp(queued);
+  notifyChanged();
+}
+
+/**
+ * Folds an edit into a fortune that only exists in the outbox so far.
+ * Returns false if the create has already been replayed.
+ */
+export async function amendQueuedCreate(userId: string, tempId: string, updates: OutboxUpdatePayload): Promise<boolean> {
+  const ops = await getOutboxOps(userId);
+  const create = ops.find((op) => op.kind === 'create' && op.fortuneId === tempId);
+  if (!create || create.kind !== 'create') return false;
+
+  const payload = { ...create.payload };
+  if (updates.text !== undefined) payload.text = updates.text;
+  if (updates.category !== undefined) payload.category = updates.category;
+  if (updates.fortune_value !== undefined) {
+    payload.level = updates.fortune_value;
+    payload.fortuneValue = updates.fortune_value;
+  }
+  if (updates.currency !== undefined) payload.currency = updates.currency;
+  if (updates.impact_level !== undefined) payload.impactLevel = updates.impact_level;
+  if (updates.tags !== undefined) payload.tags = updates.tags;
+
+  await putOutboxOp({ ...create, payload });
+  notifyChanged();
+  return true;
+}
+
+/**
+ * Drops a fortune that only exists in the outbox, together with any ops queued against it
+ */
+export async function discardQueuedCreate(userId: string, tempId: string): Promise<void> {
+  const ops = await getOutboxOps(userId);
+  await withStore('readwrite', (store) => {
+    ops
+      .filter((op) => op.fortuneId === tempId && op.seq !== undefined)
+      .forEach((op) => store.delete(op.seq as number));
+  });
+  notifyChanged();
+}
+
+/**
+ * Points ops queued against a temp id at the id the server assigned on replay
+ */
+export async function remapOutboxFortuneId(userId: string, tempId: string, fortuneId: string): Promise<void> {
+  const ops = await getOutboxOps(userId);
+  const affected = ops.filter((op) => op.fortuneId === tempId);
+  if (affected.length === 0) return;
+  await withStore('readwrite', (store) => {
+    affected.forEach((op) => store.put({ ...op, fortuneId }));
+  });
+}
@@ -88,6 +88,42 @@ export function validateCategory(category: string): string {
   return trimmed;
 }
 
+export const MAX_TAGS_PER_FORTUNE = 10;
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Validates a tag list: trims, drops empties and case-insensitive duplicates
+ */
+export function validateTags(tags: string[]): string[] {
+  if (!Array.isArray(tags)) {
+    throw new Error('Tags must be a list');
+  }
+
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const trimmed = typeof raw === 'string' ? raw.trim() : '';
+    if (trimmed.length === 0) continue;
+
+    if (trimmed.length > MAX_TAG_LENGTH) {
+      throw new Error(`Tags must be ${MAX_TAG_LENGTH} characters or less`);
+    }
+    if (/<[^>]*>/g.test(trimmed) || /javascript:/i.test(trimmed)) {
+      throw new Error('Tag contains invalid characters');
+    }
+
+    const key = trimmed.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+
+  if (result.length > MAX_TAGS_PER_FORTUNE) {
+    throw new Error(`A fortune can have at most ${MAX_TAGS_PER_FORTUNE} tags`);
+  }
+  return result;
+}
+
 /**
  * Rate limiting helper for client-side
  */
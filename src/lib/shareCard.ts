@@ -0,0 +1,300 @@
+import { formatMoney, getCurrencySymbol } from './currency';
+
+export type ShareCardTemplateId = 'midnight' | 'emerald' | 'paper';
+
+export interface ShareCardTemplate {
+  id: ShareCardTemplateId;
+  name: string;
+  background: [string, string];
+  text: string;
+  mutedText: string;
+  accent: string;
+}
+
+export const SHARE_CARD_TEMPLATES: ShareCardTemplate[] = [
+  { id: 'midnight', name: 'Midnight', background: ['#0B0F1A', '#1C2333'], text: '#FFFFFF', mutedText: '#A0A7B8', accent: '#D6B94C' },
+  { id: 'emerald', name: 'Emerald', background: ['#034D36', '#046B4A'], text: '#FFFFFF', mutedText: '#B9D9CC', accent: '#F1D77A' },
+  { id: 'paper', name: 'Paper', background: ['#FBF7EC', '#F1E9D2'], text: '#1F1B12', mutedText: '#6B6452', accent: '#A8862A' },
+];
+
+// Fallbacks for the built-in categories; custom categories bring their own color
+const DEFAULT_CATEGORY_COLORS: Record<string, string> = {
+  Wealth: '#D6B94C',
+  Health: '#50C878',
+  Love: '#FF69B4',
+  Opportunity: '#9B59B6',
+  Tasks: '#60A5FA',
+};
+
+export const getShareCategoryColor = (category: string, customColors: Record<string, string> = {}) =>
+  customColors[category] ?? DEFAULT_CATEGORY_COLORS[category] ?? '#6B7280';
+
+export interface ShareCardData {
+  text: string;
+  category: string;
+  categoryColor: string;
+  impactLabel: string | null;
+  impactColor: string | null;
+  fortuneValue: number | null;
+  currency: string;
+  createdAt: string;
+  photoUrl: string | null;
+  avatarUrl: string | null;
+  level: number | null;
+}
+
+export interface ShareCardOptions {
+  template: ShareCardTemplateId;
+  redactValue: boolean;
+}
+
+// 4:5 portrait fits both feeds and stories without cropping the essentials
+const CARD_WIDTH = 1080;
+const CARD_HEIGHT = 1350;
+const PADDING = 80;
+const HEADING_FONT = '"Playfair Display", serif';
+const BODY_FONT = 'Inter, sans-serif';
+
+function loadImage(url: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    // Signed storage URLs allow CORS; without this the canvas would be tainted and toBlob would throw
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+function roundedRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+}
+
+// Word-wraps to `maxWidth`, ellipsizing the last line when the text needs more than `maxLines`
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ');
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+    last = last.slice(0, -1);
+  }
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+}
+
+// Draws `image` to fill the box, cropping the overflow (CSS object-fit: cover)
+function drawCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) {
+  const scale = Math.max(width / image.width, height / image.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(image, (image.width - sw) / 2, (image.height - sh) / 2, sw, sh, x, y, width, height);
+}
+
+function drawPill(ctx: CanvasRenderingContext2D, label: string, x: number, y: number, color: string, textColor: string): number {
+  ctx.font = `600 30px ${BODY_FONT}`;
+  const width = ctx.measureText(label).width + 48;
+  roundedRect(ctx, x, y, width, 56, 28);
+  ctx.fillStyle = `${color}33`;
+  ctx.fill();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.fillStyle = textColor;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x + 24, y + 29);
+  return width;
+}
+
+/**
+ * Renders a fortune to a branded PNG
+ */
+export async function renderShareCard(data: ShareCardData, options: ShareCardOptions): Promise<Blob> {
+  const template = SHARE_CARD_TEMPLATES.find((t) => t.id === options.template) ?? SHARE_CARD_TEMPLATES[0];
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported on this device');
+
+  // Web fonts may still be loading the first time a card is drawn
+  await document.fonts?.ready;
+
+  const [photo, avatar] = await Promise.all([
+    data.photoUrl ? loadImage(data.photoUrl) : Promise.resolve(null),
+    data.avatarUrl ? loadImage(data.avatarUrl) : Promise.resolve(null),
+  ]);
+
+  // Background
+  const gradient = ctx.createLinearGradient(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  gradient.addColorStop(0, template.background[0]);
+  gradient.addColorStop(1, template.background[1]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  ctx.strokeStyle = `${template.accent}66`;
+  ctx.lineWidth = 4;
+  roundedRect(ctx, 32, 32, CARD_WIDTH - 64, CARD_HEIGHT - 64, 40);
+  ctx.stroke();
+
+  // Brand
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = template.accent;
+  ctx.font = `600 40px ${HEADING_FONT}`;
+  ctx.fillText('✦ Fortune Magnet', PADDING, PADDING + 60);
+
+  // Category + impact badges
+  let y = PADDING + 110;
+  const categoryWidth = drawPill(ctx, data.category, PADDING, y, data.categoryColor, template.text);
+  if (data.impactLabel && data.impactColor) {
+    drawPill(ctx, data.impactLabel, PADDING + categoryWidth + 20, y, data.impactColor, template.text);
+  }
+  y += 56 + 48;
+
+  // Photo
+  const footerTop = CARD_HEIGHT - PADDING - 120;
+  if (photo) {
+    const photoHeight = 460;
+    ctx.save();
+    roundedRect(ctx, PADDING, y, CARD_WIDTH - PADDING * 2, photoHeight, 28);
+    ctx.clip();
+    drawCover(ctx, photo, PADDING, y, CARD_WIDTH - PADDING * 2, photoHeight);
+    ctx.restore();
+    y += photoHeight + 48;
+  }
+
+  // Value
+  const hasValue = data.fortuneValue !== null && data.fortuneValue > 0;
+  const valueHeight = hasValue ? 110 : 0;
+
+  // Fortune text, shrinking the font to fit the space left
+  const textBottom = footerTop - valueHeight - 32;
+  let fontSize = photo ? 52 : 68;
+  let lines: string[] = [];
+  for (; fontSize >= 36; fontSize -= 4) {
+    ctx.font = `500 ${fontSize}px ${HEADING_FONT}`;
+    const maxLines = Math.max(1, Math.floor((textBottom - y) / (fontSize * 1.3)));
+    lines = wrapText(ctx, `“${data.text}”`, CARD_WIDTH - PADDING * 2, maxLines);
+    if (lines.every((line) => !line.endsWith('…')) || fontSize === 36) break;
+  }
+  ctx.fillStyle = template.text;
+  ctx.textBaseline = 'top';
+  for (const line of lines) {
+    ctx.fillText(line, PADDING, y);
+    y += fontSize * 1.3;
+  }
+
+  if (hasValue) {
+    const valueText = options.redactValue
+      ? `${getCurrencySymbol(data.currency)} •••`
+      : formatMoney(data.fortuneValue as number, data.currency);
+    ctx.font = `700 72px ${BODY_FONT}`;
+    ctx.fillStyle = template.accent;
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(valueText, PADDING, footerTop - 16);
+  }
+
+  // Footer: avatar, level and date
+  const avatarSize = 100;
+  const footerY = CARD_HEIGHT - PADDING - avatarSize;
+  let footerX = PADDING;
+  if (avatar) {
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(PADDING + avatarSize / 2, footerY + avatarSize / 2, avatarSize / 2, 0, Math.PI * 2);
+    ctx.clip();
+    drawCover(ctx, avatar, PADDING, footerY, avatarSize, avatarSize);
+    ctx.restore();
+    ctx.strokeStyle = template.accent;
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(PADDING + avatarSize / 2, footerY + avatarSize / 2, avatarSize / 2, 0, Math.PI * 2);
+    ctx.stroke();
+    footerX += avatarSize + 28;
+  }
+
+  ctx.textBaseline = 'middle';
+  if (data.level) {
+    ctx.font = `600 36px ${BODY_FONT}`;
+    ctx.fillStyle = template.text;
+    ctx.fillText(`Level ${data.level}`, footerX, footerY + avatarSize / 2 - 20);
+  }
+  ctx.font = `400 30px ${BODY_FONT}`;
+  ctx.fillStyle = template.mutedText;
+  ctx.fillText(
+    new Date(data.createdAt).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+    footerX,
+    footerY + avatarSize / 2 + (data.level ? 24 : 0)
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render image'))), 'image/png');
+  });
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export type ShareImageResult = 'shared' | 'downloaded' | 'cancelled';
+
+/**
+ * Shares a rendered card: native share sheet in the app, Web Share API where it takes files,
+ * otherwise a download
+ */
+export async function shareImage(blob: Blob, fileName: string, title: string): Promise<ShareImageResult> {
+  const capacitor = window.Capacitor;
+  const { Filesystem, Share } = capacitor?.Plugins ?? {};
+  if (capacitor?.isNativePlatform?.() && Filesystem && Share) {
+    const { uri } = await Filesystem.writeFile({ path: fileName, data: await blobToBase64(blob), directory: 'CACHE' });
+    await Share.share({ title, files: [uri], dialogTitle: title });
+    return 'shared';
+  }
+
+  const file = new File([blob], fileName, { type: 'image/png' });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      throw error;
+    }
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return 'downloaded';
+}
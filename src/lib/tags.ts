@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Fortune } from '@/types/fortune';
+
+// Tags are compared case-insensitively everywhere (matches the unique index on fortune_tags)
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase();
+
+// fortune_tags is read in pages; PostgREST caps a single response at 1000 rows
+const TAG_PAGE_SIZE = 500;
+
+/**
+ * The distinct tags in a list of tag uses, most used first
+ */
+export function rankTags(tags: string[]): string[] {
+  const counts = new Map<string, { label: string; count: number }>();
+  for (const tag of tags) {
+    const key = normalizeTag(tag);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      counts.set(key, { label: tag, count: 1 });
+    }
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .map((entry) => entry.label);
+}
+
+/**
+ * Collects the distinct tags used by a set of fortunes, most used first
+ */
+export function collectTags(fortunes: Fortune[]): string[] {
+  return rankTags(fortunes.flatMap((fortune) => fortune.tags ?? []));
+}
+
+/**
+ * Keeps fortunes carrying at least one of the selected tags.
+ * An empty selection means "no tag filter".
+ */
+export function filterFortunesByTags<T extends Pick<Fortune, 'tags'>>(fortunes: T[], selectedTags: string[]): T[] {
+  if (selectedTags.length === 0) return fortunes;
+  const wanted = new Set(selectedTags.map(normalizeTag));
+  return fortunes.filter((fortune) => (fortune.tags ?? []).some((tag) => wanted.has(normalizeTag(tag))));
+}
+
+/**
+ * Fetches every tag the user has used so far, most used first (for autocomplete)
+ */
+export async function getUserTags(userId: string): Promise<string[]> {
+  const tags: string[] = [];
+  for (let from = 0; ; from += TAG_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('fortune_tags')
+      .select('tag')
+      .eq('user_id', userId)
+      // Stable order so rows can't move between pages
+      .order('id', { ascending: true })
+      .range(from, from + TAG_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('[TAGS] Error loading user tags:', error);
+      return rankTags(tags);
+    }
+
+    tags.push(...(data ?? []).map((row) => row.tag));
+    if ((data ?? []).length < TAG_PAGE_SIZE) return rankTags(tags);
+  }
+}
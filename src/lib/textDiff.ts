@@ -0,0 +1,68 @@
+export type DiffSegmentType = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Fortunes are short; past this many tokens per side we fall back to a whole-text replacement
+const MAX_DIFF_TOKENS = 2000;
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff of two versions of a text (longest common subsequence).
+ * Segments are in reading order; `removed` text only exists in `before`, `added` only in `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) return before ? [{ type: 'same', text: before }] : [];
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    const segments: DiffSegment[] = [];
+    if (before) segments.push({ type: 'removed', text: before });
+    if (after) segments.push({ type: 'added', text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'added', b[j]);
+      j++;
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
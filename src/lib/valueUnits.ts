@@ -0,0 +1,209 @@
+import { formatMoney, sumInCurrency, type ExchangeRates } from './currency';
+import { validateNumericValue } from './security';
+
+// What a category's numeric value measures (custom_categories.value_unit)
+export type ValueUnit = 'currency' | 'minutes' | 'kilometres' | 'count' | 'rating';
+
+export interface ValueUnitSpec {
+  label: string;
+  // Short marker for category badges
+  symbol: string;
+  // Bounds a category's own range has to stay within
+  min: number;
+  max: number;
+  step: number;
+  // Ratings are averaged; everything else adds up
+  aggregate: 'sum' | 'average';
+  // Whole numbers only
+  integer: boolean;
+  // The range can't be narrowed per category (ratings are always 1-5)
+  fixedRange: boolean;
+}
+
+export const VALUE_UNITS: Record<ValueUnit, ValueUnitSpec> = {
+  currency: { label: 'Currency', symbol: '$', min: 0, max: 1000000, step: 0.01, aggregate: 'sum', integer: false, fixedRange: false },
+  minutes: { label: 'Minutes', symbol: 'min', min: 0, max: 1440, step: 1, aggregate: 'sum', integer: false, fixedRange: false },
+  kilometres: { label: 'Kilometres', symbol: 'km', min: 0, max: 10000, step: 0.1, aggregate: 'sum', integer: false, fixedRange: false },
+  count: { label: 'Count', symbol: '#', min: 0, max: 1000000, step: 1, aggregate: 'sum', integer: true, fixedRange: false },
+  rating: { label: 'Rating (1-5)', symbol: '★', min: 1, max: 5, step: 1, aggregate: 'average', integer: true, fixedRange: true },
+};
+
+export const VALUE_UNIT_OPTIONS = Object.keys(VALUE_UNITS) as ValueUnit[];
+
+export const isValueUnit = (value: unknown): value is ValueUnit =>
+  typeof value === 'string' && value in VALUE_UNITS;
+
+// A category's unit with its effective validation range
+export interface CategoryValueType {
+  unit: ValueUnit;
+  min: number;
+  max: number;
+}
+
+// Wealth is the only default category with values; categories without a unit row count as money
+export const CURRENCY_VALUE_TYPE: CategoryValueType = {
+  unit: 'currency',
+  min: VALUE_UNITS.currency.min,
+  max: VALUE_UNITS.currency.max,
+};
+
+/**
+ * The effective unit and range from a category's stored columns.
+ * Unknown units fall back to currency; custom bounds are clamped to the unit's own.
+ */
+export function resolveValueType(
+  unit: string | null | undefined,
+  min?: number | null,
+  max?: number | null
+): CategoryValueType {
+  const resolved = isValueUnit(unit) ? unit : 'currency';
+  const spec = VALUE_UNITS[resolved];
+  if (spec.fixedRange) {
+    return { unit: resolved, min: spec.min, max: spec.max };
+  }
+  const clamp = (value: number | null | undefined, fallback: number) =>
+    value === null || value === undefined || isNaN(Number(value))
+      ? fallback
+      : Math.min(spec.max, Math.max(spec.min, Number(value)));
+  const lower = clamp(min, spec.min);
+  const upper = clamp(max, spec.max);
+  return lower <= upper ? { unit: resolved, min: lower, max: upper } : { unit: resolved, min: spec.min, max: spec.max };
+}
+
+/**
+ * Parses the optional range typed into the category form. Empty fields mean the unit's own bound
+ * and come back as null; throws with a user-facing message when the range is unusable.
+ */
+export function parseValueRange(
+  unit: ValueUnit,
+  minText: string,
+  maxText: string
+): { value_min: number | null; value_max: number | null } {
+  const spec = VALUE_UNITS[unit];
+  if (spec.fixedRange) return { value_min: null, value_max: null };
+
+  const parse = (text: string, label: string) => {
+    if (!text.trim()) return null;
+    const value = Number(text);
+    if (isNaN(value)) throw new Error(`${label} must be a number`);
+    if (value < spec.min || value > spec.max) {
+      throw new Error(`${label} must be between ${spec.min} and ${spec.max}`);
+    }
+    return value;
+  };
+  const value_min = parse(minText, 'Minimum');
+  const value_max = parse(maxText, 'Maximum');
+  if (value_min !== null && value_max !== null && value_min > value_max) {
+    throw new Error('Minimum must not be more than the maximum');
+  }
+  return { value_min, value_max };
+}
+
+interface ValueUnitColumns {
+  name: string;
+  value_unit?: string | null;
+  value_min?: number | null;
+  value_max?: number | null;
+}
+
+/**
+ * The value type of every category by lowercased name. Categories missing from the map
+ * (the defaults and anything deleted) are treated as currency.
+ */
+export function buildValueTypeMap(custom: ValueUnitColumns[]): Map<string, CategoryValueType> {
+  return new Map(
+    custom.map((row) => [
+      row.name.trim().toLowerCase(),
+      resolveValueType(row.value_unit, row.value_min, row.value_max),
+    ])
+  );
+}
+
+export const getCategoryValueType = (
+  category: string | null | undefined,
+  types: Map<string, CategoryValueType>
+): CategoryValueType => (category && types.get(category.trim().toLowerCase())) || CURRENCY_VALUE_TYPE;
+
+const formatNumber = (value: number, maximumFractionDigits: number) =>
+  new Intl.NumberFormat(undefined, { maximumFractionDigits }).format(value);
+
+function formatMinutes(value: number): string {
+  const total = Math.round(value);
+  if (total < 60) return `${total} min`;
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+}
+
+/**
+ * A value in its category's unit. `currency` is the value's own currency code
+ * (or the display currency for values stored without one).
+ */
+export function formatUnitValue(value: number, unit: ValueUnit, currency: string): string {
+  switch (unit) {
+    case 'currency':
+      return formatMoney(value, currency);
+    case 'minutes':
+      return formatMinutes(value);
+    case 'kilometres':
+      return `${formatNumber(value, 2)} km`;
+    case 'count':
+      return `×${formatNumber(value, 0)}`;
+    case 'rating':
+      return `${formatNumber(value, 1)}/5`;
+  }
+}
+
+/**
+ * Parses a value typed into the fortune form against the category's unit and range.
+ * Returns null for an empty field; throws with a user-facing message otherwise.
+ */
+export function validateUnitValue(raw: string | number, type: CategoryValueType): number | null {
+  const value = validateNumericValue(raw, type.min, type.max);
+  if (value !== null && VALUE_UNITS[type.unit].integer && !Number.isInteger(value)) {
+    throw new Error(`${VALUE_UNITS[type.unit].label} must be a whole number`);
+  }
+  return value;
+}
+
+export interface UnitAggregate {
+  unit: ValueUnit;
+  // Sum, or the average for ratings; money totals are in the display currency
+  value: number;
+  entries: number;
+  // Money values whose currency has no rate (left out of `value`)
+  unconverted: number;
+}
+
+/**
+ * Aggregates fortune values per unit: money is converted and summed, ratings averaged,
+ * the other units summed. Units without any values are left out.
+ * An item can stand for several values already summed (`entries`, 1 when absent).
+ */
+export function aggregateUnitValues(
+  items: Array<{ category?: string | null; fortune_value?: number | null; currency?: string | null; entries?: number }>,
+  types: Map<string, CategoryValueType>,
+  displayCurrency: string,
+  rates: ExchangeRates
+): UnitAggregate[] {
+  const byUnit = new Map<ValueUnit, typeof items>();
+  for (const item of items) {
+    if (!Number(item.fortune_value)) continue;
+    const { unit } = getCategoryValueType(item.category, types);
+    const unitItems = byUnit.get(unit);
+    if (unitItems) unitItems.push(item);
+    else byUnit.set(unit, [item]);
+  }
+
+  return VALUE_UNIT_OPTIONS.filter((unit) => byUnit.has(unit)).map((unit) => {
+    const unitItems = byUnit.get(unit) ?? [];
+    const entries = unitItems.reduce((acc, item) => acc + (item.entries ?? 1), 0);
+    if (unit === 'currency') {
+      const { total, unconverted } = sumInCurrency(unitItems, displayCurrency, rates);
+      return { unit, value: total, entries, unconverted };
+    }
+    const sum = unitItems.reduce((acc, item) => acc + Number(item.fortune_value), 0);
+    const value = VALUE_UNITS[unit].aggregate === 'average' ? sum / entries : sum;
+    return { unit, value, entries, unconverted: 0 };
+  });
+}
@@ -0,0 +1,35 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * The user's experience points and level, as computed by the server.
+ * Fortunes give XP by impact, plus bonuses for streak days and lifestyle check-ins;
+ * the weights (xp_rules) and the level curve (level_thresholds) are configured in the database.
+ */
+export interface XpStatus {
+  xp: number;
+  level: number;
+  levelXp: number;              // XP at which the current level was reached
+  nextLevelXp: number | null;   // XP needed for the next level; null at the top level
+}
+
+export async function getXpStatus(): Promise<XpStatus | null> {
+  const { data, error } = await supabase.rpc('xp_status');
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+  return {
+    xp: row.xp ?? 0,
+    level: row.level ?? 1,
+    levelXp: row.level_xp ?? 0,
+    nextLevelXp: row.next_level_xp ?? null,
+  };
+}
+
+// Progress within the current level. Levels are never lost, so XP can sit below the level's start
+export function levelProgress(status: XpStatus): { earned: number; needed: number; percentage: number } {
+  if (status.nextLevelXp === null) return { earned: 0, needed: 0, percentage: 100 };
+  const needed = status.nextLevelXp - status.levelXp;
+  const earned = Math.min(Math.max(status.xp - status.levelXp, 0), needed);
+  return { earned, needed, percentage: needed > 0 ? (earned / needed) * 100 : 100 };
+}
@@ -18,6 +18,7 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useSubscription } from '@/contexts/SubscriptionContext';
+import { useSettings } from '@/contexts/SettingsContext';
 import { AuthPage } from '@/pages/AuthPage';
 import {
   generateReport,
@@ -128,6 +129,9 @@ type ReportModelV1 = {
       before: number;
       in_period: number;
       total_at_end: number;
+      value_in_period?: number;
+      currency?: string;
+      unit_values?: Array<{ unit: string; value: number; entries: number }>;
     };
     entries_total: number;
     notes_with_content: number;
@@ -265,6 +269,7 @@ export const ReportsPage = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { session, authLoading, sessionInitialized, subscription, isTrialActive } = useSubscription();
+  const { currency } = useSettings();
 
   const [reportsByKey, setReportsByKey] = useState<Record<string, ReportListItem>>({});
   const [loading, setLoading] = useState(true);
@@ -367,7 +372,7 @@ export const ReportsPage = () => {
 
     setKeyLoading(period.key, true);
     try {
-      const payload: any = { report_type: period.report_type, force };
+      const payload: any = { report_type: period.report_type, force, currency };
       if (period.report_type === 'weekly') {
         payload.weekStart = period.weekStart;
       } else if (period.report_type === 'quarterly') {
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Moon, Sun, Bell, SpeakerSimpleHigh, SpeakerSimpleSlash, SignOut, Crown, Trophy, ChartLine } from '@phosphor-icons/react';
+import { ArrowLeft, Moon, Sun, Bell, SpeakerSimpleHigh, SpeakerSimpleSlash, SignOut, Crown, Trophy, ChartLine, DownloadSimple, UserCircle } from '@phosphor-icons/react';
 import betaTesterBadge from '@/assets/beta-tester-badge.webp';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -8,13 +8,23 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useTheme } from 'next-themes';
 import { CategoryManager } from '@/components/CategoryManager';
+import { FortuneTemplateManager } from '@/components/FortuneTemplateManager';
+import { DuplicateFortunesTool } from '@/components/DuplicateFortunesTool';
+import { FortuneImport } from '@/components/FortuneImport';
+import { TrashBin } from '@/components/TrashBin';
+import { PrivateJournalSettings } from '@/components/PrivateJournalSettings';
+import { ExchangeRatesEditor } from '@/components/ExchangeRatesEditor';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { PricingDialog } from '@/components/billing/PricingDialog';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useAppState } from '@/contexts/AppStateContext';
 import { useTutorial } from '@/contexts/TutorialContext';
 import { TutorialModal } from '@/components/TutorialModal';
-import { useAvatar } from '@/hooks/useAvatar';
+import { useAvatarCollection } from '@/hooks/useAvatarCollection';
+import { useJournal } from '@/hooks/useJournal';
+import { AvatarCollectionModal } from '@/components/AvatarCollectionModal';
+import { exportUserData } from '@/lib/edge-functions';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
 
 interface SettingsPageProps {
   onBack: () => void;
@@ -26,8 +36,15 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
   const isDarkMode = theme === 'dark';
   const { soundEnabled, setSoundEnabled, animationsEnabled, setAnimationsEnabled, hapticsEnabled, setHapticsEnabled, currency, setCurrency } = useSettings();
   const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showExchangeRates, setShowExchangeRates] = useState(false);
   const [showPricingDialog, setShowPricingDialog] = useState(false);
+  const [showAvatarCollection, setShowAvatarCollection] = useState(false);
   const [openingPortal, setOpeningPortal] = useState(false);
+  const [exportingData, setExportingData] = useState(false);
+  const { status: journalStatus } = useJournal();
   const { toast } = useToast();
   const { isActive, subscription, isHighTier } = useSubscription();
   const [userEmail, setUserEmail] = useState<string | null>(null);
@@ -76,10 +93,8 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
     return () => { cancelled = true; };
   }, [profile]);
 
-  // Avatar + level for Settings preview (use shared hook with cache)
-  const level = effectiveProfile?.level ?? 1;
-  const { avatar: avatarData } = useAvatar(level);
-  const avatar = avatarData ? { url: avatarData.url, title: avatarData.title } : null;
+  // The avatar shown on the profile (picked from the collection or following the level)
+  const { displayed: avatar } = useAvatarCollection();
 
   const handleLogout = async () => {
     try {
@@ -148,6 +163,35 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
     }
   };
 
+  const handleExportData = async () => {
+    try {
+      setExportingData(true);
+      const { data, error } = await exportUserData();
+      if (error || !data) throw new Error(error ?? 'Export failed');
+
+      const url = URL.createObjectURL(data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `fortune-magnet-export-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Export ready',
+        description: 'Your data archive has been downloaded',
+      });
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export your data',
+        variant: 'destructive',
+      });
+    } finally {
+      setExportingData(false);
+    }
+  };
+
 
   // Settings tutorial: show on page mount if not completed
   const { isStepCompleted, showTutorial } = useTutorial();
@@ -228,6 +272,14 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
 
             </div>
             <div className="space-y-3">
+            <Button
+              variant="outline"
+              onClick={() => setShowAvatarCollection(true)}
+              className="w-full justify-center"
+            >
+              <UserCircle size={16} className="mr-2" />
+              Avatar Collection
+            </Button>
             {isHighTier ? (
               <>
                 <Button 
@@ -320,12 +372,23 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="USD">USD ($)</SelectItem>
-                <SelectItem value="EUR">EUR (€)</SelectItem>
-                <SelectItem value="GBP">GBP (£)</SelectItem>
-                <SelectItem value="JPY">JPY (¥)</SelectItem>
+                {SUPPORTED_CURRENCIES.map(({ code, symbol }) => (
+                  <SelectItem key={code} value={code}>{code} ({symbol})</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <Button
+              variant="outline"
+              onClick={() => setShowExchangeRates(prev => !prev)}
+              className="w-full justify-start mt-3"
+            >
+              {showExchangeRates ? 'Hide Exchange Rates' : 'Exchange Rates'}
+            </Button>
+            {showExchangeRates && (
+              <div className="mt-4 transition-all duration-300">
+                <ExchangeRatesEditor />
+              </div>
+            )}
           </div>
 
           {/* Category Manager */}
@@ -345,6 +408,72 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
             )}
           </div>
 
+          {/* Templates */}
+          <div className="luxury-card p-6">
+            <h3 className="text-lg font-heading font-medium mb-4">Fortune Templates</h3>
+            <Button 
+              variant="outline" 
+              onClick={() => setShowTemplateManager(prev => !prev)}
+              className="w-full justify-start"
+            >
+              {showTemplateManager ? 'Hide Templates' : 'Manage Templates'}
+            </Button>
+            {showTemplateManager && (
+              <div className="mt-4 transition-all duration-300">
+                <FortuneTemplateManager />
+              </div>
+            )}
+          </div>
+
+          {/* Duplicates */}
+          <div className="luxury-card p-6">
+            <h3 className="text-lg font-heading font-medium mb-2">Merge Duplicates</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Find fortunes tracked twice on the same day and keep just one.
+            </p>
+            <DuplicateFortunesTool />
+          </div>
+
+          {/* Import */}
+          <div className="luxury-card p-6">
+            <h3 className="text-lg font-heading font-medium mb-4">Import Fortunes</h3>
+            <Button 
+              variant="outline" 
+              onClick={() => setShowImport(prev => !prev)}
+              className="w-full justify-start"
+            >
+              {showImport ? 'Hide Import' : 'Import from CSV or JSON'}
+            </Button>
+            {showImport && (
+              <div className="mt-4 transition-all duration-300">
+                <FortuneImport />
+              </div>
+            )}
+          </div>
+
+          {/* Trash */}
+          <div className="luxury-card p-6">
+            <h3 className="text-lg font-heading font-medium mb-4">Trash</h3>
+            <Button 
+              variant="outline" 
+              onClick={() => setShowTrash(prev => !prev)}
+              className="w-full justify-start"
+            >
+              {showTrash ? 'Hide Trash' : 'Recently Deleted Fortunes'}
+            </Button>
+            {showTrash && (
+              <div className="mt-4 transition-all duration-300">
+                <TrashBin />
+              </div>
+            )}
+          </div>
+
+          {/* Private Journal */}
+          <div className="luxury-card p-6">
+            <h3 className="text-lg font-heading font-medium mb-4">Private Journal</h3>
+            <PrivateJournalSettings />
+          </div>
+
           {/* Billing */}
           <div className="luxury-card p-6">
             <h3 className="text-lg font-heading font-medium mb-4">Billing & Subscription</h3>
@@ -435,6 +564,20 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
           {/* Account */}
           <div className="luxury-card p-6">
             <h3 className="text-lg font-heading font-medium mb-4">Account</h3>
+            <Button
+              variant="outline"
+              onClick={handleExportData}
+              className="w-full justify-start mb-3"
+              disabled={exportingData}
+            >
+              <DownloadSimple size={18} className="mr-2" />
+              {exportingData ? 'Preparing export…' : 'Export My Data'}
+            </Button>
+            {journalStatus !== 'off' && (
+              <p className="text-xs text-muted-foreground -mt-1 mb-3">
+                Private journal entries are exported encrypted; only your passphrase can open them.
+              </p>
+            )}
             <Button
               variant="destructive"
               onClick={handleLogout}
@@ -447,6 +590,11 @@ export const SettingsPage = ({ onBack }: SettingsPageProps) => {
         </div>
       </div>
       
+      <AvatarCollectionModal
+        isOpen={showAvatarCollection}
+        onClose={() => setShowAvatarCollection(false)}
+      />
+
       <PricingDialog 
         isOpen={showPricingDialog} 
         onClose={() => setShowPricingDialog(false)} 
@@ -1,3 +1,5 @@
+import type { CategoryValueType } from '@/lib/valueUnits';
+
 export interface Fortune {
   id: string;
   user_id: string;
@@ -6,7 +8,10 @@ export interface Fortune {
   created_at: string;        // ISO
   fortune_level: number | null;
   fortune_value?: number | null; // Keep for backward compatibility
+  currency?: string | null;      // ISO code of fortune_value; null = entered before currencies were tracked
   impact_level?: string | null; // New field for impact level
+  tags?: string[] | null;       // Free-form labels (fortune_tags)
+  pending_sync?: boolean;       // Local only: created offline, still in the outbox
 }
 
 export type FortuneCategory = 'Wealth' | 'Health' | 'Love' | 'Opportunity' | 'Tasks' | 'Other' | string;
@@ -15,6 +20,9 @@ export interface CategoryData {
   name: string;
   hasNumericValue: boolean;
   color: string;
+  parent?: string | null;    // Parent category name for subcategories (custom_categories.parent_name)
+  archived?: boolean;        // Hidden from pickers; still valid on existing fortunes
+  valueType?: CategoryValueType; // Unit and range of the value; currency when unset
 }
 
 export interface Profile {
@@ -23,6 +31,7 @@ export interface Profile {
   display_name?: string | null;
   avatar_url?: string | null;
   level?: number | null;
+  xp?: number | null;           // Experience points; written by the server only
   total_fortunes?: number | null;
   created_at: string;
   updated_at: string;
@@ -56,6 +65,22 @@ export interface Achievement {
   requiredCount: number;
   category?: FortuneCategory;
   progress?: number;
+  unlockedAt?: string | null;   // When the server recorded the unlock (user_achievements.unlocked_at)
+}
+
+export type ChallengeStatus = 'upcoming' | 'active' | 'completed' | 'missed';
+
+export interface Challenge {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;                 // Badge shown once completed
+  startsOn: string;             // yyyy-MM-dd, first day counted (user's local calendar)
+  endsOn: string;               // yyyy-MM-dd, last day counted
+  requiredCount: number;
+  progress: number;
+  completedAt: string | null;
+  status: ChallengeStatus;
 }
 
 export interface TutorialProgress {
@@ -5,6 +5,8 @@ export interface NativeUploaderOptions {
   accessToken: string;
   userId: string;
   fortuneId: string;
+  /** 0-based photo slot; omitted means the first photo */
+  index?: number;
 }
 
 export interface NativeUploaderResult {
@@ -19,7 +21,9 @@ export interface NativeUploaderResult {
   cancelled?: boolean;
   pending?: boolean;
   media?: {
+    id?: string;
     fortune_id: string;
+    index?: number;
     bucket: string;
     path: string;
     updated_at: string;
@@ -56,6 +60,26 @@ export interface NativePhotoPicker {
   pickPhoto: () => Promise<NativePhotoPickerResult>;
 }
 
+// ============ Capacitor share (native app shell) ============
+// Only the plugin methods the share card flow uses; the plugins are injected by the native
+// shell at runtime, so nothing here is bundled with the web build.
+
+export interface CapacitorFilesystemPlugin {
+  writeFile: (options: { path: string; data: string; directory: 'CACHE' }) => Promise<{ uri: string }>;
+}
+
+export interface CapacitorSharePlugin {
+  share: (options: { title?: string; text?: string; files?: string[]; dialogTitle?: string }) => Promise<unknown>;
+}
+
+export interface CapacitorGlobal {
+  isNativePlatform?: () => boolean;
+  Plugins?: {
+    Filesystem?: CapacitorFilesystemPlugin;
+    Share?: CapacitorSharePlugin;
+  };
+}
+
 declare global {
   interface Window {
     // Legacy uploader (iOS injected JavaScript - handles full upload flow)
@@ -65,6 +89,9 @@ declare global {
     // NEW: Simplified photo picker (native code only picks photo, Lovable handles upload)
     NativePhotoPickerAvailable?: boolean;
     NativePhotoPicker?: NativePhotoPicker;
+
+    // Capacitor runtime (native app builds only)
+    Capacitor?: CapacitorGlobal;
   }
 }
 
@@ -0,0 +1,61 @@
+// Mirrors src/lib/currency.ts so server totals match what the app shows
+
+// Units of each currency per 1 USD
+export type ExchangeRates = Record<string, number>;
+
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+type RateRow = { currency: string; rate_per_usd: number | string };
+
+/**
+ * The user's rates (exchange_rates rows) on top of the starting rates (default_exchange_rates rows)
+ */
+export function buildExchangeRates(defaultRows: RateRow[] | null, rows: RateRow[] | null): ExchangeRates {
+  const rates: ExchangeRates = {};
+  for (const row of [...(defaultRows ?? []), ...(rows ?? [])]) {
+    const rate = Number(row.rate_per_usd);
+    if (Number.isFinite(rate) && rate > 0) rates[row.currency] = rate;
+  }
+  rates.USD = 1;
+  return rates;
+}
+
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Sums fortune values in the target currency; values without a currency count as the target currency.
+ */
+export function sumInCurrency(
+  items: Array<{ fortune_value: number | string | null; currency: string | null }>,
+  targetCurrency: string,
+  rates: ExchangeRates
+): { total: number; unconverted: number } {
+  let total = 0;
+  let unconverted = 0;
+  for (const item of items) {
+    const value = Number(item.fortune_value) || 0;
+    if (!value) continue;
+    const converted = convertAmount(value, item.currency || targetCurrency, targetCurrency, rates);
+    if (converted === null) {
+      unconverted += 1;
+    } else {
+      total += converted;
+    }
+  }
+  return { total: Math.round(total * 100) / 100, unconverted };
+}
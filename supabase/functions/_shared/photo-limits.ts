@@ -0,0 +1,24 @@
+import type { AccessTier } from './report-utils.ts';
+
+// Photos allowed per fortune for each plan tier (trial users resolve to 'pro')
+export const MAX_PHOTOS_BY_TIER: Record<AccessTier, number> = {
+  none: 0,
+  essential: 1,
+  growth: 3,
+  pro: 5,
+  lifetime: 5,
+};
+
+export function getMaxPhotosPerFortune(tier: AccessTier): number {
+  return MAX_PHOTOS_BY_TIER[tier] ?? 0;
+}
+
+/**
+ * Parses the optional photo slot index from a request body.
+ * Missing means slot 0 so older clients keep replacing the first photo.
+ */
+export function parsePhotoIndex(value: unknown): number | null {
+  if (value === undefined || value === null) return 0;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) return null;
+  return value;
+}
@@ -0,0 +1,76 @@
+// Mirrors src/lib/valueUnits.ts so report totals use each category's own unit
+
+export type ValueUnit = 'currency' | 'minutes' | 'kilometres' | 'count' | 'rating';
+
+const UNITS: Record<ValueUnit, { label: string; aggregate: 'sum' | 'average' }> = {
+  currency: { label: 'Currency', aggregate: 'sum' },
+  minutes: { label: 'Minutes', aggregate: 'sum' },
+  kilometres: { label: 'Kilometres', aggregate: 'sum' },
+  count: { label: 'Count', aggregate: 'sum' },
+  rating: { label: 'Rating', aggregate: 'average' },
+};
+
+const isValueUnit = (value: unknown): value is ValueUnit =>
+  typeof value === 'string' && value in UNITS;
+
+// Lowercased category name -> unit; categories missing from the map (the defaults) are currency
+export function buildUnitMap(rows: Array<{ name: string; value_unit: string | null }> | null): Map<string, ValueUnit> {
+  return new Map(
+    (rows ?? []).map((row) => [row.name.trim().toLowerCase(), isValueUnit(row.value_unit) ? row.value_unit : 'currency'])
+  );
+}
+
+export const unitOf = (category: string | null, units: Map<string, ValueUnit>): ValueUnit =>
+  (category && units.get(category.trim().toLowerCase())) || 'currency';
+
+export interface UnitValueSummary {
+  unit: ValueUnit;
+  // Sum, or the average for ratings
+  value: number;
+  entries: number;
+}
+
+/**
+ * Sums (or averages, for ratings) the values of every non-currency unit; money goes through sumInCurrency
+ */
+export function summarizeNonCurrencyValues(
+  items: Array<{ category: string | null; fortune_value: number | string | null }>,
+  units: Map<string, ValueUnit>
+): UnitValueSummary[] {
+  const totals = new Map<ValueUnit, { sum: number; entries: number }>();
+  for (const item of items) {
+    const value = Number(item.fortune_value) || 0;
+    if (!value) continue;
+    const unit = unitOf(item.category, units);
+    if (unit === 'currency') continue;
+    const current = totals.get(unit) ?? { sum: 0, entries: 0 };
+    totals.set(unit, { sum: current.sum + value, entries: current.entries + 1 });
+  }
+  return Array.from(totals.entries()).map(([unit, { sum, entries }]) => ({
+    unit,
+    value: Math.round((UNITS[unit].aggregate === 'average' ? sum / entries : sum) * 100) / 100,
+    entries,
+  }));
+}
+
+export const unitCardTitle = (unit: ValueUnit): string =>
+  `${UNITS[unit].aggregate === 'average' ? 'Average' : 'Total'} ${UNITS[unit].label} in Period`;
+
+export function formatUnitValue(value: number, unit: ValueUnit): string {
+  switch (unit) {
+    case 'minutes': {
+      const total = Math.round(value);
+      if (total < 60) return `${total} min`;
+      const minutes = total % 60;
+      return minutes ? `${Math.floor(total / 60)}h ${minutes}m` : `${Math.floor(total / 60)}h`;
+    }
+    case 'kilometres':
+      return `${value.toFixed(2).replace(/\.?0+$/, '')} km`;
+    case 'count':
+      return `×${Math.round(value)}`;
+    case 'rating':
+      return `${value.toFixed(1)}/5`;
+    default:
+      return String(value);
+  }
+}
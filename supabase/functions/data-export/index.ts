@@ -0,0 +1,245 @@
+/// <reference lib="deno.ns" />
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { zipSync, strToU8, type Zippable } from 'https://esm.sh/fflate@0.8.2';
+import { baseCorsHeaders, jsonResponse, requireUser } from '../_shared/report-utils.ts';
+import { decryptFieldMaybe } from '../_shared/crypto.ts';
+
+const corsHeaders = {
+  ...baseCorsHeaders,
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Content-Disposition',
+};
+
+const EXPORT_SCHEMA_VERSION = 1;
+
+// Private journal texts are sealed in the browser with the user's passphrase; the server never has
+// the key, so they are exported as they are stored
+const JOURNAL_PREFIX = 'e2e:v1:';
+const isSealed = (value: unknown) => typeof value === 'string' && value.startsWith(JOURNAL_PREFIX);
+
+interface PhotoManifestEntry {
+  fortune_id: string;
+  index: number;
+  file: string | null; // path inside the archive, null when the original couldn't be fetched
+  mime_type: string;
+  error?: string;
+}
+
+/**
+ * Normalize path by stripping bucket prefix if present
+ * Returns bucket-relative path (NO bucket prefix like "photos/")
+ */
+function stripBucketPrefix(bucket: string, path: string): string {
+  if (path.startsWith(`${bucket}/`)) {
+    return path.slice(bucket.length + 1);
+  }
+  if (path.startsWith(`/${bucket}/`)) {
+    return path.slice(bucket.length + 2);
+  }
+  return path;
+}
+
+function extensionFor(mimeType: string, path: string): string {
+  const fromPath = path.split('.').pop();
+  if (fromPath && fromPath.length <= 5 && fromPath !== path) return fromPath.toLowerCase();
+  if (mimeType === 'image/png') return 'png';
+  if (mimeType === 'image/webp') return 'webp';
+  if (mimeType === 'image/heic') return 'heic';
+  return 'jpg';
+}
+
+type UserClient = Awaited<ReturnType<typeof requireUser>>['supabaseClient'];
+type Row = Record<string, unknown>;
+
+const toJsonFile = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+// Report content is encrypted ReportModelV1 JSON; older rows may hold plain markdown
+async function decryptReportContent(content: unknown): Promise<unknown> {
+  if (typeof content !== 'string' || !content) return null;
+  const plain = await decryptFieldMaybe(content);
+  try {
+    return JSON.parse(plain);
+  } catch {
+    return plain;
+  }
+}
+
+const decryptOptional = async (value: unknown) =>
+  typeof value === 'string' && value ? await decryptFieldMaybe(value) : null;
+
+// Rows per request, below the API's max_rows (supabase/config.toml) so a full page means there may be more
+const PAGE_SIZE = 500;
+
+async function selectAll(supabaseClient: UserClient, table: string, userId: string, orderBy: string): Promise<Row[]> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order(orderBy, { ascending: true })
+      // Tie-breaker so rows sharing orderBy can't move between pages
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+    rows.push(...((data ?? []) as Row[]));
+    if ((data ?? []).length < PAGE_SIZE) return rows;
+  }
+}
+
+// Walks a keyset-paginated fortune RPC (fortune_list / fortune_trash_list) to the end
+async function listAllFortunes(
+  supabaseClient: UserClient,
+  rpc: 'fortune_list' | 'fortune_trash_list',
+  cursorColumn: 'created_at' | 'deleted_at'
+): Promise<Row[]> {
+  const rows: Row[] = [];
+  let cursor: Row | null = null;
+  for (;;) {
+    const { data, error } = await supabaseClient.rpc(rpc, {
+      [`p_cursor_${cursorColumn}`]: cursor?.[cursorColumn] ?? null,
+      p_cursor_id: cursor?.id ?? null,
+      p_limit: PAGE_SIZE,
+    });
+
+    if (error) {
+      throw new Error(`Failed to export fortunes: ${error.message}`);
+    }
+    const page = (data ?? []) as Row[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+    cursor = page[page.length - 1];
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  try {
+    const { supabaseClient, user } = await requireUser(req);
+
+    // Fortunes: the list RPCs decrypt server-side and are scoped to auth.uid(). The trash holds what is
+    // still restorable (deleted in the last 30 days); past that a fortune awaits purging and isn't exported.
+    const [fortunes, trashedFortunes] = await Promise.all([
+      listAllFortunes(supabaseClient, 'fortune_list', 'created_at'),
+      listAllFortunes(supabaseClient, 'fortune_trash_list', 'deleted_at'),
+    ]);
+
+    const [lifestyleRows, tasks, reportRows, categories, dailyLog, mediaRows] = await Promise.all([
+      selectAll(supabaseClient, 'lifestyle_entries', user.id, 'date'),
+      selectAll(supabaseClient, 'tasks', user.id, 'created_at'),
+      selectAll(supabaseClient, 'reports', user.id, 'created_at'),
+      selectAll(supabaseClient, 'custom_categories', user.id, 'name'),
+      selectAll(supabaseClient, 'daily_log', user.id, 'date'),
+      selectAll(supabaseClient, 'fortune_media', user.id, 'created_at'),
+    ]);
+
+    const lifestyleEntries = await Promise.all(
+      lifestyleRows.map(async (entry) => ({
+        ...entry,
+        notes: await decryptOptional(entry.notes),
+        dream_description: await decryptOptional(entry.dream_description),
+        meals: await decryptOptional(entry.meals),
+      }))
+    );
+
+    const reports = await Promise.all(
+      reportRows.map(async (report) => ({
+        ...report,
+        content: await decryptReportContent(report.content),
+      }))
+    );
+
+    const files: Zippable = {
+      'fortunes.json': toJsonFile(fortunes),
+      'fortunes_trash.json': toJsonFile(trashedFortunes),
+      'lifestyle_entries.json': toJsonFile(lifestyleEntries),
+      'tasks.json': toJsonFile(tasks),
+      'reports.json': toJsonFile(reports),
+      'custom_categories.json': toJsonFile(categories),
+      'daily_log.json': toJsonFile(dailyLog),
+    };
+
+    // Photos: storage RLS doesn't expose objects to the user client, so download with the
+    // service role - but only the paths listed in the caller's own fortune_media rows.
+    const serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const photos: PhotoManifestEntry[] = [];
+    for (const media of mediaRows as Array<{ fortune_id: string; position: number; bucket: string | null; path: string; mime_type: string }>) {
+      const bucket = media.bucket || 'photos';
+      const path = stripBucketPrefix(bucket, media.path);
+      const { data: blob, error: downloadError } = await serviceClient.storage.from(bucket).download(path);
+
+      if (downloadError || !blob) {
+        console.warn('data-export: photo download failed', { fortune_id: media.fortune_id, path, error: downloadError });
+        photos.push({ fortune_id: media.fortune_id, index: media.position, file: null, mime_type: media.mime_type, error: 'Not found in storage' });
+        continue;
+      }
+
+      const file = `photos/${media.fortune_id}-${media.position}.${extensionFor(media.mime_type, path)}`;
+      // Images are already compressed; store them as-is
+      files[file] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+      photos.push({ fortune_id: media.fortune_id, index: media.position, file, mime_type: media.mime_type });
+    }
+
+    const generatedAt = new Date().toISOString();
+    files['manifest.json'] = toJsonFile({
+      schema_version: EXPORT_SCHEMA_VERSION,
+      generated_at: generatedAt,
+      user: { id: user.id, email: user.email ?? null },
+      counts: {
+        fortunes: fortunes.length,
+        fortunes_trash: trashedFortunes.length,
+        lifestyle_entries: lifestyleEntries.length,
+        tasks: tasks.length,
+        reports: reports.length,
+        custom_categories: categories.length,
+        daily_log: dailyLog.length,
+        photos: photos.filter((p) => p.file).length,
+      },
+      files: Object.keys(files).filter((name) => !name.startsWith('photos/')).concat('manifest.json'),
+      photos,
+      private_journal: {
+        sealed_prefix: JOURNAL_PREFIX,
+        sealed_fortunes: [...fortunes, ...trashedFortunes].filter((row) => isSealed(row.text)).length,
+        sealed_lifestyle_entries: lifestyleEntries.filter((entry) =>
+          isSealed(entry.notes) || isSealed(entry.dream_description) || isSealed(entry.meals)
+        ).length,
+        note: `Texts starting with "${JOURNAL_PREFIX}" are private journal entries, encrypted with your journal passphrase. They can only be read in the app with the journal unlocked.`,
+      },
+    });
+
+    const archive = zipSync(files, { level: 6 });
+    const fileName = `fortune-magnet-export-${generatedAt.slice(0, 10)}.zip`;
+
+    console.log('data-export: archive built', { userId: user.id, bytes: archive.length, photos: photos.length });
+
+    return new Response(archive, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        // octet-stream so supabase.functions.invoke hands the client a Blob
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in data-export:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message === 'Authorization required' || message === 'Invalid or expired token' ? 401 : 500;
+    return jsonResponse({ error: message }, status, corsHeaders);
+  }
+});
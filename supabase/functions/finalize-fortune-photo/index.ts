@@ -2,10 +2,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { getAccessTier } from '../_shared/report-utils.ts';
+import { getMaxPhotosPerFortune, parsePhotoIndex } from '../_shared/photo-limits.ts';
 
 // BUILD_TAG for deployment drift detection
 // Update this timestamp when deploying to production
-const BUILD_TAG = '2026-01-23-graceful-notfound';
+const BUILD_TAG = '2026-10-19-multi-photo';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,6 +30,14 @@ function stripBucketPrefix(bucket: string, path: string): string {
   return path;
 }
 
+type MediaRow = {
+  id: string;
+  bucket: string;
+  path: string;
+  position: number;
+  updated_at: string;
+};
+
 serve(async (req) => {
   console.log('finalize-fortune-photo: Request received', { BUILD_TAG });
 
@@ -55,8 +65,9 @@ serve(async (req) => {
     }
 
     // Parse request body
-    // - Default behavior (finalize) expects bucket + path + mime
+    // - Default behavior (finalize) expects bucket + path + mime, plus an optional photo `index`
     // - SIGN_ONLY only needs fortune_id (we will look up fortune_media)
+    // - DELETE needs media_id; REORDER needs media_ids in the new order
     const body = await req.json();
     const {
       action,
@@ -68,6 +79,9 @@ serve(async (req) => {
       size_bytes,
       mime,
       ttlSec,
+      index,
+      media_id,
+      media_ids,
     } = body ?? {};
 
     const rawPath = path;
@@ -78,6 +92,7 @@ serve(async (req) => {
       bucket,
       rawPath,
       ttlSec,
+      index,
     });
 
     if (!fortune_id) {
@@ -88,9 +103,12 @@ serve(async (req) => {
     }
 
     const isSignOnly = action === 'SIGN_ONLY';
+    const isDelete = action === 'DELETE';
+    const isReorder = action === 'REORDER';
+    const isFinalize = !isSignOnly && !isDelete && !isReorder;
 
     // For FINALIZE flow we still require bucket/path/mime
-    if (!isSignOnly) {
+    if (isFinalize) {
       if (!bucket || !path || !mime) {
         return new Response(JSON.stringify({ error: 'fortune_id, bucket, path, and mime are required' }), {
           status: 400,
@@ -99,12 +117,34 @@ serve(async (req) => {
       }
     }
 
+    const photoIndex = parsePhotoIndex(index);
+    if (isFinalize && photoIndex === null) {
+      return new Response(JSON.stringify({ error: 'index must be a non-negative integer' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (isDelete && (!media_id || typeof media_id !== 'string')) {
+      return new Response(JSON.stringify({ error: 'media_id is required' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (isReorder && (!Array.isArray(media_ids) || media_ids.some((id: unknown) => typeof id !== 'string'))) {
+      return new Response(JSON.stringify({ error: 'media_ids must be an array of ids' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Normalize path: strip bucket prefix if present (only when path is provided)
-    const bucketRelativePath = (!isSignOnly && bucket && path)
+    const bucketRelativePath = (isFinalize && bucket && path)
       ? stripBucketPrefix(bucket, path)
       : '';
 
-    if (!isSignOnly) {
+    if (isFinalize) {
       console.log('finalize-fortune-photo: Path normalization - rawPath:', rawPath, 'bucketRelativePath:', bucketRelativePath);
     }
 
@@ -153,78 +193,51 @@ serve(async (req) => {
       });
     }
 
-    // Check if user has active subscription: lifetime active OR recurring active/trialing
-    // Query subscriptions to get status and is_lifetime for server-side access computation
-    const { data: subscription } = await userClient
-      .from('subscriptions')
-      .select('status, is_lifetime')
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    // Also check if user is in trial period
-    const { data: profile } = await userClient
-      .from('profiles')
-      .select('trial_ends_at')
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    const isInTrial = profile?.trial_ends_at && new Date(profile.trial_ends_at) > new Date();
-
-    // Compute hasAccess server-side based on subscription status and lifetime flag
-    let hasActiveSubscription = false;
-    if (subscription) {
-      // Lifetime: must have is_lifetime=true AND status='active'
-      if (subscription.is_lifetime === true && subscription.status === 'active') {
-        hasActiveSubscription = true;
-      }
-      // Recurring: status must be 'active' or 'trialing' (Stripe is source of truth)
-      else if (subscription.status === 'active' || subscription.status === 'trialing') {
-        hasActiveSubscription = true;
-      }
-      // All other statuses (past_due, canceled, unpaid, incomplete, etc.) do NOT grant access
-    }
+    // Access: lifetime active OR recurring active/trialing OR profile trial (see getAccessTier).
+    // The tier also caps how many photos a fortune can hold.
+    const { tier, isTrial } = await getAccessTier(userClient, user.id);
+    const maxPhotos = getMaxPhotosPerFortune(tier);
 
-    // Grant access if user has active subscription OR is in trial period
-    if (!hasActiveSubscription && !isInTrial) {
-      console.log('finalize-fortune-photo: User not Pro/Lifetime or in trial', {
-        hasActiveSubscription,
-        isInTrial,
-        subscriptionStatus: subscription?.status,
-        isLifetime: subscription?.is_lifetime
-      });
+    if (maxPhotos === 0) {
+      console.log('finalize-fortune-photo: User not Pro/Lifetime or in trial', { tier, isTrial });
       return new Response(JSON.stringify({ error: 'Pro/Lifetime subscription required' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
+    // All photos of this fortune in display order
+    const { data: mediaRows, error: mediaErr } = await userClient
+      .from('fortune_media')
+      .select('id, bucket, path, position, updated_at')
+      .eq('fortune_id', fortune_id)
+      .order('position', { ascending: true });
+
+    if (mediaErr) {
+      console.error('finalize-fortune-photo: media lookup failed', { fortune_id, error: mediaErr });
+      return new Response(JSON.stringify({ error: 'Failed to load media' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const photos = (mediaRows ?? []) as MediaRow[];
+
     // -----------------------------
-    // SIGN_ONLY: create a signed GET URL for the current fortune photo
+    // SIGN_ONLY: create signed GET URLs for the fortune's photos
     // This path is used by the web client to avoid Storage RLS "Object not found" errors.
     // It does NOT modify DB and does NOT verify uploads; it only signs what is already stored.
+    // `signedUrl`/`media` describe the first photo for clients that predate multi-photo support.
     // -----------------------------
     if (isSignOnly) {
       const ttl = typeof ttlSec === 'number' && ttlSec > 0 ? Math.min(ttlSec, 60 * 10) : 300; // cap at 10 minutes
 
-      // Look up media for this fortune
-      const { data: mediaRow, error: mediaErr } = await userClient
-        .from('fortune_media')
-        .select('bucket, path, updated_at')
-        .eq('fortune_id', fortune_id)
-        .maybeSingle();
-
-      if (mediaErr) {
-        console.error('finalize-fortune-photo: SIGN_ONLY media lookup failed', { fortune_id, error: mediaErr });
-        return new Response(JSON.stringify({ error: 'Failed to load media' }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-
-      if (!mediaRow?.bucket || !mediaRow?.path) {
+      if (photos.length === 0) {
         return new Response(JSON.stringify({
           signedUrl: null,
           media: null,
+          photos: [],
+          maxPhotos,
           buildTag: BUILD_TAG,
         }), {
           status: 200,
@@ -232,86 +245,194 @@ serve(async (req) => {
         });
       }
 
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-      const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
       const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
 
-      // Normalize path to ensure it's bucket-relative (no bucket prefix)
-      const normalizedPath = stripBucketPrefix(mediaRow.bucket, mediaRow.path);
-      
-      const { data: sData, error: sErr } = await serviceClient.storage
-        .from(mediaRow.bucket)
-        .createSignedUrl(normalizedPath, ttl);
-
-      if (sErr || !sData?.signedUrl) {
-        // Check if this is an "Object not found" error - file wasn't persisted
-        const errMessage = (sErr as { message?: string } | null)?.message || '';
-        const isNotFound = errMessage.includes('Object not found') || errMessage.includes('not found');
-        
-        if (isNotFound) {
-          // File doesn't exist in storage - return null signedUrl instead of error
-          // This happens when iOS uploader used wrong method (POST multipart instead of PUT)
-          console.warn('finalize-fortune-photo: SIGN_ONLY file not found in storage, returning null', {
+      const signed: Array<MediaRow & { signedUrl: string | null; fileNotFound?: boolean }> = [];
+      for (const mediaRow of photos) {
+        // Normalize path to ensure it's bucket-relative (no bucket prefix)
+        const normalizedPath = stripBucketPrefix(mediaRow.bucket, mediaRow.path);
+
+        const { data: sData, error: sErr } = await serviceClient.storage
+          .from(mediaRow.bucket)
+          .createSignedUrl(normalizedPath, ttl);
+
+        if (sErr || !sData?.signedUrl) {
+          // Check if this is an "Object not found" error - file wasn't persisted
+          const errMessage = (sErr as { message?: string } | null)?.message || '';
+          const isNotFound = errMessage.includes('Object not found') || errMessage.includes('not found');
+
+          if (isNotFound) {
+            // File doesn't exist in storage - return a null signedUrl for this photo instead of an error
+            // This happens when iOS uploader used wrong method (POST multipart instead of PUT)
+            console.warn('finalize-fortune-photo: SIGN_ONLY file not found in storage, returning null', {
+              fortune_id,
+              bucket: mediaRow.bucket,
+              path: mediaRow.path,
+              position: mediaRow.position,
+            });
+            signed.push({ ...mediaRow, signedUrl: null, fileNotFound: true });
+            continue;
+          }
+
+          // Other errors - return 500
+          console.error('finalize-fortune-photo: SIGN_ONLY failed to sign', {
             fortune_id,
             bucket: mediaRow.bucket,
             path: mediaRow.path,
+            ttl,
+            error: sErr,
           });
-          return new Response(JSON.stringify({
-            signedUrl: null,
-            media: null,
-            fileNotFound: true,
-            buildTag: BUILD_TAG,
-          }), {
-            status: 200,
+          return new Response(JSON.stringify({ error: 'Failed to create signed URL' }), {
+            status: 500,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
-        
-        // Other errors - return 500
-        console.error('finalize-fortune-photo: SIGN_ONLY failed to sign', {
-          fortune_id,
-          bucket: mediaRow.bucket,
-          path: mediaRow.path,
-          ttl,
-          error: sErr,
+
+        signed.push({ ...mediaRow, signedUrl: sData.signedUrl });
+      }
+
+      const first = signed[0];
+      return new Response(JSON.stringify({
+        signedUrl: first.signedUrl,
+        replaced: !!first.signedUrl,
+        media: first.signedUrl
+          ? {
+            fortune_id,
+            bucket: first.bucket,
+            path: first.path,
+            updated_at: first.updated_at,
+          }
+          : null,
+        ...(first.fileNotFound ? { fileNotFound: true } : {}),
+        photos: signed.map((photo) => ({
+          id: photo.id,
+          index: photo.position,
+          bucket: photo.bucket,
+          path: photo.path,
+          updated_at: photo.updated_at,
+          signedUrl: photo.signedUrl,
+          ...(photo.fileNotFound ? { fileNotFound: true } : {}),
+        })),
+        maxPhotos,
+        buildTag: BUILD_TAG,
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // -----------------------------
+    // DELETE: remove one photo, then close the gap so positions stay 0..n-1
+    // -----------------------------
+    if (isDelete) {
+      const target = photos.find((photo) => photo.id === media_id);
+      if (!target) {
+        return new Response(JSON.stringify({ error: 'Photo not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
-        return new Response(JSON.stringify({ error: 'Failed to create signed URL' }), {
+      }
+
+      const { error: deleteError } = await userClient
+        .from('fortune_media')
+        .delete()
+        .eq('id', target.id)
+        .eq('fortune_id', fortune_id);
+
+      if (deleteError) {
+        console.error('finalize-fortune-photo: Failed to delete media record:', deleteError);
+        return new Response(JSON.stringify({ error: 'Failed to delete photo' }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
+      const remainingIds = photos.filter((photo) => photo.id !== target.id).map((photo) => photo.id);
+      if (remainingIds.length > 0) {
+        const { error: reorderError } = await userClient.rpc('fortune_media_reorder', {
+          p_fortune_id: fortune_id,
+          p_media_ids: remainingIds,
+        });
+        if (reorderError) {
+          console.error('finalize-fortune-photo: Failed to compact positions after delete:', reorderError);
+        }
+      }
+
+      // Best effort: the DB row is the source of truth, a leftover object is only wasted space
+      const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+      const { error: removeError } = await serviceClient.storage
+        .from(target.bucket)
+        .remove([stripBucketPrefix(target.bucket, target.path)]);
+      if (removeError) {
+        console.warn('finalize-fortune-photo: Storage remove failed (ignored)', { removeError });
+      }
+
+      console.log('finalize-fortune-photo: PHOTO_DELETED', { fortune_id, media_id: target.id, position: target.position });
+
       return new Response(JSON.stringify({
-        signedUrl: sData.signedUrl,
-        replaced: true,
-        media: {
-          fortune_id,
-          bucket: mediaRow.bucket,
-          path: mediaRow.path,
-          updated_at: mediaRow.updated_at,
-        },
+        deleted: true,
+        media_id: target.id,
+        remaining: remainingIds.length,
         buildTag: BUILD_TAG,
       }), {
-        status: 200,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Check if media already exists for this fortune
-    const { data: existingMedia } = await userClient
-      .from('fortune_media')
-      .select('*')
-      .eq('fortune_id', fortune_id)
-      .maybeSingle();
+    // -----------------------------
+    // REORDER: media_ids lists every photo of the fortune in its new order
+    // -----------------------------
+    if (isReorder) {
+      const { error: reorderError } = await userClient.rpc('fortune_media_reorder', {
+        p_fortune_id: fortune_id,
+        p_media_ids: media_ids,
+      });
+
+      if (reorderError) {
+        console.error('finalize-fortune-photo: Failed to reorder media:', reorderError);
+        return new Response(JSON.stringify({ error: reorderError.message || 'Failed to reorder photos' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      console.log('finalize-fortune-photo: PHOTOS_REORDERED', { fortune_id, count: media_ids.length });
+
+      return new Response(JSON.stringify({
+        reordered: true,
+        media_ids,
+        buildTag: BUILD_TAG,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // FINALIZE: slots are contiguous - replace an existing photo or append right after the last one
+    const targetIndex = photoIndex as number;
+    if (targetIndex >= maxPhotos || targetIndex > photos.length) {
+      console.log('finalize-fortune-photo: Photo index out of range', { targetIndex, count: photos.length, maxPhotos, tier });
+      return new Response(JSON.stringify({
+        error: targetIndex >= maxPhotos
+          ? `Your plan allows up to ${maxPhotos} photo${maxPhotos === 1 ? '' : 's'} per fortune`
+          : 'Photo index out of range',
+        maxPhotos,
+      }), {
+        status: targetIndex >= maxPhotos ? 403 : 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Check if media already exists in this slot
+    const existingMedia = photos.find((photo) => photo.position === targetIndex) ?? null;
 
     const replaced = !!existingMedia;
-    console.log('finalize-fortune-photo: Media replacement status:', replaced);
+    console.log('finalize-fortune-photo: Media replacement status:', { replaced, targetIndex });
 
     // Upsert into fortune_media table - handle unique constraint properly
     // Store bucketRelativePath in DB (canonical format)
-    let updatedMedia: { bucket: string; path: string; updated_at: string } | null = null;
+    let updatedMedia: MediaRow | null = null;
 
-    if (replaced) {
+    if (existingMedia) {
       // Update existing record - explicitly set updated_at to ensure cache invalidation
       // Use .select() to return the DB values after update
       const { data: updateData, error: updateError } = await userClient
@@ -325,8 +446,8 @@ serve(async (req) => {
           mime_type: mime,
           updated_at: new Date().toISOString() // Explicitly update timestamp for cache busting
         })
-        .eq('fortune_id', fortune_id)
-        .select('bucket, path, updated_at')
+        .eq('id', existingMedia.id)
+        .select('id, bucket, path, position, updated_at')
         .single();
 
       if (updateError) {
@@ -350,9 +471,10 @@ serve(async (req) => {
           width: width || null,
           height: height || null,
           size_bytes: size_bytes || null,
-          mime_type: mime
+          mime_type: mime,
+          position: targetIndex
         })
-        .select('bucket, path, updated_at')
+        .select('id, bucket, path, position, updated_at')
         .single();
 
       if (insertError) {
@@ -373,6 +495,7 @@ serve(async (req) => {
         bucket: updatedMedia.bucket,
         path: updatedMedia.path,
         updated_at: updatedMedia.updated_at,
+        index: updatedMedia.position,
         replaced
       });
     } else {
@@ -478,7 +601,9 @@ serve(async (req) => {
           signedUrl: null,
           replaced,
           media: {
+            id: updatedMedia.id,
             fortune_id: fortune_id,
+            index: updatedMedia.position,
             bucket: updatedMedia.bucket,
             path: updatedMedia.path,
             updated_at: updatedMedia.updated_at,
@@ -511,7 +636,9 @@ serve(async (req) => {
       signedUrl: signedUrlData.signedUrl,
       replaced,
       media: {
+        id: updatedMedia.id,
         fortune_id: fortune_id,
+        index: updatedMedia.position,
         bucket: updatedMedia.bucket,
         path: updatedMedia.path,
         updated_at: updatedMedia.updated_at
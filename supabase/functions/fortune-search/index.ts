@@ -0,0 +1,206 @@
+/// <reference lib="deno.ns" />
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { baseCorsHeaders, jsonResponse, parseJsonBody, requireUser } from '../_shared/report-utils.ts';
+
+const corsHeaders = {
+  ...baseCorsHeaders,
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const IMPACT_LEVELS = ['small_step', 'milestone', 'big_win'];
+
+interface FortuneSearchRequest {
+  query?: string;
+  categories?: string[];
+  tags?: string[];
+  impact_levels?: string[];
+  min_value?: number | null;
+  max_value?: number | null;
+  from?: string | null; // ISO
+  to?: string | null; // ISO
+  page?: number;
+  page_size?: number;
+}
+
+interface FortuneSearchRow {
+  id: string;
+  user_id: string;
+  text: string | null;
+  category: string | null;
+  created_at: string;
+  fortune_level: number | null;
+  fortune_value: number | null;
+  currency: string | null;
+  impact_level: string | null;
+  tags: string[];
+  total_count: number;
+}
+
+function validateRequest(body: FortuneSearchRequest): string | null {
+  if (body.query !== undefined && body.query !== null) {
+    if (typeof body.query !== 'string') return 'query must be a string';
+    if (body.query.length > MAX_QUERY_LENGTH) return `query must be ${MAX_QUERY_LENGTH} characters or less`;
+  }
+  if (body.categories !== undefined && body.categories !== null) {
+    if (!Array.isArray(body.categories) || body.categories.some((c) => typeof c !== 'string')) {
+      return 'categories must be an array of strings';
+    }
+  }
+  if (body.tags !== undefined && body.tags !== null) {
+    if (!Array.isArray(body.tags) || body.tags.some((t) => typeof t !== 'string')) {
+      return 'tags must be an array of strings';
+    }
+  }
+  if (body.impact_levels !== undefined && body.impact_levels !== null) {
+    if (!Array.isArray(body.impact_levels) || body.impact_levels.some((l) => !IMPACT_LEVELS.includes(l))) {
+      return `impact_levels must contain only ${IMPACT_LEVELS.join(', ')}`;
+    }
+  }
+  for (const key of ['min_value', 'max_value'] as const) {
+    const v = body[key];
+    if (v !== undefined && v !== null && (typeof v !== 'number' || isNaN(v))) {
+      return `${key} must be a number`;
+    }
+  }
+  if (
+    typeof body.min_value === 'number' &&
+    typeof body.max_value === 'number' &&
+    body.min_value > body.max_value
+  ) {
+    return 'min_value cannot be greater than max_value';
+  }
+  for (const key of ['from', 'to'] as const) {
+    const v = body[key];
+    if (v !== undefined && v !== null && (typeof v !== 'string' || isNaN(new Date(v).getTime()))) {
+      return `${key} must be a valid ISO 8601 date`;
+    }
+  }
+  if (body.page !== undefined && (!Number.isInteger(body.page) || body.page < 1)) {
+    return 'page must be a positive integer';
+  }
+  if (
+    body.page_size !== undefined &&
+    (!Number.isInteger(body.page_size) || body.page_size < 1 || body.page_size > MAX_PAGE_SIZE)
+  ) {
+    return `page_size must be between 1 and ${MAX_PAGE_SIZE}`;
+  }
+  return null;
+}
+
+function splitTerms(query: string): string[] {
+  return query.toLowerCase().trim().split(/\s+/).filter((t) => t.length > 0);
+}
+
+/**
+ * Returns merged [start, end) ranges of every term occurrence in `text`,
+ * so the client can highlight matches without re-implementing the matcher.
+ */
+function computeHighlights(text: string | null, terms: string[]): Array<[number, number]> {
+  if (!text || terms.length === 0) return [];
+  const haystack = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let idx = haystack.indexOf(term);
+    while (idx !== -1) {
+      ranges.push([idx, idx + term.length]);
+      idx = haystack.indexOf(term, idx + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  try {
+    const { supabaseClient } = await requireUser(req);
+
+    let body: FortuneSearchRequest = {};
+    try {
+      body = await parseJsonBody<FortuneSearchRequest>(req);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON body';
+      return jsonResponse({ error: message }, 400, corsHeaders);
+    }
+
+    const validationError = validateRequest(body);
+    if (validationError) {
+      return jsonResponse({ error: validationError }, 400, corsHeaders);
+    }
+
+    const query = (body.query ?? '').trim();
+    const page = body.page ?? 1;
+    const pageSize = body.page_size ?? DEFAULT_PAGE_SIZE;
+
+    // Decryption happens inside fortune_search (RLS-scoped to auth.uid()).
+    const searchRows = async (limit: number, offset: number) => {
+      const { data, error: rpcError } = await supabaseClient.rpc('fortune_search', {
+        p_query: query.length > 0 ? query : null,
+        p_categories: body.categories && body.categories.length > 0 ? body.categories : null,
+        p_impact_levels: body.impact_levels && body.impact_levels.length > 0 ? body.impact_levels : null,
+        p_min_value: body.min_value ?? null,
+        p_max_value: body.max_value ?? null,
+        p_from: body.from ?? null,
+        p_to: body.to ?? null,
+        p_limit: limit,
+        p_offset: offset,
+        p_tags: body.tags && body.tags.length > 0 ? body.tags : null,
+      });
+
+      if (rpcError) {
+        throw new Error(`Failed to search fortunes: ${rpcError.message}`);
+      }
+      return (data ?? []) as FortuneSearchRow[];
+    };
+
+    const rows = await searchRows(pageSize, (page - 1) * pageSize);
+    // total_count rides on the returned rows; a page past the end has none, so count from the first row
+    const countRows = rows.length === 0 && page > 1 ? await searchRows(1, 0) : rows;
+    const total = countRows.length > 0 ? Number(countRows[0].total_count) : 0;
+
+    const terms = splitTerms(query);
+
+    const results = rows.map(({ total_count: _total, ...row }) => ({
+      ...row,
+      highlights: computeHighlights(row.text, terms),
+    }));
+
+    return jsonResponse(
+      {
+        results,
+        total,
+        page,
+        page_size: pageSize,
+        has_more: page * pageSize < total,
+      },
+      200,
+      corsHeaders
+    );
+  } catch (error) {
+    console.error('Error in fortune-search:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message === 'Authorization required' || message === 'Invalid or expired token' ? 401 : 500;
+    return jsonResponse({ error: message }, status, corsHeaders);
+  }
+});
@@ -0,0 +1,208 @@
+/// <reference lib="deno.ns" />
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { baseCorsHeaders, jsonResponse, parseJsonBody, requireUser } from '../_shared/report-utils.ts';
+
+/**
+ * fortune-trash
+ *
+ * Permanent deletion of trashed fortunes (soft-delete/restore are the fortune_trash/fortune_restore RPCs).
+ * - purge: delete the given trashed fortunes of the caller
+ * - empty: delete everything in the caller's trash
+ * - sweep: delete the caller's fortunes trashed more than 30 days ago (the Trash view calls this on open)
+ * - purge_expired: same as sweep for every user, with the service role key as bearer token;
+ *   pg_cron calls it hourly (see 20261019094000_fortune_trash.sql)
+ */
+
+const corsHeaders = {
+  ...baseCorsHeaders,
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Trashed fortunes are kept this long before being purged for good
+const TRASH_RETENTION_DAYS = 30;
+const MAX_PURGE_IDS = 100;
+// Per-run cap for the scheduled purge so a backlog can't time the function out
+const SCHEDULED_PURGE_BATCH = 500;
+
+type TrashAction = 'purge' | 'empty' | 'sweep' | 'purge_expired';
+
+interface FortuneTrashRequest {
+  action?: TrashAction;
+  ids?: string[];
+}
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+interface MediaRow {
+  fortune_id: string;
+  bucket: string | null;
+  path: string;
+}
+
+/**
+ * Normalize path by stripping bucket prefix if present
+ * Returns bucket-relative path (NO bucket prefix like "photos/")
+ */
+function stripBucketPrefix(bucket: string, path: string): string {
+  if (path.startsWith(`${bucket}/`)) {
+    return path.slice(bucket.length + 1);
+  }
+  if (path.startsWith(`/${bucket}/`)) {
+    return path.slice(bucket.length + 2);
+  }
+  return path;
+}
+
+const retentionCutoff = () =>
+  new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Permanently deletes trashed fortunes: photos in storage first, then media rows, then the fortunes.
+ * Callers must have already scoped `fortuneIds` to rows that are in the trash.
+ */
+async function purgeFortunes(serviceClient: ServiceClient, fortuneIds: string[]): Promise<number> {
+  if (fortuneIds.length === 0) return 0;
+
+  const { data: media, error: mediaError } = await serviceClient
+    .from('fortune_media')
+    .select('fortune_id, bucket, path')
+    .in('fortune_id', fortuneIds);
+
+  if (mediaError) {
+    throw new Error(`Failed to load photos: ${mediaError.message}`);
+  }
+
+  const pathsByBucket = new Map<string, string[]>();
+  for (const row of (media ?? []) as MediaRow[]) {
+    const bucket = row.bucket || 'photos';
+    const paths = pathsByBucket.get(bucket) ?? [];
+    paths.push(stripBucketPrefix(bucket, row.path));
+    pathsByBucket.set(bucket, paths);
+  }
+
+  for (const [bucket, paths] of pathsByBucket) {
+    const { error: removeError } = await serviceClient.storage.from(bucket).remove(paths);
+    if (removeError) {
+      // Don't leave rows pointing at half-deleted photos; the next purge retries
+      throw new Error(`Failed to delete photos: ${removeError.message}`);
+    }
+  }
+
+  const { error: mediaDeleteError } = await serviceClient
+    .from('fortune_media')
+    .delete()
+    .in('fortune_id', fortuneIds);
+
+  if (mediaDeleteError) {
+    throw new Error(`Failed to delete photo records: ${mediaDeleteError.message}`);
+  }
+
+  // fortune_tags rows cascade with the fortune
+  const { error: deleteError, count } = await serviceClient
+    .from('fortunes')
+    .delete({ count: 'exact' })
+    .in('id', fortuneIds)
+    .not('deleted_at', 'is', null);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete fortunes: ${deleteError.message}`);
+  }
+
+  return count ?? 0;
+}
+
+async function trashedIds(
+  serviceClient: ServiceClient,
+  filter: { userId?: string; ids?: string[]; olderThan?: string },
+  limit: number
+): Promise<string[]> {
+  let query = serviceClient
+    .from('fortunes')
+    .select('id')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: true })
+    .limit(limit);
+
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.ids) query = query.in('id', filter.ids);
+  if (filter.olderThan) query = query.lt('deleted_at', filter.olderThan);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load trash: ${error.message}`);
+  }
+  return ((data ?? []) as Array<{ id: string }>).map((row) => row.id);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, corsHeaders);
+  }
+
+  try {
+    let body: FortuneTrashRequest = {};
+    try {
+      body = await parseJsonBody<FortuneTrashRequest>(req);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON body';
+      return jsonResponse({ error: message }, 400, corsHeaders);
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const serviceClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Scheduled purge (hourly cron) runs across all users and must use the service role key
+    if (body.action === 'purge_expired') {
+      if (!serviceRoleKey || req.headers.get('authorization') !== `Bearer ${serviceRoleKey}`) {
+        return jsonResponse({ error: 'Service role required' }, 403, corsHeaders);
+      }
+      const ids = await trashedIds(serviceClient, { olderThan: retentionCutoff() }, SCHEDULED_PURGE_BATCH);
+      const purged = await purgeFortunes(serviceClient, ids);
+      console.log('fortune-trash: scheduled purge', { purged });
+      return jsonResponse({ purged }, 200, corsHeaders);
+    }
+
+    const { user } = await requireUser(req);
+
+    if (body.action !== 'purge' && body.action !== 'empty' && body.action !== 'sweep') {
+      return jsonResponse({ error: 'action must be purge, empty or sweep' }, 400, corsHeaders);
+    }
+
+    if (body.action === 'purge') {
+      if (
+        !Array.isArray(body.ids) ||
+        body.ids.length === 0 ||
+        body.ids.length > MAX_PURGE_IDS ||
+        body.ids.some((id) => typeof id !== 'string')
+      ) {
+        return jsonResponse({ error: `ids must be an array of 1-${MAX_PURGE_IDS} fortune ids` }, 400, corsHeaders);
+      }
+    }
+
+    // Only the caller's own trashed fortunes are ever selected
+    const ids = await trashedIds(
+      serviceClient,
+      {
+        userId: user.id,
+        ids: body.action === 'purge' ? body.ids : undefined,
+        olderThan: body.action === 'sweep' ? retentionCutoff() : undefined,
+      },
+      body.action === 'purge' ? MAX_PURGE_IDS : SCHEDULED_PURGE_BATCH
+    );
+    const purged = await purgeFortunes(serviceClient, ids);
+
+    console.log('fortune-trash: purged', { userId: user.id, action: body.action, purged });
+
+    return jsonResponse({ purged }, 200, corsHeaders);
+  } catch (error) {
+    console.error('Error in fortune-trash:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message === 'Authorization required' || message === 'Invalid or expired token' ? 401 : 500;
+    return jsonResponse({ error: message }, status, corsHeaders);
+  }
+});
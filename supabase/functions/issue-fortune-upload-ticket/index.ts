@@ -2,9 +2,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.5';
+import { getAccessTier } from '../_shared/report-utils.ts';
+import { getMaxPhotosPerFortune, parsePhotoIndex } from '../_shared/photo-limits.ts';
 
 // BUILD_TAG for deployment drift detection
-const BUILD_TAG = '2026-01-20-token-fix';
+const BUILD_TAG = '2026-10-19-multi-photo';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -91,7 +93,7 @@ serve(async (req) => {
       });
     }
 
-    const { fortune_id, mime } = body as { fortune_id?: unknown; mime?: unknown };
+    const { fortune_id, mime, index } = body as { fortune_id?: unknown; mime?: unknown; index?: unknown };
     
     // Validate input
     const validation = validateInput(fortune_id, mime);
@@ -103,7 +105,16 @@ serve(async (req) => {
       });
     }
 
-    console.log('issue-fortune-upload-ticket: Processing', { fortune_id, mime });
+    // Photo slot (0-based); omitted by older clients, which only ever had slot 0
+    const photoIndex = parsePhotoIndex(index);
+    if (photoIndex === null) {
+      return new Response(JSON.stringify({ error: 'index must be a non-negative integer' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log('issue-fortune-upload-ticket: Processing', { fortune_id, mime, photoIndex });
 
     // Create clients
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
@@ -150,31 +161,11 @@ serve(async (req) => {
       });
     }
 
-    // Check subscription/trial access
-    const { data: subscription } = await userClient
-      .from('subscriptions')
-      .select('status, is_lifetime')
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    const { data: profile } = await userClient
-      .from('profiles')
-      .select('trial_ends_at')
-      .eq('user_id', user.id)
-      .maybeSingle();
+    // Check subscription/trial access; the tier also decides how many photos a fortune can hold
+    const { tier } = await getAccessTier(userClient, user.id);
+    const maxPhotos = getMaxPhotosPerFortune(tier);
 
-    const isInTrial = profile?.trial_ends_at && new Date(profile.trial_ends_at) > new Date();
-    
-    let hasActiveSubscription = false;
-    if (subscription) {
-      if (subscription.is_lifetime === true && subscription.status === 'active') {
-        hasActiveSubscription = true;
-      } else if (subscription.status === 'active' || subscription.status === 'trialing') {
-        hasActiveSubscription = true;
-      }
-    }
-
-    if (!hasActiveSubscription && !isInTrial) {
+    if (maxPhotos === 0) {
       console.log('issue-fortune-upload-ticket: No access', { BUILD_TAG });
       return new Response(JSON.stringify({ error: 'Pro/Lifetime subscription required' }), {
         status: 403,
@@ -182,10 +173,29 @@ serve(async (req) => {
       });
     }
 
+    // Slots are contiguous: replace an existing photo or append right after the last one
+    const { count: photoCount } = await userClient
+      .from('fortune_media')
+      .select('id', { count: 'exact', head: true })
+      .eq('fortune_id', fortune_id as string);
+
+    if (photoIndex >= maxPhotos || photoIndex > (photoCount ?? 0)) {
+      console.log('issue-fortune-upload-ticket: Photo index out of range', { photoIndex, photoCount, maxPhotos, tier });
+      return new Response(JSON.stringify({
+        error: photoIndex >= maxPhotos
+          ? `Your plan allows up to ${maxPhotos} photo${maxPhotos === 1 ? '' : 's'} per fortune`
+          : 'Photo index out of range',
+        maxPhotos,
+      }), {
+        status: photoIndex >= maxPhotos ? 403 : 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Generate path
     const extension = getExtensionFromMime(mime as AllowedMimeType);
     const randomSuffix = crypto.randomUUID().slice(0, 8);
-    const bucketRelativePath = `${user.id}/${fortune_id}-${randomSuffix}.${extension}`;
+    const bucketRelativePath = `${user.id}/${fortune_id}-${photoIndex}-${randomSuffix}.${extension}`;
 
     console.log('issue-fortune-upload-ticket: Path:', bucketRelativePath);
 
@@ -216,6 +226,8 @@ serve(async (req) => {
       url: data.signedUrl,
       token: data.token,  // Required for supabase.storage.uploadToSignedUrl()
       uploadMethod: 'PUT',
+      index: photoIndex,
+      maxPhotos,
       buildTag: BUILD_TAG
     };
 
@@ -153,15 +153,19 @@ serve(async (req) => {
       date: body.date,
     };
 
-    // Encrypt text fields if provided (empty/null stays null)
+    // Encrypt text fields if provided (empty/null stays null); private journal texts arrive sealed
+    // by the browser ('e2e:v1:') and are stored as they are
+    const encryptUnlessSealed = (value: string) =>
+      value.startsWith('e2e:v1:') ? Promise.resolve(value) : encryptFieldV1(value);
+
     if (body.notes !== undefined) {
-      encryptedData.notes = body.notes ? await encryptFieldV1(body.notes) : null;
+      encryptedData.notes = body.notes ? await encryptUnlessSealed(body.notes) : null;
     }
     if (body.dream_description !== undefined) {
-      encryptedData.dream_description = body.dream_description ? await encryptFieldV1(body.dream_description) : null;
+      encryptedData.dream_description = body.dream_description ? await encryptUnlessSealed(body.dream_description) : null;
     }
     if (body.meals !== undefined) {
-      encryptedData.meals = body.meals ? await encryptFieldV1(body.meals) : null;
+      encryptedData.meals = body.meals ? await encryptUnlessSealed(body.meals) : null;
     }
 
     // Copy other fields as-is (non-encrypted)
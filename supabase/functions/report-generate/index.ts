@@ -15,6 +15,8 @@ import {
   ReportType,
 } from '../_shared/report-utils.ts';
 import { decryptFieldMaybe, encryptFieldV1 } from '../_shared/crypto.ts';
+import { buildExchangeRates, formatMoney, isCurrencyCode, sumInCurrency } from '../_shared/currency.ts';
+import { buildUnitMap, formatUnitValue, summarizeNonCurrencyValues, unitCardTitle, unitOf, type UnitValueSummary } from '../_shared/valueUnits.ts';
 
 const corsHeaders = {
   ...baseCorsHeaders,
@@ -34,6 +36,8 @@ interface ReportGenerateRequest {
   weekStart?: string;
   quarter?: number;
   force?: boolean;
+  // Display currency for fortune values (converted with the user's exchange-rate table)
+  currency?: string;
 }
 
 type LifestyleEntryRow = {
@@ -143,6 +147,10 @@ type ReportModelV1 = {
       in_period: number;
       total_at_end: number;
       delta: number;
+      value_in_period?: number;
+      currency?: string;
+      // Values of categories measured in other units (minutes, kilometres, count, rating)
+      unit_values?: UnitValueSummary[];
     };
     entries_total: number;
     notes_with_content: number;
@@ -1471,6 +1479,9 @@ function buildBaseReportModel(args: {
   fortuneBefore: number;
   fortuneInPeriod: number;
   fortuneTotalAtEnd: number;
+  fortuneValueInPeriod: number;
+  currency: string;
+  unitValuesInPeriod: UnitValueSummary[];
   energyByDay: Array<{ date: string; value: number | null }>;
   dreamByDay: Array<{ date: string; value: number | null }>;
   sicknessByDay: Array<{ date: string; value: number | null }>;
@@ -1517,6 +1528,12 @@ function buildBaseReportModel(args: {
     { type: 'stat_card', title: 'Meals', value: args.mealsCount },
     { type: 'stat_card', title: 'Fortunes in Period', value: args.fortuneInPeriod },
     { type: 'stat_card', title: 'Total Fortunes at End', value: args.fortuneTotalAtEnd },
+    { type: 'stat_card', title: 'Value in Period', value: formatMoney(args.fortuneValueInPeriod, args.currency) },
+    ...args.unitValuesInPeriod.map((summary): ReportBlock => ({
+      type: 'stat_card',
+      title: unitCardTitle(summary.unit),
+      value: formatUnitValue(summary.value, summary.unit),
+    })),
     { type: 'stat_card', title: 'Current Streak', value: args.streaks.current },
     { type: 'stat_card', title: 'Longest Streak', value: args.streaks.longest },
   ];
@@ -1825,6 +1842,9 @@ function buildBaseReportModel(args: {
         in_period: args.fortuneInPeriod,
         total_at_end: args.fortuneTotalAtEnd,
         delta: args.fortuneInPeriod,
+        value_in_period: args.fortuneValueInPeriod,
+        currency: args.currency,
+        unit_values: args.unitValuesInPeriod,
       },
       entries_total: args.entryCount,
       notes_with_content: args.notesCount,
@@ -2736,17 +2756,20 @@ serve(async (req) => {
           .from('fortunes')
           .select('id', { count: 'exact', head: true })
           .eq('user_id', user.id)
+          .is('deleted_at', null)
           .lt('created_at', startIso),
         supabaseClient
           .from('fortunes')
           .select('id', { count: 'exact', head: true })
           .eq('user_id', user.id)
+          .is('deleted_at', null)
           .gte('created_at', startIso)
           .lt('created_at', endIso),
         supabaseClient
           .from('fortunes')
           .select('id', { count: 'exact', head: true })
           .eq('user_id', user.id)
+          .is('deleted_at', null)
           .lt('created_at', endIso),
       ]);
 
@@ -2758,6 +2781,51 @@ serve(async (req) => {
     const fortunesBefore = Number(fortuneBefore || 0);
     const fortunesInPeriod = Number(fortuneInPeriod || 0);
 
+    stage = 'sum_fortune_values';
+    const reportCurrency = isCurrencyCode(body.currency) ? body.currency : 'USD';
+    const [
+      { data: valueRows, error: valueError },
+      { data: defaultRateRows, error: defaultRateError },
+      { data: rateRows, error: rateError },
+      { data: unitRows, error: unitError },
+    ] = await Promise.all([
+      supabaseClient
+        .from('fortunes')
+        .select('category, fortune_value, currency')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .not('fortune_value', 'is', null)
+        .gte('created_at', startIso)
+        .lt('created_at', endIso),
+      supabaseClient
+        .from('default_exchange_rates')
+        .select('currency, rate_per_usd'),
+      supabaseClient
+        .from('exchange_rates')
+        .select('currency, rate_per_usd')
+        .eq('user_id', user.id),
+      supabaseClient
+        .from('custom_categories')
+        .select('name, value_unit')
+        .eq('user_id', user.id),
+    ]);
+
+    if (valueError || defaultRateError || rateError || unitError) {
+      throw new Error('Failed to load fortune values');
+    }
+
+    // Money is summed in the report currency; other units are totalled (ratings averaged) separately
+    const valueUnits = buildUnitMap(unitRows);
+    const { total: fortuneValueInPeriod, unconverted: unconvertedValues } = sumInCurrency(
+      (valueRows ?? []).filter((row) => unitOf(row.category, valueUnits) === 'currency'),
+      reportCurrency,
+      buildExchangeRates(defaultRateRows, rateRows)
+    );
+    if (unconvertedValues > 0) {
+      console.warn('report-generate skipped values without an exchange rate', { count: unconvertedValues, currency: reportCurrency });
+    }
+    const unitValuesInPeriod = summarizeNonCurrencyValues(valueRows ?? [], valueUnits);
+
     stage = 'fetch_benchmarks';
     let benchmarks: ReportBenchmarks | null = null;
     try {
@@ -3035,6 +3103,9 @@ serve(async (req) => {
       fortuneBefore: fortunesBefore,
       fortuneInPeriod: fortunesInPeriod,
       fortuneTotalAtEnd: totalFortunesAtEnd,
+      fortuneValueInPeriod,
+      currency: reportCurrency,
+      unitValuesInPeriod,
       energyByDay: energyByDay,
       dreamByDay: dreamByDay,
       sicknessByDay: sicknessByDay,
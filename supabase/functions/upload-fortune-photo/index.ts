@@ -246,11 +246,12 @@ serve(async (req) => {
 
     console.log('upload-fortune-photo: Upload successful:', uploadData);
 
-    // Check for existing media
+    // Check for existing media (this direct-upload path only manages the first photo slot)
     const { data: existingMedia } = await userClient
       .from('fortune_media')
       .select('*')
       .eq('fortune_id', fortune_id)
+      .eq('position', 0)
       .maybeSingle();
 
     const replaced = !!existingMedia;
@@ -271,6 +272,7 @@ serve(async (req) => {
           updated_at: new Date().toISOString()
         })
         .eq('fortune_id', fortune_id)
+        .eq('position', 0)
         .select('bucket, path, updated_at')
         .single();
 
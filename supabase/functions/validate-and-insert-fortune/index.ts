@@ -142,17 +142,14 @@ serve(async (req) => {
     const FREE_TRIAL_FORTUNE_LIMIT = 100
     const FREE_RESTRICTED_DAILY_LIMIT = 1
 
-    // Check if user has active subscription
-    const { data: subscription } = await supabaseClient
-      .from('subscriptions')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('status', 'active')
-      .gte('current_period_end', new Date().toISOString())
-      .maybeSingle()
+    // Check if user has active subscription (the same check fortune_import and avatar unlocks use)
+    const { data: hasActivePlan, error: planError } = await supabaseClient
+      .rpc('has_active_plan', { p_user_id: user.id })
+
+    if (planError) throw planError
 
     // If user has active subscription, skip limit checks
-    if (subscription) {
+    if (hasActivePlan) {
       const { data, error } = await supabaseClient
         .from('fortunes')
         .insert([{
@@ -189,6 +186,7 @@ serve(async (req) => {
       .from('fortunes')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .is('deleted_at', null)
 
     // Determine if user has full access
     const hasFullAccess = isWithinTrialPeriod && (totalFortunes || 0) < FREE_TRIAL_FORTUNE_LIMIT
@@ -223,6 +221,7 @@ serve(async (req) => {
       .from('fortunes')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .gte('created_at', startOfDay.toISOString())
       .lt('created_at', endOfDay.toISOString())
 
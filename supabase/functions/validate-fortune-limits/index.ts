@@ -90,6 +90,7 @@ serve(async (req) => {
       .from('fortunes')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .is('deleted_at', null)
 
     // Determine if user has full access
     const hasFullAccess = isWithinTrialPeriod && (totalFortunes || 0) < FREE_TRIAL_FORTUNE_LIMIT
@@ -114,6 +115,7 @@ serve(async (req) => {
       .from('fortunes')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', user.id)
+      .is('deleted_at', null)
       .gte('created_at', startOfDay.toISOString())
       .lt('created_at', endOfDay.toISOString())
 
@@ -0,0 +1,89 @@
+-- Server-side search over the caller's decrypted fortunes.
+-- Decrypts with the same chain as fortune_list (app key, then try_decrypt_auto for
+-- legacy/derived ciphers, then raw value) and applies text/category/impact/value filters
+-- before paginating. Every whitespace-separated term must appear in the text or category.
+CREATE OR REPLACE FUNCTION public.fortune_search(
+  p_query text DEFAULT NULL,
+  p_categories text[] DEFAULT NULL,
+  p_impact_levels fortune_impact_level[] DEFAULT NULL,
+  p_min_value numeric DEFAULT NULL,
+  p_max_value numeric DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+ RETURNS TABLE(
+   id uuid,
+   user_id uuid,
+   text text,
+   category text,
+   created_at timestamp with time zone,
+   fortune_level integer,
+   fortune_value numeric,
+   impact_level fortune_impact_level,
+   total_count bigint
+ )
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  terms as (
+    select t
+    from unnest(regexp_split_to_array(lower(btrim(coalesce(p_query, ''))), '\s+')) as t
+    where t <> ''
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text, (select k from cur)),
+        public.try_decrypt_auto(f.user_id, f.text),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.impact_level
+    from public.fortunes f
+    where f.user_id = auth.uid()
+      and (p_categories is null or f.category = any(p_categories))
+      and (p_impact_levels is null or f.impact_level = any(p_impact_levels))
+      and (p_min_value is null or f.fortune_value >= p_min_value)
+      and (p_max_value is null or f.fortune_value <= p_max_value)
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  ),
+  decoded as (
+    select
+      id, user_id,
+      coalesce(public.try_base64_text(raw_text), raw_text) as text,
+      category, created_at, fortune_level, fortune_value, impact_level
+    from raw
+  ),
+  matched as (
+    select d.*
+    from decoded d
+    where not exists (
+      select 1 from terms
+      where position(terms.t in lower(coalesce(d.text, '') || ' ' || coalesce(d.category, ''))) = 0
+    )
+  )
+  select
+    m.id, m.user_id, m.text, m.category, m.created_at,
+    m.fortune_level, m.fortune_value, m.impact_level,
+    count(*) over () as total_count
+  from matched m
+  order by m.created_at desc, m.id desc
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer) TO authenticated;
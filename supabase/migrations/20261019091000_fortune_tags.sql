@@ -0,0 +1,315 @@
+-- Multi-tag support for fortunes.
+-- A fortune keeps its single `category`; tags are free-form labels stored one row per tag.
+
+CREATE TABLE IF NOT EXISTS public.fortune_tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  fortune_id UUID NOT NULL REFERENCES public.fortunes(id) ON DELETE CASCADE,
+  tag TEXT NOT NULL CHECK (char_length(tag) BETWEEN 1 AND 30),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Tags are unique per fortune, case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS fortune_tags_fortune_tag_key ON public.fortune_tags (fortune_id, lower(tag));
+CREATE INDEX IF NOT EXISTS idx_fortune_tags_user_tag ON public.fortune_tags (user_id, lower(tag));
+
+ALTER TABLE public.fortune_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own fortune tags"
+ON public.fortune_tags
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own fortune tags"
+ON public.fortune_tags
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fortune tags"
+ON public.fortune_tags
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Replace the tag set of a fortune (trimmed, deduplicated case-insensitively, max 10)
+CREATE OR REPLACE FUNCTION public._fortune_set_tags(p_fortune_id uuid, p_user_id uuid, p_tags text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.fortune_tags
+  WHERE fortune_id = p_fortune_id AND user_id = p_user_id;
+
+  IF p_tags IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.fortune_tags (user_id, fortune_id, tag)
+  SELECT p_user_id, p_fortune_id, s.t
+  FROM (
+    SELECT DISTINCT ON (lower(left(btrim(raw), 30))) left(btrim(raw), 30) AS t, ord
+    FROM unnest(p_tags) WITH ORDINALITY AS u(raw, ord)
+    WHERE btrim(coalesce(raw, '')) <> ''
+    ORDER BY lower(left(btrim(raw), 30)), ord
+  ) s
+  ORDER BY s.ord
+  LIMIT 10;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public._fortune_set_tags(uuid, uuid, text[]) FROM PUBLIC, anon, authenticated;
+
+-- fortune_add: accept an optional tag list
+DROP FUNCTION IF EXISTS public.fortune_add(text, text, integer, timestamp with time zone, fortune_impact_level);
+
+CREATE OR REPLACE FUNCTION public.fortune_add(
+  p_text text,
+  p_category text DEFAULT 'General'::text,
+  p_level integer DEFAULT 0,
+  p_created_at timestamp with time zone DEFAULT NULL::timestamp with time zone,
+  p_impact_level fortune_impact_level DEFAULT 'small_step'::fortune_impact_level,
+  p_tags text[] DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_id uuid;
+  target_created_at timestamptz;
+BEGIN
+  target_created_at := COALESCE(p_created_at, now());
+
+  INSERT INTO public.fortunes (
+    user_id,
+    text,
+    category,
+    fortune_level,
+    impact_level,
+    created_at
+  )
+  VALUES (
+    auth.uid(),
+    public.encrypt_with_app_key(p_text),
+    p_category,
+    p_level,
+    p_impact_level,
+    target_created_at
+  )
+  RETURNING id INTO new_id;
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(new_id, auth.uid(), p_tags);
+  END IF;
+
+  RETURN new_id;
+END;
+$function$;
+
+-- fortune_update: NULL p_tags leaves tags untouched, an empty array clears them
+DROP FUNCTION IF EXISTS public.fortune_update(uuid, text, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.fortune_update(
+  p_id UUID,
+  p_text TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_fortune_value NUMERIC DEFAULT NULL,
+  p_impact_level TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE fortunes
+  SET
+    text = CASE
+      WHEN p_text IS NOT NULL THEN public.encrypt_with_app_key(p_text)
+      ELSE text
+    END,
+    category = COALESCE(p_category, category),
+    fortune_value = COALESCE(p_fortune_value, fortune_value),
+    impact_level = CASE
+      WHEN p_impact_level IS NOT NULL THEN p_impact_level::fortune_impact_level
+      ELSE impact_level
+    END
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found or access denied';
+  END IF;
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(p_id, auth.uid(), p_tags);
+  END IF;
+END;
+$$;
+
+-- fortune_list: include fortune_value and tags
+DROP FUNCTION IF EXISTS public.fortune_list();
+DROP FUNCTION IF EXISTS public.fortune_list(timestamp with time zone, timestamp with time zone);
+
+CREATE OR REPLACE FUNCTION public.fortune_list(p_from timestamp with time zone, p_to timestamp with time zone)
+ RETURNS TABLE(id uuid, user_id uuid, text text, category text, created_at timestamp with time zone, fortune_level integer, fortune_value numeric, impact_level fortune_impact_level, tags text[])
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.user_id = auth.uid()
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text,(select k from cur)),
+        public.try_decrypt_with_derived(f.text,f.user_id),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from public.fortunes f
+    left join tag_sets ts on ts.fortune_id = f.id
+    where f.user_id = auth.uid()
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  )
+  select
+    id, user_id,
+    coalesce(public.try_base64_text(raw_text), raw_text) as text,
+    category, created_at, fortune_level, fortune_value, impact_level, tags
+  from raw
+  order by created_at desc;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.fortune_list()
+ RETURNS TABLE(id uuid, user_id uuid, text text, category text, created_at timestamp with time zone, fortune_level integer, fortune_value numeric, impact_level fortune_impact_level, tags text[])
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  select * from public.fortune_list(null::timestamptz, null::timestamptz);
+$function$;
+
+-- fortune_search: return tags, match terms against them and filter by tag
+DROP FUNCTION IF EXISTS public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.fortune_search(
+  p_query text DEFAULT NULL,
+  p_categories text[] DEFAULT NULL,
+  p_impact_levels fortune_impact_level[] DEFAULT NULL,
+  p_min_value numeric DEFAULT NULL,
+  p_max_value numeric DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_tags text[] DEFAULT NULL
+)
+ RETURNS TABLE(
+   id uuid,
+   user_id uuid,
+   text text,
+   category text,
+   created_at timestamp with time zone,
+   fortune_level integer,
+   fortune_value numeric,
+   impact_level fortune_impact_level,
+   tags text[],
+   total_count bigint
+ )
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  terms as (
+    select t
+    from unnest(regexp_split_to_array(lower(btrim(coalesce(p_query, ''))), '\s+')) as t
+    where t <> ''
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.user_id = auth.uid()
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text, (select k from cur)),
+        public.try_decrypt_auto(f.user_id, f.text),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from public.fortunes f
+    left join tag_sets ts on ts.fortune_id = f.id
+    where f.user_id = auth.uid()
+      and (p_categories is null or f.category = any(p_categories))
+      and (p_impact_levels is null or f.impact_level = any(p_impact_levels))
+      and (p_min_value is null or f.fortune_value >= p_min_value)
+      and (p_max_value is null or f.fortune_value <= p_max_value)
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  ),
+  decoded as (
+    select
+      id, user_id,
+      coalesce(public.try_base64_text(raw_text), raw_text) as text,
+      category, created_at, fortune_level, fortune_value, impact_level, tags
+    from raw
+    where p_tags is null
+       or exists (
+         select 1 from unnest(raw.tags) as have(tag)
+         where lower(have.tag) in (select lower(want) from unnest(p_tags) as want)
+       )
+  ),
+  matched as (
+    select d.*
+    from decoded d
+    where not exists (
+      select 1 from terms
+      where position(
+        terms.t in lower(
+          coalesce(d.text, '') || ' ' || coalesce(d.category, '') || ' ' || array_to_string(d.tags, ' ')
+        )
+      ) = 0
+    )
+  )
+  select
+    m.id, m.user_id, m.text, m.category, m.created_at,
+    m.fortune_level, m.fortune_value, m.impact_level, m.tags,
+    count(*) over () as total_count
+  from matched m
+  order by m.created_at desc, m.id desc
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer, text[]) TO authenticated;
@@ -0,0 +1,50 @@
+-- fortune_add: accept fortune_value so imports can write it in the same encrypted insert
+DROP FUNCTION IF EXISTS public.fortune_add(text, text, integer, timestamp with time zone, fortune_impact_level, text[]);
+
+CREATE OR REPLACE FUNCTION public.fortune_add(
+  p_text text,
+  p_category text DEFAULT 'General'::text,
+  p_level integer DEFAULT 0,
+  p_created_at timestamp with time zone DEFAULT NULL::timestamp with time zone,
+  p_impact_level fortune_impact_level DEFAULT 'small_step'::fortune_impact_level,
+  p_tags text[] DEFAULT NULL,
+  p_fortune_value numeric DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_id uuid;
+  target_created_at timestamptz;
+BEGIN
+  target_created_at := COALESCE(p_created_at, now());
+
+  INSERT INTO public.fortunes (
+    user_id,
+    text,
+    category,
+    fortune_level,
+    fortune_value,
+    impact_level,
+    created_at
+  )
+  VALUES (
+    auth.uid(),
+    public.encrypt_with_app_key(p_text),
+    p_category,
+    p_level,
+    p_fortune_value,
+    p_impact_level,
+    target_created_at
+  )
+  RETURNING id INTO new_id;
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(new_id, auth.uid(), p_tags);
+  END IF;
+
+  RETURN new_id;
+END;
+$function$;
@@ -0,0 +1,55 @@
+-- Multiple ordered photos per fortune.
+-- fortune_media rows gain a 0-based `position`; the per-plan photo cap is enforced by the
+-- issue-fortune-upload-ticket / finalize-fortune-photo edge functions.
+
+ALTER TABLE public.fortune_media
+  ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 0 CHECK (position >= 0);
+
+-- One photo per slot instead of one photo per fortune.
+-- DEFERRABLE so a single UPDATE can swap positions (checked at end of statement).
+ALTER TABLE public.fortune_media DROP CONSTRAINT IF EXISTS unique_fortune_photo;
+ALTER TABLE public.fortune_media DROP CONSTRAINT IF EXISTS fortune_media_fortune_position_key;
+ALTER TABLE public.fortune_media
+  ADD CONSTRAINT fortune_media_fortune_position_key UNIQUE (fortune_id, position) DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Rewrite positions to follow the given media id order (0..n-1).
+-- The list must contain exactly the fortune's current media ids; runs with the caller's RLS.
+CREATE OR REPLACE FUNCTION public.fortune_media_reorder(p_fortune_id uuid, p_media_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_existing integer;
+  v_matched integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT count(*) INTO v_existing
+  FROM public.fortune_media
+  WHERE fortune_id = p_fortune_id AND user_id = auth.uid();
+
+  SELECT count(DISTINCT m.id) INTO v_matched
+  FROM public.fortune_media m
+  WHERE m.fortune_id = p_fortune_id
+    AND m.user_id = auth.uid()
+    AND m.id = ANY(coalesce(p_media_ids, ARRAY[]::uuid[]));
+
+  IF v_matched <> v_existing OR coalesce(array_length(p_media_ids, 1), 0) <> v_existing THEN
+    RAISE EXCEPTION 'Media order must list every photo of the fortune exactly once';
+  END IF;
+
+  UPDATE public.fortune_media m
+  SET position = o.ord - 1,
+      updated_at = now()
+  FROM unnest(p_media_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE m.id = o.id
+    AND m.fortune_id = p_fortune_id
+    AND m.position IS DISTINCT FROM o.ord - 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.fortune_media_reorder(uuid, uuid[]) TO authenticated;
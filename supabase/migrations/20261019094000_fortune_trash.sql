@@ -0,0 +1,335 @@
+-- Trash bin: fortunes are soft-deleted (deleted_at) and can be restored for 30 days.
+-- Permanent deletion, including photos in storage, goes through the fortune-trash edge function
+-- (storage objects can't be removed from SQL). Past 30 days a trashed fortune is no longer listed
+-- or restorable, and the function deletes it for good: on the Trash view's sweep and in the hourly
+-- purge_expired job scheduled at the end of this file.
+
+ALTER TABLE public.fortunes ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_fortunes_user_deleted_at
+  ON public.fortunes (user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- fortune_list / fortune_search: hide trashed fortunes
+CREATE OR REPLACE FUNCTION public.fortune_list(p_from timestamp with time zone, p_to timestamp with time zone)
+ RETURNS TABLE(id uuid, user_id uuid, text text, category text, created_at timestamp with time zone, fortune_level integer, fortune_value numeric, impact_level fortune_impact_level, tags text[])
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.user_id = auth.uid()
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text,(select k from cur)),
+        public.try_decrypt_with_derived(f.text,f.user_id),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from public.fortunes f
+    left join tag_sets ts on ts.fortune_id = f.id
+    where f.user_id = auth.uid()
+      and f.deleted_at is null
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  )
+  select
+    id, user_id,
+    coalesce(public.try_base64_text(raw_text), raw_text) as text,
+    category, created_at, fortune_level, fortune_value, impact_level, tags
+  from raw
+  order by created_at desc;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.fortune_search(
+  p_query text DEFAULT NULL,
+  p_categories text[] DEFAULT NULL,
+  p_impact_levels fortune_impact_level[] DEFAULT NULL,
+  p_min_value numeric DEFAULT NULL,
+  p_max_value numeric DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_tags text[] DEFAULT NULL
+)
+ RETURNS TABLE(
+   id uuid,
+   user_id uuid,
+   text text,
+   category text,
+   created_at timestamp with time zone,
+   fortune_level integer,
+   fortune_value numeric,
+   impact_level fortune_impact_level,
+   tags text[],
+   total_count bigint
+ )
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  terms as (
+    select t
+    from unnest(regexp_split_to_array(lower(btrim(coalesce(p_query, ''))), '\s+')) as t
+    where t <> ''
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.user_id = auth.uid()
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text, (select k from cur)),
+        public.try_decrypt_auto(f.user_id, f.text),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from public.fortunes f
+    left join tag_sets ts on ts.fortune_id = f.id
+    where f.user_id = auth.uid()
+      and f.deleted_at is null
+      and (p_categories is null or f.category = any(p_categories))
+      and (p_impact_levels is null or f.impact_level = any(p_impact_levels))
+      and (p_min_value is null or f.fortune_value >= p_min_value)
+      and (p_max_value is null or f.fortune_value <= p_max_value)
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  ),
+  decoded as (
+    select
+      id, user_id,
+      coalesce(public.try_base64_text(raw_text), raw_text) as text,
+      category, created_at, fortune_level, fortune_value, impact_level, tags
+    from raw
+    where p_tags is null
+       or exists (
+         select 1 from unnest(raw.tags) as have(tag)
+         where lower(have.tag) in (select lower(want) from unnest(p_tags) as want)
+       )
+  ),
+  matched as (
+    select d.*
+    from decoded d
+    where not exists (
+      select 1 from terms
+      where position(
+        terms.t in lower(
+          coalesce(d.text, '') || ' ' || coalesce(d.category, '') || ' ' || array_to_string(d.tags, ' ')
+        )
+      ) = 0
+    )
+  )
+  select
+    m.id, m.user_id, m.text, m.category, m.created_at,
+    m.fortune_level, m.fortune_value, m.impact_level, m.tags,
+    count(*) over () as total_count
+  from matched m
+  order by m.created_at desc, m.id desc
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+$function$;
+
+-- fortune_counts: trashed fortunes no longer count towards totals
+CREATE OR REPLACE FUNCTION public.fortune_counts()
+ RETURNS jsonb
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  with me as (select auth.uid() uid),
+  t as (
+    select count(*)::int total
+    from public.fortunes f join me on f.user_id = me.uid
+    where f.deleted_at is null
+  ),
+  d as (
+    select count(*)::int today
+    from public.fortunes f join me on f.user_id = me.uid
+    where f.deleted_at is null
+      and f.created_at >= date_trunc('day', now() at time zone 'UTC')
+      and f.created_at <  date_trunc('day', now() at time zone 'UTC') + interval '1 day'
+  )
+  select jsonb_build_object('total', t.total, 'today', d.today) from t,d;
+$function$;
+
+-- Friends' competition stats: trashed fortunes don't count
+CREATE OR REPLACE FUNCTION public.get_user_competition_stats(p_user_id UUID)
+RETURNS JSON
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'total_fortunes', COALESCE(f.total_count, 0),
+    'monthly_fortunes', COALESCE(f.monthly_count, 0),
+    'weekly_fortunes', COALESCE(f.weekly_count, 0)
+  )
+  FROM (
+    SELECT
+      COUNT(*) as total_count,
+      COUNT(*) FILTER (
+        WHERE created_at >= date_trunc('month', now())
+      ) as monthly_count,
+      COUNT(*) FILTER (
+        WHERE created_at >= date_trunc('week', now())
+      ) as weekly_count
+    FROM public.fortunes
+    WHERE user_id = p_user_id
+      AND deleted_at IS NULL
+  ) f;
+$$;
+
+-- The free trial's 100 fortunes are active ones, as in validate-and-insert-fortune
+CREATE OR REPLACE FUNCTION public.is_trial_active(p_user_id uuid)
+ RETURNS boolean
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    (now() < p.trial_ends_at)
+    AND (
+      (SELECT count(*) FROM public.fortunes f WHERE f.user_id = p_user_id AND f.deleted_at IS NULL) < 100
+    )
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id;
+$function$;
+
+-- Move a fortune to the trash
+CREATE OR REPLACE FUNCTION public.fortune_trash(p_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.fortunes
+  SET deleted_at = now()
+  WHERE id = p_id AND user_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found';
+  END IF;
+END;
+$function$;
+
+-- Bring a trashed fortune back
+CREATE OR REPLACE FUNCTION public.fortune_restore(p_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.fortunes
+  SET deleted_at = NULL
+  WHERE id = p_id AND user_id = auth.uid() AND deleted_at > now() - interval '30 days';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found in trash';
+  END IF;
+END;
+$function$;
+
+-- Trashed fortunes of the caller, decrypted, most recently deleted first
+CREATE OR REPLACE FUNCTION public.fortune_trash_list()
+ RETURNS TABLE(id uuid, text text, category text, created_at timestamp with time zone, deleted_at timestamp with time zone, fortune_value numeric, impact_level fortune_impact_level)
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  raw as (
+    select
+      f.id,
+      coalesce(
+        public.try_decrypt_with_key(f.text,(select k from cur)),
+        public.try_decrypt_with_derived(f.text,f.user_id),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.deleted_at,
+      f.fortune_value,
+      f.impact_level
+    from public.fortunes f
+    where f.user_id = auth.uid()
+      and f.deleted_at > now() - interval '30 days'
+  )
+  select
+    id,
+    coalesce(public.try_base64_text(raw_text), raw_text) as text,
+    category, created_at, deleted_at, fortune_value, impact_level
+  from raw
+  order by deleted_at desc;
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_trash(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.fortune_restore(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.fortune_trash_list() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_trash(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fortune_restore(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fortune_trash_list() TO authenticated;
+
+-- Hourly purge_expired through pg_cron and pg_net, so the trash of users who never open it is purged
+-- too. The job reads the project URL and the service role key from Vault (project_url,
+-- service_role_key; see docs/EDGE_FUNCTIONS_DEPLOYMENT.md). Each run purges up to 500 fortunes.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'fortune-trash-purge-expired',
+  '17 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/fortune-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "purge_expired"}'::jsonb
+  );
+  $cron$
+);
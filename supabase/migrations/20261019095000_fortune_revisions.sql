@@ -0,0 +1,211 @@
+-- Revision history for fortunes.
+-- fortune_update snapshots the previous version (text stays encrypted exactly as stored) before
+-- overwriting it; fortune_revert restores a snapshot, snapshotting the current version first.
+
+CREATE TABLE IF NOT EXISTS public.fortune_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  fortune_id UUID NOT NULL REFERENCES public.fortunes(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  category TEXT NOT NULL,
+  fortune_value NUMERIC,
+  impact_level fortune_impact_level,
+  tags TEXT[] NOT NULL DEFAULT '{}'::text[],
+  -- When this version was replaced
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fortune_revisions_fortune_created
+  ON public.fortune_revisions (fortune_id, created_at DESC);
+
+ALTER TABLE public.fortune_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the SECURITY DEFINER functions below
+CREATE POLICY "Users can view their own fortune revisions"
+ON public.fortune_revisions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Decrypted, base64-decoded fortune text (same fallbacks as fortune_list)
+CREATE OR REPLACE FUNCTION public._fortune_plain_text(p_text text, p_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions', 'private'
+AS $$
+DECLARE
+  v_raw text;
+BEGIN
+  v_raw := coalesce(
+    public.try_decrypt_with_key(p_text, (select value from private.app_secrets where key = 'enc_key' limit 1)),
+    public.try_decrypt_with_derived(p_text, p_user_id),
+    p_text
+  );
+  RETURN coalesce(public.try_base64_text(v_raw), v_raw);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public._fortune_plain_text(text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Copy the current version of a fortune into fortune_revisions, keeping the latest 50 per fortune
+CREATE OR REPLACE FUNCTION public._fortune_snapshot_revision(p_fortune_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.fortune_revisions (user_id, fortune_id, text, category, fortune_value, impact_level, tags)
+  SELECT
+    f.user_id, f.id, f.text, f.category, f.fortune_value, f.impact_level,
+    coalesce(
+      (SELECT array_agg(ft.tag ORDER BY lower(ft.tag)) FROM public.fortune_tags ft WHERE ft.fortune_id = f.id),
+      '{}'::text[]
+    )
+  FROM public.fortunes f
+  WHERE f.id = p_fortune_id AND f.user_id = p_user_id;
+
+  DELETE FROM public.fortune_revisions r
+  WHERE r.fortune_id = p_fortune_id
+    AND r.id IN (
+      SELECT id FROM public.fortune_revisions
+      WHERE fortune_id = p_fortune_id
+      ORDER BY created_at DESC
+      OFFSET 50
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public._fortune_snapshot_revision(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- fortune_update: snapshot the previous version when something actually changes
+CREATE OR REPLACE FUNCTION public.fortune_update(
+  p_id UUID,
+  p_text TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_fortune_value NUMERIC DEFAULT NULL,
+  p_impact_level TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.fortunes%ROWTYPE;
+  v_current_tags text[];
+BEGIN
+  SELECT * INTO v_current
+  FROM fortunes
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found or access denied';
+  END IF;
+
+  SELECT coalesce(array_agg(lower(tag) ORDER BY lower(tag)), '{}'::text[]) INTO v_current_tags
+  FROM fortune_tags
+  WHERE fortune_id = p_id;
+
+  IF (p_text IS NOT NULL AND p_text IS DISTINCT FROM public._fortune_plain_text(v_current.text, v_current.user_id))
+    OR (p_category IS NOT NULL AND p_category IS DISTINCT FROM v_current.category)
+    OR (p_fortune_value IS NOT NULL AND p_fortune_value IS DISTINCT FROM v_current.fortune_value)
+    OR (p_impact_level IS NOT NULL AND p_impact_level IS DISTINCT FROM v_current.impact_level::text)
+    OR (p_tags IS NOT NULL AND v_current_tags IS DISTINCT FROM (
+      SELECT coalesce(array_agg(DISTINCT lower(left(btrim(t), 30)) ORDER BY lower(left(btrim(t), 30))), '{}'::text[])
+      FROM unnest(p_tags) AS t
+      WHERE btrim(coalesce(t, '')) <> ''
+    ))
+  THEN
+    PERFORM public._fortune_snapshot_revision(p_id, auth.uid());
+  END IF;
+
+  UPDATE fortunes
+  SET
+    text = CASE
+      WHEN p_text IS NOT NULL THEN public.encrypt_with_app_key(p_text)
+      ELSE text
+    END,
+    category = COALESCE(p_category, category),
+    fortune_value = COALESCE(p_fortune_value, fortune_value),
+    impact_level = CASE
+      WHEN p_impact_level IS NOT NULL THEN p_impact_level::fortune_impact_level
+      ELSE impact_level
+    END
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(p_id, auth.uid(), p_tags);
+  END IF;
+END;
+$$;
+
+-- Revisions of one fortune, decrypted, newest first
+CREATE OR REPLACE FUNCTION public.fortune_revisions_list(p_fortune_id uuid)
+ RETURNS TABLE(id uuid, text text, category text, fortune_value numeric, impact_level fortune_impact_level, tags text[], created_at timestamp with time zone)
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  select
+    r.id,
+    public._fortune_plain_text(r.text, r.user_id) as text,
+    r.category,
+    r.fortune_value,
+    r.impact_level,
+    r.tags,
+    r.created_at
+  from public.fortune_revisions r
+  where r.fortune_id = p_fortune_id
+    and r.user_id = auth.uid()
+  order by r.created_at desc;
+$function$;
+
+-- Make a previous revision the current version again (the replaced version becomes a revision too)
+CREATE OR REPLACE FUNCTION public.fortune_revert(p_fortune_id uuid, p_revision_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision public.fortune_revisions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM fortune_revisions
+  WHERE id = p_revision_id AND fortune_id = p_fortune_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM public._fortune_snapshot_revision(p_fortune_id, auth.uid());
+
+  -- Ciphertext is copied as-is; it was encrypted for this user when first written
+  UPDATE fortunes
+  SET
+    text = v_revision.text,
+    category = v_revision.category,
+    fortune_value = v_revision.fortune_value,
+    impact_level = coalesce(v_revision.impact_level, impact_level)
+  WHERE id = p_fortune_id AND user_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found or access denied';
+  END IF;
+
+  PERFORM public._fortune_set_tags(p_fortune_id, auth.uid(), v_revision.tags);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.fortune_revisions_list(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.fortune_revert(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_revisions_list(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.fortune_revert(uuid, uuid) TO authenticated;
@@ -0,0 +1,451 @@
+-- Per-fortune currency and a per-user exchange-rate table.
+-- fortune_value is stored in the currency it was entered in; NULL currency marks values entered
+-- before this change, which are read as the user's display currency. Totals are converted
+-- client-side (statistics, achievements) and in report-generate using exchange_rates, on top of
+-- default_exchange_rates.
+
+ALTER TABLE public.fortunes
+  ADD COLUMN IF NOT EXISTS currency text CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.fortune_revisions
+  ADD COLUMN IF NOT EXISTS currency text;
+
+-- Rates are maintained by the user (edited or imported in Settings); no live rate service.
+-- rate_per_usd = units of `currency` per 1 USD
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  user_id UUID NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_per_usd NUMERIC NOT NULL CHECK (rate_per_usd > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, currency)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+ON public.exchange_rates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+ON public.exchange_rates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+ON public.exchange_rates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Approximate starting rates, used for any currency the user hasn't set a rate for. The one copy:
+-- the app, report-generate and the achievement engine all read it from here.
+CREATE TABLE IF NOT EXISTS public.default_exchange_rates (
+  currency TEXT NOT NULL PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  rate_per_usd NUMERIC NOT NULL CHECK (rate_per_usd > 0)
+);
+
+ALTER TABLE public.default_exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Default exchange rates are readable by signed-in users"
+ON public.default_exchange_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.default_exchange_rates (currency, rate_per_usd)
+VALUES
+  ('USD', 1), ('EUR', 0.92), ('GBP', 0.79), ('JPY', 150),
+  ('CAD', 1.37), ('AUD', 1.52), ('CHF', 0.88), ('MXN', 18.5)
+ON CONFLICT (currency) DO NOTHING;
+
+-- fortune_add: optional currency of fortune_value
+DROP FUNCTION IF EXISTS public.fortune_add(text, text, integer, timestamp with time zone, fortune_impact_level, text[], numeric);
+
+CREATE OR REPLACE FUNCTION public.fortune_add(
+  p_text text,
+  p_category text DEFAULT 'General'::text,
+  p_level integer DEFAULT 0,
+  p_created_at timestamp with time zone DEFAULT NULL::timestamp with time zone,
+  p_impact_level fortune_impact_level DEFAULT 'small_step'::fortune_impact_level,
+  p_tags text[] DEFAULT NULL,
+  p_fortune_value numeric DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_id uuid;
+  target_created_at timestamptz;
+BEGIN
+  target_created_at := COALESCE(p_created_at, now());
+
+  INSERT INTO public.fortunes (
+    user_id,
+    text,
+    category,
+    fortune_level,
+    fortune_value,
+    currency,
+    impact_level,
+    created_at
+  )
+  VALUES (
+    auth.uid(),
+    public.encrypt_with_app_key(p_text),
+    p_category,
+    p_level,
+    p_fortune_value,
+    upper(p_currency),
+    p_impact_level,
+    target_created_at
+  )
+  RETURNING id INTO new_id;
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(new_id, auth.uid(), p_tags);
+  END IF;
+
+  RETURN new_id;
+END;
+$function$;
+
+-- Revisions keep the currency alongside the value
+CREATE OR REPLACE FUNCTION public._fortune_snapshot_revision(p_fortune_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.fortune_revisions (user_id, fortune_id, text, category, fortune_value, currency, impact_level, tags)
+  SELECT
+    f.user_id, f.id, f.text, f.category, f.fortune_value, f.currency, f.impact_level,
+    coalesce(
+      (SELECT array_agg(ft.tag ORDER BY lower(ft.tag)) FROM public.fortune_tags ft WHERE ft.fortune_id = f.id),
+      '{}'::text[]
+    )
+  FROM public.fortunes f
+  WHERE f.id = p_fortune_id AND f.user_id = p_user_id;
+
+  DELETE FROM public.fortune_revisions r
+  WHERE r.fortune_id = p_fortune_id
+    AND r.id IN (
+      SELECT id FROM public.fortune_revisions
+      WHERE fortune_id = p_fortune_id
+      ORDER BY created_at DESC
+      OFFSET 50
+    );
+END;
+$$;
+
+-- fortune_update: optional currency
+DROP FUNCTION IF EXISTS public.fortune_update(uuid, text, text, numeric, text, text[]);
+
+CREATE OR REPLACE FUNCTION public.fortune_update(
+  p_id UUID,
+  p_text TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_fortune_value NUMERIC DEFAULT NULL,
+  p_impact_level TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.fortunes%ROWTYPE;
+  v_current_tags text[];
+BEGIN
+  SELECT * INTO v_current
+  FROM fortunes
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found or access denied';
+  END IF;
+
+  SELECT coalesce(array_agg(lower(tag) ORDER BY lower(tag)), '{}'::text[]) INTO v_current_tags
+  FROM fortune_tags
+  WHERE fortune_id = p_id;
+
+  IF (p_text IS NOT NULL AND p_text IS DISTINCT FROM public._fortune_plain_text(v_current.text, v_current.user_id))
+    OR (p_category IS NOT NULL AND p_category IS DISTINCT FROM v_current.category)
+    OR (p_fortune_value IS NOT NULL AND p_fortune_value IS DISTINCT FROM v_current.fortune_value)
+    OR (p_currency IS NOT NULL AND upper(p_currency) IS DISTINCT FROM v_current.currency)
+    OR (p_impact_level IS NOT NULL AND p_impact_level IS DISTINCT FROM v_current.impact_level::text)
+    OR (p_tags IS NOT NULL AND v_current_tags IS DISTINCT FROM (
+      SELECT coalesce(array_agg(DISTINCT lower(left(btrim(t), 30)) ORDER BY lower(left(btrim(t), 30))), '{}'::text[])
+      FROM unnest(p_tags) AS t
+      WHERE btrim(coalesce(t, '')) <> ''
+    ))
+  THEN
+    PERFORM public._fortune_snapshot_revision(p_id, auth.uid());
+  END IF;
+
+  UPDATE fortunes
+  SET
+    text = CASE
+      WHEN p_text IS NOT NULL THEN public.encrypt_with_app_key(p_text)
+      ELSE text
+    END,
+    category = COALESCE(p_category, category),
+    fortune_value = COALESCE(p_fortune_value, fortune_value),
+    currency = COALESCE(upper(p_currency), currency),
+    impact_level = CASE
+      WHEN p_impact_level IS NOT NULL THEN p_impact_level::fortune_impact_level
+      ELSE impact_level
+    END
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(p_id, auth.uid(), p_tags);
+  END IF;
+END;
+$$;
+
+-- fortune_revisions_list / fortune_revert: include the currency
+DROP FUNCTION IF EXISTS public.fortune_revisions_list(uuid);
+
+CREATE OR REPLACE FUNCTION public.fortune_revisions_list(p_fortune_id uuid)
+ RETURNS TABLE(id uuid, text text, category text, fortune_value numeric, currency text, impact_level fortune_impact_level, tags text[], created_at timestamp with time zone)
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  select
+    r.id,
+    public._fortune_plain_text(r.text, r.user_id) as text,
+    r.category,
+    r.fortune_value,
+    r.currency,
+    r.impact_level,
+    r.tags,
+    r.created_at
+  from public.fortune_revisions r
+  where r.fortune_id = p_fortune_id
+    and r.user_id = auth.uid()
+  order by r.created_at desc;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.fortune_revert(p_fortune_id uuid, p_revision_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision public.fortune_revisions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM fortune_revisions
+  WHERE id = p_revision_id AND fortune_id = p_fortune_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM public._fortune_snapshot_revision(p_fortune_id, auth.uid());
+
+  -- Ciphertext is copied as-is; it was encrypted for this user when first written
+  UPDATE fortunes
+  SET
+    text = v_revision.text,
+    category = v_revision.category,
+    fortune_value = v_revision.fortune_value,
+    currency = v_revision.currency,
+    impact_level = coalesce(v_revision.impact_level, impact_level)
+  WHERE id = p_fortune_id AND user_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found or access denied';
+  END IF;
+
+  PERFORM public._fortune_set_tags(p_fortune_id, auth.uid(), v_revision.tags);
+END;
+$$;
+
+-- fortune_list / fortune_search: return the currency
+DROP FUNCTION IF EXISTS public.fortune_list();
+DROP FUNCTION IF EXISTS public.fortune_list(timestamp with time zone, timestamp with time zone);
+DROP FUNCTION IF EXISTS public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer, text[]);
+
+CREATE OR REPLACE FUNCTION public.fortune_list(p_from timestamp with time zone, p_to timestamp with time zone)
+ RETURNS TABLE(id uuid, user_id uuid, text text, category text, created_at timestamp with time zone, fortune_level integer, fortune_value numeric, currency text, impact_level fortune_impact_level, tags text[])
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.user_id = auth.uid()
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text,(select k from cur)),
+        public.try_decrypt_with_derived(f.text,f.user_id),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.currency,
+      f.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from public.fortunes f
+    left join tag_sets ts on ts.fortune_id = f.id
+    where f.user_id = auth.uid()
+      and f.deleted_at is null
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  )
+  select
+    id, user_id,
+    coalesce(public.try_base64_text(raw_text), raw_text) as text,
+    category, created_at, fortune_level, fortune_value, currency, impact_level, tags
+  from raw
+  order by created_at desc;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.fortune_list()
+ RETURNS TABLE(id uuid, user_id uuid, text text, category text, created_at timestamp with time zone, fortune_level integer, fortune_value numeric, currency text, impact_level fortune_impact_level, tags text[])
+ LANGUAGE sql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  select * from public.fortune_list(null::timestamptz, null::timestamptz);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.fortune_search(
+  p_query text DEFAULT NULL,
+  p_categories text[] DEFAULT NULL,
+  p_impact_levels fortune_impact_level[] DEFAULT NULL,
+  p_min_value numeric DEFAULT NULL,
+  p_max_value numeric DEFAULT NULL,
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0,
+  p_tags text[] DEFAULT NULL
+)
+ RETURNS TABLE(
+   id uuid,
+   user_id uuid,
+   text text,
+   category text,
+   created_at timestamp with time zone,
+   fortune_level integer,
+   fortune_value numeric,
+   currency text,
+   impact_level fortune_impact_level,
+   tags text[],
+   total_count bigint
+ )
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  terms as (
+    select t
+    from unnest(regexp_split_to_array(lower(btrim(coalesce(p_query, ''))), '\s+')) as t
+    where t <> ''
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.user_id = auth.uid()
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      f.id,
+      f.user_id,
+      coalesce(
+        public.try_decrypt_with_key(f.text, (select k from cur)),
+        public.try_decrypt_auto(f.user_id, f.text),
+        f.text
+      ) as raw_text,
+      f.category,
+      f.created_at,
+      f.fortune_level,
+      f.fortune_value,
+      f.currency,
+      f.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from public.fortunes f
+    left join tag_sets ts on ts.fortune_id = f.id
+    where f.user_id = auth.uid()
+      and f.deleted_at is null
+      and (p_categories is null or f.category = any(p_categories))
+      and (p_impact_levels is null or f.impact_level = any(p_impact_levels))
+      and (p_min_value is null or f.fortune_value >= p_min_value)
+      and (p_max_value is null or f.fortune_value <= p_max_value)
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+  ),
+  decoded as (
+    select
+      id, user_id,
+      coalesce(public.try_base64_text(raw_text), raw_text) as text,
+      category, created_at, fortune_level, fortune_value, currency, impact_level, tags
+    from raw
+    where p_tags is null
+       or exists (
+         select 1 from unnest(raw.tags) as have(tag)
+         where lower(have.tag) in (select lower(want) from unnest(p_tags) as want)
+       )
+  ),
+  matched as (
+    select d.*
+    from decoded d
+    where not exists (
+      select 1 from terms
+      where position(
+        terms.t in lower(
+          coalesce(d.text, '') || ' ' || coalesce(d.category, '') || ' ' || array_to_string(d.tags, ' ')
+        )
+      ) = 0
+    )
+  )
+  select
+    m.id, m.user_id, m.text, m.category, m.created_at,
+    m.fortune_level, m.fortune_value, m.currency, m.impact_level, m.tags,
+    count(*) over () as total_count
+  from matched m
+  order by m.created_at desc, m.id desc
+  limit least(greatest(coalesce(p_limit, 20), 1), 100)
+  offset greatest(coalesce(p_offset, 0), 0);
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_revisions_list(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_revisions_list(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_search(text, text[], fortune_impact_level[], numeric, numeric, timestamp with time zone, timestamp with time zone, integer, integer, text[]) TO authenticated;
@@ -0,0 +1,102 @@
+-- "On this day" memories: fortunes from the same calendar date in earlier years, one month ago
+-- and one week ago. Dates are matched in the caller's timezone so a fortune logged late in the
+-- evening resurfaces on the day the user remembers logging it.
+
+CREATE OR REPLACE FUNCTION public.fortune_memories(p_timezone text DEFAULT 'UTC')
+ RETURNS TABLE(
+   id uuid,
+   text text,
+   category text,
+   created_at timestamp with time zone,
+   fortune_value numeric,
+   currency text,
+   impact_level fortune_impact_level,
+   tags text[],
+   memory_kind text,
+   years_ago integer,
+   photo_count integer
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  v_uid uuid := auth.uid();
+  v_tz text := p_timezone;
+  v_today date;
+  v_key text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Unknown zone names would make AT TIME ZONE raise; fall back to UTC
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  v_today := (now() AT TIME ZONE v_tz)::date;
+  SELECT value INTO v_key FROM private.app_secrets WHERE key = 'enc_key' LIMIT 1;
+
+  RETURN QUERY
+  WITH local_fortunes AS (
+    SELECT f.*, (f.created_at AT TIME ZONE v_tz)::date AS local_date
+    FROM public.fortunes f
+    WHERE f.user_id = v_uid
+      AND f.deleted_at IS NULL
+      AND f.created_at < (v_today::timestamp AT TIME ZONE v_tz)
+  ),
+  matched AS (
+    SELECT
+      lf.*,
+      CASE
+        WHEN lf.local_date = v_today - 7 THEN 'week'
+        WHEN lf.local_date = (v_today - interval '1 month')::date THEN 'month'
+        ELSE 'year'
+      END AS kind
+    FROM local_fortunes lf
+    WHERE lf.local_date = v_today - 7
+       OR lf.local_date = (v_today - interval '1 month')::date
+       OR (
+         extract(month FROM lf.local_date) = extract(month FROM v_today)
+         AND extract(day FROM lf.local_date) = extract(day FROM v_today)
+         AND lf.local_date < v_today
+       )
+  ),
+  decrypted AS (
+    SELECT
+      m.*,
+      coalesce(
+        public.try_decrypt_with_key(m.text, v_key),
+        public.try_decrypt_with_derived(m.text, m.user_id),
+        m.text
+      ) AS raw_text
+    FROM matched m
+  )
+  SELECT
+    d.id,
+    coalesce(public.try_base64_text(d.raw_text), d.raw_text) AS text,
+    d.category,
+    d.created_at,
+    d.fortune_value,
+    d.currency,
+    d.impact_level,
+    coalesce(
+      (SELECT array_agg(ft.tag ORDER BY lower(ft.tag)) FROM public.fortune_tags ft WHERE ft.fortune_id = d.id),
+      '{}'::text[]
+    ) AS tags,
+    d.kind AS memory_kind,
+    (extract(year FROM v_today) - extract(year FROM d.local_date))::integer AS years_ago,
+    (SELECT count(*)::integer FROM public.fortune_media fm WHERE fm.fortune_id = d.id) AS photo_count
+  FROM decrypted d
+  ORDER BY
+    CASE d.kind WHEN 'year' THEN 0 WHEN 'month' THEN 1 ELSE 2 END,
+    d.created_at DESC
+  LIMIT 50;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_memories(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_memories(text) TO authenticated;
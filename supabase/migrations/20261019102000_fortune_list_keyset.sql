@@ -0,0 +1,143 @@
+-- Keyset pagination for fortune_list.
+-- Pages are ordered newest first by (created_at, id); pass the last row of a page as the cursor
+-- to get the next one. Without p_limit the whole range comes back, as before.
+-- All arguments default to NULL, which replaces the separate no-argument wrapper.
+
+CREATE INDEX IF NOT EXISTS idx_fortunes_user_created_id
+  ON public.fortunes (user_id, created_at DESC, id DESC)
+  WHERE deleted_at IS NULL;
+
+DROP FUNCTION IF EXISTS public.fortune_list();
+DROP FUNCTION IF EXISTS public.fortune_list(timestamp with time zone, timestamp with time zone);
+
+CREATE OR REPLACE FUNCTION public.fortune_list(
+  p_from timestamp with time zone DEFAULT NULL,
+  p_to timestamp with time zone DEFAULT NULL,
+  p_cursor_created_at timestamp with time zone DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+ RETURNS TABLE(id uuid, user_id uuid, text text, category text, created_at timestamp with time zone, fortune_level integer, fortune_value numeric, currency text, impact_level fortune_impact_level, tags text[])
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  page as (
+    select f.*
+    from public.fortunes f
+    where f.user_id = auth.uid()
+      and f.deleted_at is null
+      and (p_from is null or f.created_at >= p_from)
+      and (p_to   is null or f.created_at <  p_to)
+      and (
+        p_cursor_created_at is null
+        or (p_cursor_id is null and f.created_at < p_cursor_created_at)
+        or (f.created_at, f.id) < (p_cursor_created_at, p_cursor_id)
+      )
+    order by f.created_at desc, f.id desc
+    -- LIMIT NULL means no limit
+    limit case when p_limit > 0 then p_limit end
+  ),
+  tag_sets as (
+    select ft.fortune_id, array_agg(ft.tag order by lower(ft.tag)) as tags
+    from public.fortune_tags ft
+    where ft.fortune_id in (select page.id from page)
+    group by ft.fortune_id
+  ),
+  raw as (
+    select
+      p.id,
+      p.user_id,
+      coalesce(
+        public.try_decrypt_with_key(p.text,(select k from cur)),
+        public.try_decrypt_with_derived(p.text,p.user_id),
+        p.text
+      ) as raw_text,
+      p.category,
+      p.created_at,
+      p.fortune_level,
+      p.fortune_value,
+      p.currency,
+      p.impact_level,
+      coalesce(ts.tags, '{}'::text[]) as tags
+    from page p
+    left join tag_sets ts on ts.fortune_id = p.id
+  )
+  select
+    id, user_id,
+    coalesce(public.try_base64_text(raw_text), raw_text) as text,
+    category, created_at, fortune_level, fortune_value, currency, impact_level, tags
+  from raw
+  order by created_at desc, id desc;
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_list(timestamp with time zone, timestamp with time zone, timestamp with time zone, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_list(timestamp with time zone, timestamp with time zone, timestamp with time zone, uuid, integer) TO authenticated;
+
+-- Per-day totals for Insights, so the statistics and the calendar don't need the whole history.
+-- One row per local day (in p_timezone), category, currency and tag set; value_count / value_total
+-- cover the fortunes with a non-zero value. Rows are ordered so they can be read in ranges.
+CREATE OR REPLACE FUNCTION public.fortune_day_stats(p_timezone text DEFAULT 'UTC')
+ RETURNS TABLE(
+   day date,
+   category text,
+   currency text,
+   tags text[],
+   fortune_count integer,
+   value_count integer,
+   value_total numeric
+ )
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+#variable_conflict use_column
+DECLARE
+  v_uid uuid := auth.uid();
+  v_tz text := p_timezone;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Unknown zone names would make AT TIME ZONE raise; fall back to UTC
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  RETURN QUERY
+  WITH tagged AS (
+    SELECT
+      (f.created_at AT TIME ZONE v_tz)::date AS day,
+      f.category,
+      f.currency,
+      coalesce(
+        (SELECT array_agg(ft.tag ORDER BY lower(ft.tag)) FROM public.fortune_tags ft WHERE ft.fortune_id = f.id),
+        '{}'::text[]
+      ) AS tags,
+      f.fortune_value
+    FROM public.fortunes f
+    WHERE f.user_id = v_uid
+      AND f.deleted_at IS NULL
+  )
+  SELECT
+    t.day,
+    t.category,
+    t.currency,
+    t.tags,
+    count(*)::integer,
+    (count(*) FILTER (WHERE coalesce(t.fortune_value, 0) <> 0))::integer,
+    coalesce(sum(t.fortune_value) FILTER (WHERE coalesce(t.fortune_value, 0) <> 0), 0)
+  FROM tagged t
+  GROUP BY t.day, t.category, t.currency, t.tags
+  ORDER BY t.day, t.category, t.currency, t.tags;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_day_stats(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_day_stats(text) TO authenticated;
@@ -0,0 +1,26 @@
+-- Realtime cross-device sync: publish row changes for the tables the app keeps in local state.
+-- REPLICA IDENTITY FULL puts the whole old row (including user_id) in DELETE events, so the
+-- per-user `user_id=eq.<uid>` filter also matches deletes.
+
+ALTER TABLE public.fortunes REPLICA IDENTITY FULL;
+ALTER TABLE public.fortune_media REPLICA IDENTITY FULL;
+ALTER TABLE public.tasks REPLICA IDENTITY FULL;
+ALTER TABLE public.lifestyle_entries REPLICA IDENTITY FULL;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['fortunes', 'fortune_media', 'tasks', 'lifestyle_entries'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
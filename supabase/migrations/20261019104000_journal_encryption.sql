@@ -0,0 +1,275 @@
+-- Private journal: optional end-to-end encryption of fortune text and lifestyle notes.
+-- Texts are encrypted in the browser with a random data key; the data key is stored here wrapped
+-- (AES-GCM) by a key derived from the user's passphrase (PBKDF2), so the server never sees
+-- either key. Encrypted values carry the 'e2e:v1:' prefix and are stored as they come, without the
+-- server-side encryption other texts get. While the journal is on, the server can't search those texts
+-- and the data export holds them sealed.
+
+CREATE TABLE IF NOT EXISTS public.journal_keys (
+  user_id UUID NOT NULL PRIMARY KEY,
+  -- base64 PBKDF2 salt and iteration count for the passphrase
+  salt TEXT NOT NULL,
+  iterations INTEGER NOT NULL CHECK (iterations >= 100000),
+  -- data key wrapped by the passphrase key
+  wrapped_key TEXT NOT NULL,
+  -- a known constant encrypted with the data key, to verify an unlock
+  key_check TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.journal_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own journal key"
+ON public.journal_keys
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own journal key"
+ON public.journal_keys
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own journal key"
+ON public.journal_keys
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own journal key"
+ON public.journal_keys
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Server-side encryption of a fortune text, except for texts the browser already sealed
+CREATE OR REPLACE FUNCTION public.encrypt_fortune_text(p_text text)
+RETURNS text
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_text LIKE 'e2e:v1:%' THEN p_text
+    ELSE public.encrypt_with_app_key(p_text)
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.encrypt_fortune_text(text) FROM PUBLIC, anon, authenticated;
+
+-- fortune_add / fortune_update: journal-sealed texts skip the app key
+CREATE OR REPLACE FUNCTION public.fortune_add(
+  p_text text,
+  p_category text DEFAULT 'General'::text,
+  p_level integer DEFAULT 0,
+  p_created_at timestamp with time zone DEFAULT NULL::timestamp with time zone,
+  p_impact_level fortune_impact_level DEFAULT 'small_step'::fortune_impact_level,
+  p_tags text[] DEFAULT NULL,
+  p_fortune_value numeric DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_id uuid;
+  target_created_at timestamptz;
+BEGIN
+  target_created_at := COALESCE(p_created_at, now());
+
+  INSERT INTO public.fortunes (
+    user_id,
+    text,
+    category,
+    fortune_level,
+    fortune_value,
+    currency,
+    impact_level,
+    created_at
+  )
+  VALUES (
+    auth.uid(),
+    public.encrypt_fortune_text(p_text),
+    p_category,
+    p_level,
+    p_fortune_value,
+    upper(p_currency),
+    p_impact_level,
+    target_created_at
+  )
+  RETURNING id INTO new_id;
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(new_id, auth.uid(), p_tags);
+  END IF;
+
+  RETURN new_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.fortune_update(
+  p_id UUID,
+  p_text TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_fortune_value NUMERIC DEFAULT NULL,
+  p_impact_level TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.fortunes%ROWTYPE;
+  v_current_tags text[];
+BEGIN
+  SELECT * INTO v_current
+  FROM fortunes
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fortune not found or access denied';
+  END IF;
+
+  SELECT coalesce(array_agg(lower(tag) ORDER BY lower(tag)), '{}'::text[]) INTO v_current_tags
+  FROM fortune_tags
+  WHERE fortune_id = p_id;
+
+  IF (p_text IS NOT NULL AND p_text IS DISTINCT FROM public._fortune_plain_text(v_current.text, v_current.user_id))
+    OR (p_category IS NOT NULL AND p_category IS DISTINCT FROM v_current.category)
+    OR (p_fortune_value IS NOT NULL AND p_fortune_value IS DISTINCT FROM v_current.fortune_value)
+    OR (p_currency IS NOT NULL AND upper(p_currency) IS DISTINCT FROM v_current.currency)
+    OR (p_impact_level IS NOT NULL AND p_impact_level IS DISTINCT FROM v_current.impact_level::text)
+    OR (p_tags IS NOT NULL AND v_current_tags IS DISTINCT FROM (
+      SELECT coalesce(array_agg(DISTINCT lower(left(btrim(t), 30)) ORDER BY lower(left(btrim(t), 30))), '{}'::text[])
+      FROM unnest(p_tags) AS t
+      WHERE btrim(coalesce(t, '')) <> ''
+    ))
+  THEN
+    PERFORM public._fortune_snapshot_revision(p_id, auth.uid());
+  END IF;
+
+  UPDATE fortunes
+  SET
+    text = CASE
+      WHEN p_text IS NOT NULL THEN public.encrypt_fortune_text(p_text)
+      ELSE text
+    END,
+    category = COALESCE(p_category, category),
+    fortune_value = COALESCE(p_fortune_value, fortune_value),
+    currency = COALESCE(upper(p_currency), currency),
+    impact_level = CASE
+      WHEN p_impact_level IS NOT NULL THEN p_impact_level::fortune_impact_level
+      ELSE impact_level
+    END
+  WHERE id = p_id AND user_id = auth.uid();
+
+  IF p_tags IS NOT NULL THEN
+    PERFORM public._fortune_set_tags(p_id, auth.uid(), p_tags);
+  END IF;
+END;
+$$;
+
+-- Replaces fortune texts after the client re-encrypted them (journal turned on or off).
+-- Unlike fortune_update this keeps no revision and clears the existing history of those
+-- fortunes: old versions would otherwise keep the previous plaintext / ciphertext around.
+-- p_items: [{"id": "<uuid>", "text": "<new text>"}, ...]
+CREATE OR REPLACE FUNCTION public.journal_reencrypt_fortunes(p_items jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' THEN
+    RAISE EXCEPTION 'p_items must be an array';
+  END IF;
+
+  WITH items AS (
+    SELECT (item->>'id')::uuid AS id, item->>'text' AS text
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE coalesce(item->>'text', '') <> ''
+  ),
+  updated AS (
+    UPDATE public.fortunes f
+    SET text = public.encrypt_fortune_text(items.text)
+    FROM items
+    WHERE f.id = items.id
+      AND f.user_id = auth.uid()
+    RETURNING f.id
+  ),
+  cleared AS (
+    DELETE FROM public.fortune_revisions r
+    WHERE r.user_id = auth.uid()
+      AND r.fortune_id IN (SELECT id FROM updated)
+  )
+  SELECT count(*) INTO v_count FROM updated;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.journal_reencrypt_fortunes(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.journal_reencrypt_fortunes(jsonb) TO authenticated;
+
+-- Keyset pages for fortune_trash_list, so re-encryption can walk a trash bigger than one response.
+-- Pages are ordered by (deleted_at, id) desc; pass the last row of a page as the cursor.
+-- Without p_limit the whole trash comes back, as before.
+DROP FUNCTION IF EXISTS public.fortune_trash_list();
+
+CREATE OR REPLACE FUNCTION public.fortune_trash_list(
+  p_cursor_deleted_at timestamp with time zone DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT NULL
+)
+ RETURNS TABLE(id uuid, text text, category text, created_at timestamp with time zone, deleted_at timestamp with time zone, fortune_value numeric, impact_level fortune_impact_level)
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO 'public', 'extensions', 'private'
+AS $function$
+  with cur as (
+    select value as k from private.app_secrets where key = 'enc_key' limit 1
+  ),
+  page as (
+    select f.*
+    from public.fortunes f
+    where f.user_id = auth.uid()
+      and f.deleted_at > now() - interval '30 days'
+      and (
+        p_cursor_deleted_at is null
+        or (p_cursor_id is null and f.deleted_at < p_cursor_deleted_at)
+        or (f.deleted_at, f.id) < (p_cursor_deleted_at, p_cursor_id)
+      )
+    order by f.deleted_at desc, f.id desc
+    -- LIMIT NULL means no limit
+    limit case when p_limit > 0 then p_limit end
+  ),
+  raw as (
+    select
+      p.id,
+      coalesce(
+        public.try_decrypt_with_key(p.text,(select k from cur)),
+        public.try_decrypt_with_derived(p.text,p.user_id),
+        p.text
+      ) as raw_text,
+      p.category,
+      p.created_at,
+      p.deleted_at,
+      p.fortune_value,
+      p.impact_level
+    from page p
+  )
+  select
+    id,
+    coalesce(public.try_base64_text(raw_text), raw_text) as text,
+    category, created_at, deleted_at, fortune_value, impact_level
+  from raw
+  order by deleted_at desc, id desc;
+$function$;
+
+REVOKE ALL ON FUNCTION public.fortune_trash_list(timestamp with time zone, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_trash_list(timestamp with time zone, uuid, integer) TO authenticated;
@@ -0,0 +1,52 @@
+-- Fortune templates: pre-filled fortunes for wins logged again and again (salary day, workout).
+-- A template can recur weekly (recurrence_day = 0-6, Sunday first) or monthly (recurrence_day = 1-31,
+-- clamped to the month's last day). Due occurrences are only suggested in the app; the user confirms
+-- each one, nothing is inserted automatically. last_handled_on is the last occurrence confirmed or skipped.
+
+CREATE TABLE IF NOT EXISTS public.fortune_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  text TEXT NOT NULL DEFAULT '',
+  category TEXT NOT NULL DEFAULT 'Wealth',
+  fortune_value NUMERIC CHECK (fortune_value >= 0),
+  currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+  impact_level fortune_impact_level NOT NULL DEFAULT 'small_step',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  recurrence TEXT CHECK (recurrence IN ('weekly', 'monthly')),
+  recurrence_day INTEGER,
+  last_handled_on DATE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT fortune_templates_recurrence_day CHECK (
+    (recurrence IS NULL AND recurrence_day IS NULL)
+    OR (recurrence = 'weekly' AND recurrence_day BETWEEN 0 AND 6)
+    OR (recurrence = 'monthly' AND recurrence_day BETWEEN 1 AND 31)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_fortune_templates_user
+  ON public.fortune_templates (user_id, position, created_at);
+
+ALTER TABLE public.fortune_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own fortune templates"
+ON public.fortune_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own fortune templates"
+ON public.fortune_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own fortune templates"
+ON public.fortune_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fortune templates"
+ON public.fortune_templates
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,54 @@
+-- Category hierarchy: a custom category can be a subcategory of a default category (Wealth, Health, ...)
+-- or of a top-level custom category, e.g. Wealth -> Salary, Investments, Side project.
+-- The parent is referenced by name because the default categories have no row here.
+-- Fortunes keep storing the leaf name in fortunes.category; statistics roll it up via parent_name.
+-- Only two levels: a subcategory can't have subcategories of its own.
+
+ALTER TABLE public.custom_categories
+  ADD COLUMN IF NOT EXISTS parent_name TEXT;
+
+ALTER TABLE public.custom_categories
+  DROP CONSTRAINT IF EXISTS custom_categories_parent_not_self;
+ALTER TABLE public.custom_categories
+  ADD CONSTRAINT custom_categories_parent_not_self CHECK (parent_name IS NULL OR lower(parent_name) <> lower(name));
+
+CREATE INDEX IF NOT EXISTS idx_custom_categories_parent
+  ON public.custom_categories (user_id, parent_name);
+
+CREATE OR REPLACE FUNCTION public.custom_categories_check_depth()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.custom_categories c
+    WHERE c.user_id = NEW.user_id
+      AND lower(c.name) = lower(NEW.parent_name)
+      AND c.parent_name IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Category "%" is a subcategory and cannot have subcategories', NEW.parent_name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.custom_categories c
+    WHERE c.user_id = NEW.user_id
+      AND lower(c.parent_name) = lower(NEW.name)
+      AND c.id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Category "%" has subcategories and cannot become one', NEW.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS custom_categories_check_depth ON public.custom_categories;
+CREATE TRIGGER custom_categories_check_depth
+BEFORE INSERT OR UPDATE OF name, parent_name ON public.custom_categories
+FOR EACH ROW
+EXECUTE FUNCTION public.custom_categories_check_depth();
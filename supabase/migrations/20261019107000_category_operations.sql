@@ -0,0 +1,213 @@
+-- Category operations that keep history consistent. Fortunes store their category as a plain
+-- string, so renaming or merging a category rewrites every fortune that uses it – trashed ones,
+-- revisions and templates included – in one transaction. Fortune texts are untouched, so this
+-- works the same for entries encrypted by the private journal.
+-- Archived categories are hidden from pickers but stay in custom_categories for colors and statistics.
+
+ALTER TABLE public.custom_categories
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Per-category counts, for previewing what an operation will touch
+CREATE OR REPLACE FUNCTION public.category_usage()
+RETURNS TABLE(category text, fortune_count bigint, trashed_count bigint, template_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH fortune_counts AS (
+    SELECT
+      f.category,
+      count(*) FILTER (WHERE f.deleted_at IS NULL) AS active,
+      count(*) FILTER (WHERE f.deleted_at IS NOT NULL) AS trashed
+    FROM public.fortunes f
+    WHERE f.user_id = auth.uid()
+    GROUP BY f.category
+  ),
+  template_counts AS (
+    SELECT t.category, count(*) AS templates
+    FROM public.fortune_templates t
+    WHERE t.user_id = auth.uid()
+    GROUP BY t.category
+  )
+  SELECT
+    coalesce(fc.category, tc.category),
+    coalesce(fc.active, 0),
+    coalesce(fc.trashed, 0),
+    coalesce(tc.templates, 0)
+  FROM fortune_counts fc
+  FULL JOIN template_counts tc ON tc.category = fc.category;
+$$;
+
+-- Points everything stored under p_from at p_to. Internal: called by category_rename / category_merge.
+CREATE OR REPLACE FUNCTION public.category_rewrite_history(p_user_id uuid, p_from text, p_to text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.fortunes
+  SET category = p_to
+  WHERE user_id = p_user_id
+    AND category = p_from;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.fortune_revisions
+  SET category = p_to
+  WHERE user_id = p_user_id
+    AND category = p_from;
+
+  UPDATE public.fortune_templates
+  SET category = p_to
+  WHERE user_id = p_user_id
+    AND category = p_from;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.category_rewrite_history(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Renames a custom category and every fortune using it. Returns the number of fortunes rewritten.
+CREATE OR REPLACE FUNCTION public.category_rename(p_name text, p_new_name text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_new_name text := btrim(p_new_name);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_new_name IS NULL OR char_length(v_new_name) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Category name must be 1-50 characters';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.custom_categories
+    WHERE user_id = v_user_id AND name = p_name
+  ) THEN
+    RAISE EXCEPTION 'Only custom categories can be renamed';
+  END IF;
+
+  IF lower(v_new_name) IN ('wealth', 'health', 'love', 'opportunity', 'tasks', 'other')
+    OR EXISTS (
+      SELECT 1 FROM public.custom_categories
+      WHERE user_id = v_user_id
+        AND lower(name) = lower(v_new_name)
+        AND name <> p_name
+    ) THEN
+    RAISE EXCEPTION 'A category named "%" already exists – merge the two instead', v_new_name;
+  END IF;
+
+  UPDATE public.custom_categories
+  SET name = v_new_name
+  WHERE user_id = v_user_id AND name = p_name;
+
+  UPDATE public.custom_categories
+  SET parent_name = v_new_name
+  WHERE user_id = v_user_id AND parent_name = p_name;
+
+  RETURN public.category_rewrite_history(v_user_id, p_name, v_new_name);
+END;
+$$;
+
+-- Moves every fortune from p_source into p_target (a default or custom category) and deletes
+-- p_source. Its subcategories move under p_target. Returns the number of fortunes rewritten.
+CREATE OR REPLACE FUNCTION public.category_merge(p_source text, p_target text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_target_is_default boolean := p_target IN ('Wealth', 'Health', 'Love', 'Opportunity', 'Tasks', 'Other');
+  v_target_parent text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_source = p_target THEN
+    RAISE EXCEPTION 'Pick two different categories to merge';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.custom_categories
+    WHERE user_id = v_user_id AND name = p_source
+  ) THEN
+    RAISE EXCEPTION 'Only custom categories can be merged into another category';
+  END IF;
+
+  IF NOT v_target_is_default THEN
+    SELECT parent_name INTO v_target_parent
+    FROM public.custom_categories
+    WHERE user_id = v_user_id AND name = p_target;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Category "%" does not exist', p_target;
+    END IF;
+  END IF;
+
+  IF v_target_parent IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.custom_categories
+    WHERE user_id = v_user_id AND parent_name = p_source
+  ) THEN
+    RAISE EXCEPTION '"%" has subcategories and can only be merged into a top-level category', p_source;
+  END IF;
+
+  DELETE FROM public.custom_categories
+  WHERE user_id = v_user_id AND name = p_source;
+
+  UPDATE public.custom_categories
+  SET parent_name = p_target
+  WHERE user_id = v_user_id AND parent_name = p_source;
+
+  RETURN public.category_rewrite_history(v_user_id, p_source, p_target);
+END;
+$$;
+
+-- Archives (or restores) a custom category together with its subcategories
+CREATE OR REPLACE FUNCTION public.category_set_archived(p_name text, p_archived boolean)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.custom_categories
+  SET archived_at = CASE WHEN p_archived THEN coalesce(archived_at, now()) ELSE NULL END
+  WHERE user_id = auth.uid()
+    AND (name = p_name OR parent_name = p_name);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Only custom categories can be archived';
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.category_usage() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.category_usage() TO authenticated;
+REVOKE ALL ON FUNCTION public.category_rename(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.category_rename(text, text) TO authenticated;
+REVOKE ALL ON FUNCTION public.category_merge(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.category_merge(text, text) TO authenticated;
+REVOKE ALL ON FUNCTION public.category_set_archived(text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.category_set_archived(text, boolean) TO authenticated;
@@ -0,0 +1,21 @@
+-- Value units per category. has_numeric_value still switches values on or off; value_unit says what
+-- the number means, and value_min / value_max narrow the unit's allowed range (NULL = unit default).
+-- Existing numeric categories keep behaving as money. Only 'currency' values use fortunes.currency;
+-- totals in the app and in reports aggregate each unit separately (ratings are averaged).
+
+ALTER TABLE public.custom_categories
+  ADD COLUMN IF NOT EXISTS value_unit TEXT NOT NULL DEFAULT 'currency',
+  ADD COLUMN IF NOT EXISTS value_min NUMERIC,
+  ADD COLUMN IF NOT EXISTS value_max NUMERIC;
+
+ALTER TABLE public.custom_categories
+  DROP CONSTRAINT IF EXISTS custom_categories_value_unit;
+ALTER TABLE public.custom_categories
+  ADD CONSTRAINT custom_categories_value_unit
+  CHECK (value_unit IN ('currency', 'minutes', 'kilometres', 'count', 'rating'));
+
+ALTER TABLE public.custom_categories
+  DROP CONSTRAINT IF EXISTS custom_categories_value_range;
+ALTER TABLE public.custom_categories
+  ADD CONSTRAINT custom_categories_value_range
+  CHECK (value_min IS NULL OR value_max IS NULL OR value_min <= value_max);
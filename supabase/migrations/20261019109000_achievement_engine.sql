@@ -0,0 +1,396 @@
+-- Server-side achievements. `achievements` is the catalog (one row per badge, with the metric it
+-- measures); `user_achievements` keeps each user's progress and the moment a badge was unlocked.
+-- Evaluation runs in the same transaction as every fortune / lifestyle change, so the app only reads
+-- persisted state. Unlocks are permanent: later edits or deletes update progress but never re-lock.
+-- Day-based metrics (streaks, early / late fortunes, weekends) use the timezone the app last reported
+-- in profiles.timezone. Money is summed in USD through the user's exchange_rates table (falling back
+-- to default_exchange_rates), counting only categories whose value unit is currency. Values saved
+-- without a currency are in the display currency (see 20261019100000_fortune_currency.sql), which the
+-- app reports in profiles.display_currency like the timezone; until it has, those values are left out
+-- rather than guessed.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS display_currency TEXT CHECK (display_currency ~ '^[A-Z]{3}$');
+
+-- The catalog table predates this migration in some projects (the tutorial badge was seeded into it)
+CREATE TABLE IF NOT EXISTS public.achievements (
+  id TEXT NOT NULL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT 'locked',
+  required_count INTEGER NOT NULL DEFAULT 1,
+  category TEXT
+);
+
+ALTER TABLE public.achievements
+  ADD COLUMN IF NOT EXISTS metric TEXT,
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.achievements
+  DROP CONSTRAINT IF EXISTS achievements_metric;
+ALTER TABLE public.achievements
+  ADD CONSTRAINT achievements_metric CHECK (metric IN (
+    'fortunes',             -- active fortunes
+    'category_fortunes',    -- fortunes in `category` or one of its subcategories
+    'streak_days',          -- longest run of consecutive days with a fortune
+    'money_value',          -- total value of money fortunes, USD
+    'distinct_categories',  -- categories used
+    'early_fortunes',       -- fortunes logged before 8 AM
+    'late_fortunes',        -- fortunes logged from 10 PM
+    'weekends',             -- distinct weekends with a fortune
+    'lifestyle_days',       -- days with a lifestyle entry
+    'beta_tester',          -- 1 when the profile was created before 2026
+    'tutorial_steps'        -- tutorial steps seen (auth user metadata)
+  ));
+
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Achievements are readable by signed-in users" ON public.achievements;
+CREATE POLICY "Achievements are readable by signed-in users"
+ON public.achievements
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.achievements (id, title, description, icon, required_count, category, metric, sort_order)
+VALUES
+  ('1', 'First Fortune', 'Track your first fortune', '🎯', 1, NULL, 'fortunes', 10),
+  ('2', 'Fortune Seeker', 'Track 10 fortunes', '🔍', 10, NULL, 'fortunes', 20),
+  ('3', 'Fortune Hunter', 'Track 25 fortunes', '🏹', 25, NULL, 'fortunes', 30),
+  ('4', 'Fortune Master', 'Track 50 fortunes', '🏆', 50, NULL, 'fortunes', 40),
+  ('5', 'Fortune Legend', 'Track 100 fortunes', '👑', 100, NULL, 'fortunes', 50),
+  ('6', 'Wealth Magnet', 'Track 5 wealth fortunes', '💰', 5, 'Wealth', 'category_fortunes', 60),
+  ('7', 'Gold Rush', 'Track 15 wealth fortunes', '🏗️', 15, 'Wealth', 'category_fortunes', 70),
+  ('8', 'Love Attractor', 'Track 3 love fortunes', '💖', 3, 'Love', 'category_fortunes', 80),
+  ('9', 'Cupid''s Favorite', 'Track 10 love fortunes', '💘', 10, 'Love', 'category_fortunes', 90),
+  ('10', 'Health Guardian', 'Track 5 health fortunes', '🌿', 5, 'Health', 'category_fortunes', 100),
+  ('beta-tester', 'Beta Pioneer', 'Joined during the beta phase before 2026', '🚀', 1, NULL, 'beta_tester', 105),
+  ('11', 'Opportunity Finder', 'Track 7 opportunity fortunes', '🚪', 7, 'Opportunity', 'category_fortunes', 110),
+  ('12', 'Daily Tracker', 'Track fortunes for 7 consecutive days', '📅', 7, NULL, 'streak_days', 120),
+  ('13', 'Consistency King', 'Track fortunes for 30 consecutive days', '⚡', 30, NULL, 'streak_days', 130),
+  ('14', 'Value Creator', 'Track fortunes worth $1,000 total', '💎', 1000, NULL, 'money_value', 140),
+  ('15', 'Fortune Millionaire', 'Track fortunes worth $10,000 total', '🏛️', 10000, NULL, 'money_value', 150),
+  ('16', 'Category Explorer', 'Track fortunes in 3 different categories', '🗺️', 3, NULL, 'distinct_categories', 160),
+  ('17', 'Well-Rounded', 'Track fortunes in 5 different categories', '🎭', 5, NULL, 'distinct_categories', 170),
+  ('18', 'Early Bird', 'Track a fortune before 8 AM', '🌅', 1, NULL, 'early_fortunes', 180),
+  ('19', 'Night Owl', 'Track a fortune after 10 PM', '🦉', 1, NULL, 'late_fortunes', 190),
+  ('20', 'Weekend Warrior', 'Track fortunes on 5 weekends', '🎪', 5, NULL, 'weekends', 200),
+  ('lifestyle-7', 'Self Observer', 'Log your lifestyle on 7 days', '🪞', 7, NULL, 'lifestyle_days', 210),
+  ('lifestyle-30', 'Know Yourself', 'Log your lifestyle on 30 days', '🧭', 30, NULL, 'lifestyle_days', 220),
+  ('tutorial-master', 'Tutorial Master', 'Explored all features of Fortune Magnet', '🎓', 8, NULL, 'tutorial_steps', 230)
+ON CONFLICT (id) DO UPDATE
+SET title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    icon = EXCLUDED.icon,
+    required_count = EXCLUDED.required_count,
+    category = EXCLUDED.category,
+    metric = EXCLUDED.metric,
+    sort_order = EXCLUDED.sort_order;
+
+CREATE TABLE IF NOT EXISTS public.user_achievements (
+  user_id UUID NOT NULL,
+  achievement_id TEXT NOT NULL REFERENCES public.achievements (id) ON DELETE CASCADE,
+  progress NUMERIC NOT NULL DEFAULT 0,
+  unlocked_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_unlocked
+  ON public.user_achievements (user_id, unlocked_at DESC)
+  WHERE unlocked_at IS NOT NULL;
+
+-- Read-only for users; only the evaluation functions below write to it
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own achievements"
+ON public.user_achievements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Recomputes every catalog metric for one user and records new unlocks. Internal.
+CREATE OR REPLACE FUNCTION public.achievements_evaluate_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+  v_currency text;
+  v_profile_created timestamp with time zone;
+  v_fortunes bigint := 0;
+  v_categories bigint := 0;
+  v_early bigint := 0;
+  v_late bigint := 0;
+  v_weekends bigint := 0;
+  v_streak bigint := 0;
+  v_money numeric := 0;
+  v_lifestyle_days bigint := 0;
+  v_tutorial_steps bigint := 0;
+BEGIN
+  SELECT p.timezone, p.display_currency, p.created_at INTO v_tz, v_currency, v_profile_created
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id;
+
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  WITH local_fortunes AS (
+    SELECT f.category, f.created_at AT TIME ZONE v_tz AS local_ts
+    FROM public.fortunes f
+    WHERE f.user_id = p_user_id
+      AND f.deleted_at IS NULL
+  )
+  SELECT
+    count(*),
+    count(DISTINCT category),
+    count(*) FILTER (WHERE extract(hour FROM local_ts) < 8),
+    count(*) FILTER (WHERE extract(hour FROM local_ts) >= 22),
+    count(DISTINCT date_trunc('week', local_ts)) FILTER (WHERE extract(isodow FROM local_ts) IN (6, 7))
+  INTO v_fortunes, v_categories, v_early, v_late, v_weekends
+  FROM local_fortunes;
+
+  -- Consecutive days share the same (day - row number) anchor
+  SELECT coalesce(max(run_length), 0) INTO v_streak
+  FROM (
+    SELECT count(*) AS run_length
+    FROM (
+      SELECT day, day - (row_number() OVER (ORDER BY day))::integer AS anchor
+      FROM (
+        SELECT DISTINCT (f.created_at AT TIME ZONE v_tz)::date AS day
+        FROM public.fortunes f
+        WHERE f.user_id = p_user_id
+          AND f.deleted_at IS NULL
+      ) days
+    ) runs
+    GROUP BY anchor
+  ) streaks;
+
+  -- Values without a currency are in the display currency; currencies without a rate are left out
+  SELECT coalesce(sum(f.fortune_value / coalesce(r.rate_per_usd, d.rate_per_usd)), 0) INTO v_money
+  FROM public.fortunes f
+  LEFT JOIN public.exchange_rates r
+    ON r.user_id = p_user_id AND r.currency = coalesce(f.currency, v_currency)
+  LEFT JOIN public.default_exchange_rates d
+    ON d.currency = coalesce(f.currency, v_currency)
+  WHERE f.user_id = p_user_id
+    AND f.deleted_at IS NULL
+    AND f.fortune_value > 0
+    AND coalesce(r.rate_per_usd, d.rate_per_usd) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM public.custom_categories c
+      WHERE c.user_id = p_user_id
+        AND lower(c.name) = lower(f.category)
+        AND c.value_unit <> 'currency'
+    );
+
+  SELECT count(DISTINCT l.date) INTO v_lifestyle_days
+  FROM public.lifestyle_entries l
+  WHERE l.user_id = p_user_id;
+
+  SELECT count(*) INTO v_tutorial_steps
+  FROM auth.users u
+  CROSS JOIN LATERAL jsonb_each(coalesce(u.raw_user_meta_data -> 'tutorials_seen', '{}'::jsonb)) AS seen(step, value)
+  WHERE u.id = p_user_id
+    AND seen.value = 'true'::jsonb;
+
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id, progress, unlocked_at, updated_at)
+  SELECT
+    p_user_id,
+    a.id,
+    m.progress,
+    CASE WHEN m.progress >= a.required_count THEN now() END,
+    now()
+  FROM public.achievements a
+  CROSS JOIN LATERAL (
+    SELECT CASE a.metric
+      WHEN 'fortunes' THEN v_fortunes
+      WHEN 'category_fortunes' THEN (
+        SELECT count(*)
+        FROM public.fortunes f
+        WHERE f.user_id = p_user_id
+          AND f.deleted_at IS NULL
+          AND (
+            f.category = a.category
+            OR f.category IN (
+              SELECT c.name FROM public.custom_categories c
+              WHERE c.user_id = p_user_id AND c.parent_name = a.category
+            )
+          )
+      )
+      WHEN 'streak_days' THEN v_streak
+      WHEN 'money_value' THEN round(v_money, 2)
+      WHEN 'distinct_categories' THEN v_categories
+      WHEN 'early_fortunes' THEN v_early
+      WHEN 'late_fortunes' THEN v_late
+      WHEN 'weekends' THEN v_weekends
+      WHEN 'lifestyle_days' THEN v_lifestyle_days
+      WHEN 'beta_tester' THEN CASE WHEN v_profile_created < '2026-01-01T00:00:00Z' THEN 1 ELSE 0 END
+      WHEN 'tutorial_steps' THEN v_tutorial_steps
+    END::numeric AS progress
+  ) m
+  WHERE a.metric IS NOT NULL
+  ON CONFLICT (user_id, achievement_id) DO UPDATE
+  SET progress = EXCLUDED.progress,
+      unlocked_at = coalesce(ua.unlocked_at, EXCLUDED.unlocked_at),
+      updated_at = now()
+  -- Unchanged rows aren't rewritten, so Realtime only reports real progress
+  WHERE ua.progress IS DISTINCT FROM EXCLUDED.progress
+     OR (ua.unlocked_at IS NULL AND EXCLUDED.unlocked_at IS NOT NULL);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.achievements_evaluate_user(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Statement-level: a multi-row statement evaluates each affected user once, not once per row.
+-- Every evaluation covers the user's whole history, so fortune_import defers it for the rest of its
+-- transaction (fortune_magnet.defer_achievements) and the importer evaluates once when it is done.
+CREATE OR REPLACE FUNCTION public.achievements_after_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF current_setting('fortune_magnet.defer_achievements', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    FOR v_user_id IN SELECT DISTINCT user_id FROM old_rows LOOP
+      PERFORM public.achievements_evaluate_user(v_user_id);
+    END LOOP;
+  ELSE
+    FOR v_user_id IN SELECT DISTINCT user_id FROM new_rows LOOP
+      PERFORM public.achievements_evaluate_user(v_user_id);
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.achievements_after_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS fortunes_achievements_insert ON public.fortunes;
+CREATE TRIGGER fortunes_achievements_insert
+AFTER INSERT ON public.fortunes
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.achievements_after_change();
+
+DROP TRIGGER IF EXISTS fortunes_achievements_update ON public.fortunes;
+CREATE TRIGGER fortunes_achievements_update
+AFTER UPDATE ON public.fortunes
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.achievements_after_change();
+
+DROP TRIGGER IF EXISTS fortunes_achievements_delete ON public.fortunes;
+CREATE TRIGGER fortunes_achievements_delete
+AFTER DELETE ON public.fortunes
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.achievements_after_change();
+
+DROP TRIGGER IF EXISTS lifestyle_entries_achievements_insert ON public.lifestyle_entries;
+CREATE TRIGGER lifestyle_entries_achievements_insert
+AFTER INSERT ON public.lifestyle_entries
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.achievements_after_change();
+
+DROP TRIGGER IF EXISTS lifestyle_entries_achievements_update ON public.lifestyle_entries;
+CREATE TRIGGER lifestyle_entries_achievements_update
+AFTER UPDATE ON public.lifestyle_entries
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.achievements_after_change();
+
+DROP TRIGGER IF EXISTS lifestyle_entries_achievements_delete ON public.lifestyle_entries;
+CREATE TRIGGER lifestyle_entries_achievements_delete
+AFTER DELETE ON public.lifestyle_entries
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.achievements_after_change();
+
+-- Called by the app on start (backfills users who had fortunes before this migration, picks up
+-- tutorial progress) and whenever the device timezone or the display currency changes
+CREATE OR REPLACE FUNCTION public.achievements_evaluate(p_timezone text DEFAULT NULL, p_currency text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_timezone IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    UPDATE public.profiles
+    SET timezone = p_timezone
+    WHERE user_id = v_user_id
+      AND timezone IS DISTINCT FROM p_timezone;
+  END IF;
+
+  IF p_currency ~ '^[A-Z]{3}$' THEN
+    UPDATE public.profiles
+    SET display_currency = p_currency
+    WHERE user_id = v_user_id
+      AND display_currency IS DISTINCT FROM p_currency;
+  END IF;
+
+  PERFORM public.achievements_evaluate_user(v_user_id);
+END;
+$$;
+
+-- The catalog with the caller's progress, in display order
+CREATE OR REPLACE FUNCTION public.achievements_list()
+RETURNS TABLE(
+  id text,
+  title text,
+  description text,
+  icon text,
+  required_count integer,
+  category text,
+  progress numeric,
+  unlocked_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.title, a.description, a.icon, a.required_count, a.category,
+         coalesce(ua.progress, 0), ua.unlocked_at
+  FROM public.achievements a
+  LEFT JOIN public.user_achievements ua
+    ON ua.achievement_id = a.id AND ua.user_id = auth.uid()
+  WHERE a.metric IS NOT NULL
+    AND auth.uid() IS NOT NULL
+  ORDER BY a.sort_order, a.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.achievements_evaluate(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.achievements_evaluate(text, text) TO authenticated;
+REVOKE ALL ON FUNCTION public.achievements_list() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.achievements_list() TO authenticated;
+
+-- Unlocks reach every open session (see useRealtimeSync)
+ALTER TABLE public.user_achievements REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_achievements'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_achievements;
+  END IF;
+END $$;
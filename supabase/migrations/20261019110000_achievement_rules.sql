@@ -0,0 +1,500 @@
+-- Declarative achievement rules. Each catalog row describes what it measures in `rule` (JSONB) and is
+-- unlocked when that measure reaches required_count; one interpreter evaluates every rule, so adding
+-- an achievement is an INSERT. Rules are validated on write (achievement_rule_errors lists problems).
+--
+-- Rule shape:
+--   source      'fortunes' | 'lifestyle' | 'profile' | 'tutorial'
+--   measure     fortunes:  'count' | 'days' | 'streak' | 'weeks' | 'categories' | 'value_sum'
+--               lifestyle: 'days' | 'streak'
+--               profile:   'joined_before'
+--               tutorial:  'steps'
+--   fortunes only (all optional, combined with AND):
+--     categories  ["Wealth", ...]        subcategories count towards their parent
+--     hours       {"from": 0-23, "to": 1-24}   local time, [from, to); wraps past midnight when from > to
+--     weekdays    [1-7, ...]             ISO weekdays, 1 = Monday
+--   lifestyle only:
+--     conditions  [{"field": "energy_level", "op": ">=", "value": 4}, ...]  all must hold for a day
+--                 numeric fields: energy_level, dream_quality, sickness_level, sexual_appetite,
+--                 sexual_performance, exercise_duration, alcohol_consumption, room_temperature
+--                 (ops >=, >, <=, <, =); mood with op = and a text value
+--   profile only:
+--     before      "2026-01-01"
+-- 'streak' is the longest run of consecutive local days; 'weeks' counts distinct ISO weeks;
+-- 'value_sum' totals money fortunes in USD, reading values without a currency in the display
+-- currency (see 20261019109000_achievement_engine.sql).
+
+ALTER TABLE public.achievements
+  ADD COLUMN IF NOT EXISTS rule JSONB;
+
+-- Problems with a rule, empty when it is valid
+CREATE OR REPLACE FUNCTION public.achievement_rule_errors(p_rule jsonb)
+RETURNS text[]
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_errors text[] := '{}';
+  v_source text;
+  v_measure text;
+  v_allowed_keys text[];
+  v_key text;
+  v_item jsonb;
+  v_from numeric;
+  v_to numeric;
+BEGIN
+  IF p_rule IS NULL OR jsonb_typeof(p_rule) <> 'object' THEN
+    RETURN ARRAY['rule must be a JSON object'];
+  END IF;
+
+  v_source := p_rule->>'source';
+  v_measure := p_rule->>'measure';
+
+  CASE v_source
+    WHEN 'fortunes' THEN
+      v_allowed_keys := ARRAY['source', 'measure', 'categories', 'hours', 'weekdays'];
+      IF v_measure IS NULL OR v_measure NOT IN ('count', 'days', 'streak', 'weeks', 'categories', 'value_sum') THEN
+        v_errors := v_errors || format('measure %L is not available for fortunes', v_measure);
+      END IF;
+    WHEN 'lifestyle' THEN
+      v_allowed_keys := ARRAY['source', 'measure', 'conditions'];
+      IF v_measure IS NULL OR v_measure NOT IN ('days', 'streak') THEN
+        v_errors := v_errors || format('measure %L is not available for lifestyle', v_measure);
+      END IF;
+    WHEN 'profile' THEN
+      v_allowed_keys := ARRAY['source', 'measure', 'before'];
+      IF v_measure IS DISTINCT FROM 'joined_before' THEN
+        v_errors := v_errors || format('measure %L is not available for profile', v_measure);
+      END IF;
+      IF NOT p_rule ? 'before' THEN
+        v_errors := v_errors || 'profile rules need a "before" date'::text;
+      END IF;
+    WHEN 'tutorial' THEN
+      v_allowed_keys := ARRAY['source', 'measure'];
+      IF v_measure IS DISTINCT FROM 'steps' THEN
+        v_errors := v_errors || format('measure %L is not available for tutorial', v_measure);
+      END IF;
+    ELSE
+      RETURN ARRAY[format('unknown source %L', v_source)];
+  END CASE;
+
+  FOR v_key IN SELECT jsonb_object_keys(p_rule) LOOP
+    IF NOT v_key = ANY(v_allowed_keys) THEN
+      v_errors := v_errors || format('%s rules do not take %L', v_source, v_key);
+    END IF;
+  END LOOP;
+
+  IF p_rule ? 'categories' THEN
+    IF jsonb_typeof(p_rule->'categories') <> 'array'
+      OR jsonb_array_length(p_rule->'categories') = 0
+      OR EXISTS (SELECT 1 FROM jsonb_array_elements(p_rule->'categories') c WHERE jsonb_typeof(c) <> 'string') THEN
+      v_errors := v_errors || 'categories must be a non-empty array of names'::text;
+    END IF;
+  END IF;
+
+  IF p_rule ? 'hours' THEN
+    IF jsonb_typeof(p_rule->'hours') <> 'object'
+      OR jsonb_typeof(p_rule #> '{hours,from}') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(p_rule #> '{hours,to}') IS DISTINCT FROM 'number' THEN
+      v_errors := v_errors || 'hours must be {"from": <0-23>, "to": <1-24>}'::text;
+    ELSE
+      v_from := (p_rule #>> '{hours,from}')::numeric;
+      v_to := (p_rule #>> '{hours,to}')::numeric;
+      IF v_from NOT BETWEEN 0 AND 23 OR v_to NOT BETWEEN 1 AND 24 OR v_from = v_to
+        OR v_from <> trunc(v_from) OR v_to <> trunc(v_to) THEN
+        v_errors := v_errors || 'hours must be whole hours with from 0-23, to 1-24 and from <> to'::text;
+      END IF;
+    END IF;
+  END IF;
+
+  IF p_rule ? 'weekdays' THEN
+    IF jsonb_typeof(p_rule->'weekdays') <> 'array'
+      OR jsonb_array_length(p_rule->'weekdays') = 0
+      OR EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_rule->'weekdays') d
+        WHERE jsonb_typeof(d) <> 'number' OR d::text NOT IN ('1', '2', '3', '4', '5', '6', '7')
+      ) THEN
+      v_errors := v_errors || 'weekdays must be a non-empty array of ISO weekdays (1 = Monday … 7 = Sunday)'::text;
+    END IF;
+  END IF;
+
+  IF p_rule ? 'conditions' THEN
+    IF jsonb_typeof(p_rule->'conditions') <> 'array' OR jsonb_array_length(p_rule->'conditions') = 0 THEN
+      v_errors := v_errors || 'conditions must be a non-empty array'::text;
+    ELSE
+      FOR v_item IN SELECT jsonb_array_elements(p_rule->'conditions') LOOP
+        IF jsonb_typeof(v_item) <> 'object' THEN
+          v_errors := v_errors || 'each condition must be an object'::text;
+        ELSIF v_item->>'field' = 'mood' THEN
+          IF v_item->>'op' IS DISTINCT FROM '=' OR jsonb_typeof(v_item->'value') IS DISTINCT FROM 'string' THEN
+            v_errors := v_errors || 'mood conditions must be {"field": "mood", "op": "=", "value": "<mood>"}'::text;
+          END IF;
+        ELSIF v_item->>'field' IS NULL OR v_item->>'field' NOT IN (
+          'energy_level', 'dream_quality', 'sickness_level', 'sexual_appetite',
+          'sexual_performance', 'exercise_duration', 'alcohol_consumption', 'room_temperature'
+        ) THEN
+          v_errors := v_errors || format('unknown lifestyle field %L', v_item->>'field');
+        ELSIF v_item->>'op' IS NULL OR v_item->>'op' NOT IN ('>=', '>', '<=', '<', '=') THEN
+          v_errors := v_errors || format('unknown operator %L', v_item->>'op');
+        ELSIF jsonb_typeof(v_item->'value') IS DISTINCT FROM 'number' THEN
+          v_errors := v_errors || format('condition on %s needs a numeric value', v_item->>'field');
+        END IF;
+      END LOOP;
+    END IF;
+  END IF;
+
+  IF p_rule ? 'before' THEN
+    BEGIN
+      PERFORM (p_rule->>'before')::date;
+    EXCEPTION WHEN others THEN
+      v_errors := v_errors || format('before must be a date, got %L', p_rule->>'before');
+    END;
+  END IF;
+
+  RETURN v_errors;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.achievements_validate_rule()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_errors text[];
+BEGIN
+  IF NEW.rule IS NOT NULL THEN
+    v_errors := public.achievement_rule_errors(NEW.rule);
+    IF cardinality(v_errors) > 0 THEN
+      RAISE EXCEPTION 'Invalid rule for achievement %: %', NEW.id, array_to_string(v_errors, '; ');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS achievements_validate_rule ON public.achievements;
+CREATE TRIGGER achievements_validate_rule
+BEFORE INSERT OR UPDATE OF rule ON public.achievements
+FOR EACH ROW EXECUTE FUNCTION public.achievements_validate_rule();
+
+-- Longest run of consecutive days; consecutive days share the same (day - position) anchor
+CREATE OR REPLACE FUNCTION public.achievement_longest_streak(p_days date[])
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(max(run_length), 0)::integer
+  FROM (
+    SELECT count(*) AS run_length
+    FROM (
+      SELECT day, day - (row_number() OVER (ORDER BY day))::integer AS anchor
+      FROM (SELECT DISTINCT unnest(p_days) AS day) days
+      WHERE day IS NOT NULL
+    ) runs
+    GROUP BY anchor
+  ) streaks;
+$$;
+
+-- The user's active fortunes that pass a rule's category / hour / weekday filters, in local time.
+-- p_from / p_to optionally limit them to a period (inclusive local dates), as challenges do.
+CREATE OR REPLACE FUNCTION public.achievement_rule_fortunes(
+  p_user_id uuid,
+  p_rule jsonb,
+  p_tz text,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS TABLE(category text, local_ts timestamp, fortune_value numeric, currency text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      CASE WHEN p_rule ? 'categories'
+        THEN ARRAY(SELECT jsonb_array_elements_text(p_rule->'categories')) END AS categories,
+      CASE WHEN p_rule ? 'weekdays'
+        THEN ARRAY(SELECT (jsonb_array_elements_text(p_rule->'weekdays'))::integer) END AS weekdays,
+      (p_rule #>> '{hours,from}')::integer AS hour_from,
+      (p_rule #>> '{hours,to}')::integer AS hour_to
+  ),
+  local_fortunes AS (
+    SELECT f.category, f.created_at AT TIME ZONE p_tz AS local_ts, f.fortune_value, f.currency
+    FROM public.fortunes f
+    WHERE f.user_id = p_user_id
+      AND f.deleted_at IS NULL
+  )
+  SELECT lf.category, lf.local_ts, lf.fortune_value, lf.currency
+  FROM local_fortunes lf
+  CROSS JOIN params p
+  WHERE (
+      p.categories IS NULL
+      OR lf.category = ANY(p.categories)
+      OR lf.category IN (
+        SELECT c.name FROM public.custom_categories c
+        WHERE c.user_id = p_user_id AND c.parent_name = ANY(p.categories)
+      )
+    )
+    AND (p_from IS NULL OR lf.local_ts::date >= p_from)
+    AND (p_to IS NULL OR lf.local_ts::date <= p_to)
+    AND (p.weekdays IS NULL OR extract(isodow FROM lf.local_ts)::integer = ANY(p.weekdays))
+    AND (
+      p.hour_from IS NULL
+      OR CASE
+        WHEN p.hour_from < p.hour_to
+          THEN extract(hour FROM lf.local_ts) >= p.hour_from AND extract(hour FROM lf.local_ts) < p.hour_to
+        ELSE extract(hour FROM lf.local_ts) >= p.hour_from OR extract(hour FROM lf.local_ts) < p.hour_to
+      END
+    );
+$$;
+
+-- Whether a lifestyle entry satisfies every condition of a rule
+CREATE OR REPLACE FUNCTION public.achievement_lifestyle_matches(p_entry public.lifestyle_entries, p_conditions jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_condition jsonb;
+  v_actual numeric;
+  v_expected numeric;
+BEGIN
+  FOR v_condition IN SELECT jsonb_array_elements(coalesce(p_conditions, '[]'::jsonb)) LOOP
+    IF v_condition->>'field' = 'mood' THEN
+      IF p_entry.mood IS DISTINCT FROM v_condition->>'value' THEN
+        RETURN false;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    v_actual := CASE v_condition->>'field'
+      WHEN 'energy_level' THEN p_entry.energy_level
+      WHEN 'dream_quality' THEN p_entry.dream_quality
+      WHEN 'sickness_level' THEN p_entry.sickness_level
+      WHEN 'sexual_appetite' THEN p_entry.sexual_appetite
+      WHEN 'sexual_performance' THEN p_entry.sexual_performance
+      WHEN 'exercise_duration' THEN p_entry.exercise_duration
+      WHEN 'alcohol_consumption' THEN p_entry.alcohol_consumption
+      WHEN 'room_temperature' THEN p_entry.room_temperature
+    END;
+    v_expected := (v_condition->>'value')::numeric;
+
+    -- Parenthesized: PL/pgSQL would otherwise end the IF condition at the CASE's first THEN
+    IF v_actual IS NULL OR NOT (CASE v_condition->>'op'
+      WHEN '>=' THEN v_actual >= v_expected
+      WHEN '>' THEN v_actual > v_expected
+      WHEN '<=' THEN v_actual <= v_expected
+      WHEN '<' THEN v_actual < v_expected
+      WHEN '=' THEN v_actual = v_expected
+      ELSE false
+    END) THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+  RETURN true;
+END;
+$$;
+
+-- The rule interpreter: a user's current value for one rule, optionally counted only between p_from and
+-- p_to (inclusive local dates; see achievement_rule_fortunes)
+CREATE OR REPLACE FUNCTION public.achievement_rule_progress(
+  p_user_id uuid,
+  p_rule jsonb,
+  p_tz text,
+  p_from date DEFAULT NULL,
+  p_to date DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_measure text := p_rule->>'measure';
+  v_result numeric := 0;
+  v_currency text;
+BEGIN
+  CASE p_rule->>'source'
+    WHEN 'fortunes' THEN
+      IF v_measure = 'value_sum' THEN
+        -- Values without a currency are in the display currency; currencies without a rate are left out
+        SELECT p.display_currency INTO v_currency FROM public.profiles p WHERE p.user_id = p_user_id;
+
+        SELECT coalesce(sum(f.fortune_value / coalesce(r.rate_per_usd, d.rate_per_usd)), 0) INTO v_result
+        FROM public.achievement_rule_fortunes(p_user_id, p_rule, p_tz, p_from, p_to) f
+        LEFT JOIN public.exchange_rates r
+          ON r.user_id = p_user_id AND r.currency = coalesce(f.currency, v_currency)
+        LEFT JOIN public.default_exchange_rates d
+          ON d.currency = coalesce(f.currency, v_currency)
+        WHERE f.fortune_value > 0
+          AND coalesce(r.rate_per_usd, d.rate_per_usd) > 0
+          AND NOT EXISTS (
+            SELECT 1 FROM public.custom_categories c
+            WHERE c.user_id = p_user_id
+              AND lower(c.name) = lower(f.category)
+              AND c.value_unit <> 'currency'
+          );
+        v_result := round(v_result, 2);
+      ELSE
+        SELECT CASE v_measure
+            WHEN 'count' THEN count(*)
+            WHEN 'days' THEN count(DISTINCT f.local_ts::date)
+            WHEN 'streak' THEN public.achievement_longest_streak(array_agg(f.local_ts::date))
+            WHEN 'weeks' THEN count(DISTINCT date_trunc('week', f.local_ts))
+            WHEN 'categories' THEN count(DISTINCT f.category)
+          END
+        INTO v_result
+        FROM public.achievement_rule_fortunes(p_user_id, p_rule, p_tz, p_from, p_to) f;
+      END IF;
+
+    WHEN 'lifestyle' THEN
+      SELECT CASE v_measure
+          WHEN 'days' THEN count(DISTINCT l.date)
+          WHEN 'streak' THEN public.achievement_longest_streak(array_agg(l.date))
+        END
+      INTO v_result
+      FROM public.lifestyle_entries l
+      WHERE l.user_id = p_user_id
+        AND (p_from IS NULL OR l.date >= p_from)
+        AND (p_to IS NULL OR l.date <= p_to)
+        AND public.achievement_lifestyle_matches(l, p_rule->'conditions');
+
+    WHEN 'profile' THEN
+      SELECT CASE WHEN p.created_at < (p_rule->>'before')::date THEN 1 ELSE 0 END INTO v_result
+      FROM public.profiles p
+      WHERE p.user_id = p_user_id;
+
+    WHEN 'tutorial' THEN
+      SELECT count(*) INTO v_result
+      FROM auth.users u
+      CROSS JOIN LATERAL jsonb_each(coalesce(u.raw_user_meta_data -> 'tutorials_seen', '{}'::jsonb)) AS seen(step, value)
+      WHERE u.id = p_user_id
+        AND seen.value = 'true'::jsonb;
+
+    ELSE
+      v_result := 0;
+  END CASE;
+
+  RETURN coalesce(v_result, 0);
+END;
+$$;
+
+-- The existing catalog, expressed as rules
+UPDATE public.achievements a
+SET rule = r.rule::jsonb
+FROM (VALUES
+  ('1', '{"source": "fortunes", "measure": "count"}'),
+  ('2', '{"source": "fortunes", "measure": "count"}'),
+  ('3', '{"source": "fortunes", "measure": "count"}'),
+  ('4', '{"source": "fortunes", "measure": "count"}'),
+  ('5', '{"source": "fortunes", "measure": "count"}'),
+  ('6', '{"source": "fortunes", "measure": "count", "categories": ["Wealth"]}'),
+  ('7', '{"source": "fortunes", "measure": "count", "categories": ["Wealth"]}'),
+  ('8', '{"source": "fortunes", "measure": "count", "categories": ["Love"]}'),
+  ('9', '{"source": "fortunes", "measure": "count", "categories": ["Love"]}'),
+  ('10', '{"source": "fortunes", "measure": "count", "categories": ["Health"]}'),
+  ('11', '{"source": "fortunes", "measure": "count", "categories": ["Opportunity"]}'),
+  ('12', '{"source": "fortunes", "measure": "streak"}'),
+  ('13', '{"source": "fortunes", "measure": "streak"}'),
+  ('14', '{"source": "fortunes", "measure": "value_sum"}'),
+  ('15', '{"source": "fortunes", "measure": "value_sum"}'),
+  ('16', '{"source": "fortunes", "measure": "categories"}'),
+  ('17', '{"source": "fortunes", "measure": "categories"}'),
+  ('18', '{"source": "fortunes", "measure": "count", "hours": {"from": 0, "to": 8}}'),
+  ('19', '{"source": "fortunes", "measure": "count", "hours": {"from": 22, "to": 24}}'),
+  ('20', '{"source": "fortunes", "measure": "weeks", "weekdays": [6, 7]}'),
+  ('beta-tester', '{"source": "profile", "measure": "joined_before", "before": "2026-01-01"}'),
+  ('lifestyle-7', '{"source": "lifestyle", "measure": "days"}'),
+  ('lifestyle-30', '{"source": "lifestyle", "measure": "days"}'),
+  ('tutorial-master', '{"source": "tutorial", "measure": "steps"}')
+) AS r(id, rule)
+WHERE a.id = r.id;
+
+INSERT INTO public.achievements (id, title, description, icon, required_count, rule, sort_order)
+VALUES (
+  'energized-week',
+  'Energized Week',
+  'Log 7 days in a row with energy of 4 or more',
+  '⚡',
+  7,
+  '{"source": "lifestyle", "measure": "streak", "conditions": [{"field": "energy_level", "op": ">=", "value": 4}]}',
+  225
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Evaluation now goes through the interpreter; metric is replaced by rule
+CREATE OR REPLACE FUNCTION public.achievements_evaluate_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+BEGIN
+  SELECT p.timezone INTO v_tz
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id;
+
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id, progress, unlocked_at, updated_at)
+  SELECT
+    p_user_id,
+    a.id,
+    m.progress,
+    CASE WHEN m.progress >= a.required_count THEN now() END,
+    now()
+  FROM public.achievements a
+  CROSS JOIN LATERAL (
+    SELECT public.achievement_rule_progress(p_user_id, a.rule, v_tz) AS progress
+  ) m
+  WHERE a.rule IS NOT NULL
+  ON CONFLICT (user_id, achievement_id) DO UPDATE
+  SET progress = EXCLUDED.progress,
+      unlocked_at = coalesce(ua.unlocked_at, EXCLUDED.unlocked_at),
+      updated_at = now()
+  -- Unchanged rows aren't rewritten, so Realtime only reports real progress
+  WHERE ua.progress IS DISTINCT FROM EXCLUDED.progress
+     OR (ua.unlocked_at IS NULL AND EXCLUDED.unlocked_at IS NOT NULL);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.achievements_list()
+RETURNS TABLE(
+  id text,
+  title text,
+  description text,
+  icon text,
+  required_count integer,
+  category text,
+  progress numeric,
+  unlocked_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.title, a.description, a.icon, a.required_count, a.category,
+         coalesce(ua.progress, 0), ua.unlocked_at
+  FROM public.achievements a
+  LEFT JOIN public.user_achievements ua
+    ON ua.achievement_id = a.id AND ua.user_id = auth.uid()
+  WHERE a.rule IS NOT NULL
+    AND auth.uid() IS NOT NULL
+  ORDER BY a.sort_order, a.id;
+$$;
+
+ALTER TABLE public.achievements DROP CONSTRAINT IF EXISTS achievements_metric;
+ALTER TABLE public.achievements DROP COLUMN IF EXISTS metric;
+
+REVOKE ALL ON FUNCTION public.achievement_rule_fortunes(uuid, jsonb, text, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.achievement_rule_progress(uuid, jsonb, text, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.achievement_lifestyle_matches(public.lifestyle_entries, jsonb) FROM PUBLIC, anon, authenticated;
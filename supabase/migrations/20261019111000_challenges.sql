@@ -0,0 +1,221 @@
+-- Time-limited challenges ("log a Love fortune on 10 days this month"). A challenge is an
+-- achievement rule (see 20261019110000_achievement_rules.sql) counted only between starts_on and
+-- ends_on, as calendar days in the user's timezone. Progress is recorded while the challenge runs
+-- and frozen once it ends, so user_challenges doubles as the challenge history; completed
+-- challenges are shown as badges.
+
+CREATE TABLE IF NOT EXISTS public.challenges (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  required_count INTEGER NOT NULL,
+  rule JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT challenges_period CHECK (starts_on <= ends_on),
+  CONSTRAINT challenges_required_count CHECK (required_count > 0)
+);
+
+ALTER TABLE public.challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Challenges are readable by signed-in users"
+ON public.challenges
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TABLE IF NOT EXISTS public.user_challenges (
+  user_id UUID NOT NULL,
+  challenge_id TEXT NOT NULL REFERENCES public.challenges (id) ON DELETE CASCADE,
+  progress NUMERIC NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, challenge_id)
+);
+
+-- Read-only for users; only challenges_evaluate_user writes to it
+ALTER TABLE public.user_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own challenges"
+ON public.user_challenges
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Challenges take the achievement rule grammar; the period comes from starts_on / ends_on, so only
+-- sources with dated rows make sense
+CREATE OR REPLACE FUNCTION public.challenges_validate_rule()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_errors text[];
+BEGIN
+  v_errors := public.achievement_rule_errors(NEW.rule);
+  IF cardinality(v_errors) = 0 AND NEW.rule->>'source' NOT IN ('fortunes', 'lifestyle') THEN
+    v_errors := ARRAY[format('challenges need a fortunes or lifestyle rule, not %L', NEW.rule->>'source')];
+  END IF;
+  IF cardinality(v_errors) > 0 THEN
+    RAISE EXCEPTION 'Invalid rule for challenge %: %', NEW.id, array_to_string(v_errors, '; ');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS challenges_validate_rule ON public.challenges;
+CREATE TRIGGER challenges_validate_rule
+BEFORE INSERT OR UPDATE OF rule ON public.challenges
+FOR EACH ROW EXECUTE FUNCTION public.challenges_validate_rule();
+
+-- Re-evaluates the challenges running today (in the user's timezone). Internal.
+CREATE OR REPLACE FUNCTION public.challenges_evaluate_user(p_user_id uuid, p_tz text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE p_tz)::date;
+BEGIN
+  INSERT INTO public.user_challenges AS uc (user_id, challenge_id, progress, completed_at, updated_at)
+  SELECT
+    p_user_id,
+    c.id,
+    m.progress,
+    CASE WHEN m.progress >= c.required_count THEN now() END,
+    now()
+  FROM public.challenges c
+  CROSS JOIN LATERAL (
+    SELECT public.achievement_rule_progress(p_user_id, c.rule, p_tz, c.starts_on, c.ends_on) AS progress
+  ) m
+  WHERE v_today BETWEEN c.starts_on AND c.ends_on
+  ON CONFLICT (user_id, challenge_id) DO UPDATE
+  SET progress = EXCLUDED.progress,
+      completed_at = coalesce(uc.completed_at, EXCLUDED.completed_at),
+      updated_at = now()
+  WHERE uc.progress IS DISTINCT FROM EXCLUDED.progress
+     OR (uc.completed_at IS NULL AND EXCLUDED.completed_at IS NOT NULL);
+END;
+$$;
+
+-- Challenges are evaluated together with achievements (same triggers and app-start evaluation)
+CREATE OR REPLACE FUNCTION public.achievements_evaluate_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+BEGIN
+  SELECT p.timezone INTO v_tz
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id;
+
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id, progress, unlocked_at, updated_at)
+  SELECT
+    p_user_id,
+    a.id,
+    m.progress,
+    CASE WHEN m.progress >= a.required_count THEN now() END,
+    now()
+  FROM public.achievements a
+  CROSS JOIN LATERAL (
+    SELECT public.achievement_rule_progress(p_user_id, a.rule, v_tz) AS progress
+  ) m
+  WHERE a.rule IS NOT NULL
+  ON CONFLICT (user_id, achievement_id) DO UPDATE
+  SET progress = EXCLUDED.progress,
+      unlocked_at = coalesce(ua.unlocked_at, EXCLUDED.unlocked_at),
+      updated_at = now()
+  -- Unchanged rows aren't rewritten, so Realtime only reports real progress
+  WHERE ua.progress IS DISTINCT FROM EXCLUDED.progress
+     OR (ua.unlocked_at IS NULL AND EXCLUDED.unlocked_at IS NOT NULL);
+
+  PERFORM public.challenges_evaluate_user(p_user_id, v_tz);
+END;
+$$;
+
+-- Running and upcoming challenges plus every past one the caller took part in, newest first
+CREATE OR REPLACE FUNCTION public.challenges_list()
+RETURNS TABLE(
+  id text,
+  title text,
+  description text,
+  icon text,
+  starts_on date,
+  ends_on date,
+  required_count integer,
+  progress numeric,
+  completed_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.title, c.description, c.icon, c.starts_on, c.ends_on, c.required_count,
+         coalesce(uc.progress, 0), uc.completed_at
+  FROM public.challenges c
+  LEFT JOIN public.user_challenges uc
+    ON uc.challenge_id = c.id AND uc.user_id = auth.uid()
+  WHERE auth.uid() IS NOT NULL
+    AND c.starts_on <= current_date + 31
+    -- A day of slack either side of the server date covers every timezone
+    AND (uc.challenge_id IS NOT NULL OR c.ends_on >= current_date - 1)
+  ORDER BY c.starts_on DESC, c.id;
+$$;
+
+-- A first season of challenges, one per calendar month starting with the month after this migration
+-- runs; later challenges are added as data
+INSERT INTO public.challenges (id, title, description, icon, starts_on, ends_on, required_count, rule)
+SELECT
+  s.id,
+  s.title,
+  s.description,
+  s.icon,
+  m.month_start,
+  (m.month_start + interval '1 month - 1 day')::date,
+  s.required_count,
+  s.rule
+FROM (VALUES
+  (1, 'fortune-harvest', 'Fortune Harvest', 'Log fortunes on 15 days this month', '🍂', 15,
+    '{"source": "fortunes", "measure": "days"}'::jsonb),
+  (2, 'month-of-love', 'Month of Love', 'Log a Love fortune on 10 days this month', '💞', 10,
+    '{"source": "fortunes", "measure": "days", "categories": ["Love"]}'::jsonb),
+  (3, 'energy-glow', 'Energy Glow', 'Log 7 days in a row with energy of 4 or more', '✨', 7,
+    '{"source": "lifestyle", "measure": "streak", "conditions": [{"field": "energy_level", "op": ">=", "value": 4}]}'::jsonb),
+  (4, 'streak-month', 'Streak Month', 'Keep a 21-day fortune streak this month', '🎆', 21,
+    '{"source": "fortunes", "measure": "streak"}'::jsonb)
+) AS s(month_offset, id, title, description, icon, required_count, rule)
+CROSS JOIN LATERAL (
+  SELECT (date_trunc('month', current_date) + s.month_offset * interval '1 month')::date AS month_start
+) m
+ON CONFLICT (id) DO NOTHING;
+
+REVOKE ALL ON FUNCTION public.challenges_evaluate_user(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.challenges_list() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.challenges_list() TO authenticated;
+
+-- Completions reach every open session (see useRealtimeSync)
+ALTER TABLE public.user_challenges REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_challenges'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_challenges;
+  END IF;
+END $$;
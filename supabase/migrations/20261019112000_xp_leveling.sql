@@ -0,0 +1,268 @@
+-- Server-side XP and levels. XP is recomputed from the user's data whenever it changes (same
+-- triggers and app-start evaluation as achievements):
+--   each active fortune        xp_rules[impact_level] (small_step when unset)
+--   each day continuing a streak  xp_rules['streak_day'] (the first day of a run earns nothing extra)
+--   each lifestyle check-in day   xp_rules['lifestyle_day']
+-- The level is the highest level_thresholds row the XP reaches. Levels are never lost: deleting
+-- fortunes lowers XP but not the level, and the levels the app gave before this migration (one per
+-- five fortunes) are kept; the backfill below only raises them. Every level reached from now on is
+-- recorded in level_history, and profiles.level / profiles.xp can only be written by the evaluation.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS xp INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.xp_rules (
+  source TEXT PRIMARY KEY,
+  xp INTEGER NOT NULL CHECK (xp >= 0),
+  description TEXT
+);
+
+ALTER TABLE public.xp_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "XP rules are readable by signed-in users"
+ON public.xp_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO public.xp_rules (source, xp, description)
+VALUES
+  ('small_step', 10, 'Fortune with Small Step impact'),
+  ('milestone', 25, 'Fortune with Milestone impact'),
+  ('big_win', 50, 'Fortune with Big Win impact'),
+  ('streak_day', 5, 'Day of fortunes continuing a streak'),
+  ('lifestyle_day', 5, 'Day with a lifestyle check-in')
+ON CONFLICT (source) DO NOTHING;
+
+-- XP needed to reach each level; level 1 must need 0
+CREATE TABLE IF NOT EXISTS public.level_thresholds (
+  level INTEGER PRIMARY KEY CHECK (level >= 1),
+  xp_required INTEGER NOT NULL CHECK (xp_required >= 0),
+  CONSTRAINT level_thresholds_first_level CHECK (level > 1 OR xp_required = 0)
+);
+
+ALTER TABLE public.level_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Level thresholds are readable by signed-in users"
+ON public.level_thresholds
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- 25 * n * (n - 1): level 2 at 50 XP (five small steps, the old pace), then each level a bit further.
+-- Level 100 needs 247,500 XP, far beyond what years of daily fortunes earn.
+INSERT INTO public.level_thresholds (level, xp_required)
+SELECT n, 25 * n * (n - 1)
+FROM generate_series(1, 100) AS n
+ON CONFLICT (level) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.level_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  level INTEGER NOT NULL,
+  xp INTEGER NOT NULL,
+  reached_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, level)
+);
+
+-- Read-only for users; only xp_evaluate_user writes to it
+ALTER TABLE public.level_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own level history"
+ON public.level_history
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Direct updates from the app keep level and xp as they were
+CREATE OR REPLACE FUNCTION public.profiles_protect_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.level := OLD.level;
+    NEW.xp := OLD.xp;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_progress ON public.profiles;
+CREATE TRIGGER profiles_protect_progress
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.profiles_protect_progress();
+
+-- Recomputes one user's XP and records level-ups. Internal.
+CREATE OR REPLACE FUNCTION public.xp_evaluate_user(p_user_id uuid, p_tz text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fortune_xp bigint := 0;
+  v_streak_days bigint := 0;
+  v_lifestyle_days bigint := 0;
+  v_xp integer;
+  v_old_level integer;
+  v_level integer;
+BEGIN
+  SELECT coalesce(sum(r.xp), 0) INTO v_fortune_xp
+  FROM public.fortunes f
+  JOIN public.xp_rules r ON r.source = coalesce(f.impact_level::text, 'small_step')
+  WHERE f.user_id = p_user_id
+    AND f.deleted_at IS NULL;
+
+  -- Days minus runs = days that continue a run (consecutive days share a day - row number anchor)
+  SELECT count(*) - count(DISTINCT anchor) INTO v_streak_days
+  FROM (
+    SELECT day - (row_number() OVER (ORDER BY day))::integer AS anchor
+    FROM (
+      SELECT DISTINCT (f.created_at AT TIME ZONE p_tz)::date AS day
+      FROM public.fortunes f
+      WHERE f.user_id = p_user_id
+        AND f.deleted_at IS NULL
+    ) days
+  ) runs;
+
+  SELECT count(DISTINCT l.date) INTO v_lifestyle_days
+  FROM public.lifestyle_entries l
+  WHERE l.user_id = p_user_id;
+
+  v_xp := v_fortune_xp
+    + v_streak_days * coalesce((SELECT xp FROM public.xp_rules WHERE source = 'streak_day'), 0)
+    + v_lifestyle_days * coalesce((SELECT xp FROM public.xp_rules WHERE source = 'lifestyle_day'), 0);
+
+  SELECT coalesce(max(t.level), 1) INTO v_level
+  FROM public.level_thresholds t
+  WHERE t.xp_required <= v_xp;
+
+  SELECT coalesce(p.level, 1) INTO v_old_level
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_level > v_old_level THEN
+    INSERT INTO public.level_history (user_id, level, xp)
+    SELECT p_user_id, reached, v_xp
+    FROM generate_series(v_old_level + 1, v_level) AS reached
+    ON CONFLICT (user_id, level) DO NOTHING;
+  END IF;
+
+  UPDATE public.profiles p
+  SET xp = v_xp,
+      level = greatest(v_old_level, v_level),
+      avatar_url = CASE
+        WHEN v_level > v_old_level
+          THEN coalesce((SELECT a.url FROM public.avatars a WHERE a.level = v_level), p.avatar_url)
+        ELSE p.avatar_url
+      END
+  WHERE p.user_id = p_user_id
+    AND (p.xp IS DISTINCT FROM v_xp OR v_level > v_old_level);
+END;
+$$;
+
+-- XP is evaluated together with achievements and challenges
+CREATE OR REPLACE FUNCTION public.achievements_evaluate_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+BEGIN
+  SELECT p.timezone INTO v_tz
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id;
+
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id, progress, unlocked_at, updated_at)
+  SELECT
+    p_user_id,
+    a.id,
+    m.progress,
+    CASE WHEN m.progress >= a.required_count THEN now() END,
+    now()
+  FROM public.achievements a
+  CROSS JOIN LATERAL (
+    SELECT public.achievement_rule_progress(p_user_id, a.rule, v_tz) AS progress
+  ) m
+  WHERE a.rule IS NOT NULL
+  ON CONFLICT (user_id, achievement_id) DO UPDATE
+  SET progress = EXCLUDED.progress,
+      unlocked_at = coalesce(ua.unlocked_at, EXCLUDED.unlocked_at),
+      updated_at = now()
+  -- Unchanged rows aren't rewritten, so Realtime only reports real progress
+  WHERE ua.progress IS DISTINCT FROM EXCLUDED.progress
+     OR (ua.unlocked_at IS NULL AND EXCLUDED.unlocked_at IS NOT NULL);
+
+  PERFORM public.challenges_evaluate_user(p_user_id, v_tz);
+  PERFORM public.xp_evaluate_user(p_user_id, v_tz);
+END;
+$$;
+
+-- The caller's XP with the range of their current level (next_level_xp is null at the top level)
+CREATE OR REPLACE FUNCTION public.xp_status()
+RETURNS TABLE(
+  xp integer,
+  level integer,
+  level_xp integer,
+  next_level_xp integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.xp,
+         coalesce(p.level, 1),
+         coalesce((SELECT t.xp_required FROM public.level_thresholds t WHERE t.level = coalesce(p.level, 1)), 0),
+         (SELECT t.xp_required FROM public.level_thresholds t WHERE t.level = coalesce(p.level, 1) + 1)
+  FROM public.profiles p
+  WHERE p.user_id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION public.xp_evaluate_user(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.xp_status() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.xp_status() TO authenticated;
+
+-- Computes everyone's XP once. A user keeps the level the app gave them when the XP doesn't reach it;
+-- levels above it that the XP reaches are recorded in level_history (reached now).
+DO $$
+DECLARE
+  v_profile record;
+BEGIN
+  FOR v_profile IN SELECT p.user_id, p.timezone FROM public.profiles p LOOP
+    PERFORM public.xp_evaluate_user(
+      v_profile.user_id,
+      CASE
+        WHEN EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_profile.timezone) THEN v_profile.timezone
+        ELSE 'UTC'
+      END
+    );
+  END LOOP;
+END $$;
+
+-- Level-ups reach every open session (see useRealtimeSync)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'level_history'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.level_history;
+  END IF;
+END $$;
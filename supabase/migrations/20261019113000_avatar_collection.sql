@@ -0,0 +1,372 @@
+-- Avatar collection. Besides the one-per-level avatars, an avatar can be unlocked by an achievement
+-- or by a subscription tier. Users pick any unlocked avatar (profiles.selected_avatar_id); without a
+-- pick they show the avatar of the highest level they have reached. profiles.avatar_url always holds
+-- the displayed avatar, so friends lists and leaderboards show the same one. It is kept in sync by
+-- the server (selection, level-ups, lost unlocks) and can't be written from the app.
+
+ALTER TABLE public.avatars
+  ALTER COLUMN level DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS unlock_kind TEXT NOT NULL DEFAULT 'level',
+  ADD COLUMN IF NOT EXISTS achievement_id TEXT REFERENCES public.achievements (id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS required_tier TEXT;
+
+ALTER TABLE public.avatars
+  DROP CONSTRAINT IF EXISTS avatars_unlock;
+
+ALTER TABLE public.avatars
+  ADD CONSTRAINT avatars_unlock CHECK (
+    (unlock_kind = 'level' AND level IS NOT NULL)
+    OR (unlock_kind = 'achievement' AND achievement_id IS NOT NULL)
+    OR (unlock_kind = 'tier' AND required_tier IN ('essential', 'growth', 'pro', 'lifetime'))
+  );
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS selected_avatar_id UUID REFERENCES public.avatars (id) ON DELETE SET NULL;
+
+-- The user's subscriptions that currently give access: an active lifetime purchase, or an active /
+-- trialing subscription whose paid period hasn't ended. The one definition of a paid plan on the
+-- server (avatars, fortune_plan_capacity, validate-and-insert-fortune through has_active_plan).
+CREATE OR REPLACE FUNCTION public.active_subscriptions(p_user_id uuid)
+RETURNS SETOF public.subscriptions
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.subscriptions s
+  WHERE s.user_id = p_user_id
+    AND (
+      (s.is_lifetime = true AND s.status = 'active')
+      OR (s.status IN ('active', 'trialing') AND s.current_period_end >= now())
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_active_plan(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.active_subscriptions(p_user_id));
+$$;
+
+-- The user's plan rank: 0 free, 1 essential, 2 growth, 3 pro, 4 lifetime
+CREATE OR REPLACE FUNCTION public.avatar_tier_rank(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(max(
+    CASE
+      WHEN s.is_lifetime THEN 4
+      ELSE coalesce(array_position(ARRAY['essential', 'growth', 'pro', 'lifetime'], s.tier), 0)
+    END
+  ), 0)
+  FROM public.active_subscriptions(p_user_id) s;
+$$;
+
+CREATE OR REPLACE FUNCTION public.avatar_is_unlocked(p_user_id uuid, p_avatar_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT CASE a.unlock_kind
+      WHEN 'level' THEN coalesce((SELECT p.level FROM public.profiles p WHERE p.user_id = p_user_id), 1) >= a.level
+      WHEN 'achievement' THEN EXISTS (
+        SELECT 1 FROM public.user_achievements ua
+        WHERE ua.user_id = p_user_id
+          AND ua.achievement_id = a.achievement_id
+          AND ua.unlocked_at IS NOT NULL
+      )
+      WHEN 'tier' THEN public.avatar_tier_rank(p_user_id)
+        >= array_position(ARRAY['essential', 'growth', 'pro', 'lifetime'], a.required_tier)
+      ELSE false
+    END
+    FROM public.avatars a
+    WHERE a.id = p_avatar_id
+  ), false);
+$$;
+
+-- The selected avatar while it is still unlocked, otherwise the highest level avatar reached
+CREATE OR REPLACE FUNCTION public.avatar_displayed_id(p_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT p.selected_avatar_id
+      FROM public.profiles p
+      WHERE p.user_id = p_user_id
+        AND p.selected_avatar_id IS NOT NULL
+        AND public.avatar_is_unlocked(p_user_id, p.selected_avatar_id)
+    ),
+    (
+      SELECT a.id
+      FROM public.avatars a
+      WHERE a.unlock_kind = 'level'
+        AND a.level <= coalesce((SELECT p.level FROM public.profiles p WHERE p.user_id = p_user_id), 1)
+      ORDER BY a.level DESC
+      LIMIT 1
+    )
+  );
+$$;
+
+-- Writes the displayed avatar to the profile and drops a selection that is no longer unlocked
+-- (e.g. the subscription ended). Internal.
+CREATE OR REPLACE FUNCTION public.avatar_sync_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_displayed uuid := public.avatar_displayed_id(p_user_id);
+  v_url text;
+BEGIN
+  SELECT a.url INTO v_url FROM public.avatars a WHERE a.id = v_displayed;
+
+  UPDATE public.profiles p
+  SET selected_avatar_id = CASE WHEN p.selected_avatar_id = v_displayed THEN p.selected_avatar_id END,
+      avatar_url = coalesce(v_url, p.avatar_url)
+  WHERE p.user_id = p_user_id
+    AND (
+      p.selected_avatar_id IS DISTINCT FROM (CASE WHEN p.selected_avatar_id = v_displayed THEN p.selected_avatar_id END)
+      OR p.avatar_url IS DISTINCT FROM coalesce(v_url, p.avatar_url)
+    );
+END;
+$$;
+
+-- Direct updates from the app keep level, xp and the avatar as they were
+CREATE OR REPLACE FUNCTION public.profiles_protect_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.level := OLD.level;
+    NEW.xp := OLD.xp;
+    NEW.avatar_url := OLD.avatar_url;
+    NEW.selected_avatar_id := OLD.selected_avatar_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Level-ups no longer pick the avatar themselves; avatar_sync_user runs after them
+CREATE OR REPLACE FUNCTION public.xp_evaluate_user(p_user_id uuid, p_tz text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fortune_xp bigint := 0;
+  v_streak_days bigint := 0;
+  v_lifestyle_days bigint := 0;
+  v_xp integer;
+  v_old_level integer;
+  v_level integer;
+BEGIN
+  SELECT coalesce(sum(r.xp), 0) INTO v_fortune_xp
+  FROM public.fortunes f
+  JOIN public.xp_rules r ON r.source = coalesce(f.impact_level::text, 'small_step')
+  WHERE f.user_id = p_user_id
+    AND f.deleted_at IS NULL;
+
+  -- Days minus runs = days that continue a run (consecutive days share a day - row number anchor)
+  SELECT count(*) - count(DISTINCT anchor) INTO v_streak_days
+  FROM (
+    SELECT day - (row_number() OVER (ORDER BY day))::integer AS anchor
+    FROM (
+      SELECT DISTINCT (f.created_at AT TIME ZONE p_tz)::date AS day
+      FROM public.fortunes f
+      WHERE f.user_id = p_user_id
+        AND f.deleted_at IS NULL
+    ) days
+  ) runs;
+
+  SELECT count(DISTINCT l.date) INTO v_lifestyle_days
+  FROM public.lifestyle_entries l
+  WHERE l.user_id = p_user_id;
+
+  v_xp := v_fortune_xp
+    + v_streak_days * coalesce((SELECT xp FROM public.xp_rules WHERE source = 'streak_day'), 0)
+    + v_lifestyle_days * coalesce((SELECT xp FROM public.xp_rules WHERE source = 'lifestyle_day'), 0);
+
+  SELECT coalesce(max(t.level), 1) INTO v_level
+  FROM public.level_thresholds t
+  WHERE t.xp_required <= v_xp;
+
+  SELECT coalesce(p.level, 1) INTO v_old_level
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_level > v_old_level THEN
+    INSERT INTO public.level_history (user_id, level, xp)
+    SELECT p_user_id, reached, v_xp
+    FROM generate_series(v_old_level + 1, v_level) AS reached
+    ON CONFLICT (user_id, level) DO NOTHING;
+  END IF;
+
+  UPDATE public.profiles p
+  SET xp = v_xp,
+      level = greatest(v_old_level, v_level)
+  WHERE p.user_id = p_user_id
+    AND (p.xp IS DISTINCT FROM v_xp OR v_level > v_old_level);
+END;
+$$;
+
+-- The displayed avatar is brought up to date after every evaluation
+CREATE OR REPLACE FUNCTION public.achievements_evaluate_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tz text;
+BEGIN
+  SELECT p.timezone INTO v_tz
+  FROM public.profiles p
+  WHERE p.user_id = p_user_id;
+
+  IF v_tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_tz) THEN
+    v_tz := 'UTC';
+  END IF;
+
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id, progress, unlocked_at, updated_at)
+  SELECT
+    p_user_id,
+    a.id,
+    m.progress,
+    CASE WHEN m.progress >= a.required_count THEN now() END,
+    now()
+  FROM public.achievements a
+  CROSS JOIN LATERAL (
+    SELECT public.achievement_rule_progress(p_user_id, a.rule, v_tz) AS progress
+  ) m
+  WHERE a.rule IS NOT NULL
+  ON CONFLICT (user_id, achievement_id) DO UPDATE
+  SET progress = EXCLUDED.progress,
+      unlocked_at = coalesce(ua.unlocked_at, EXCLUDED.unlocked_at),
+      updated_at = now()
+  -- Unchanged rows aren't rewritten, so Realtime only reports real progress
+  WHERE ua.progress IS DISTINCT FROM EXCLUDED.progress
+     OR (ua.unlocked_at IS NULL AND EXCLUDED.unlocked_at IS NOT NULL);
+
+  PERFORM public.challenges_evaluate_user(p_user_id, v_tz);
+  PERFORM public.xp_evaluate_user(p_user_id, v_tz);
+  PERFORM public.avatar_sync_user(p_user_id);
+END;
+$$;
+
+-- Picks the caller's displayed avatar; null goes back to following the level
+CREATE OR REPLACE FUNCTION public.avatar_select(p_avatar_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_avatar_id IS NOT NULL AND NOT public.avatar_is_unlocked(v_user_id, p_avatar_id) THEN
+    RAISE EXCEPTION 'This avatar is locked';
+  END IF;
+
+  UPDATE public.profiles
+  SET selected_avatar_id = p_avatar_id
+  WHERE user_id = v_user_id;
+
+  PERFORM public.avatar_sync_user(v_user_id);
+END;
+$$;
+
+-- Every avatar with how it is unlocked and whether the caller has it, shows it or picked it
+CREATE OR REPLACE FUNCTION public.avatars_collection()
+RETURNS TABLE(
+  id uuid,
+  title text,
+  url text,
+  unlock_kind text,
+  level integer,
+  achievement_id text,
+  achievement_title text,
+  required_tier text,
+  unlocked boolean,
+  selected boolean,
+  displayed boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH me AS (
+    SELECT p.user_id, p.selected_avatar_id, public.avatar_displayed_id(p.user_id) AS displayed_id
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid()
+  )
+  SELECT a.id, a.title, a.url, a.unlock_kind, a.level, a.achievement_id, ach.title, a.required_tier,
+         public.avatar_is_unlocked(me.user_id, a.id),
+         a.id IS NOT DISTINCT FROM me.selected_avatar_id,
+         a.id IS NOT DISTINCT FROM me.displayed_id
+  FROM public.avatars a
+  CROSS JOIN me
+  LEFT JOIN public.achievements ach ON ach.id = a.achievement_id
+  ORDER BY CASE a.unlock_kind WHEN 'level' THEN 0 WHEN 'achievement' THEN 1 ELSE 2 END, a.level, a.title;
+$$;
+
+REVOKE ALL ON FUNCTION public.active_subscriptions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.has_active_plan(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.avatar_tier_rank(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.avatar_is_unlocked(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.avatar_displayed_id(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.avatar_sync_user(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.avatar_select(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.avatar_select(uuid) TO authenticated;
+REVOKE ALL ON FUNCTION public.avatars_collection() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.avatars_collection() TO authenticated;
+
+-- The first non-level avatars. A row only goes in once its image is in the avatars bucket, so nobody
+-- unlocks a broken image; upload the missing files and run this statement again (see
+-- docs/EDGE_FUNCTIONS_DEPLOYMENT.md, "Avatar Images").
+INSERT INTO public.avatars (unlock_kind, achievement_id, required_tier, url, title)
+SELECT v.unlock_kind, v.achievement_id, v.required_tier, v.url, v.title
+FROM (VALUES
+  ('achievement', '13', NULL,
+    'https://pegiensgnptpdnfopnoj.supabase.co/storage/v1/object/public/avatars/achievement-consistency-king.gif',
+    'Consistency King'),
+  ('tier', NULL, 'essential',
+    'https://pegiensgnptpdnfopnoj.supabase.co/storage/v1/object/public/avatars/tier-essential.gif',
+    'Golden Patron'),
+  ('tier', NULL, 'lifetime',
+    'https://pegiensgnptpdnfopnoj.supabase.co/storage/v1/object/public/avatars/tier-lifetime.gif',
+    'Eternal Patron')
+) AS v(unlock_kind, achievement_id, required_tier, url, title)
+WHERE NOT EXISTS (SELECT 1 FROM public.avatars a WHERE a.url = v.url)
+  AND EXISTS (
+    SELECT 1 FROM storage.objects o
+    WHERE o.bucket_id = 'avatars'
+      AND o.name = substring(v.url FROM '/object/public/avatars/(.*)$')
+  );
@@ -0,0 +1,90 @@
+-- Bulk import of historical fortunes. fortune_import inserts a batch of rows in one statement and
+-- enforces the plan limits on the server: the same rules as validate-and-insert-fortune, except that
+-- restricted free users (trial over or 100 fortunes reached) can't import at all, since imported
+-- fortunes are backdated and the one-a-day allowance is for today's fortune. Achievements are not
+-- evaluated per batch; the importer calls achievements_evaluate once after the last one.
+
+-- How many more fortunes the user's plan allows: NULL when unlimited (has_active_plan), during the
+-- 60-day free trial what's left of its 100 fortunes, otherwise 0
+CREATE OR REPLACE FUNCTION public.fortune_plan_capacity(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.has_active_plan(p_user_id) THEN NULL
+    WHEN (SELECT p.created_at FROM public.profiles p WHERE p.user_id = p_user_id) > now() - interval '60 days'
+      THEN greatest(0, 100 - (
+        SELECT count(*)::integer FROM public.fortunes f
+        WHERE f.user_id = p_user_id AND f.deleted_at IS NULL
+      ))
+    ELSE 0
+  END;
+$$;
+
+-- Inserts up to the plan's remaining capacity, in the order given, and returns how many rows went in;
+-- rows past that count were left out because of the plan limit.
+-- p_rows: [{"text", "category", "created_at", "impact_level", "fortune_value", "currency"}, ...]
+CREATE OR REPLACE FUNCTION public.fortune_import(p_rows jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_capacity integer;
+  v_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'p_rows must be an array';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_rows) AS r(row)
+    WHERE coalesce(btrim(r.row->>'text'), '') = ''
+      OR coalesce(btrim(r.row->>'category'), '') = ''
+      OR length(r.row->>'category') > 100
+      OR (r.row->>'fortune_value')::numeric NOT BETWEEN 0 AND 1000000
+      OR (r.row->>'created_at')::timestamptz > now() + interval '1 day'
+  ) THEN
+    RAISE EXCEPTION 'Every row needs a text and a category, a value between 0 and 1000000 and a date that is not in the future';
+  END IF;
+
+  -- Concurrent imports of the same user wait here, so they can't both spend the same capacity
+  PERFORM pg_advisory_xact_lock(hashtext('fortune_import:' || v_user_id::text));
+
+  v_capacity := public.fortune_plan_capacity(v_user_id);
+
+  -- Achievements, challenges, XP and avatars are evaluated once after the last batch
+  -- (achievements_evaluate), not after every batch
+  PERFORM set_config('fortune_magnet.defer_achievements', 'on', true);
+
+  INSERT INTO public.fortunes (user_id, text, category, fortune_level, fortune_value, currency, impact_level, created_at)
+  SELECT
+    v_user_id,
+    public.encrypt_fortune_text(r.row->>'text'),
+    btrim(r.row->>'category'),
+    0,
+    (r.row->>'fortune_value')::numeric,
+    upper(r.row->>'currency'),
+    coalesce((r.row->>'impact_level')::fortune_impact_level, 'small_step'),
+    coalesce((r.row->>'created_at')::timestamptz, now())
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(row, position)
+  WHERE v_capacity IS NULL OR r.position <= v_capacity
+  ORDER BY r.position;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.fortune_plan_capacity(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fortune_import(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fortune_import(jsonb) TO authenticated;
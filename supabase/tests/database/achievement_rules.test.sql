@@ -0,0 +1,379 @@
+-- Achievement rules: the validator (achievement_rule_errors, enforced by the achievements trigger) and
+-- the interpreter (achievement_rule_progress) against a fixed history in known local times.
+-- Run with `supabase test db`; everything happens in one transaction that is rolled back.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SET LOCAL search_path = public, extensions;
+
+SELECT plan(49);
+
+-- Fixtures are inserted directly; skip the evaluation triggers, only the interpreter is under test
+SET LOCAL fortune_magnet.defer_achievements = 'on';
+
+-- ---------------------------------------------------------------------------------------------
+-- Validator
+-- ---------------------------------------------------------------------------------------------
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count"}'),
+  '{}'::text[],
+  'a plain fortune count is valid'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "weeks", "categories": ["Wealth"], "hours": {"from": 22, "to": 6}, "weekdays": [6, 7]}'),
+  '{}'::text[],
+  'category, wrapping hour window and weekday filters are valid together'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "lifestyle", "measure": "streak", "conditions": [{"field": "energy_level", "op": ">=", "value": 4}, {"field": "mood", "op": "=", "value": "good"}]}'),
+  '{}'::text[],
+  'numeric and mood lifestyle conditions are valid'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "profile", "measure": "joined_before", "before": "2026-01-01"}'),
+  '{}'::text[],
+  'a profile rule with a date is valid'
+);
+
+SELECT is(
+  achievement_rule_errors('[1, 2]'),
+  ARRAY['rule must be a JSON object'],
+  'a rule must be an object'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "stars", "measure": "count"}'),
+  ARRAY['unknown source ''stars'''],
+  'unknown sources are rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "lifestyle", "measure": "value_sum"}'),
+  ARRAY['measure ''value_sum'' is not available for lifestyle'],
+  'measures are checked per source'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count", "conditions": [{"field": "energy_level", "op": ">=", "value": 4}]}'),
+  ARRAY['fortunes rules do not take ''conditions'''],
+  'keys of another source are rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count", "categories": []}'),
+  ARRAY['categories must be a non-empty array of names'],
+  'an empty category filter is rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count", "hours": {"from": 8, "to": 8}}'),
+  ARRAY['hours must be whole hours with from 0-23, to 1-24 and from <> to'],
+  'an empty hour window is rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count", "hours": {"from": 7.5, "to": 9}}'),
+  ARRAY['hours must be whole hours with from 0-23, to 1-24 and from <> to'],
+  'hours must be whole'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count", "hours": {"from": 0, "to": 25}}'),
+  ARRAY['hours must be whole hours with from 0-23, to 1-24 and from <> to'],
+  'hours past 24 are rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "fortunes", "measure": "count", "weekdays": [0, 1]}'),
+  ARRAY['weekdays must be a non-empty array of ISO weekdays (1 = Monday … 7 = Sunday)'],
+  'weekdays are ISO 1-7'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "lifestyle", "measure": "days", "conditions": [{"field": "steps", "op": ">=", "value": 1}]}'),
+  ARRAY['unknown lifestyle field ''steps'''],
+  'unknown lifestyle fields are rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "lifestyle", "measure": "days", "conditions": [{"field": "energy_level", "op": "!=", "value": 1}]}'),
+  ARRAY['unknown operator ''!='''],
+  'unknown operators are rejected'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "lifestyle", "measure": "days", "conditions": [{"field": "energy_level", "op": ">=", "value": "high"}]}'),
+  ARRAY['condition on energy_level needs a numeric value'],
+  'numeric fields need numeric values'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "lifestyle", "measure": "days", "conditions": [{"field": "mood", "op": ">=", "value": "good"}]}'),
+  ARRAY['mood conditions must be {"field": "mood", "op": "=", "value": "<mood>"}'],
+  'mood only supports ='
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "profile", "measure": "joined_before"}'),
+  ARRAY['profile rules need a "before" date'],
+  'profile rules need a date'
+);
+
+SELECT is(
+  achievement_rule_errors('{"source": "profile", "measure": "joined_before", "before": "soon"}'),
+  ARRAY['before must be a date, got ''soon'''],
+  'before must parse as a date'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO achievements (id, title, description, icon, required_count, rule)
+    VALUES ('test-invalid-rule', 'Invalid', 'Invalid', '?', 1, '{"source": "stars", "measure": "count"}')$$,
+  'P0001',
+  'Invalid rule for achievement test-invalid-rule: unknown source ''stars''',
+  'the catalog refuses invalid rules'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO achievements (id, title, description, icon, required_count, rule)
+    VALUES ('test-valid-rule', 'Valid', 'Valid', '?', 1, '{"source": "fortunes", "measure": "count"}')$$,
+  'the catalog accepts valid rules'
+);
+
+-- ---------------------------------------------------------------------------------------------
+-- Interpreter fixtures: one user in UTC whose display currency is JPY
+-- ---------------------------------------------------------------------------------------------
+
+INSERT INTO auth.users (id, email, raw_user_meta_data)
+VALUES (
+  '00000000-0000-4000-8000-0000000000a1',
+  'achievement-rules@example.test',
+  '{"tutorials_seen": {"home": true, "stats": true, "journal": false}}'
+);
+
+INSERT INTO profiles (user_id)
+SELECT '00000000-0000-4000-8000-0000000000a1'
+WHERE NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = '00000000-0000-4000-8000-0000000000a1');
+
+UPDATE profiles
+SET created_at = '2025-06-01T00:00:00Z', timezone = 'UTC', display_currency = 'JPY'
+WHERE user_id = '00000000-0000-4000-8000-0000000000a1';
+
+INSERT INTO custom_categories (user_id, name, color, parent_name, has_numeric_value, value_unit)
+VALUES
+  ('00000000-0000-4000-8000-0000000000a1', 'Stocks', '#16a34a', 'Wealth', true, 'currency'),
+  ('00000000-0000-4000-8000-0000000000a1', 'Meditation', '#7c3aed', NULL, true, 'minutes');
+
+-- Mon 2 to Sun 8 March 2026 (one ISO week); 5 and 6 March have no active fortune
+INSERT INTO fortunes (user_id, text, category, created_at, fortune_value, currency, deleted_at)
+VALUES
+  ('00000000-0000-4000-8000-0000000000a1', 'raise', 'Wealth', '2026-03-02T07:00:00Z', 100, 'USD', NULL),
+  ('00000000-0000-4000-8000-0000000000a1', 'legacy value', 'Love', '2026-03-03T23:30:00Z', 1500, NULL, NULL),
+  ('00000000-0000-4000-8000-0000000000a1', 'refund', 'Health', '2026-03-04T12:00:00Z', 9.2, 'EUR', NULL),
+  ('00000000-0000-4000-8000-0000000000a1', 'dividend', 'Stocks', '2026-03-07T02:00:00Z', NULL, NULL, NULL),
+  ('00000000-0000-4000-8000-0000000000a1', 'offer', 'Opportunity', '2026-03-08T10:00:00Z', NULL, NULL, NULL),
+  ('00000000-0000-4000-8000-0000000000a1', 'calm', 'Meditation', '2026-03-08T11:00:00Z', 30, NULL, NULL),
+  ('00000000-0000-4000-8000-0000000000a1', 'trashed', 'Wealth', '2026-03-05T12:00:00Z', 1000, 'USD', now());
+
+-- 1-7 March energy >= 4 every day, 8 March low, 9-10 March high again
+INSERT INTO lifestyle_entries (user_id, date, energy_level, mood)
+VALUES
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-01', 4, 'very_good'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-02', 5, 'good'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-03', 4, 'good'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-04', 4, 'neutral'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-05', 4, 'good'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-06', 5, 'good'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-07', 4, 'neutral'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-08', 2, 'bad'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-09', 5, 'very_good'),
+  ('00000000-0000-4000-8000-0000000000a1', '2026-03-10', 5, 'good');
+
+-- ---------------------------------------------------------------------------------------------
+-- Interpreter: fortunes
+-- ---------------------------------------------------------------------------------------------
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count"}', 'UTC'),
+  6::numeric,
+  'count leaves out trashed fortunes'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "categories": ["Wealth"]}', 'UTC'),
+  2::numeric,
+  'a category filter includes its subcategories'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "categories": ["Love", "Health"]}', 'UTC'),
+  2::numeric,
+  'several categories are combined with OR'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "categories"}', 'UTC'),
+  6::numeric,
+  'categories counts distinct categories'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "hours": {"from": 6, "to": 12}}', 'UTC'),
+  3::numeric,
+  'an hour window includes from and excludes to'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "hours": {"from": 22, "to": 6}}', 'UTC'),
+  2::numeric,
+  'an hour window with from > to wraps past midnight'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "hours": {"from": 22, "to": 24}}', 'UTC'),
+  1::numeric,
+  'to = 24 runs until midnight'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "categories": ["Wealth"], "hours": {"from": 0, "to": 8}}', 'UTC'),
+  2::numeric,
+  'category and hour filters combine with AND'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "weekdays": [6, 7]}', 'UTC'),
+  3::numeric,
+  'weekdays filter by ISO weekday'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "count", "weekdays": [6, 7]}', 'America/New_York'),
+  2::numeric,
+  'weekdays are taken in the given timezone'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "weeks", "weekdays": [6, 7]}', 'UTC'),
+  1::numeric,
+  'weeks counts distinct ISO weeks'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "days"}', 'UTC'),
+  5::numeric,
+  'days counts distinct local days'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "streak"}', 'UTC'),
+  3::numeric,
+  'streak is the longest run of consecutive days'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "streak"}', 'Pacific/Honolulu'),
+  2::numeric,
+  'streak days are local days'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "value_sum"}', 'UTC'),
+  120::numeric,
+  'value_sum converts to USD, reads missing currencies as the display currency and skips other units'
+);
+
+INSERT INTO exchange_rates (user_id, currency, rate_per_usd)
+VALUES ('00000000-0000-4000-8000-0000000000a1', 'JPY', 100);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "value_sum"}', 'UTC'),
+  125::numeric,
+  'the user''s own exchange rates win over the defaults'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "value_sum", "categories": ["Wealth"]}', 'UTC'),
+  100::numeric,
+  'value_sum honours filters'
+);
+
+-- ---------------------------------------------------------------------------------------------
+-- Interpreter: period window (challenges)
+-- ---------------------------------------------------------------------------------------------
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "days"}', 'UTC', '2026-03-07', '2026-03-08'),
+  2::numeric,
+  'a period counts only the days between its bounds, inclusive'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "fortunes", "measure": "days"}', 'Pacific/Honolulu', '2026-03-07', '2026-03-08'),
+  1::numeric,
+  'period bounds are local dates'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', (SELECT rule FROM achievements WHERE id = 'energized-week'), 'UTC', '2026-03-03', '2026-03-10'),
+  5::numeric,
+  'a period cuts lifestyle streaks at its start'
+);
+
+-- ---------------------------------------------------------------------------------------------
+-- Interpreter: lifestyle, profile and tutorial
+-- ---------------------------------------------------------------------------------------------
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "lifestyle", "measure": "days"}', 'UTC'),
+  10::numeric,
+  'lifestyle days without conditions counts every entry'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', (SELECT rule FROM achievements WHERE id = 'energized-week'), 'UTC'),
+  7::numeric,
+  'energized-week: 7 days in a row with energy >= 4'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "lifestyle", "measure": "days", "conditions": [{"field": "energy_level", "op": ">=", "value": 5}]}', 'UTC'),
+  4::numeric,
+  'a numeric condition counts matching days'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "lifestyle", "measure": "streak", "conditions": [{"field": "energy_level", "op": ">", "value": 4}]}', 'UTC'),
+  2::numeric,
+  'a lifestyle streak breaks on a day that does not match'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "lifestyle", "measure": "days", "conditions": [{"field": "energy_level", "op": ">=", "value": 5}, {"field": "mood", "op": "=", "value": "very_good"}]}', 'UTC'),
+  1::numeric,
+  'all conditions must hold on the same day'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "profile", "measure": "joined_before", "before": "2026-01-01"}', 'UTC'),
+  1::numeric,
+  'joined_before is 1 for earlier sign-ups'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "profile", "measure": "joined_before", "before": "2025-01-01"}', 'UTC'),
+  0::numeric,
+  'joined_before is 0 for later sign-ups'
+);
+
+SELECT is(
+  achievement_rule_progress('00000000-0000-4000-8000-0000000000a1', '{"source": "tutorial", "measure": "steps"}', 'UTC'),
+  2::numeric,
+  'tutorial steps counts the steps marked seen'
+);
+
+SELECT * FROM finish();
+ROLLBACK;